@@ -15,6 +15,8 @@ import EnhancedErrorBoundary from "@/components/ui/enhanced-error-boundary";
 import { AIConfigProvider } from "@/contexts/AIConfigContext";
 import GlobalAIConfig from "@/components/ai/GlobalAIConfig";
 import { createOptimizedLazyComponent } from "@/lib/component-optimization";
+import { SHORT_LINK_ROUTES, SHORT_LINK_CONVERSION_ROUTES } from "@/lib/short-links";
+import { APP_ROUTES } from "@/lib/app-routes";
 
 
 // Enhanced lazy loading with retry logic and preloading
@@ -38,6 +40,7 @@ const CodeReviewToolPage = createOptimizedLazyComponent(() => import(/* webpackC
 // URL Shortener pages
 const URLShortenerPage = createOptimizedLazyComponent(() => import(/* webpackChunkName: "shortener-main" */ "@/pages/shorten/URLShortenerPage"));
 const URLRedirect = createOptimizedLazyComponent(() => import(/* webpackChunkName: "shortener-redirect" */ "@/components/shorten/URLRedirect"));
+const URLConversionCallback = createOptimizedLazyComponent(() => import(/* webpackChunkName: "shortener-conversion" */ "@/components/shorten/URLConversionCallback"));
 
 // Testing Playground pages - largest feature, separate chunk
 const PlaygroundRoutes = createOptimizedLazyComponent(() => import(/* webpackChunkName: "playground-main" */ "@/pages/playground/Playground"));
@@ -61,29 +64,34 @@ const router = createBrowserRouter(
   createRoutesFromElements(
     <Route element={<RouterWrapper />}>
       {/* Redirect from root to home page */}
-      <Route path="/" element={<Navigate to="/home" replace />} />
-      <Route path="/home" element={<Home />} />
-      <Route path="/blog" element={<Blog />} />
-      <Route path="/blog/:slug" element={<BlogPost />} />
-      <Route path="/resources" element={<Resources />} />
-      <Route path="/projects" element={<Projects />} />
-      <Route path="/projects/:slug" element={<ProjectDetail />} />
-      <Route path="/services" element={<Services />} />
-      <Route path="/professional-tools" element={<ProfessionalTools />} />
-      <Route path="/contact-form" element={<ContactForm />} />
+      <Route path={APP_ROUTES.root} element={<Navigate to={APP_ROUTES.home} replace />} />
+      <Route path={APP_ROUTES.home} element={<Home />} />
+      <Route path={APP_ROUTES.blog} element={<Blog />} />
+      <Route path={APP_ROUTES.blogPost} element={<BlogPost />} />
+      <Route path={APP_ROUTES.resources} element={<Resources />} />
+      <Route path={APP_ROUTES.projects} element={<Projects />} />
+      <Route path={APP_ROUTES.projectDetail} element={<ProjectDetail />} />
+      <Route path={APP_ROUTES.services} element={<Services />} />
+      <Route path={APP_ROUTES.professionalTools} element={<ProfessionalTools />} />
+      <Route path={APP_ROUTES.contactForm} element={<ContactForm />} />
 
       {/* Individual Tool Routes */}
-      <Route path="/tools/api-tester" element={<APITesterPage />} />
-      <Route path="/tools/test-case-generator" element={<TestCaseGeneratorPage />} />
-      <Route path="/tools/bug-report-simulator" element={<BugReportSimulatorPage />} />
-      <Route path="/tools/code-review-tool" element={<CodeReviewToolPage />} />
+      <Route path={APP_ROUTES.apiTester} element={<APITesterPage />} />
+      <Route path={APP_ROUTES.testCaseGenerator} element={<TestCaseGeneratorPage />} />
+      <Route path={APP_ROUTES.bugReportSimulator} element={<BugReportSimulatorPage />} />
+      <Route path={APP_ROUTES.codeReviewTool} element={<CodeReviewToolPage />} />
 
       {/* URL Shortener Routes */}
-      <Route path="/url-shortener" element={<URLShortenerPage />} />
-      <Route path="/s/:shortCode" element={<URLRedirect />} />
+      <Route path={APP_ROUTES.urlShortener} element={<URLShortenerPage />} />
+      {SHORT_LINK_ROUTES.map(path => (
+        <Route key={path} path={path} element={<URLRedirect />} />
+      ))}
+      {SHORT_LINK_CONVERSION_ROUTES.map(path => (
+        <Route key={path} path={path} element={<URLConversionCallback />} />
+      ))}
 
       {/* Testing Playground Routes */}
-      <Route path="/playground/*" element={
+      <Route path={APP_ROUTES.playground} element={
         <AuthProvider>
           <PlaygroundRoutes />
         </AuthProvider>
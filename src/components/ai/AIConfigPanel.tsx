@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAIConfig } from '@/contexts/AIConfigContext';
+import { AIModel } from '@/utils/aiModels';
+import { getAIProvider, getAIProviders } from '@/utils/aiProviders';
+import { AIUsageService, AIUsageSummary, AIToolId, AI_TOOL_LABELS } from '@/services/AIUsageService';
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -12,6 +15,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 import { Slider } from "@/components/ui/slider";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Progress } from "@/components/ui/progress";
 import {
   Brain,
   Key,
@@ -33,7 +37,8 @@ import {
   Plus,
   TestTube,
   Edit,
-  Copy
+  Copy,
+  BarChart3
 } from 'lucide-react';
 
 interface AIConfigPanelProps {
@@ -70,12 +75,40 @@ const AIConfigPanel: React.FC<AIConfigPanelProps> = ({
     template: ''
   });
   const [showNewTemplateForm, setShowNewTemplateForm] = useState(false);
+  const [usageSummary, setUsageSummary] = useState<AIUsageSummary | null>(null);
+  // Budget caps as typed in the form; an empty field means no cap
+  const [budgetDraft, setBudgetDraft] = useState<{ monthlyLimit: string; toolLimits: Partial<Record<AIToolId, string>> }>({
+    monthlyLimit: '',
+    toolLimits: {}
+  });
+  const [budgetError, setBudgetError] = useState<string | null>(null);
 
   // Notify parent when configuration changes
   useEffect(() => {
     onConfigChange?.(isConfigured);
   }, [isConfigured, onConfigChange]);
 
+  const loadUsage = async () => {
+    const [summary, budget] = await Promise.all([
+      AIUsageService.getMonthlySummary(),
+      AIUsageService.getBudget()
+    ]);
+    setUsageSummary(summary);
+    setBudgetDraft({
+      monthlyLimit: budget.monthlyLimit === null ? '' : String(budget.monthlyLimit),
+      toolLimits: Object.fromEntries(
+        Object.entries(budget.toolLimits).map(([tool, limit]) => [tool, String(limit)])
+      )
+    });
+  };
+
+  // Refresh spend whenever the usage tab is opened
+  useEffect(() => {
+    if (activeTab === 'usage') {
+      loadUsage();
+    }
+  }, [activeTab]);
+
   const handleTestConnection = async () => {
     setConnectionStatus('testing');
     try {
@@ -140,6 +173,35 @@ const AIConfigPanel: React.FC<AIConfigPanelProps> = ({
     reader.readAsText(file);
   };
 
+  const handleSaveBudget = async () => {
+    const parseLimit = (value?: string) => (value && value.trim() !== '' ? Number(value) : undefined);
+
+    const toolLimits: Partial<Record<AIToolId, number>> = {};
+    (Object.keys(AI_TOOL_LABELS) as AIToolId[]).forEach(tool => {
+      const limit = parseLimit(budgetDraft.toolLimits[tool]);
+      if (limit !== undefined) {
+        toolLimits[tool] = limit;
+      }
+    });
+
+    try {
+      await AIUsageService.updateBudget({
+        monthlyLimit: parseLimit(budgetDraft.monthlyLimit) ?? null,
+        toolLimits
+      });
+      setBudgetError(null);
+    } catch (error) {
+      setBudgetError(error instanceof Error ? error.message : 'Failed to save budget');
+    }
+  };
+
+  const handleClearUsage = async () => {
+    await AIUsageService.clearLedger();
+    await loadUsage();
+  };
+
+  const formatCost = (cost: number) => `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
+
   const handleAddTemplate = () => {
     if (newTemplate.name && newTemplate.template) {
       const template = {
@@ -166,6 +228,28 @@ const AIConfigPanel: React.FC<AIConfigPanelProps> = ({
     return models.filter(model => model.provider === provider);
   };
 
+  const currentProvider = getAIProvider(config);
+  const providers = getAIProviders();
+
+  // Switching provider resets the endpoint to the provider's default and picks one of its models
+  const handleProviderChange = (providerId: AIModel['provider']) => {
+    const provider = providers.find(p => p.id === providerId);
+    const providerModels = getModelByProvider(providerId);
+    updateConfig({
+      provider: providerId,
+      apiEndpoint: provider?.defaultEndpoint || config.apiEndpoint,
+      selectedModel: providerModels[0]?.id || config.selectedModel
+    });
+  };
+
+  const handleModelChange = (modelId: string) => {
+    const model = models.find(m => m.id === modelId);
+    if (model && model.provider !== currentProvider.id) {
+      handleProviderChange(model.provider);
+    }
+    updateConfig({ selectedModel: modelId });
+  };
+
   const selectedModel = models.find(m => m.id === config.selectedModel);
   const relevantTemplates = templates.filter(t => t.category === toolCategory || t.category === 'general');
 
@@ -309,7 +393,7 @@ const AIConfigPanel: React.FC<AIConfigPanelProps> = ({
           >
             <CardContent className="pt-0">
               <Tabs value={activeTab} onValueChange={setActiveTab}>
-                <TabsList className="grid w-full grid-cols-4 bg-white/60 backdrop-blur-md border border-white/20 shadow-lg rounded-2xl p-1 h-auto">
+                <TabsList className="grid w-full grid-cols-5 bg-white/60 backdrop-blur-md border border-white/20 shadow-lg rounded-2xl p-1 h-auto">
                   <TabsTrigger 
                     value="api" 
                     className="flex items-center gap-2 rounded-xl data-[state=active]:bg-white data-[state=active]:shadow-md data-[state=active]:text-blue-600 transition-all duration-300 py-3 px-4 text-sm font-medium"
@@ -338,10 +422,44 @@ const AIConfigPanel: React.FC<AIConfigPanelProps> = ({
                     <Settings className="w-4 h-4" />
                     <span className="hidden sm:inline">Advanced</span>
                   </TabsTrigger>
+                  <TabsTrigger 
+                    value="usage" 
+                    className="flex items-center gap-2 rounded-xl data-[state=active]:bg-white data-[state=active]:shadow-md data-[state=active]:text-amber-600 transition-all duration-300 py-3 px-4 text-sm font-medium"
+                  >
+                    <BarChart3 className="w-4 h-4" />
+                    <span className="hidden sm:inline">Usage</span>
+                  </TabsTrigger>
                 </TabsList>
 
                 <div className="mt-8">
                   <TabsContent value="api" className="space-y-6">
+                    {/* Provider */}
+                    <motion.div 
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      className="space-y-3"
+                    >
+                      <Label className="text-sm font-semibold text-gray-700 flex items-center space-x-2">
+                        <Brain className="w-4 h-4 text-teal-500" />
+                        <span>Provider</span>
+                      </Label>
+                      <Select 
+                        value={currentProvider.id} 
+                        onValueChange={(value) => handleProviderChange(value as AIModel['provider'])}
+                      >
+                        <SelectTrigger className="bg-white/70 backdrop-blur-sm border-white/20 rounded-xl shadow-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {providers.map(provider => (
+                            <SelectItem key={provider.id} value={provider.id}>
+                              {provider.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </motion.div>
+
                     {/* API Endpoint */}
                     <motion.div 
                       initial={{ opacity: 0, y: 10 }}
@@ -353,7 +471,7 @@ const AIConfigPanel: React.FC<AIConfigPanelProps> = ({
                         <span>API Endpoint</span>
                       </Label>
                       <Input
-                        placeholder="https://api.openai.com/v1/chat/completions"
+                        placeholder={currentProvider.defaultEndpoint || 'https://your-server.example.com/v1/completions'}
                         value={config.apiEndpoint}
                         onChange={(e) => updateConfig({ apiEndpoint: e.target.value })}
                         className="bg-white/70 backdrop-blur-sm border-white/20 rounded-xl shadow-sm focus:shadow-md transition-all duration-300 px-4 py-3"
@@ -373,7 +491,7 @@ const AIConfigPanel: React.FC<AIConfigPanelProps> = ({
                       </Label>
                       <Input
                         type="password"
-                        placeholder="Enter your API key"
+                        placeholder={currentProvider.requiresApiKey ? 'Enter your API key' : 'Optional for this provider'}
                         value={config.apiKey}
                         onChange={(e) => updateConfig({ apiKey: e.target.value })}
                         className="bg-white/70 backdrop-blur-sm border-white/20 rounded-xl shadow-sm focus:shadow-md transition-all duration-300 px-4 py-3"
@@ -450,13 +568,13 @@ const AIConfigPanel: React.FC<AIConfigPanelProps> = ({
                       <Label className="text-sm font-medium">AI Model</Label>
                       <Select 
                         value={config.selectedModel} 
-                        onValueChange={(value) => updateConfig({ selectedModel: value })}
+                        onValueChange={handleModelChange}
                       >
                         <SelectTrigger>
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          {['openai', 'anthropic', 'google'].map(provider => (
+                          {['openai', 'anthropic', 'google', 'local'].map(provider => (
                             <div key={provider}>
                               <div className="px-2 py-1 text-xs font-semibold text-gray-500 uppercase">
                                 {provider}
@@ -479,6 +597,21 @@ const AIConfigPanel: React.FC<AIConfigPanelProps> = ({
                       </Select>
                     </div>
 
+                    {/* Free-form model name for self-hosted servers */}
+                    {(currentProvider.id === 'local' || currentProvider.id === 'custom') && (
+                      <div className="space-y-2">
+                        <Label className="text-sm font-medium">Model name on the server</Label>
+                        <Input
+                          placeholder="llama3.1"
+                          value={config.selectedModel}
+                          onChange={(e) => updateConfig({ selectedModel: e.target.value })}
+                        />
+                        <p className="text-xs text-gray-500">
+                          Use the name your server expects, e.g. the tag shown by <code>ollama list</code>
+                        </p>
+                      </div>
+                    )}
+
                     {/* Model Info */}
                     {selectedModel && (
                       <div className="p-3 bg-blue-50 rounded-lg">
@@ -712,6 +845,94 @@ const AIConfigPanel: React.FC<AIConfigPanelProps> = ({
                       />
                     </div>
                   </TabsContent>
+
+                  <TabsContent value="usage" className="space-y-4">
+                    {/* Monthly Spend */}
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <Label className="text-sm font-medium">Spend this month</Label>
+                        <p className="text-xs text-gray-500">
+                          {usageSummary
+                            ? `${usageSummary.total.requests} requests · ${usageSummary.total.tokens.toLocaleString()} tokens`
+                            : 'Loading usage…'}
+                        </p>
+                      </div>
+                      <div className="text-lg font-semibold text-gray-900">
+                        {formatCost(usageSummary?.total.cost ?? 0)}
+                      </div>
+                    </div>
+
+                    {/* Spend by Tool */}
+                    <div className="space-y-3">
+                      {(Object.keys(AI_TOOL_LABELS) as AIToolId[]).map(tool => {
+                        const totals = usageSummary?.byTool[tool];
+                        const limit = Number(budgetDraft.toolLimits[tool]);
+                        const hasLimit = budgetDraft.toolLimits[tool] && limit > 0;
+
+                        return (
+                          <div key={tool} className="p-3 border rounded-lg space-y-2">
+                            <div className="flex items-center justify-between text-sm">
+                              <span className="font-medium">{AI_TOOL_LABELS[tool]}</span>
+                              <span className="text-gray-600">
+                                {formatCost(totals?.cost ?? 0)}
+                                {hasLimit && ` / ${formatCost(limit)}`}
+                              </span>
+                            </div>
+                            {hasLimit && (
+                              <Progress value={Math.min(100, ((totals?.cost ?? 0) / limit) * 100)} className="h-1.5" />
+                            )}
+                            <div className="flex items-center justify-between gap-4">
+                              <span className="text-xs text-gray-500">
+                                {totals?.requests ?? 0} requests · {(totals?.tokens ?? 0).toLocaleString()} tokens
+                              </span>
+                              <Input
+                                type="number"
+                                min={0}
+                                step="0.01"
+                                placeholder="No cap"
+                                value={budgetDraft.toolLimits[tool] ?? ''}
+                                onChange={(e) => setBudgetDraft(prev => ({
+                                  ...prev,
+                                  toolLimits: { ...prev.toolLimits, [tool]: e.target.value }
+                                }))}
+                                className="h-8 w-28 text-xs"
+                              />
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+
+                    {/* Budget */}
+                    <div className="space-y-3">
+                      <Label className="text-sm font-medium">Monthly Budget (USD)</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        placeholder="No cap"
+                        value={budgetDraft.monthlyLimit}
+                        onChange={(e) => setBudgetDraft(prev => ({ ...prev, monthlyLimit: e.target.value }))}
+                      />
+                      <p className="text-xs text-gray-500">
+                        Requests are blocked once the monthly or per-tool cap is reached. Costs are estimated from each model's per-1K token price.
+                      </p>
+                      {budgetError && (
+                        <p className="text-xs text-red-600">{budgetError}</p>
+                      )}
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                      <Button variant="outline" size="sm" onClick={handleClearUsage}>
+                        <Trash2 className="w-3 h-3 mr-1" />
+                        Clear Usage
+                      </Button>
+                      <Button size="sm" onClick={handleSaveBudget}>
+                        <Save className="w-3 h-3 mr-1" />
+                        Save Budget
+                      </Button>
+                    </div>
+                  </TabsContent>
                 </div>
 
                 {/* Action Buttons */}
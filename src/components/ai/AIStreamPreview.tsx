@@ -0,0 +1,58 @@
+import React, { useEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from "@/components/ui/button";
+import { Brain, Square } from 'lucide-react';
+
+interface AIStreamPreviewProps {
+  text: string;
+  label: string;
+  onCancel?: () => void;
+  className?: string;
+}
+
+// Only the tail is rendered so long generations stay cheap to re-render
+const MAX_PREVIEW_CHARS = 4000;
+
+const AIStreamPreview: React.FC<AIStreamPreviewProps> = ({ text, label, onCancel, className = '' }) => {
+  const scrollRef = useRef<HTMLPreElement>(null);
+
+  // Keep the latest output in view while chunks arrive
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [text]);
+
+  const preview = text.length > MAX_PREVIEW_CHARS ? `…${text.slice(-MAX_PREVIEW_CHARS)}` : text;
+
+  return (
+    <div className={`bg-gray-50 border rounded-lg p-3 space-y-2 ${className}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center text-sm text-gray-700">
+          <motion.div
+            animate={{ opacity: [0.4, 1, 0.4] }}
+            transition={{ duration: 1.5, repeat: Infinity }}
+          >
+            <Brain className="w-4 h-4 mr-2 text-teal-600" />
+          </motion.div>
+          <span>{label}</span>
+          <span className="ml-2 text-xs text-gray-500">{text.length.toLocaleString()} chars</span>
+        </div>
+        {onCancel && (
+          <Button variant="outline" size="sm" onClick={onCancel}>
+            <Square className="w-3 h-3 mr-1" />
+            Stop
+          </Button>
+        )}
+      </div>
+      <pre
+        ref={scrollRef}
+        className="max-h-48 overflow-auto whitespace-pre-wrap break-words text-xs font-mono text-gray-600"
+      >
+        {preview || 'Waiting for the first tokens…'}
+      </pre>
+    </div>
+  );
+};
+
+export default AIStreamPreview;
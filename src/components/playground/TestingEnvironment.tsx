@@ -20,7 +20,8 @@ import {
   Eye,
   FlaskConical,
   Star,
-  CircuitBoard
+  CircuitBoard,
+  Code2
 } from 'lucide-react';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -31,6 +32,9 @@ import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { useIsMobile } from '@/hooks/use-mobile.tsx';
 import { Progress } from "@/components/ui/progress";
+import { TEST_RUNNER_SOURCE } from '@/lib/challenge-inspection';
+import { injectTestingAgent, isTestingAgentMessage } from '@/lib/testing-agent';
+import { nanoid } from 'nanoid';
 
 interface ConsoleLog {
   type: 'info' | 'warning' | 'error' | 'debug';
@@ -93,6 +97,10 @@ interface ChallengeTest {
 
 type DeviceType = 'desktop' | 'tablet' | 'mobile';
 
+// Instrumentation agent settings
+const DOM_SNAPSHOT_INTERVAL_MS = 1000;
+const MAX_SNAPSHOT_ELEMENTS = 500;
+
 interface DevicePreset {
   width: number;
   height: number;
@@ -174,6 +182,9 @@ export const TestingEnvironment = React.memo(({
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const historyRef = useRef<string[]>([]);
   const historyPositionRef = useRef<number>(-1);
+  const agentChannelRef = useRef<string>(nanoid());
+  // Origin of the document the iframe actually loaded; null until the agent is installed in it
+  const agentOriginRef = useRef<string | null>(null);
 
   // State for console logs, network requests, and DOM elements
   const [consoleLogs, setConsoleLogs] = useState<ConsoleLog[]>([
@@ -230,38 +241,81 @@ export const TestingEnvironment = React.memo(({
     }, 500);
   }, [url, onUrlChange, addConsoleLog]);
 
-  // Handle messages from the iframe
+  // Add network request
+  const addNetworkRequest = useCallback((request: NetworkRequest) => {
+    setNetworkRequests(prev => prev.some(r => r.id === request.id) ? prev : [request, ...prev]);
+  }, []);
+
+  // Handle messages from the instrumentation agent inside the iframe
   const handleIframeMessage = useCallback((event: MessageEvent) => {
-    const { type, data } = event.data || {};
+    const expectedOrigin = agentOriginRef.current;
+    if (!expectedOrigin) return;
+
+    if (!isTestingAgentMessage(event, {
+      channel: agentChannelRef.current,
+      origin: expectedOrigin,
+      source: iframeRef.current?.contentWindow ?? null
+    })) {
+      return;
+    }
 
-    if (!type) return;
+    const { type, data } = event.data;
 
     switch (type) {
-      case 'console':
-        addConsoleLog(data.type, data.message, data.source);
+      case 'console': {
+        const log = data as Omit<ConsoleLog, 'timestamp'>;
+        addConsoleLog(log.type, String(log.message), log.source);
         break;
+      }
       case 'network':
-        addNetworkRequest(data);
+        addNetworkRequest(data as NetworkRequest);
         break;
-      case 'dom':
-        setElements(data.elements);
+      case 'dom': {
+        const { elements: snapshot } = data as { elements: DOMElement[] };
+        setElements(Array.isArray(snapshot) ? snapshot : []);
         break;
-      case 'testResult':
+      }
+      case 'testResult': {
+        const { testId, result } = data as { testId: string; result: TestResult };
         if (onTestResult) {
-          onTestResult(data.result);
+          onTestResult(result);
         }
         setTestResults(prev => ({
           ...prev,
-          [data.testId]: data.result
+          [testId]: result
         }));
         break;
+      }
+    }
+  }, [onTestResult, addConsoleLog, addNetworkRequest]);
+
+  // Install the instrumentation agent whenever the iframe finishes loading a page
+  const handleIframeLoad = useCallback(() => {
+    const iframe = iframeRef.current;
+    agentOriginRef.current = null;
+    if (!iframe || url === 'about:blank') return;
+
+    setElements([]);
+    const installed = injectTestingAgent(iframe, {
+      channel: agentChannelRef.current,
+      parentOrigin: window.location.origin,
+      snapshotInterval: DOM_SNAPSHOT_INTERVAL_MS,
+      maxElements: MAX_SNAPSHOT_ELEMENTS
+    });
+
+    // Trust the loaded document's own origin, not whatever the address state says now
+    if (installed) {
+      try {
+        agentOriginRef.current = iframe.contentWindow?.location.origin ?? null;
+      } catch {
+        agentOriginRef.current = null;
+      }
     }
-  }, [onTestResult, addConsoleLog]);
 
-  // Add network request
-  const addNetworkRequest = (request: NetworkRequest) => {
-    setNetworkRequests(prev => [request, ...prev]);
-  };
+    if (!installed) {
+      addConsoleLog('warning', 'Instrumentation unavailable: the application is cross-origin, so console, network and DOM data cannot be captured');
+    }
+  }, [url, addConsoleLog]);
 
   // Event handlers
   const handleUrlSubmit = (e: React.FormEvent) => {
@@ -373,7 +427,7 @@ export const TestingEnvironment = React.memo(({
         if (isCancelled) break;
 
         try {
-          addConsoleLog('info', `Running test: ${test.name}`);
+          addConsoleLog('info', `Running test: ${test.name}`, TEST_RUNNER_SOURCE);
           const result = await test.testFunction(testEnv);
 
           if (isCancelled) break;
@@ -389,7 +443,8 @@ export const TestingEnvironment = React.memo(({
 
           addConsoleLog(
             result.passed ? 'info' : 'error',
-            `Test ${result.passed ? 'passed' : 'failed'}: ${result.message}`
+            `Test ${result.passed ? 'passed' : 'failed'}: ${result.message}`,
+            TEST_RUNNER_SOURCE
           );
 
           // Add a small delay between tests with cleanup tracking
@@ -409,7 +464,7 @@ export const TestingEnvironment = React.memo(({
             }
           }));
 
-          addConsoleLog('error', `Test error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          addConsoleLog('error', `Test error: ${error instanceof Error ? error.message : 'Unknown error'}`, TEST_RUNNER_SOURCE);
         }
       }
 
@@ -443,7 +498,7 @@ export const TestingEnvironment = React.memo(({
       if (isCancelled) return;
 
       setIsRunningTests(false);
-      addConsoleLog('info', 'All tests completed');
+      addConsoleLog('info', 'All tests completed', TEST_RUNNER_SOURCE);
 
       // Hide success animation after a delay with cleanup tracking
       const hideTimeout = setTimeout(() => {
@@ -505,6 +560,9 @@ export const TestingEnvironment = React.memo(({
   // Memoized network requests (limit to first 50 for performance)
   const limitedNetworkRequests = useMemo(() => networkRequests.slice(0, 50), [networkRequests]);
 
+  // Memoized DOM elements (limit to first 200 for performance)
+  const limitedElements = useMemo(() => elements.slice(0, 200), [elements]);
+
   return (
     <div className="flex flex-col h-full bg-gradient-to-br from-background via-background to-muted/10 backdrop-blur-sm">
       {/* Enhanced Browser Controls */}
@@ -637,7 +695,7 @@ export const TestingEnvironment = React.memo(({
       {/* Enhanced Tab System */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1 flex flex-col">
         <div className="px-4 pt-2 pb-0 bg-gradient-to-r from-background/80 to-muted/10">
-          <TabsList className="grid w-full grid-cols-4 bg-muted/30 border border/50">
+          <TabsList className="grid w-full grid-cols-5 bg-muted/30 border border/50">
             <TabsTrigger 
               value="application" 
               className="data-[state=active]:bg-background data-[state=active]:shadow-md transition-all duration-200"
@@ -659,6 +717,13 @@ export const TestingEnvironment = React.memo(({
               <Activity className="h-4 w-4 mr-2" />
               Network
             </TabsTrigger>
+            <TabsTrigger 
+              value="elements"
+              className="data-[state=active]:bg-background data-[state=active]:shadow-md transition-all duration-200"
+            >
+              <Code2 className="h-4 w-4 mr-2" />
+              Elements
+            </TabsTrigger>
             <TabsTrigger 
               value="tests"
               className="data-[state=active]:bg-background data-[state=active]:shadow-md transition-all duration-200"
@@ -687,6 +752,7 @@ export const TestingEnvironment = React.memo(({
                   className="w-full h-full border-none"
                   sandbox={sandboxMode === 'secure' ? "allow-scripts allow-same-origin allow-forms" : undefined}
                   title="Testing Environment"
+                  onLoad={handleIframeLoad}
                 />
                 {isLoading && (
                   <motion.div
@@ -818,6 +884,47 @@ export const TestingEnvironment = React.memo(({
           </div>
         </TabsContent>
 
+        {/* Elements Panel */}
+        <TabsContent value="elements" className="flex-1 p-4 m-0">
+          <div className="h-full bg-gradient-to-br from-muted/20 to-background/50 rounded-xl border border/50 overflow-hidden">
+            <div className="bg-background/80 px-4 py-3 border-b border/50 flex items-center backdrop-blur-sm">
+              <Code2 className="h-4 w-4 mr-2 text-primary" />
+              <span className="text-sm font-medium">DOM Elements</span>
+              <Badge className="ml-auto bg-primary/10 text-primary border-primary/20">
+                {elements.length} elements
+              </Badge>
+            </div>
+            <ScrollArea className="h-[calc(100%-3.5rem)]">
+              <div className="p-4 space-y-2 font-mono text-xs">
+                {limitedElements.map((element, index) => (
+                  <div
+                    key={`${index}-${element.path}`}
+                    className="bg-background/80 p-3 rounded-lg border border/50 hover:border transition-colors duration-200"
+                  >
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="text-primary font-semibold">&lt;{element.tag}&gt;</span>
+                      {element.id && <span className="text-amber-600 dark:text-amber-400">#{element.id}</span>}
+                      {element.classes.length > 0 && (
+                        <span className="text-muted-foreground truncate">
+                          .{element.classes.slice(0, 3).join(' .')}
+                        </span>
+                      )}
+                      <span className="ml-auto text-muted-foreground">{element.children} children</span>
+                    </div>
+                    <div className="text-muted-foreground break-all">{element.path}</div>
+                  </div>
+                ))}
+                {elements.length === 0 && (
+                  <div className="text-center py-8 text-muted-foreground font-sans text-sm">
+                    <Code2 className="h-12 w-12 mx-auto mb-3 text-muted-foreground/50" />
+                    <p>No DOM snapshot captured yet</p>
+                  </div>
+                )}
+              </div>
+            </ScrollArea>
+          </div>
+        </TabsContent>
+
         {/* Enhanced Tests Panel */}
         <TabsContent value="tests" className="flex-1 p-4 m-0">
           <div className="h-full bg-gradient-to-br from-muted/20 to-background/50 rounded-xl border border/50 overflow-hidden">
@@ -0,0 +1,247 @@
+import React, { useState } from 'react';
+import { BulkURLRow, BulkURLResult, ShortenedURL } from '@/types/shorten.ts';
+import { BulkURLService, BULK_CSV_TEMPLATE, MAX_BULK_ROWS } from '@/services/BulkURLService.ts';
+import { downloadCSV } from '@/utils/csv';
+import { Button } from '@/components/ui/button.tsx';
+import { Textarea } from '@/components/ui/textarea.tsx';
+import { Checkbox } from '@/components/ui/checkbox.tsx';
+import { Label } from '@/components/ui/label.tsx';
+import { Progress } from '@/components/ui/progress.tsx';
+import { Badge } from '@/components/ui/badge.tsx';
+import { ScrollArea } from '@/components/ui/scroll-area.tsx';
+import { AlertTriangle, CheckCircle, Download, FileUp, Loader2, Upload, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface BulkURLShortenerProps {
+  onURLsShortened: (urls: ShortenedURL[]) => void;
+}
+
+const BulkURLShortener: React.FC<BulkURLShortenerProps> = ({ onURLsShortened }) => {
+  const [csvText, setCsvText] = useState('');
+  const [rows, setRows] = useState<BulkURLRow[] | null>(null);
+  const [results, setResults] = useState<BulkURLResult[] | null>(null);
+  const [includeSuspicious, setIncludeSuspicious] = useState(false);
+  const [isValidating, setIsValidating] = useState(false);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+
+  const validRows = rows?.filter(row => row.errors.length === 0 && (includeSuspicious || !row.suspicious)) ?? [];
+  const errorCount = rows?.filter(row => row.errors.length > 0).length ?? 0;
+  const warningCount = rows?.filter(row => row.errors.length === 0 && row.warnings.length > 0).length ?? 0;
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      setCsvText(String(e.target?.result || ''));
+      setRows(null);
+      setResults(null);
+    };
+    reader.readAsText(file);
+  };
+
+  const handleValidate = async () => {
+    setIsValidating(true);
+    setResults(null);
+    try {
+      setRows(await BulkURLService.prepareRows(csvText));
+    } catch (error) {
+      setRows(null);
+      toast.error(error instanceof Error ? error.message : 'Failed to read CSV');
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const handleShorten = async () => {
+    if (!rows) return;
+
+    try {
+      const bulkResults = await BulkURLService.shortenRows(rows, {
+        includeSuspicious,
+        onProgress: (completed, total) => setProgress({ completed, total })
+      });
+      setResults(bulkResults);
+
+      const shortened = bulkResults.flatMap(result => result.shortenedURL ? [result.shortenedURL] : []);
+      onURLsShortened(shortened);
+      toast.success(`Shortened ${shortened.length} of ${rows.length} URLs`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Bulk shortening failed');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleReset = () => {
+    setCsvText('');
+    setRows(null);
+    setResults(null);
+  };
+
+  const isShortening = progress !== null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs sm:text-sm text-gray-600">
+          Paste or upload a CSV with a <code>url</code> column and optional <code>alias</code>, <code>expires_at</code>,{' '}
+          <code>password</code> and <code>utm_*</code> columns (up to {MAX_BULK_ROWS} rows).
+        </p>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => downloadCSV('bulk-urls-template.csv', BULK_CSV_TEMPLATE)}>
+            <Download className="h-3.5 w-3.5 mr-1" />
+            Template
+          </Button>
+          <label className="cursor-pointer">
+            <Button variant="outline" size="sm" asChild>
+              <span>
+                <Upload className="h-3.5 w-3.5 mr-1" />
+                Upload CSV
+              </span>
+            </Button>
+            <input type="file" accept=".csv,text/csv" onChange={handleFileUpload} className="hidden" />
+          </label>
+        </div>
+      </div>
+
+      <Textarea
+        placeholder={'url,alias,utm_source\nhttps://example.com/page,my-page,newsletter'}
+        value={csvText}
+        onChange={(e) => {
+          setCsvText(e.target.value);
+          setRows(null);
+          setResults(null);
+        }}
+        rows={6}
+        className="font-mono text-xs"
+      />
+
+      <div className="flex items-center gap-2">
+        <Button onClick={handleValidate} disabled={!csvText.trim() || isValidating || isShortening}>
+          {isValidating ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <FileUp className="h-4 w-4 mr-1" />}
+          Preview
+        </Button>
+        {(rows || csvText) && (
+          <Button variant="ghost" onClick={handleReset} disabled={isShortening}>
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {rows && !results && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <Badge variant="outline">{rows.length} rows</Badge>
+            <Badge className="bg-green-100 text-green-800">{rows.length - errorCount} valid</Badge>
+            {errorCount > 0 && <Badge className="bg-red-100 text-red-800">{errorCount} with errors</Badge>}
+            {warningCount > 0 && <Badge className="bg-amber-100 text-amber-800">{warningCount} with warnings</Badge>}
+          </div>
+
+          <ScrollArea className="h-[280px] border rounded-lg">
+            <table className="w-full text-xs">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr className="text-left text-gray-600">
+                  <th className="p-2 w-12">Row</th>
+                  <th className="p-2">URL</th>
+                  <th className="p-2">Alias</th>
+                  <th className="p-2">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.rowNumber} className="border-t align-top">
+                    <td className="p-2 text-gray-500">{row.rowNumber}</td>
+                    <td className="p-2 break-all">{row.url || <span className="text-gray-400">(empty)</span>}</td>
+                    <td className="p-2">{row.options.customAlias || <span className="text-gray-400">auto</span>}</td>
+                    <td className="p-2">
+                      {row.errors.length === 0 && row.warnings.length === 0 && (
+                        <span className="flex items-center text-green-700"><CheckCircle className="h-3.5 w-3.5 mr-1" />OK</span>
+                      )}
+                      {row.errors.map(error => (
+                        <span key={error} className="flex items-start text-red-700"><XCircle className="h-3.5 w-3.5 mr-1 mt-0.5 flex-shrink-0" />{error}</span>
+                      ))}
+                      {row.warnings.map(warning => (
+                        <span key={warning} className="flex items-start text-amber-700"><AlertTriangle className="h-3.5 w-3.5 mr-1 mt-0.5 flex-shrink-0" />{warning}</span>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </ScrollArea>
+
+          {warningCount > 0 && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="bulk-include-suspicious"
+                checked={includeSuspicious}
+                onCheckedChange={(checked) => setIncludeSuspicious(checked as boolean)}
+              />
+              <Label htmlFor="bulk-include-suspicious" className="text-xs">Also shorten rows flagged as suspicious</Label>
+            </div>
+          )}
+
+          {isShortening && (
+            <div className="space-y-1">
+              <Progress value={progress.total > 0 ? (progress.completed / progress.total) * 100 : 0} className="h-2" />
+              <p className="text-xs text-gray-500">Shortened {progress.completed} of {progress.total}…</p>
+            </div>
+          )}
+
+          <Button onClick={handleShorten} disabled={validRows.length === 0 || isShortening}>
+            {isShortening && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Shorten {validRows.length} URL{validRows.length === 1 ? '' : 's'}
+          </Button>
+        </div>
+      )}
+
+      {results && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-700">
+              {results.filter(result => result.shortenedURL).length} shortened,{' '}
+              {results.filter(result => !result.shortenedURL).length} failed
+            </p>
+            <Button
+              size="sm"
+              onClick={() => downloadCSV(`shortened-urls-${new Date().toISOString().split('T')[0]}.csv`, BulkURLService.resultsToCSV(results))}
+            >
+              <Download className="h-3.5 w-3.5 mr-1" />
+              Download Results
+            </Button>
+          </div>
+
+          <ScrollArea className="h-[280px] border rounded-lg">
+            <table className="w-full text-xs">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr className="text-left text-gray-600">
+                  <th className="p-2 w-12">Row</th>
+                  <th className="p-2">Original URL</th>
+                  <th className="p-2">Short URL</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map(result => (
+                  <tr key={result.rowNumber} className="border-t align-top">
+                    <td className="p-2 text-gray-500">{result.rowNumber}</td>
+                    <td className="p-2 break-all">{result.originalURL}</td>
+                    <td className="p-2 break-all">
+                      {result.shortenedURL
+                        ? <span className="text-blue-700">{result.shortenedURL.shortURL}</span>
+                        : <span className="text-red-700">{result.error}</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </ScrollArea>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkURLShortener;
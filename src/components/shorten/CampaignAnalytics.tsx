@@ -0,0 +1,318 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { format } from 'date-fns';
+import { CampaignBreakdownRow, CampaignRollup, ShortenedURL } from '@/types/shorten.ts';
+import { CampaignAnalyticsService } from '@/services/CampaignAnalyticsService.ts';
+import { CampaignTemplateService } from '@/services/CampaignTemplateService.ts';
+import { downloadCSV } from '@/utils/csv';
+import { Button } from '@/components/ui/button.tsx';
+import { Checkbox } from '@/components/ui/checkbox.tsx';
+import { Label } from '@/components/ui/label.tsx';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select.tsx';
+import { Download, Loader2 } from 'lucide-react';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend
+} from 'recharts';
+
+const NO_COMPARISON = 'none';
+const TOP_ROWS = 5;
+const CAMPAIGN_COLORS = ['#0d9488', '#7c3aed'];
+
+const TIME_RANGES: Record<string, { label: string; days?: number }> = {
+  '7days': { label: 'Last 7 days', days: 7 },
+  '30days': { label: 'Last 30 days', days: 30 },
+  '90days': { label: 'Last 90 days', days: 90 },
+  all: { label: 'All time' }
+};
+
+const formatValue = (value: number): string => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+interface CampaignAnalyticsProps {
+  urls: ShortenedURL[];
+}
+
+interface BreakdownTableProps {
+  title: string;
+  rollups: CampaignRollup[];
+  rows: (rollup: CampaignRollup) => CampaignBreakdownRow[];
+}
+
+// Top rows of one breakdown, one column per campaign
+const BreakdownTable: React.FC<BreakdownTableProps> = ({ title, rollups, rows }) => (
+  <div>
+    <h3 className="text-sm font-medium text-gray-500 mb-2">{title}</h3>
+    <div className={`grid gap-3 ${rollups.length > 1 ? 'md:grid-cols-2' : ''}`}>
+      {rollups.map((rollup, index) => (
+        <div key={rollup.campaign} className="bg-white rounded-lg border shadow-sm overflow-hidden">
+          {rollups.length > 1 && (
+            <div className="px-3 py-1.5 text-xs font-medium border-b" style={{ color: CAMPAIGN_COLORS[index] }}>
+              {rollup.campaign}
+            </div>
+          )}
+          {rows(rollup).length > 0 ? (
+            <table className="w-full text-xs">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-gray-600">
+                  <th className="p-2">Name</th>
+                  <th className="p-2 text-right">Clicks</th>
+                  <th className="p-2 text-right">Conversions</th>
+                  <th className="p-2 text-right">Value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows(rollup).slice(0, TOP_ROWS).map(row => (
+                  <tr key={row.key} className="border-t">
+                    <td className="p-2 break-all">{row.key}</td>
+                    <td className="p-2 text-right">{row.clicks}</td>
+                    <td className="p-2 text-right">{row.conversions}</td>
+                    <td className="p-2 text-right">{formatValue(row.conversionValue)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="p-3 text-xs text-gray-500">No data in this period</p>
+          )}
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+/**
+ * Performance of whole campaigns across every link that shares a utm_campaign value,
+ * optionally compared side by side
+ */
+const CampaignAnalytics: React.FC<CampaignAnalyticsProps> = ({ urls }) => {
+  const [campaign, setCampaign] = useState('');
+  const [comparison, setComparison] = useState(NO_COMPARISON);
+  const [timeRange, setTimeRange] = useState('30days');
+  const [excludeFiltered, setExcludeFiltered] = useState(false);
+  const [rollups, setRollups] = useState<CampaignRollup[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const campaigns = useMemo(
+    () => CampaignAnalyticsService.getCampaigns(urls, CampaignTemplateService.getTemplates()),
+    [urls]
+  );
+
+  // Start with the campaign that has the most links
+  useEffect(() => {
+    if (!campaign && campaigns.length > 0 && campaigns[0].linkCount > 0) {
+      setCampaign(campaigns[0].campaign);
+    }
+  }, [campaign, campaigns]);
+
+  useEffect(() => {
+    if (!campaign) return;
+
+    let cancelled = false;
+    const selected = comparison !== NO_COMPARISON && comparison !== campaign ? [campaign, comparison] : [campaign];
+    const options = { excludeFiltered, days: TIME_RANGES[timeRange].days };
+
+    setIsLoading(true);
+    Promise.all(selected.map(name => CampaignAnalyticsService.getCampaignRollup(name, urls, options)))
+      .then(results => {
+        if (!cancelled) setRollups(results);
+      })
+      .catch(error => console.error('Error loading campaign analytics:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [campaign, comparison, timeRange, excludeFiltered, urls]);
+
+  // One row per day with a clicks column for each campaign
+  const timelineData = useMemo(() => {
+    const days = new Map<string, Record<string, number | string>>();
+    rollups.forEach((rollup, index) => {
+      rollup.timeline.forEach(day => {
+        const row = days.get(day.key) || { date: day.key };
+        row[`clicks${index}`] = day.clicks;
+        days.set(day.key, row);
+      });
+    });
+    return Array.from(days.values()).sort((a, b) => String(a.date).localeCompare(String(b.date)));
+  }, [rollups]);
+
+  const handleExport = () => {
+    const name = rollups.map(rollup => rollup.campaign).join('-vs-').replace(/[^\w-]+/g, '-');
+    downloadCSV(`campaign-${name}-${format(new Date(), 'yyyy-MM-dd')}.csv`, CampaignAnalyticsService.toCSV(rollups));
+  };
+
+  if (campaigns.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 text-center py-6">
+        Add UTM parameters with a campaign to your links to see how each campaign performs.
+      </p>
+    );
+  }
+
+  const metrics: Array<{ label: string; value: (rollup: CampaignRollup) => string }> = [
+    { label: 'Links', value: rollup => String(rollup.linkCount) },
+    { label: excludeFiltered ? 'Human clicks' : 'Clicks', value: rollup => String(rollup.totalClicks) },
+    { label: 'Unique visitors', value: rollup => String(rollup.uniqueVisitors) },
+    { label: 'Conversions', value: rollup => String(rollup.totalConversions) },
+    { label: 'Conversion rate', value: rollup => `${rollup.conversionRate.toFixed(1)}%` },
+    { label: 'Conversion value', value: rollup => formatValue(rollup.conversionValue) }
+  ];
+
+  const campaignLabel = (name: string) => {
+    const summary = campaigns.find(item => item.campaign === name);
+    if (!summary) return name;
+    const templates = summary.templateNames.length > 0 ? ` · ${summary.templateNames.join(', ')}` : '';
+    return `${name} (${summary.linkCount} link${summary.linkCount !== 1 ? 's' : ''}${templates})`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 items-end">
+        <div className="space-y-1.5">
+          <Label className="text-xs">Campaign</Label>
+          <Select value={campaign} onValueChange={setCampaign}>
+            <SelectTrigger className="h-9 text-xs sm:text-sm">
+              <SelectValue placeholder="Choose a campaign" />
+            </SelectTrigger>
+            <SelectContent>
+              {campaigns.map(item => (
+                <SelectItem key={item.campaign} value={item.campaign} className="text-xs sm:text-sm">
+                  {campaignLabel(item.campaign)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs">Compare with</Label>
+          <Select value={comparison} onValueChange={setComparison}>
+            <SelectTrigger className="h-9 text-xs sm:text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_COMPARISON} className="text-xs sm:text-sm">No comparison</SelectItem>
+              {campaigns.filter(item => item.campaign !== campaign).map(item => (
+                <SelectItem key={item.campaign} value={item.campaign} className="text-xs sm:text-sm">
+                  {campaignLabel(item.campaign)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs">Period</Label>
+          <Select value={timeRange} onValueChange={setTimeRange}>
+            <SelectTrigger className="h-9 text-xs sm:text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(TIME_RANGES).map(([value, range]) => (
+                <SelectItem key={value} value={value} className="text-xs sm:text-sm">{range.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button variant="outline" className="h-9 text-xs sm:text-sm" onClick={handleExport} disabled={rollups.length === 0 || isLoading}>
+          <Download className="h-3.5 w-3.5 mr-1.5" />
+          Export CSV
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="campaign-exclude-filtered"
+          checked={excludeFiltered}
+          onCheckedChange={(checked) => setExcludeFiltered(checked === true)}
+        />
+        <Label htmlFor="campaign-exclude-filtered" className="text-xs text-gray-600">
+          Exclude bot and repeat clicks
+        </Label>
+        {excludeFiltered && (
+          <span className="text-xs text-gray-400">Clicks recorded before bot filtering was added are not filtered.</span>
+        )}
+      </div>
+
+      {isLoading && rollups.length === 0 ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : rollups.length > 0 && (
+        <>
+          <div className="overflow-x-auto bg-white rounded-lg border shadow-sm">
+            <table className="w-full text-xs sm:text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-gray-600">
+                  <th className="p-2 sm:p-3">Metric</th>
+                  {rollups.map((rollup, index) => (
+                    <th key={rollup.campaign} className="p-2 sm:p-3 text-right" style={{ color: CAMPAIGN_COLORS[index] }}>
+                      {rollup.campaign}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {metrics.map(metric => (
+                  <tr key={metric.label} className="border-t">
+                    <td className="p-2 sm:p-3 text-gray-600">{metric.label}</td>
+                    {rollups.map(rollup => (
+                      <td key={rollup.campaign} className="p-2 sm:p-3 text-right font-medium">{metric.value(rollup)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-500 mb-4">Clicks Over Time</h3>
+            {timelineData.length > 0 ? (
+              <div className="h-[260px] bg-gray-50 rounded-lg border p-4">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={timelineData} margin={{ top: 10, right: 10, left: 0, bottom: 20 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis
+                      dataKey="date"
+                      tick={{ fontSize: 12 }}
+                      tickFormatter={(value) => format(new Date(value), 'MMM d')}
+                    />
+                    <YAxis tick={{ fontSize: 12 }} allowDecimals={false} />
+                    <Tooltip labelFormatter={(value) => format(new Date(value), 'MMM d, yyyy')} />
+                    <Legend />
+                    {rollups.map((rollup, index) => (
+                      <Line
+                        key={rollup.campaign}
+                        type="monotone"
+                        dataKey={`clicks${index}`}
+                        name={rollup.campaign}
+                        stroke={CAMPAIGN_COLORS[index]}
+                        strokeWidth={2}
+                        dot={{ r: 3 }}
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500">No clicks in this period</p>
+            )}
+          </div>
+
+          <BreakdownTable title="Top Sources" rollups={rollups} rows={rollup => rollup.sources} />
+          <BreakdownTable title="Top Mediums" rollups={rollups} rows={rollup => rollup.mediums} />
+          <BreakdownTable title="Top Links" rollups={rollups} rows={rollup => rollup.links} />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CampaignAnalytics;
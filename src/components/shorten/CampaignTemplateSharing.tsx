@@ -0,0 +1,213 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  CampaignTemplate,
+  CampaignTemplateConflictStrategy,
+  CampaignTemplateImportResult,
+  CampaignTemplateInput
+} from '@/types/shorten.ts';
+import { CampaignTemplateService } from '@/services/CampaignTemplateService.ts';
+import { Button } from '@/components/ui/button.tsx';
+import { Badge } from '@/components/ui/badge.tsx';
+import { Label } from '@/components/ui/label.tsx';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog.tsx';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select.tsx';
+import { Download, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { downloadBlob } from '@/utils/download';
+
+interface CampaignTemplateSharingProps {
+  templates: CampaignTemplate[];
+  onImported: () => void;
+}
+
+const CONFLICT_LABELS: Record<CampaignTemplateConflictStrategy, string> = {
+  rename: 'Keep both (rename imported)',
+  overwrite: 'Overwrite existing',
+  skip: 'Skip duplicates'
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count !== 1 ? 's' : ''}`;
+
+const summarize = (result: CampaignTemplateImportResult): string => {
+  const parts = [`Imported ${plural(result.imported, 'template')}`];
+  if (result.renamed) parts.push(`${result.renamed} renamed`);
+  if (result.overwritten) parts.push(`${result.overwritten} overwritten`);
+  if (result.skipped) parts.push(`${result.skipped} skipped`);
+  if (result.invalid) parts.push(`${result.invalid} invalid`);
+  return parts.join(', ');
+};
+
+/**
+ * Export and import template collections, and import templates opened from a share link
+ */
+const CampaignTemplateSharing: React.FC<CampaignTemplateSharingProps> = ({ templates, onImported }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<Partial<CampaignTemplateInput>[] | null>(null);
+  const [strategy, setStrategy] = useState<CampaignTemplateConflictStrategy>('rename');
+  const [shared, setShared] = useState<CampaignTemplateInput | null>(null);
+
+  // A share link carries the template in the URL fragment
+  useEffect(() => {
+    setShared(CampaignTemplateService.parseShareFragment(window.location.hash));
+  }, []);
+
+  const existingNames = new Set(templates.map(template => template.name.trim().toLowerCase()));
+  const conflicts = (pending || []).filter(template => template.name && existingNames.has(template.name.toLowerCase())).length;
+
+  const handleExport = () => {
+    const collection = CampaignTemplateService.exportTemplates();
+    const blob = new Blob([JSON.stringify(collection, null, 2)], { type: 'application/json' });
+    downloadBlob(`campaign-templates-${new Date().toISOString().split('T')[0]}.json`, blob);
+    toast.success(`Exported ${plural(collection.templates.length, 'template')}`);
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const parsed = CampaignTemplateService.parseTemplateCollection(await file.text());
+      if (parsed.length === 0) {
+        toast.error('The file does not contain any templates');
+        return;
+      }
+      setStrategy('rename');
+      setPending(parsed);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to read the template file');
+    }
+  };
+
+  const runImport = (items: Partial<CampaignTemplateInput>[], onConflict: CampaignTemplateConflictStrategy): boolean => {
+    try {
+      const result = CampaignTemplateService.importTemplateCollection(items, onConflict);
+      if (result.imported + result.overwritten > 0) {
+        toast.success(summarize(result));
+        onImported();
+      } else {
+        toast.info(summarize(result));
+      }
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import templates');
+      return false;
+    }
+  };
+
+  const handleImport = () => {
+    if (pending && runImport(pending, strategy)) setPending(null);
+  };
+
+  // Drop the fragment so a reload does not offer the same template again
+  const closeShared = () => {
+    setShared(null);
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  };
+
+  const handleImportShared = () => {
+    if (shared && runImport([shared], 'rename')) closeShared();
+  };
+
+  return (
+    <>
+      <Button size="sm" variant="outline" className="flex items-center gap-1 h-8 sm:h-9 text-xs sm:text-sm" onClick={handleExport}>
+        <Download className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+        <span>Export</span>
+      </Button>
+      <Button
+        size="sm"
+        variant="outline"
+        className="flex items-center gap-1 h-8 sm:h-9 text-xs sm:text-sm"
+        onClick={() => fileInputRef.current?.click()}
+      >
+        <Upload className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+        <span>Import</span>
+      </Button>
+      <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFileSelected} />
+
+      <Dialog open={pending !== null} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent className="max-w-[90vw] sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-base sm:text-lg">Import Campaign Templates</DialogTitle>
+            <DialogDescription className="text-xs sm:text-sm">
+              {plural(pending?.length || 0, 'template')} found
+              {conflicts > 0 ? `, ${conflicts} with the same name as an existing template.` : '.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {conflicts > 0 && (
+            <div className="space-y-1">
+              <Label htmlFor="template-conflicts" className="text-xs sm:text-sm">When a name already exists</Label>
+              <Select value={strategy} onValueChange={(value) => setStrategy(value as CampaignTemplateConflictStrategy)}>
+                <SelectTrigger id="template-conflicts" className="h-9 text-xs sm:text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CONFLICT_LABELS) as CampaignTemplateConflictStrategy[]).map(option => (
+                    <SelectItem key={option} value={option} className="text-xs sm:text-sm">
+                      {CONFLICT_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <DialogFooter className="flex-col sm:flex-row gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setPending(null)} className="text-xs sm:text-sm h-8 sm:h-10">
+              Cancel
+            </Button>
+            <Button onClick={handleImport} className="text-xs sm:text-sm h-8 sm:h-10">
+              Import
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={shared !== null} onOpenChange={(open) => !open && closeShared()}>
+        <DialogContent className="max-w-[90vw] sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-base sm:text-lg">Shared Campaign Template</DialogTitle>
+            <DialogDescription className="text-xs sm:text-sm">
+              Someone shared a template with you. Add it to your templates?
+            </DialogDescription>
+          </DialogHeader>
+
+          {shared && (
+            <div className="rounded-md border p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium truncate">{shared.name}</p>
+                <Badge variant="outline" className="text-[10px] sm:text-xs flex-shrink-0">{shared.category}</Badge>
+              </div>
+              {shared.description && <p className="text-xs text-gray-500">{shared.description}</p>}
+              <div className="flex flex-wrap gap-1">
+                {Object.entries(shared.utmParameters)
+                  .filter(([key, value]) => key !== 'custom' && typeof value === 'string' && value)
+                  .map(([key, value]) => (
+                    <Badge key={key} variant="secondary" className="text-[10px] font-mono">
+                      utm_{key}={value as string}
+                    </Badge>
+                  ))}
+              </div>
+              {existingNames.has(shared.name.toLowerCase()) && (
+                <p className="text-xs text-amber-700">A template with this name exists; the shared one will be renamed.</p>
+              )}
+            </div>
+          )}
+
+          <DialogFooter className="flex-col sm:flex-row gap-2 sm:gap-0">
+            <Button variant="outline" onClick={closeShared} className="text-xs sm:text-sm h-8 sm:h-10">
+              Dismiss
+            </Button>
+            <Button onClick={handleImportShared} className="text-xs sm:text-sm h-8 sm:h-10">
+              Import Template
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default CampaignTemplateSharing;
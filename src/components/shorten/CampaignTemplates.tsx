@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { CampaignTemplate, UTMParams } from '@/types/shorten.ts';
+import { CampaignTemplate, ShortenedURL, UTMGovernedParam, UTMParams } from '@/types/shorten.ts';
 import { CampaignTemplateService } from '@/services/CampaignTemplateService.ts';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card.tsx';
 import { Button } from '@/components/ui/button.tsx';
@@ -11,20 +11,36 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { ScrollArea } from '@/components/ui/scroll-area.tsx';
 import { Textarea } from '@/components/ui/textarea.tsx';
 import { Badge } from '@/components/ui/badge.tsx';
-import { Plus, Edit, Trash2, Copy, Tag, Save, FileText } from 'lucide-react';
+import { Plus, Edit, Trash2, Copy, Tag, Save, FileText, Share2 } from 'lucide-react';
 import { toast } from 'sonner';
+import UTMViolations from '@/components/shorten/UTMViolations.tsx';
+import UTMRulesetDialog from '@/components/shorten/UTMRulesetDialog.tsx';
+import UTMLinkAudit from '@/components/shorten/UTMLinkAudit.tsx';
+import CampaignTemplateSharing from '@/components/shorten/CampaignTemplateSharing.tsx';
+
+const UTM_FORM_KEYS: Record<UTMGovernedParam, 'utmSource' | 'utmMedium' | 'utmCampaign' | 'utmTerm' | 'utmContent'> = {
+  source: 'utmSource',
+  medium: 'utmMedium',
+  campaign: 'utmCampaign',
+  term: 'utmTerm',
+  content: 'utmContent'
+};
 
 interface CampaignTemplatesProps {
   onSelectTemplate: (template: UTMParams) => void;
+  urls?: ShortenedURL[];
+  onLinksUpdated?: () => void;
 }
 
-export function CampaignTemplates({ onSelectTemplate }: CampaignTemplatesProps) {
+export function CampaignTemplates({ onSelectTemplate, urls, onLinksUpdated }: CampaignTemplatesProps) {
   const [templates, setTemplates] = useState<CampaignTemplate[]>([]);
   const [categories, setCategories] = useState<string[]>([]);
   const [activeCategory, setActiveCategory] = useState<string>('all');
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [selectedTemplate, setSelectedTemplate] = useState<CampaignTemplate | null>(null);
+  // Bumped when the naming rules change so violations are checked again
+  const [, setRulesVersion] = useState(0);
 
   // Form state
   const [formState, setFormState] = useState({
@@ -48,6 +64,18 @@ export function CampaignTemplates({ onSelectTemplate }: CampaignTemplatesProps)
     setCategories(loadedCategories);
   }, []);
 
+  const templateViolations = CampaignTemplateService.lintUTM({
+    source: formState.utmSource,
+    medium: formState.utmMedium,
+    campaign: formState.utmCampaign,
+    term: formState.utmTerm,
+    content: formState.utmContent
+  }, formState.category.trim() || undefined);
+
+  const handleFixViolation = (param: UTMGovernedParam, value: string) => {
+    setFormState(prev => ({ ...prev, [UTM_FORM_KEYS[param]]: value }));
+  };
+
   // Filter templates by category
   const filteredTemplates = activeCategory === 'all'
     ? templates
@@ -174,13 +202,18 @@ export function CampaignTemplates({ onSelectTemplate }: CampaignTemplatesProps)
       utmParameters.custom = customParams;
     }
 
-    // Create template
-    const newTemplate = CampaignTemplateService.createTemplate({
-      name: formState.name,
-      description: formState.description,
-      category: formState.category,
-      utmParameters
-    });
+    // Create template; throws when the UTM naming rules block violations
+    try {
+      CampaignTemplateService.createTemplate({
+        name: formState.name,
+        description: formState.description,
+        category: formState.category,
+        utmParameters
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create template');
+      return;
+    }
 
     // Update state
     setTemplates(CampaignTemplateService.getTemplates());
@@ -235,12 +268,17 @@ export function CampaignTemplates({ onSelectTemplate }: CampaignTemplatesProps)
     }
 
     // Update template
-    CampaignTemplateService.updateTemplate(selectedTemplate.id, {
-      name: formState.name,
-      description: formState.description,
-      category: formState.category,
-      utmParameters
-    });
+    try {
+      CampaignTemplateService.updateTemplate(selectedTemplate.id, {
+        name: formState.name,
+        description: formState.description,
+        category: formState.category,
+        utmParameters
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update template');
+      return;
+    }
 
     // Update state
     setTemplates(CampaignTemplateService.getTemplates());
@@ -254,6 +292,17 @@ export function CampaignTemplates({ onSelectTemplate }: CampaignTemplatesProps)
     toast.success('Template updated successfully');
   };
 
+  // Copy a link that lets someone else import the template
+  const handleShareTemplate = async (template: CampaignTemplate) => {
+    try {
+      await navigator.clipboard.writeText(CampaignTemplateService.buildShareLink(template));
+      toast.success(`Share link for "${template.name}" copied to clipboard`);
+    } catch (error) {
+      console.error('Error copying share link:', error);
+      toast.error('Failed to copy the share link');
+    }
+  };
+
   // Handle delete template
   const handleDeleteTemplate = (template: CampaignTemplate) => {
     if (confirm(`Are you sure you want to delete the template "${template.name}"?`)) {
@@ -268,176 +317,191 @@ export function CampaignTemplates({ onSelectTemplate }: CampaignTemplatesProps)
     <div>
       <div className="flex flex-col xs:flex-row justify-between items-start xs:items-center gap-2 xs:gap-0 mb-4">
         <h2 className="text-base sm:text-lg font-semibold">Campaign Templates</h2>
-        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-          <DialogTrigger asChild>
-            <Button size="sm" className="flex items-center gap-1 h-8 sm:h-9 text-xs sm:text-sm">
-              <Plus className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
-              <span>New Template</span>
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-[90vw] sm:max-w-md">
-            <DialogHeader>
-              <DialogTitle className="text-base sm:text-lg">Create Campaign Template</DialogTitle>
-              <DialogDescription className="text-xs sm:text-sm">
-                Create a reusable template for your UTM parameters.
-              </DialogDescription>
-            </DialogHeader>
-
-            <div className="grid gap-4 py-4">
-              <div className="grid grid-cols-2 gap-4">
-                <div className="col-span-2">
-                  <Label htmlFor="name" className="text-xs sm:text-sm">Template Name</Label>
-                  <Input
-                    id="name"
-                    name="name"
-                    value={formState.name}
-                    onChange={handleInputChange}
-                    placeholder="e.g., Facebook Campaign"
-                    className="text-xs sm:text-sm h-8 sm:h-10"
-                  />
-                </div>
-                <div className="col-span-2">
-                  <Label htmlFor="description" className="text-xs sm:text-sm">Description</Label>
-                  <Textarea
-                    id="description"
-                    name="description"
-                    value={formState.description}
-                    onChange={handleInputChange}
-                    placeholder="What is this template for?"
-                    rows={2}
-                    className="text-xs sm:text-sm min-h-[60px]"
-                  />
-                </div>
-                <div className="col-span-2">
-                  <Label htmlFor="category" className="text-xs sm:text-sm">Category</Label>
-                  <Input
-                    id="category"
-                    name="category"
-                    value={formState.category}
-                    onChange={handleInputChange}
-                    placeholder="e.g., Social Media"
-                    className="text-xs sm:text-sm h-8 sm:h-10"
-                  />
-                </div>
-
-                <div className="col-span-2">
-                  <Label htmlFor="utmSource" className="text-xs sm:text-sm">UTM Source (required)</Label>
-                  <Input
-                    id="utmSource"
-                    name="utmSource"
-                    value={formState.utmSource}
-                    onChange={handleInputChange}
-                    placeholder="e.g., facebook"
-                    className="text-xs sm:text-sm h-8 sm:h-10"
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="utmMedium" className="text-xs sm:text-sm">UTM Medium</Label>
-                  <Input
-                    id="utmMedium"
-                    name="utmMedium"
-                    value={formState.utmMedium}
-                    onChange={handleInputChange}
-                    placeholder="e.g., social"
-                    className="text-xs sm:text-sm h-8 sm:h-10"
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="utmCampaign" className="text-xs sm:text-sm">UTM Campaign</Label>
-                  <Input
-                    id="utmCampaign"
-                    name="utmCampaign"
-                    value={formState.utmCampaign}
-                    onChange={handleInputChange}
-                    placeholder="e.g., summer_sale"
-                    className="text-xs sm:text-sm h-8 sm:h-10"
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="utmTerm" className="text-xs sm:text-sm">UTM Term</Label>
-                  <Input
-                    id="utmTerm"
-                    name="utmTerm"
-                    value={formState.utmTerm}
-                    onChange={handleInputChange}
-                    placeholder="e.g., running+shoes"
-                    className="text-xs sm:text-sm h-8 sm:h-10"
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="utmContent" className="text-xs sm:text-sm">UTM Content</Label>
-                  <Input
-                    id="utmContent"
-                    name="utmContent"
-                    value={formState.utmContent}
-                    onChange={handleInputChange}
-                    placeholder="e.g., banner"
-                    className="text-xs sm:text-sm h-8 sm:h-10"
-                  />
-                </div>
+        <div className="flex flex-wrap gap-2">
+          <UTMRulesetDialog onSaved={() => setRulesVersion(version => version + 1)} />
+          {urls && <UTMLinkAudit urls={urls} onLinksUpdated={onLinksUpdated} />}
+          <CampaignTemplateSharing
+            templates={templates}
+            onImported={() => {
+              setTemplates(CampaignTemplateService.getTemplates());
+              setCategories(CampaignTemplateService.getCategories());
+            }}
+          />
+          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+            <DialogTrigger asChild>
+              <Button size="sm" className="flex items-center gap-1 h-8 sm:h-9 text-xs sm:text-sm">
+                <Plus className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                <span>New Template</span>
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-[90vw] sm:max-w-md">
+              <DialogHeader>
+                <DialogTitle className="text-base sm:text-lg">Create Campaign Template</DialogTitle>
+                <DialogDescription className="text-xs sm:text-sm">
+                  Create a reusable template for your UTM parameters.
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="grid gap-4 py-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="col-span-2">
+                    <Label htmlFor="name" className="text-xs sm:text-sm">Template Name</Label>
+                    <Input
+                      id="name"
+                      name="name"
+                      value={formState.name}
+                      onChange={handleInputChange}
+                      placeholder="e.g., Facebook Campaign"
+                      className="text-xs sm:text-sm h-8 sm:h-10"
+                    />
+                  </div>
+                  <div className="col-span-2">
+                    <Label htmlFor="description" className="text-xs sm:text-sm">Description</Label>
+                    <Textarea
+                      id="description"
+                      name="description"
+                      value={formState.description}
+                      onChange={handleInputChange}
+                      placeholder="What is this template for?"
+                      rows={2}
+                      className="text-xs sm:text-sm min-h-[60px]"
+                    />
+                  </div>
+                  <div className="col-span-2">
+                    <Label htmlFor="category" className="text-xs sm:text-sm">Category</Label>
+                    <Input
+                      id="category"
+                      name="category"
+                      value={formState.category}
+                      onChange={handleInputChange}
+                      placeholder="e.g., Social Media"
+                      className="text-xs sm:text-sm h-8 sm:h-10"
+                    />
+                  </div>
 
-                <div className="col-span-2">
-                  <div className="flex justify-between items-center mb-2">
-                    <Label className="text-xs sm:text-sm">Custom UTM Parameters</Label>
-                    <Button
-                      type="button"
-                      variant="outline"
-                      size="sm"
-                      onClick={addCustomParam}
-                      className="h-6 sm:h-7 text-[10px] sm:text-xs"
-                    >
-                      Add Parameter
-                    </Button>
+                  <div className="col-span-2">
+                    <Label htmlFor="utmSource" className="text-xs sm:text-sm">UTM Source (required)</Label>
+                    <Input
+                      id="utmSource"
+                      name="utmSource"
+                      value={formState.utmSource}
+                      onChange={handleInputChange}
+                      placeholder="e.g., facebook"
+                      className="text-xs sm:text-sm h-8 sm:h-10"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="utmMedium" className="text-xs sm:text-sm">UTM Medium</Label>
+                    <Input
+                      id="utmMedium"
+                      name="utmMedium"
+                      value={formState.utmMedium}
+                      onChange={handleInputChange}
+                      placeholder="e.g., social"
+                      className="text-xs sm:text-sm h-8 sm:h-10"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="utmCampaign" className="text-xs sm:text-sm">UTM Campaign</Label>
+                    <Input
+                      id="utmCampaign"
+                      name="utmCampaign"
+                      value={formState.utmCampaign}
+                      onChange={handleInputChange}
+                      placeholder="e.g., summer_sale"
+                      className="text-xs sm:text-sm h-8 sm:h-10"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="utmTerm" className="text-xs sm:text-sm">UTM Term</Label>
+                    <Input
+                      id="utmTerm"
+                      name="utmTerm"
+                      value={formState.utmTerm}
+                      onChange={handleInputChange}
+                      placeholder="e.g., running+shoes"
+                      className="text-xs sm:text-sm h-8 sm:h-10"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="utmContent" className="text-xs sm:text-sm">UTM Content</Label>
+                    <Input
+                      id="utmContent"
+                      name="utmContent"
+                      value={formState.utmContent}
+                      onChange={handleInputChange}
+                      placeholder="e.g., banner"
+                      className="text-xs sm:text-sm h-8 sm:h-10"
+                    />
                   </div>
 
-                  {formState.customParams.map((param, index) => (
-                    <div key={index} className="flex gap-1 sm:gap-2 mb-2">
-                      <Input
-                        value={param.key}
-                        onChange={(e) => handleCustomParamChange(index, 'key', e.target.value)}
-                        placeholder="Parameter name"
-                        className="flex-1 text-xs sm:text-sm h-8 sm:h-10"
-                      />
-                      <Input
-                        value={param.value}
-                        onChange={(e) => handleCustomParamChange(index, 'value', e.target.value)}
-                        placeholder="Value"
-                        className="flex-1 text-xs sm:text-sm h-8 sm:h-10"
-                      />
-                      {formState.customParams.length > 1 && (
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => removeCustomParam(index)}
-                          className="h-8 w-8 sm:h-9 sm:w-9"
-                        >
-                          <Trash2 className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
-                        </Button>
-                      )}
+                  <div className="col-span-2">
+                    <div className="flex justify-between items-center mb-2">
+                      <Label className="text-xs sm:text-sm">Custom UTM Parameters</Label>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={addCustomParam}
+                        className="h-6 sm:h-7 text-[10px] sm:text-xs"
+                      >
+                        Add Parameter
+                      </Button>
                     </div>
-                  ))}
+
+                    {formState.customParams.map((param, index) => (
+                      <div key={index} className="flex gap-1 sm:gap-2 mb-2">
+                        <Input
+                          value={param.key}
+                          onChange={(e) => handleCustomParamChange(index, 'key', e.target.value)}
+                          placeholder="Parameter name"
+                          className="flex-1 text-xs sm:text-sm h-8 sm:h-10"
+                        />
+                        <Input
+                          value={param.value}
+                          onChange={(e) => handleCustomParamChange(index, 'value', e.target.value)}
+                          placeholder="Value"
+                          className="flex-1 text-xs sm:text-sm h-8 sm:h-10"
+                        />
+                        {formState.customParams.length > 1 && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => removeCustomParam(index)}
+                            className="h-8 w-8 sm:h-9 sm:w-9"
+                          >
+                            <Trash2 className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="col-span-2">
+                    <UTMViolations violations={templateViolations} onFix={handleFixViolation} />
+                  </div>
                 </div>
               </div>
-            </div>
 
-            <DialogFooter className="flex-col sm:flex-row gap-2 sm:gap-0">
-              <Button
-                variant="outline"
-                onClick={() => setIsCreateDialogOpen(false)}
-                className="text-xs sm:text-sm h-8 sm:h-10"
-              >
-                Cancel
-              </Button>
-              <Button
-                onClick={handleCreateTemplate}
-                className="text-xs sm:text-sm h-8 sm:h-10"
-              >
-                Create Template
-              </Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
+              <DialogFooter className="flex-col sm:flex-row gap-2 sm:gap-0">
+                <Button
+                  variant="outline"
+                  onClick={() => setIsCreateDialogOpen(false)}
+                  className="text-xs sm:text-sm h-8 sm:h-10"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleCreateTemplate}
+                  className="text-xs sm:text-sm h-8 sm:h-10"
+                >
+                  Create Template
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       <Tabs defaultValue="all" value={activeCategory} onValueChange={setActiveCategory}>
@@ -473,6 +537,15 @@ export function CampaignTemplates({ onSelectTemplate }: CampaignTemplatesProps)
                         </Badge>
                       </div>
                       <div className="flex gap-0.5 sm:gap-1 flex-shrink-0">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 sm:h-8 sm:w-8"
+                          title="Copy share link"
+                          onClick={() => handleShareTemplate(template)}
+                        >
+                          <Share2 className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                        </Button>
                         <Button
                           variant="ghost"
                           size="icon"
@@ -569,6 +642,9 @@ export function CampaignTemplates({ onSelectTemplate }: CampaignTemplatesProps)
                 />
               </div>
               {/* Other fields would be duplicated here */}
+              <div className="col-span-2">
+                <UTMViolations violations={templateViolations} onFix={handleFixViolation} />
+              </div>
             </div>
           </div>
 
@@ -0,0 +1,291 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { format } from 'date-fns';
+import { ShortenedURL, URLClickData } from '@/types/shorten.ts';
+import { ClickLogService, ClickLogTraffic } from '@/services/ClickLogService.ts';
+import { downloadCSV } from '@/utils/csv';
+import { downloadBlob } from '@/utils/download';
+import { Button } from '@/components/ui/button.tsx';
+import { Badge } from '@/components/ui/badge.tsx';
+import { Input } from '@/components/ui/input.tsx';
+import { Checkbox } from '@/components/ui/checkbox.tsx';
+import { Label } from '@/components/ui/label.tsx';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select.tsx';
+import { ChevronLeft, ChevronRight, Download, Loader2, RefreshCw } from 'lucide-react';
+
+const PAGE_SIZE = 25;
+const ALL_LINKS = 'all';
+
+const TRAFFIC_LABELS: Record<ClickLogTraffic, string> = {
+  all: 'All clicks',
+  human: 'Human clicks only',
+  filtered: 'Bot and repeat clicks'
+};
+
+const formatTime = (timestamp: string): string => {
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? timestamp : format(date, 'MMM d, yyyy HH:mm');
+};
+
+const formatDuration = (seconds?: number): string => {
+  if (seconds === undefined || seconds === null) return '—';
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${Math.round(seconds % 60)}s` : `${Math.round(seconds)}s`;
+};
+
+const formatLocation = (click: URLClickData): string =>
+  [click.location?.city, click.location?.country].filter(Boolean).join(', ') || '—';
+
+const formatUTM = (click: URLClickData): string =>
+  [click.utmParameters?.source, click.utmParameters?.medium, click.utmParameters?.campaign].filter(Boolean).join(' / ') || '—';
+
+// Conversions credited to the click after its first one
+const repeatConversions = (click: URLClickData): number => Math.max(0, (click.conversions?.length || 0) - 1);
+
+interface ClickLogExplorerProps {
+  url?: ShortenedURL;     // Show one link's clicks; every link's when omitted
+  urls?: ShortenedURL[];  // Links to label clicks with and to filter by
+}
+
+/**
+ * Paginated, filterable table of individual clicks with CSV and NDJSON export
+ */
+const ClickLogExplorer: React.FC<ClickLogExplorerProps> = ({ url, urls = [] }) => {
+  const [clicks, setClicks] = useState<URLClickData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [linkId, setLinkId] = useState(ALL_LINKS);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [search, setSearch] = useState('');
+  const [traffic, setTraffic] = useState<ClickLogTraffic>('all');
+  const [conversionsOnly, setConversionsOnly] = useState(false);
+  const [page, setPage] = useState(0);
+
+  const links = useMemo(() => (url ? [url] : urls), [url, urls]);
+  const shortCodes = useMemo(() => new Map(links.map(link => [link.id, link.shortCode])), [links]);
+  const scopeId = url?.id || (linkId !== ALL_LINKS ? linkId : undefined);
+  // Both the per-link and the all-links explorer can be on the page
+  const idPrefix = `click-log-${url?.id || 'all'}`;
+
+  const loadClicks = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setClicks(await ClickLogService.getClicks(scopeId));
+    } catch (error) {
+      console.error('Error loading click log:', error);
+      setClicks([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [scopeId]);
+
+  useEffect(() => {
+    loadClicks();
+  }, [loadClicks]);
+
+  const filteredClicks = useMemo(
+    () => ClickLogService.filterClicks(clicks, { from, to, search, traffic, conversionsOnly }),
+    [clicks, from, to, search, traffic, conversionsOnly]
+  );
+
+  // Back to the first page whenever the result set changes
+  useEffect(() => {
+    setPage(0);
+  }, [scopeId, from, to, search, traffic, conversionsOnly]);
+
+  const pageCount = Math.max(1, Math.ceil(filteredClicks.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageClicks = filteredClicks.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  const exportName = (extension: string) => {
+    const scope = scopeId ? shortCodes.get(scopeId) || scopeId : 'all-links';
+    const range = from || to ? `${from || 'start'}_${to || format(new Date(), 'yyyy-MM-dd')}` : format(new Date(), 'yyyy-MM-dd');
+    return `clicks-${scope}-${range}.${extension}`;
+  };
+
+  const handleExportCSV = () => {
+    downloadCSV(exportName('csv'), ClickLogService.toCSV(filteredClicks, links));
+  };
+
+  const handleExportNDJSON = () => {
+    const content = ClickLogService.toNDJSON(filteredClicks, links);
+    downloadBlob(exportName('ndjson'), new Blob([content], { type: 'application/x-ndjson' }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 items-end">
+        {!url && (
+          <div className="space-y-1.5">
+            <Label className="text-xs">Link</Label>
+            <Select value={linkId} onValueChange={setLinkId}>
+              <SelectTrigger className="h-9 text-xs sm:text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_LINKS} className="text-xs sm:text-sm">All links</SelectItem>
+                {urls.map(link => (
+                  <SelectItem key={link.id} value={link.id} className="text-xs sm:text-sm">
+                    {link.shortCode}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="space-y-1.5">
+          <Label htmlFor={`${idPrefix}-from`} className="text-xs">From</Label>
+          <Input
+            id={`${idPrefix}-from`}
+            type="date"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => setFrom(e.target.value)}
+            className="h-9 text-xs sm:text-sm"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor={`${idPrefix}-to`} className="text-xs">To</Label>
+          <Input
+            id={`${idPrefix}-to`}
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+            className="h-9 text-xs sm:text-sm"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs">Traffic</Label>
+          <Select value={traffic} onValueChange={(value) => setTraffic(value as ClickLogTraffic)}>
+            <SelectTrigger className="h-9 text-xs sm:text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(TRAFFIC_LABELS) as ClickLogTraffic[]).map(option => (
+                <SelectItem key={option} value={option} className="text-xs sm:text-sm">{TRAFFIC_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search referrer, device, browser, location or UTM"
+          className="h-9 text-xs sm:text-sm sm:max-w-sm"
+        />
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id={`${idPrefix}-conversions`}
+            checked={conversionsOnly}
+            onCheckedChange={(checked) => setConversionsOnly(checked === true)}
+          />
+          <Label htmlFor={`${idPrefix}-conversions`} className="text-xs text-gray-600">
+            Conversions only
+          </Label>
+        </div>
+        <div className="flex gap-2 sm:ml-auto">
+          <Button variant="outline" size="sm" className="h-9 text-xs sm:text-sm" onClick={loadClicks} disabled={isLoading}>
+            <RefreshCw className={`h-3.5 w-3.5 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+          <Button variant="outline" size="sm" className="h-9 text-xs sm:text-sm" onClick={handleExportCSV} disabled={filteredClicks.length === 0}>
+            <Download className="h-3.5 w-3.5 mr-1.5" />
+            CSV
+          </Button>
+          <Button variant="outline" size="sm" className="h-9 text-xs sm:text-sm" onClick={handleExportNDJSON} disabled={filteredClicks.length === 0}>
+            <Download className="h-3.5 w-3.5 mr-1.5" />
+            NDJSON
+          </Button>
+        </div>
+      </div>
+
+      {isLoading && clicks.length === 0 ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : filteredClicks.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">
+          {clicks.length === 0 ? 'No clicks recorded yet.' : 'No clicks match these filters.'}
+        </p>
+      ) : (
+        <>
+          <div className="overflow-x-auto bg-white rounded-lg border shadow-sm">
+            <table className="w-full text-xs">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-gray-600">
+                  <th className="p-2 whitespace-nowrap">Time</th>
+                  {!url && <th className="p-2">Link</th>}
+                  <th className="p-2">Referrer</th>
+                  <th className="p-2">Device</th>
+                  <th className="p-2">Location</th>
+                  <th className="p-2">UTM</th>
+                  <th className="p-2 text-right">Session</th>
+                  <th className="p-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {pageClicks.map(click => (
+                  <tr key={click.id} className="border-t align-top">
+                    <td className="p-2 whitespace-nowrap">{formatTime(click.timestamp)}</td>
+                    {!url && <td className="p-2 font-mono">{shortCodes.get(click.urlId) || click.urlId}</td>}
+                    <td className="p-2 max-w-[180px] truncate" title={click.referrer}>{click.referrer || 'Direct'}</td>
+                    <td className="p-2 whitespace-nowrap">{[click.device, click.browser].filter(Boolean).join(' · ') || '—'}</td>
+                    <td className="p-2">{formatLocation(click)}</td>
+                    <td className="p-2 max-w-[180px] truncate" title={formatUTM(click)}>{formatUTM(click)}</td>
+                    <td className="p-2 text-right whitespace-nowrap">{formatDuration(click.sessionDuration)}</td>
+                    <td className="p-2">
+                      <div className="flex flex-wrap gap-1">
+                        {click.isConversion && (
+                          <Badge variant="outline" className="text-[10px] text-green-700 border-green-200">
+                            {click.conversionType || 'Conversion'}
+                            {click.conversionValue ? ` · ${click.conversionValue}` : ''}
+                            {repeatConversions(click) > 0 ? ` (+${repeatConversions(click)} more)` : ''}
+                          </Badge>
+                        )}
+                        {click.isBot && (
+                          <Badge variant="outline" className="text-[10px] text-gray-600" title={click.botReason}>Bot</Badge>
+                        )}
+                        {click.isDuplicate && <Badge variant="outline" className="text-[10px] text-gray-600">Repeat</Badge>}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>
+              {currentPage * PAGE_SIZE + 1}–{currentPage * PAGE_SIZE + pageClicks.length} of {filteredClicks.length} clicks
+            </span>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 w-7 p-0"
+                onClick={() => setPage(currentPage - 1)}
+                disabled={currentPage === 0}
+              >
+                <ChevronLeft className="h-3.5 w-3.5" />
+              </Button>
+              <span>Page {currentPage + 1} of {pageCount}</span>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 w-7 p-0"
+                onClick={() => setPage(currentPage + 1)}
+                disabled={currentPage >= pageCount - 1}
+              >
+                <ChevronRight className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ClickLogExplorer;
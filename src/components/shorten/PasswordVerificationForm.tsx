@@ -34,7 +34,8 @@ const PasswordVerificationForm: React.FC<PasswordVerificationFormProps> = ({
   onCancel
 }) => {
   const [isLoading, setIsLoading] = useState(false);
-  const [attempts, setAttempts] = useState(0);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
   const [showPassword, setShowPassword] = useState(false);
   const [csrfToken, setCsrfToken] = useState('');
 
@@ -47,6 +48,28 @@ const PasswordVerificationForm: React.FC<PasswordVerificationFormProps> = ({
 
   }, [shortenedURL.id]);
 
+  // A lockout from earlier attempts still applies after a reload
+  useEffect(() => {
+    const { lockedUntil: until } = URLShortenerService.getPasswordLockout(shortenedURL.shortCode);
+    setLockedUntil(until ? new Date(until).getTime() : null);
+  }, [shortenedURL.shortCode]);
+
+  // Tick once a second while locked out so the countdown updates
+  useEffect(() => {
+    if (!lockedUntil) return;
+
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= lockedUntil) {
+        setLockedUntil(null);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
+
+  const lockoutSeconds = lockedUntil ? Math.max(0, Math.ceil((lockedUntil - now) / 1000)) : 0;
+
   // Initialize form
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -64,28 +87,25 @@ const PasswordVerificationForm: React.FC<PasswordVerificationFormProps> = ({
         throw new Error('Security validation failed. Please refresh the page and try again.');
       }
 
-      // Verify password
-      if (!shortenedURL.password) {
-        throw new Error('This URL is not password protected');
-      }
-
-      // Check if password is correct
-      const isCorrect = await URLShortenerService.verifyPassword(values.password, shortenedURL.password);
+      // Check the password; failed attempts lock the link out for longer each time
+      const result = await URLShortenerService.verifyLinkPassword(shortenedURL.shortCode, values.password);
 
-      if (isCorrect) {
+      if (result.verified) {
         toast.success('Password verified successfully!');
         onVerified();
       } else {
-        // Increment attempts counter
-        const newAttempts = attempts + 1;
-        setAttempts(newAttempts);
-
         // Generate a new CSRF token for the next attempt
         const newToken = CSRFProtectionService.generateToken(`password-verification-${shortenedURL.id}`);
         setCsrfToken(newToken);
 
         // Show error message
-        toast.error('Incorrect password. Please try again.');
+        if (result.lockedUntil) {
+          setNow(Date.now());
+          setLockedUntil(new Date(result.lockedUntil).getTime());
+          toast.error('Too many incorrect attempts. Please wait before trying again.');
+        } else {
+          toast.error(`Incorrect password. ${result.remainingAttempts} attempt${result.remainingAttempts !== 1 ? 's' : ''} left before a temporary lockout.`);
+        }
 
         // Clear password field
         form.setValue('password', '');
@@ -117,6 +137,12 @@ const PasswordVerificationForm: React.FC<PasswordVerificationFormProps> = ({
             {/* Hidden CSRF token input */}
             <input type="hidden" name="csrf_token" value={csrfToken} />
 
+            {lockedUntil && (
+              <p className="text-sm text-red-600" role="alert">
+                Too many incorrect attempts. Try again in {Math.floor(lockoutSeconds / 60)}:{String(lockoutSeconds % 60).padStart(2, '0')}.
+              </p>
+            )}
+
             <FormField
                 control={form.control}
                 name="password"
@@ -164,7 +190,7 @@ const PasswordVerificationForm: React.FC<PasswordVerificationFormProps> = ({
                 </Button>
                 <Button
                   type="submit"
-                  disabled={isLoading}
+                  disabled={isLoading || !!lockedUntil}
                 >
                   {isLoading ? (
                     <span className="flex items-center gap-2">
@@ -0,0 +1,127 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { QRStylePreset, ShortenedURL } from '@/types/shorten.ts';
+import { QRCodeService, DEFAULT_QR_STYLE } from '@/services/QRCodeService.ts';
+import { URLLibraryService } from '@/services/URLLibraryService.ts';
+import { downloadBlob } from '@/utils/download';
+import { Button } from '@/components/ui/button.tsx';
+import { Label } from '@/components/ui/label.tsx';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover.tsx';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select.tsx';
+import { Loader2, QrCode } from 'lucide-react';
+import { toast } from 'sonner';
+
+const DEFAULT_PRESET = 'default';
+
+interface QRBatchExportProps {
+  urls: ShortenedURL[];
+}
+
+/**
+ * Download the QR codes of every link in a folder (and its subfolders) as one ZIP file
+ */
+const QRBatchExport: React.FC<QRBatchExportProps> = ({ urls }) => {
+  const [open, setOpen] = useState(false);
+  const [presets, setPresets] = useState<QRStylePreset[]>([]);
+  const [folder, setFolder] = useState('');
+  const [presetId, setPresetId] = useState(DEFAULT_PRESET);
+  const [fileFormat, setFileFormat] = useState<'svg' | 'png'>('svg');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const folders = useMemo(() => URLLibraryService.getFacets(urls).folders, [urls]);
+  const folderURLs = useMemo(
+    () => urls.filter(url => !!url.folder && (url.folder === folder || url.folder.startsWith(`${folder}/`))),
+    [urls, folder]
+  );
+
+  // Presets may have been saved in the designer since the last time this was opened
+  useEffect(() => {
+    if (open) {
+      QRCodeService.getPresets().then(setPresets);
+    }
+  }, [open]);
+
+  if (folders.length === 0) return null;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const style = presets.find(preset => preset.id === presetId)?.style || DEFAULT_QR_STYLE;
+      const zip = await QRCodeService.buildBatchZip(folderURLs, { ...DEFAULT_QR_STYLE, ...style }, fileFormat);
+      downloadBlob(`qr-codes-${folder.replace(/[^\w-]+/g, '-')}.zip`, zip);
+      toast.success(`Exported ${folderURLs.length} QR code${folderURLs.length !== 1 ? 's' : ''}`);
+      setOpen(false);
+    } catch (error) {
+      console.error('Error exporting QR codes:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export QR codes');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="h-9 sm:h-10 text-xs sm:text-sm px-3">
+          <QrCode className="h-3.5 w-3.5 mr-1.5" />
+          Folder QR codes
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3" align="end">
+        <div className="space-y-1.5">
+          <Label className="text-xs">Folder</Label>
+          <Select value={folder} onValueChange={setFolder}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Choose a folder" />
+            </SelectTrigger>
+            <SelectContent>
+              {folders.map(item => (
+                <SelectItem key={item} value={item} className="text-xs">{item}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1.5">
+            <Label className="text-xs">Style</Label>
+            <Select value={presetId} onValueChange={setPresetId}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_PRESET} className="text-xs">Default</SelectItem>
+                {presets.map(preset => (
+                  <SelectItem key={preset.id} value={preset.id} className="text-xs">{preset.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Format</Label>
+            <Select value={fileFormat} onValueChange={(value) => setFileFormat(value as 'svg' | 'png')}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="svg" className="text-xs">SVG</SelectItem>
+                <SelectItem value="png" className="text-xs">Print PNG</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <Button
+          size="sm"
+          className="w-full h-8 text-xs"
+          onClick={handleExport}
+          disabled={isExporting || folderURLs.length === 0}
+        >
+          {isExporting && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+          Download ZIP{folder ? ` (${folderURLs.length} link${folderURLs.length !== 1 ? 's' : ''})` : ''}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default QRBatchExport;
@@ -0,0 +1,290 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { QRCodeStyle, QRErrorLevel, QRModuleStyle, QRStylePreset } from '@/types/shorten.ts';
+import { QRCodeService, DEFAULT_QR_STYLE, PRINT_PNG_SIZE } from '@/services/QRCodeService.ts';
+import { downloadBlob } from '@/utils/download';
+import { Button } from '@/components/ui/button.tsx';
+import { Input } from '@/components/ui/input.tsx';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select.tsx';
+import { Slider } from '@/components/ui/slider.tsx';
+import { Download, ImagePlus, Printer, Save, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+
+const LEVEL_LABELS: Record<QRErrorLevel, string> = {
+  L: 'Low (7%)',
+  M: 'Medium (15%)',
+  Q: 'Quartile (25%)',
+  H: 'High (30%)'
+};
+
+interface QRCodeDesignerProps {
+  value: string;           // Encoded content, e.g. the short URL
+  fileName: string;        // Download name without extension
+}
+
+const QRCodeDesigner: React.FC<QRCodeDesignerProps> = ({ value, fileName }) => {
+  const [style, setStyle] = useState<QRCodeStyle>(DEFAULT_QR_STYLE);
+  const [presets, setPresets] = useState<QRStylePreset[]>([]);
+  const [presetId, setPresetId] = useState('');
+  const [presetName, setPresetName] = useState('');
+
+  useEffect(() => {
+    QRCodeService.getPresets().then(setPresets);
+  }, []);
+
+  const svg = useMemo(() => {
+    try {
+      return QRCodeService.buildSVG(value, style);
+    } catch (error) {
+      console.error('Error building QR code:', error);
+      return '';
+    }
+  }, [value, style]);
+
+  const effectiveLevel = QRCodeService.effectiveLevel(style);
+  const updateStyle = (updates: Partial<QRCodeStyle>) => setStyle(prev => ({ ...prev, ...updates }));
+
+  const handleLogoUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      updateStyle({ logo: await QRCodeService.readLogo(file) });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to read the logo');
+    }
+  };
+
+  const handleDownloadPNG = async (width: number) => {
+    try {
+      downloadBlob(`${fileName}.png`, await QRCodeService.renderPNG(value, style, width));
+      toast.success('QR code downloaded!');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to download QR code');
+    }
+  };
+
+  const handleSelectPreset = (id: string) => {
+    const preset = presets.find(item => item.id === id);
+    if (!preset) return;
+    setPresetId(id);
+    setPresetName(preset.name);
+    setStyle({ ...DEFAULT_QR_STYLE, ...preset.style });
+  };
+
+  const handleSavePreset = async () => {
+    try {
+      const saved = await QRCodeService.savePreset(presetName, style);
+      setPresets(prev => [...prev.filter(item => item.id !== saved.id), saved]);
+      setPresetId(saved.id);
+      toast.success(`Saved preset "${saved.name}"`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save preset');
+    }
+  };
+
+  const handleDeletePreset = async () => {
+    if (await QRCodeService.deletePreset(presetId)) {
+      setPresets(prev => prev.filter(item => item.id !== presetId));
+      setPresetId('');
+      setPresetName('');
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6">
+      <div className="flex flex-col items-center justify-center p-2 sm:p-4">
+        <div className="bg-white p-2 sm:p-4 rounded-lg shadow-sm border mb-3 sm:mb-4">
+          {svg && <img src={QRCodeService.toDataURL(svg)} alt="QR code preview" style={{ width: style.size }} />}
+        </div>
+
+        <div className="flex flex-wrap justify-center gap-2">
+          <Button
+            onClick={() => downloadBlob(`${fileName}.svg`, QRCodeService.toSVGBlob(svg))}
+            disabled={!svg}
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-1.5 h-8 sm:h-9 text-xs sm:text-sm px-2 sm:px-3"
+          >
+            <Download className="h-3 w-3 sm:h-4 sm:w-4" />
+            SVG
+          </Button>
+          <Button
+            onClick={() => handleDownloadPNG(style.size)}
+            disabled={!svg}
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-1.5 h-8 sm:h-9 text-xs sm:text-sm px-2 sm:px-3"
+          >
+            <Download className="h-3 w-3 sm:h-4 sm:w-4" />
+            PNG
+          </Button>
+          <Button
+            onClick={() => handleDownloadPNG(PRINT_PNG_SIZE)}
+            disabled={!svg}
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-1.5 h-8 sm:h-9 text-xs sm:text-sm px-2 sm:px-3"
+            title={`${PRINT_PNG_SIZE}px wide PNG for print`}
+          >
+            <Printer className="h-3 w-3 sm:h-4 sm:w-4" />
+            Print PNG
+          </Button>
+        </div>
+
+        <p className="text-[10px] sm:text-xs text-gray-500 mt-3 sm:mt-4 text-center">
+          Scan this QR code with a mobile device to test it before printing.
+        </p>
+      </div>
+
+      <div className="space-y-3 sm:space-y-4">
+        <div className="space-y-1 sm:space-y-2">
+          <label className="text-[10px] sm:text-xs text-gray-500">Style preset</label>
+          <div className="flex gap-1.5">
+            <Select value={presetId} onValueChange={handleSelectPreset}>
+              <SelectTrigger className="flex-1 h-8 sm:h-9 text-xs sm:text-sm">
+                <SelectValue placeholder={presets.length > 0 ? 'Choose a preset' : 'No saved presets'} />
+              </SelectTrigger>
+              <SelectContent>
+                {presets.map(preset => (
+                  <SelectItem key={preset.id} value={preset.id} className="text-xs sm:text-sm">{preset.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {presetId && (
+              <Button variant="ghost" size="icon" className="h-8 w-8 sm:h-9 sm:w-9 text-red-500" onClick={handleDeletePreset} title="Delete preset">
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-1.5">
+            <Input
+              placeholder="Preset name"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              className="h-8 text-xs"
+            />
+            <Button size="sm" className="h-8 text-xs px-2" onClick={handleSavePreset} disabled={!presetName.trim()}>
+              <Save className="h-3 w-3 mr-1" />
+              Save
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-1 sm:space-y-2">
+          <label className="text-[10px] sm:text-xs text-gray-500">Size</label>
+          <div className="flex items-center gap-2 sm:gap-4">
+            <Slider
+              value={[style.size]}
+              min={120}
+              max={400}
+              step={10}
+              onValueChange={(value) => updateStyle({ size: value[0] })}
+              className="flex-1"
+            />
+            <span className="text-[10px] sm:text-xs text-gray-500 w-8 sm:w-10 text-right">{style.size}px</span>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 sm:gap-4">
+          <div className="space-y-1 sm:space-y-2">
+            <label className="text-[10px] sm:text-xs text-gray-500">Modules</label>
+            <Select value={style.moduleStyle} onValueChange={(value) => updateStyle({ moduleStyle: value as QRModuleStyle })}>
+              <SelectTrigger className="w-full h-8 sm:h-10 text-xs sm:text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="square" className="text-xs sm:text-sm">Square</SelectItem>
+                <SelectItem value="rounded" className="text-xs sm:text-sm">Rounded</SelectItem>
+                <SelectItem value="dots" className="text-xs sm:text-sm">Dots</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1 sm:space-y-2">
+            <label className="text-[10px] sm:text-xs text-gray-500">Error Correction</label>
+            <Select value={style.level} onValueChange={(value) => updateStyle({ level: value as QRErrorLevel })}>
+              <SelectTrigger className="w-full h-8 sm:h-10 text-xs sm:text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(LEVEL_LABELS) as QRErrorLevel[]).map(level => (
+                  <SelectItem key={level} value={level} className="text-xs sm:text-sm">{LEVEL_LABELS[level]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        {effectiveLevel !== style.level && (
+          <p className="text-[10px] sm:text-xs text-amber-700">
+            Error correction is raised to {LEVEL_LABELS[effectiveLevel]} so the code still scans with the logo.
+          </p>
+        )}
+
+        <div className="grid grid-cols-2 gap-2 sm:gap-4">
+          <div className="space-y-1 sm:space-y-2">
+            <label className="text-[10px] sm:text-xs text-gray-500">Foreground Color</label>
+            <input
+              type="color"
+              value={style.fgColor}
+              onChange={(e) => updateStyle({ fgColor: e.target.value })}
+              className="w-full h-7 sm:h-8"
+            />
+          </div>
+          <div className="space-y-1 sm:space-y-2">
+            <label className="text-[10px] sm:text-xs text-gray-500">Background Color</label>
+            <input
+              type="color"
+              value={style.bgColor}
+              onChange={(e) => updateStyle({ bgColor: e.target.value })}
+              className="w-full h-7 sm:h-8"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1 sm:space-y-2">
+          <label className="text-[10px] sm:text-xs text-gray-500">Center logo</label>
+          <div className="flex items-center gap-2">
+            <label className="cursor-pointer">
+              <Button variant="outline" size="sm" className="h-8 text-xs px-2" asChild>
+                <span>
+                  <ImagePlus className="h-3.5 w-3.5 mr-1" />
+                  {style.logo ? 'Replace' : 'Upload'}
+                </span>
+              </Button>
+              <input type="file" accept="image/*" onChange={handleLogoUpload} className="hidden" />
+            </label>
+            {style.logo && (
+              <>
+                <Slider
+                  value={[Math.round(style.logoScale * 100)]}
+                  min={10}
+                  max={30}
+                  step={1}
+                  onValueChange={(value) => updateStyle({ logoScale: value[0] / 100 })}
+                  className="flex-1"
+                />
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => updateStyle({ logo: undefined })} title="Remove logo">
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-1 sm:space-y-2">
+          <label className="text-[10px] sm:text-xs text-gray-500">Caption frame</label>
+          <Input
+            placeholder="Scan me"
+            maxLength={40}
+            value={style.caption || ''}
+            onChange={(e) => updateStyle({ caption: e.target.value })}
+            className="h-8 text-xs"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QRCodeDesigner;
@@ -0,0 +1,344 @@
+import React, { useState, useMemo } from 'react';
+import {
+  EmailPayload,
+  EventPayload,
+  QRPayload,
+  QRPayloadType,
+  SMSPayload,
+  ShortenedURL,
+  VCardPayload,
+  WifiPayload
+} from '@/types/shorten.ts';
+import { QRPayloadService, QR_PAYLOAD_LABELS } from '@/services/QRPayloadService.ts';
+import { URLShortenerService } from '@/services/URLShortenerService.ts';
+import { Button } from '@/components/ui/button.tsx';
+import { Input } from '@/components/ui/input.tsx';
+import { Textarea } from '@/components/ui/textarea.tsx';
+import { Label } from '@/components/ui/label.tsx';
+import { Checkbox } from '@/components/ui/checkbox.tsx';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select.tsx';
+import QRCodeDesigner from '@/components/shorten/QRCodeDesigner.tsx';
+import { BarChart3, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+type QRContentType = 'link' | QRPayloadType;
+
+interface PayloadForms {
+  vcard: VCardPayload;
+  wifi: WifiPayload;
+  email: EmailPayload;
+  sms: SMSPayload;
+  event: EventPayload;
+}
+
+const EMPTY_FORMS: PayloadForms = {
+  vcard: { version: '3.0', firstName: '', lastName: '', organization: '', title: '', phone: '', email: '', website: '', address: '', note: '' },
+  wifi: { ssid: '', password: '', encryption: 'WPA', hidden: false },
+  email: { to: '', subject: '', body: '' },
+  sms: { phone: '', message: '' },
+  event: { title: '', start: '', end: '', allDay: false, location: '', description: '' }
+};
+
+const Field: React.FC<{ label: string; children: React.ReactNode; className?: string }> = ({ label, children, className }) => (
+  <div className={`space-y-1 ${className || ''}`}>
+    <Label className="text-[10px] sm:text-xs text-gray-500">{label}</Label>
+    {children}
+  </div>
+);
+
+interface QRPayloadBuilderProps {
+  shortURL: string;
+  shortCode: string;
+  onLinkCreated?: (url: ShortenedURL) => void;
+}
+
+/**
+ * QR tab content: the short link itself, or a contact, Wi-Fi, email, SMS or event payload
+ */
+const QRPayloadBuilder: React.FC<QRPayloadBuilderProps> = ({ shortURL, shortCode, onLinkCreated }) => {
+  const [contentType, setContentType] = useState<QRContentType>('link');
+  const [forms, setForms] = useState<PayloadForms>(EMPTY_FORMS);
+  const [trackScans, setTrackScans] = useState(false);
+  const [trackedLink, setTrackedLink] = useState<ShortenedURL | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const payload = useMemo<QRPayload | null>(
+    () => (contentType === 'link' ? null : { type: contentType, data: forms[contentType] } as QRPayload),
+    [contentType, forms]
+  );
+  const built = useMemo(() => (payload ? QRPayloadService.build(payload) : null), [payload]);
+  const canWrap = contentType !== 'link' && QRPayloadService.canWrap(contentType);
+  const hasInput = payload ? Object.values(payload.data).some(value => typeof value === 'string' && value.trim()) : false;
+
+  const updateForm = <T extends QRPayloadType>(type: T, updates: Partial<PayloadForms[T]>) => {
+    setForms(prev => ({ ...prev, [type]: { ...prev[type], ...updates } }));
+    // A tracked link stores the payload it was created with
+    setTrackedLink(null);
+  };
+
+  const handleTypeChange = (type: QRContentType) => {
+    setContentType(type);
+    setTrackedLink(null);
+  };
+
+  const handleCreateTrackedLink = async () => {
+    if (!payload) return;
+
+    setIsCreating(true);
+    try {
+      const url = await URLShortenerService.shortenPayload(payload);
+      setTrackedLink(url);
+      onLinkCreated?.(url);
+      toast.success('Tracked link created');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create tracked link');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  let value = shortURL;
+  let fileName = `qr-${shortCode}`;
+  if (contentType !== 'link') {
+    value = trackScans && canWrap ? trackedLink?.shortURL || '' : built?.value || '';
+    fileName = trackScans && trackedLink ? `qr-${trackedLink.shortCode}` : `qr-${contentType}`;
+  }
+
+  const renderForm = () => {
+    switch (contentType) {
+      case 'vcard': {
+        const card = forms.vcard;
+        return (
+          <div className="grid grid-cols-2 gap-2">
+            <Field label="First name">
+              <Input value={card.firstName} onChange={(e) => updateForm('vcard', { firstName: e.target.value })} className="h-8 text-xs" />
+            </Field>
+            <Field label="Last name">
+              <Input value={card.lastName} onChange={(e) => updateForm('vcard', { lastName: e.target.value })} className="h-8 text-xs" />
+            </Field>
+            <Field label="Organization">
+              <Input value={card.organization} onChange={(e) => updateForm('vcard', { organization: e.target.value })} className="h-8 text-xs" />
+            </Field>
+            <Field label="Job title">
+              <Input value={card.title} onChange={(e) => updateForm('vcard', { title: e.target.value })} className="h-8 text-xs" />
+            </Field>
+            <Field label="Phone">
+              <Input type="tel" value={card.phone} onChange={(e) => updateForm('vcard', { phone: e.target.value })} className="h-8 text-xs" />
+            </Field>
+            <Field label="Email">
+              <Input type="email" value={card.email} onChange={(e) => updateForm('vcard', { email: e.target.value })} className="h-8 text-xs" />
+            </Field>
+            <Field label="Website" className="col-span-2">
+              <Input placeholder="https://" value={card.website} onChange={(e) => updateForm('vcard', { website: e.target.value })} className="h-8 text-xs" />
+            </Field>
+            <Field label="Address" className="col-span-2">
+              <Input value={card.address} onChange={(e) => updateForm('vcard', { address: e.target.value })} className="h-8 text-xs" />
+            </Field>
+            <Field label="vCard version" className="col-span-2">
+              <Select value={card.version} onValueChange={(version) => updateForm('vcard', { version: version as VCardPayload['version'] })}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="3.0" className="text-xs">3.0 (widest support)</SelectItem>
+                  <SelectItem value="4.0" className="text-xs">4.0</SelectItem>
+                </SelectContent>
+              </Select>
+            </Field>
+          </div>
+        );
+      }
+
+      case 'wifi': {
+        const wifi = forms.wifi;
+        return (
+          <div className="space-y-2">
+            <Field label="Network name (SSID)">
+              <Input value={wifi.ssid} onChange={(e) => updateForm('wifi', { ssid: e.target.value })} className="h-8 text-xs" />
+            </Field>
+            <div className="grid grid-cols-2 gap-2">
+              <Field label="Security">
+                <Select value={wifi.encryption} onValueChange={(encryption) => updateForm('wifi', { encryption: encryption as WifiPayload['encryption'] })}>
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="WPA" className="text-xs">WPA/WPA2/WPA3</SelectItem>
+                    <SelectItem value="WEP" className="text-xs">WEP</SelectItem>
+                    <SelectItem value="nopass" className="text-xs">None</SelectItem>
+                  </SelectContent>
+                </Select>
+              </Field>
+              <Field label="Password">
+                <Input
+                  value={wifi.password}
+                  disabled={wifi.encryption === 'nopass'}
+                  onChange={(e) => updateForm('wifi', { password: e.target.value })}
+                  className="h-8 text-xs"
+                />
+              </Field>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="qr-wifi-hidden"
+                checked={wifi.hidden}
+                onCheckedChange={(checked) => updateForm('wifi', { hidden: checked === true })}
+              />
+              <Label htmlFor="qr-wifi-hidden" className="text-xs">Hidden network</Label>
+            </div>
+          </div>
+        );
+      }
+
+      case 'email': {
+        const email = forms.email;
+        return (
+          <div className="space-y-2">
+            <Field label="To">
+              <Input placeholder="name@example.com" value={email.to} onChange={(e) => updateForm('email', { to: e.target.value })} className="h-8 text-xs" />
+            </Field>
+            <Field label="Subject">
+              <Input value={email.subject} onChange={(e) => updateForm('email', { subject: e.target.value })} className="h-8 text-xs" />
+            </Field>
+            <Field label="Message">
+              <Textarea rows={3} value={email.body} onChange={(e) => updateForm('email', { body: e.target.value })} className="text-xs" />
+            </Field>
+          </div>
+        );
+      }
+
+      case 'sms': {
+        const sms = forms.sms;
+        return (
+          <div className="space-y-2">
+            <Field label="Phone number">
+              <Input type="tel" placeholder="+1 555 123 4567" value={sms.phone} onChange={(e) => updateForm('sms', { phone: e.target.value })} className="h-8 text-xs" />
+            </Field>
+            <Field label="Message">
+              <Textarea rows={3} value={sms.message} onChange={(e) => updateForm('sms', { message: e.target.value })} className="text-xs" />
+            </Field>
+          </div>
+        );
+      }
+
+      case 'event': {
+        const event = forms.event;
+        const inputType = event.allDay ? 'date' : 'datetime-local';
+        return (
+          <div className="space-y-2">
+            <Field label="Title">
+              <Input value={event.title} onChange={(e) => updateForm('event', { title: e.target.value })} className="h-8 text-xs" />
+            </Field>
+            <div className="grid grid-cols-2 gap-2">
+              <Field label="Starts">
+                <Input type={inputType} value={event.start} onChange={(e) => updateForm('event', { start: e.target.value })} className="h-8 text-xs" />
+              </Field>
+              <Field label="Ends">
+                <Input type={inputType} value={event.end} onChange={(e) => updateForm('event', { end: e.target.value })} className="h-8 text-xs" />
+              </Field>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="qr-event-all-day"
+                checked={event.allDay}
+                onCheckedChange={(checked) => updateForm('event', {
+                  allDay: checked === true,
+                  // Date inputs only keep the day; time inputs need one to be entered again
+                  start: checked === true ? event.start.slice(0, 10) : '',
+                  end: checked === true ? event.end?.slice(0, 10) : ''
+                })}
+              />
+              <Label htmlFor="qr-event-all-day" className="text-xs">All-day event</Label>
+            </div>
+            <Field label="Location">
+              <Input value={event.location} onChange={(e) => updateForm('event', { location: e.target.value })} className="h-8 text-xs" />
+            </Field>
+            <Field label="Description">
+              <Textarea rows={2} value={event.description} onChange={(e) => updateForm('event', { description: e.target.value })} className="text-xs" />
+            </Field>
+          </div>
+        );
+      }
+
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3 rounded-md border p-3">
+        <Field label="QR code content">
+          <Select value={contentType} onValueChange={(type) => handleTypeChange(type as QRContentType)}>
+            <SelectTrigger className="h-8 sm:h-9 text-xs sm:text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="link" className="text-xs sm:text-sm">This short link</SelectItem>
+              {(Object.keys(QR_PAYLOAD_LABELS) as QRPayloadType[]).map(type => (
+                <SelectItem key={type} value={type} className="text-xs sm:text-sm">{QR_PAYLOAD_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </Field>
+
+        {renderForm()}
+
+        {hasInput && built && built.errors.length > 0 && (
+          <ul className="text-[10px] sm:text-xs text-red-600 space-y-0.5">
+            {built.errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+
+        {contentType === 'wifi' && (
+          <p className="text-[10px] sm:text-xs text-gray-500">
+            Phones only join a network when the camera scans the Wi-Fi code itself, so these scans cannot be counted.
+          </p>
+        )}
+
+        {canWrap && (
+          <div className="space-y-2 border-t pt-2">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="qr-track-scans"
+                checked={trackScans}
+                onCheckedChange={(checked) => setTrackScans(checked === true)}
+              />
+              <Label htmlFor="qr-track-scans" className="text-xs">Count scans through a short link</Label>
+            </div>
+            {trackScans && (
+              trackedLink ? (
+                <p className="text-[10px] sm:text-xs text-gray-600 flex items-center gap-1 break-all">
+                  <BarChart3 className="h-3 w-3 flex-shrink-0" />
+                  Scans are counted in the analytics of {trackedLink.shortURL}
+                </p>
+              ) : (
+                <Button
+                  size="sm"
+                  className="h-8 text-xs"
+                  onClick={handleCreateTrackedLink}
+                  disabled={isCreating || !built?.value}
+                >
+                  {isCreating && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+                  Create tracked link
+                </Button>
+              )
+            )}
+          </div>
+        )}
+      </div>
+
+      {value ? (
+        <QRCodeDesigner value={value} fileName={fileName} />
+      ) : (
+        <p className="text-xs sm:text-sm text-gray-500 text-center py-6">
+          {trackScans && canWrap && built?.value
+            ? 'Create the tracked link to generate its QR code.'
+            : 'Fill in the details to generate the QR code.'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default QRPayloadBuilder;
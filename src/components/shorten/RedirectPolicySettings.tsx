@@ -0,0 +1,258 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { RedirectPolicy, RedirectPolicyCheck, RedirectVerdict } from '@/types/shorten.ts';
+import { RedirectPolicyService } from '@/services/RedirectPolicyService.ts';
+import { Button } from '@/components/ui/button.tsx';
+import { Input } from '@/components/ui/input.tsx';
+import { Textarea } from '@/components/ui/textarea.tsx';
+import { Checkbox } from '@/components/ui/checkbox.tsx';
+import { Label } from '@/components/ui/label.tsx';
+import { Badge } from '@/components/ui/badge.tsx';
+import { Loader2, Save, Search, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+
+const VERDICT_BADGES: Record<RedirectVerdict, { label: string; className: string }> = {
+  trusted: { label: 'Trusted', className: 'bg-green-100 text-green-800 border-green-200' },
+  neutral: { label: 'Needs confirmation', className: 'bg-gray-100 text-gray-700 border-gray-200' },
+  suspicious: { label: 'Suspicious', className: 'bg-amber-100 text-amber-800 border-amber-200' },
+  blocked: { label: 'Blocked', className: 'bg-red-100 text-red-800 border-red-200' }
+};
+
+const toLines = (entries: string[]): string => entries.join('\n');
+
+const fromLines = (text: string): string[] => text.split(/[\n,]/).map(entry => entry.trim()).filter(Boolean);
+
+/**
+ * Edit the redirect safety policy that is checked when links are created and when they redirect
+ */
+const RedirectPolicySettings: React.FC = () => {
+  const [policy, setPolicy] = useState<RedirectPolicy | null>(null);
+  const [allowlist, setAllowlist] = useState('');
+  const [denylist, setDenylist] = useState('');
+  const [blockHomographs, setBlockHomographs] = useState(false);
+  const [blockShortenerChains, setBlockShortenerChains] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [testURL, setTestURL] = useState('');
+  const [testResult, setTestResult] = useState<RedirectPolicyCheck | null>(null);
+
+  const applyPolicy = (loaded: RedirectPolicy) => {
+    setPolicy(loaded);
+    setAllowlist(toLines(loaded.allowlist));
+    setDenylist(toLines(loaded.denylist));
+    setBlockHomographs(loaded.blockHomographs);
+    setBlockShortenerChains(loaded.blockShortenerChains);
+  };
+
+  useEffect(() => {
+    RedirectPolicyService.load().then(applyPolicy);
+  }, []);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      applyPolicy(await RedirectPolicyService.savePolicy({
+        allowlist: fromLines(allowlist),
+        denylist: fromLines(denylist),
+        blockHomographs,
+        blockShortenerChains
+      }));
+      setTestResult(null);
+      toast.success('Safety policy saved');
+    } catch (error) {
+      console.error('Error saving redirect policy:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save the safety policy');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = async (e) => {
+      setIsImporting(true);
+      try {
+        const count = await RedirectPolicyService.importBlocklist(String(e.target?.result || ''), file.name);
+        applyPolicy(RedirectPolicyService.getPolicy());
+        setTestResult(null);
+        toast.success(`Imported ${count.toLocaleString()} blocked domain${count !== 1 ? 's' : ''}`);
+      } catch (error) {
+        console.error('Error importing blocklist:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to import the blocklist');
+      } finally {
+        setIsImporting(false);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleClearBlocklist = async () => {
+    try {
+      await RedirectPolicyService.clearBlocklist();
+      applyPolicy(RedirectPolicyService.getPolicy());
+      setTestResult(null);
+      toast.success('Blocklist removed');
+    } catch (error) {
+      console.error('Error clearing blocklist:', error);
+      toast.error('Failed to remove the blocklist');
+    }
+  };
+
+  // Tests use the saved policy, so unsaved edits are not reflected
+  const handleTest = () => {
+    const url = testURL.trim();
+    if (!url) return;
+    setTestResult(RedirectPolicyService.check(/^[a-z][a-z\d+.-]*:/i.test(url) ? url : `https://${url}`));
+  };
+
+  if (!policy) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-1.5">
+          <Label htmlFor="policy-allowlist" className="text-sm">Allowlist</Label>
+          <Textarea
+            id="policy-allowlist"
+            value={allowlist}
+            onChange={(e) => setAllowlist(e.target.value)}
+            rows={8}
+            className="font-mono text-xs"
+            placeholder={'example.com\n*.example.org'}
+          />
+          <p className="text-xs text-gray-500">
+            Trusted destinations redirect without a warning. Use *.example.com to include subdomains.
+          </p>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="policy-denylist" className="text-sm">Denylist</Label>
+          <Textarea
+            id="policy-denylist"
+            value={denylist}
+            onChange={(e) => setDenylist(e.target.value)}
+            rows={8}
+            className="font-mono text-xs"
+            placeholder={'phishing.example\n*.tk'}
+          />
+          <p className="text-xs text-gray-500">
+            Links to these domains cannot be created, and existing links to them stop redirecting.
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-start gap-2">
+          <Checkbox
+            id="policy-homographs"
+            checked={blockHomographs}
+            onCheckedChange={(checked) => setBlockHomographs(checked === true)}
+            className="mt-0.5"
+          />
+          <div className="space-y-0.5 leading-none">
+            <Label htmlFor="policy-homographs" className="text-sm">Block lookalike domains</Label>
+            <p className="text-xs text-gray-500">
+              Internationalized domains that imitate Latin ones (e.g. Cyrillic "аpple.com") are blocked instead of flagged.
+            </p>
+          </div>
+        </div>
+        <div className="flex items-start gap-2">
+          <Checkbox
+            id="policy-shorteners"
+            checked={blockShortenerChains}
+            onCheckedChange={(checked) => setBlockShortenerChains(checked === true)}
+            className="mt-0.5"
+          />
+          <div className="space-y-0.5 leading-none">
+            <Label htmlFor="policy-shorteners" className="text-sm">Block links to other shorteners</Label>
+            <p className="text-xs text-gray-500">
+              Chained short links hide the real destination. When off, they are flagged as suspicious instead.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <Button onClick={handleSave} disabled={isSaving}>
+        {isSaving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+        Save policy
+      </Button>
+
+      <div className="border-t pt-5 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <h3 className="text-sm font-semibold">Offline blocklist</h3>
+            <p className="text-xs text-gray-500">
+              {policy.blocklist.length > 0
+                ? `${policy.blocklist.length.toLocaleString()} domains from ${policy.blocklistSource || 'an imported file'}${
+                  policy.blocklistImportedAt ? `, imported ${format(new Date(policy.blocklistImportedAt), 'MMM d, yyyy')}` : ''}`
+                : 'Import a plain domain list, a hosts file or adblock-style ||domain^ rules.'}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {policy.blocklist.length > 0 && (
+              <Button variant="ghost" size="sm" onClick={handleClearBlocklist} disabled={isImporting}>
+                <Trash2 className="h-3.5 w-3.5 mr-1" />
+                Remove
+              </Button>
+            )}
+            <label className="cursor-pointer">
+              <Button variant="outline" size="sm" asChild disabled={isImporting}>
+                <span>
+                  {isImporting ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" /> : <Upload className="h-3.5 w-3.5 mr-1" />}
+                  {policy.blocklist.length > 0 ? 'Replace' : 'Import'}
+                </span>
+              </Button>
+              <input type="file" accept=".txt,.list,.hosts,text/plain" onChange={handleImport} className="hidden" />
+            </label>
+          </div>
+        </div>
+      </div>
+
+      <div className="border-t pt-5 space-y-3">
+        <h3 className="text-sm font-semibold">Test a destination</h3>
+        <div className="flex gap-2">
+          <Input
+            value={testURL}
+            onChange={(e) => setTestURL(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleTest()}
+            placeholder="https://example.com/page"
+            className="text-sm"
+          />
+          <Button variant="outline" onClick={handleTest} disabled={!testURL.trim()}>
+            <Search className="h-4 w-4 mr-1" />
+            Check
+          </Button>
+        </div>
+        {testResult && (
+          <div className="rounded-md border p-3 space-y-1.5">
+            <Badge variant="outline" className={VERDICT_BADGES[testResult.verdict].className}>
+              {VERDICT_BADGES[testResult.verdict].label}
+            </Badge>
+            {testResult.reasons.length > 0 ? (
+              <ul className="list-disc pl-4 text-xs text-gray-600 space-y-0.5">
+                {testResult.reasons.map(reason => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-gray-600">
+                {testResult.hostname} is not on any list; visitors confirm before being redirected.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RedirectPolicySettings;
@@ -0,0 +1,308 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { RedirectRule, RedirectRuleConditions, RedirectSchedule } from '@/types/shorten.ts';
+import { URLShortenerService } from '@/services/URLShortenerService.ts';
+import { Button } from '@/components/ui/button.tsx';
+import { Input } from '@/components/ui/input.tsx';
+import { Label } from '@/components/ui/label.tsx';
+import { Checkbox } from '@/components/ui/checkbox.tsx';
+import { Badge } from '@/components/ui/badge.tsx';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select.tsx';
+import { ArrowDown, ArrowUp, FlaskConical, Plus, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils.ts';
+
+type RedirectRuleDraft = Omit<RedirectRule, 'id'>;
+
+interface RedirectRulesEditorProps {
+  rules: RedirectRuleDraft[];
+  onChange: (rules: RedirectRuleDraft[]) => void;
+  fallbackURL?: string;
+}
+
+const MAX_RULES = 10;
+const OS_OPTIONS = ['iOS', 'Android', 'Windows', 'macOS', 'Linux', 'Chrome OS'];
+const DEVICE_OPTIONS = ['Mobile', 'Tablet', 'Desktop'];
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DEFAULT_SCHEDULE: RedirectSchedule = { days: [1, 2, 3, 4, 5], startTime: '09:00', endTime: '17:00' };
+
+// Sample user agents for the rule tester
+const VISITOR_PRESETS = [
+  {
+    id: 'iphone',
+    label: 'iPhone',
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1'
+  },
+  {
+    id: 'ipad',
+    label: 'iPad',
+    userAgent: 'Mozilla/5.0 (iPad; CPU OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1'
+  },
+  {
+    id: 'android',
+    label: 'Android phone',
+    userAgent: 'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36'
+  },
+  {
+    id: 'windows',
+    label: 'Windows desktop',
+    userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36'
+  },
+  {
+    id: 'mac',
+    label: 'Mac desktop',
+    userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Safari/605.1.15'
+  }
+];
+
+const toggleValue = <T,>(values: T[] | undefined, value: T): T[] =>
+  values?.includes(value) ? values.filter(item => item !== value) : [...(values || []), value];
+
+const RedirectRulesEditor: React.FC<RedirectRulesEditorProps> = ({ rules, onChange, fallbackURL }) => {
+  const [visitorPreset, setVisitorPreset] = useState('current');
+  const [visitorLanguage, setVisitorLanguage] = useState(() => navigator.language || 'en-US');
+  const [visitorTime, setVisitorTime] = useState(() => format(new Date(), "yyyy-MM-dd'T'HH:mm"));
+
+  const updateRule = (index: number, updates: Partial<RedirectRuleDraft>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...updates } : rule)));
+  };
+
+  const updateConditions = (index: number, updates: Partial<RedirectRuleConditions>) => {
+    updateRule(index, { conditions: { ...rules[index].conditions, ...updates } });
+  };
+
+  const updateSchedule = (index: number, updates: Partial<RedirectSchedule>) => {
+    const schedule = rules[index].conditions.schedule || DEFAULT_SCHEDULE;
+    updateConditions(index, { schedule: { ...schedule, ...updates } });
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const reordered = [...rules];
+    const [rule] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, rule);
+    onChange(reordered);
+  };
+
+  // Rule tester
+  const userAgent = VISITOR_PRESETS.find(preset => preset.id === visitorPreset)?.userAgent || navigator.userAgent;
+  const visitorDate = new Date(visitorTime);
+  const simulatedVisitor = URLShortenerService.describeUserAgent(userAgent);
+  const matchedRule = Number.isNaN(visitorDate.getTime())
+    ? null
+    : URLShortenerService.evaluateRedirectRules(rules, { userAgent, language: visitorLanguage, date: visitorDate });
+  const matchedIndex = matchedRule ? rules.indexOf(matchedRule) : -1;
+
+  return (
+    <div className="space-y-3">
+      {rules.length === 0 && (
+        <p className="text-xs text-gray-500">No rules yet. Every visitor goes to the main destination.</p>
+      )}
+
+      {rules.map((rule, index) => {
+        const schedule = rule.conditions.schedule;
+        return (
+          <div
+            key={index}
+            className={cn('space-y-3 rounded-md border p-3', matchedIndex === index && 'border-teal-400 bg-teal-50/40')}
+          >
+            <div className="flex items-center gap-2">
+              <Badge variant="outline" className="text-xs">{index + 1}</Badge>
+              <Input
+                placeholder={`Rule ${index + 1}`}
+                value={rule.label}
+                onChange={(e) => updateRule(index, { label: e.target.value })}
+                className="text-xs sm:text-sm h-8"
+              />
+              <Button type="button" variant="ghost" size="sm" className="h-8 w-8 px-0" onClick={() => moveRule(index, -1)} disabled={index === 0} aria-label="Move rule up">
+                <ArrowUp className="h-3.5 w-3.5" />
+              </Button>
+              <Button type="button" variant="ghost" size="sm" className="h-8 w-8 px-0" onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1} aria-label="Move rule down">
+                <ArrowDown className="h-3.5 w-3.5" />
+              </Button>
+              <Button type="button" variant="ghost" size="sm" className="h-8 w-8 px-0" onClick={() => onChange(rules.filter((_, i) => i !== index))} aria-label="Remove rule">
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Send to</Label>
+              <Input
+                placeholder="https://apps.apple.com/app/id000000000"
+                value={rule.destination}
+                onChange={(e) => updateRule(index, { destination: e.target.value })}
+                className="text-xs sm:text-sm h-8"
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Operating system</Label>
+              <div className="flex flex-wrap gap-1.5">
+                {OS_OPTIONS.map(os => (
+                  <Button
+                    key={os}
+                    type="button"
+                    size="sm"
+                    variant={rule.conditions.os?.includes(os) ? 'default' : 'outline'}
+                    className="h-7 px-2 text-xs"
+                    onClick={() => updateConditions(index, { os: toggleValue(rule.conditions.os, os) })}
+                  >
+                    {os}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Device</Label>
+              <div className="flex flex-wrap gap-1.5">
+                {DEVICE_OPTIONS.map(device => (
+                  <Button
+                    key={device}
+                    type="button"
+                    size="sm"
+                    variant={rule.conditions.devices?.includes(device) ? 'default' : 'outline'}
+                    className="h-7 px-2 text-xs"
+                    onClick={() => updateConditions(index, { devices: toggleValue(rule.conditions.devices, device) })}
+                  >
+                    {device}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Browser language</Label>
+              <Input
+                placeholder="de, fr-CA"
+                value={rule.conditions.languages?.join(',') || ''}
+                onChange={(e) => updateConditions(index, { languages: e.target.value ? e.target.value.split(',') : undefined })}
+                className="text-xs sm:text-sm h-8"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id={`rule-${index}-schedule`}
+                  checked={!!schedule}
+                  onCheckedChange={(checked) => updateConditions(index, { schedule: checked ? DEFAULT_SCHEDULE : undefined })}
+                />
+                <Label htmlFor={`rule-${index}-schedule`} className="text-xs">Schedule</Label>
+              </div>
+
+              {schedule && (
+                <div className="space-y-2 pl-6">
+                  <div className="flex flex-wrap gap-1.5">
+                    {DAY_LABELS.map((day, dayIndex) => (
+                      <Button
+                        key={day}
+                        type="button"
+                        size="sm"
+                        variant={schedule.days.includes(dayIndex) ? 'default' : 'outline'}
+                        className="h-7 w-11 px-0 text-xs"
+                        onClick={() => updateSchedule(index, { days: toggleValue(schedule.days, dayIndex) })}
+                      >
+                        {day}
+                      </Button>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                    <Select
+                      value={schedule.outside ? 'outside' : 'inside'}
+                      onValueChange={(value) => updateSchedule(index, { outside: value === 'outside' })}
+                    >
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="inside">Between</SelectItem>
+                        <SelectItem value="outside">Outside</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="time"
+                      value={schedule.startTime}
+                      onChange={(e) => updateSchedule(index, { startTime: e.target.value })}
+                      className="h-8 text-xs"
+                      aria-label="Start time"
+                    />
+                    <Input
+                      type="time"
+                      value={schedule.endTime}
+                      onChange={(e) => updateSchedule(index, { endTime: e.target.value })}
+                      className="h-8 text-xs"
+                      aria-label="End time"
+                    />
+                    <Input
+                      placeholder="Visitor's time zone"
+                      value={schedule.timezone || ''}
+                      onChange={(e) => updateSchedule(index, { timezone: e.target.value || undefined })}
+                      className="h-8 text-xs"
+                      aria-label="Time zone"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...rules, { label: '', destination: '', conditions: {} }])}
+        disabled={rules.length >= MAX_RULES}
+      >
+        <Plus className="h-3.5 w-3.5 mr-1" />
+        Add rule
+      </Button>
+
+      {rules.length > 0 && (
+        <div className="space-y-2 rounded-md bg-gray-50 border p-3">
+          <h4 className="text-xs font-medium text-gray-700 flex items-center gap-1.5">
+            <FlaskConical className="h-3.5 w-3.5" />
+            Test with a simulated visitor
+          </h4>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <Select value={visitorPreset} onValueChange={setVisitorPreset}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="current">This browser</SelectItem>
+                {VISITOR_PRESETS.map(preset => (
+                  <SelectItem key={preset.id} value={preset.id}>{preset.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={visitorLanguage}
+              onChange={(e) => setVisitorLanguage(e.target.value)}
+              placeholder="en-US"
+              className="h-8 text-xs"
+              aria-label="Visitor language"
+            />
+            <Input
+              type="datetime-local"
+              value={visitorTime}
+              onChange={(e) => setVisitorTime(e.target.value)}
+              className="h-8 text-xs"
+              aria-label="Visit time"
+            />
+          </div>
+          <p className="text-xs text-gray-500">
+            Seen as {simulatedVisitor.os} · {simulatedVisitor.device} · {simulatedVisitor.browser}
+          </p>
+          <p className="text-xs text-gray-700 break-all">
+            {matchedRule
+              ? <>Matches <strong>{matchedRule.label || `Rule ${matchedIndex + 1}`}</strong> → {matchedRule.destination || '(no destination yet)'}</>
+              : <>No rule matches → {fallbackURL || 'the main destination'}</>}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RedirectRulesEditor;
@@ -5,24 +5,22 @@ import { Button } from '@/components/ui/button.tsx';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs.tsx';
 import { ShortenedURL } from '@/types/shorten.ts';
 import { toast } from 'sonner';
-import { Check, Copy, QrCode, Link, Calendar, ExternalLink, Download, Share2, Lock, Shield } from 'lucide-react';
-import * as QRCodeLib from 'qrcode.react';
+import { Check, Copy, QrCode, Link, Calendar, ExternalLink, Share2, Lock, Shield } from 'lucide-react';
 import { format } from 'date-fns';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip.tsx';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select.tsx';
-import { Slider } from '@/components/ui/slider.tsx';
+import { buildShortURL } from '@/lib/short-links';
+import QRPayloadBuilder from '@/components/shorten/QRPayloadBuilder.tsx';
 
 interface ShortenedURLDisplayProps {
   shortenedURL: ShortenedURL;
+  onLinkCreated?: (url: ShortenedURL) => void; // Tracked links created for QR payloads
 }
 
-const ShortenedURLDisplay: React.FC<ShortenedURLDisplayProps> = ({ shortenedURL }) => {
+const ShortenedURLDisplay: React.FC<ShortenedURLDisplayProps> = ({ shortenedURL, onLinkCreated }) => {
+  // Built from the current short link base so copies and QR codes always resolve
+  const shortURL = buildShortURL(shortenedURL.shortCode);
   const [copied, setCopied] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState('url');
-  const [qrSize, setQrSize] = useState(200);
-  const [qrColor, setQrColor] = useState('#000000');
-  const [qrBgColor, setQrBgColor] = useState('#FFFFFF');
-  const [qrLevel, setQrLevel] = useState<'L' | 'M' | 'Q' | 'H'>('H');
 
   // Copy to clipboard with animation and feedback
   const handleCopy = (text: string, type: string) => {
@@ -51,40 +49,21 @@ const ShortenedURLDisplay: React.FC<ShortenedURLDisplayProps> = ({ shortenedURL
         await navigator.share({
           title: 'Shortened URL',
           text: 'Check out this shortened URL',
-          url: shortenedURL.shortURL,
+          url: shortURL,
         });
         toast.success('URL shared successfully!');
       } catch (error) {
         console.error('Error sharing:', error);
         // Fallback to copy if sharing fails or was cancelled
-        handleCopy(shortenedURL.shortURL, 'short');
+        handleCopy(shortURL, 'short');
       }
     } else {
       // Fallback for browsers that don't support Web Share API
-      handleCopy(shortenedURL.shortURL, 'short');
+      handleCopy(shortURL, 'short');
       toast.info('Share not supported on this browser. URL copied instead!');
     }
   };
 
-  // Download QR code as PNG
-  const handleDownloadQR = () => {
-    const canvas = document.getElementById('qr-code') as HTMLCanvasElement;
-    if (!canvas) return;
-
-    const pngUrl = canvas
-      .toDataURL('image/png')
-      .replace('image/png', 'image/octet-stream');
-
-    const downloadLink = document.createElement('a');
-    downloadLink.href = pngUrl;
-    downloadLink.download = `qr-${shortenedURL.shortCode}.png`;
-    document.body.appendChild(downloadLink);
-    downloadLink.click();
-    document.body.removeChild(downloadLink);
-
-    toast.success('QR code downloaded!');
-  };
-
   return (
     <Card className="border border shadow-sm bg-white/90 backdrop-blur-sm overflow-hidden">
       <CardContent className="p-6">
@@ -172,14 +151,14 @@ const ShortenedURLDisplay: React.FC<ShortenedURLDisplayProps> = ({ shortenedURL
                 </div>
                 <div className="flex flex-col sm:flex-row gap-2 sm:gap-0">
                   <div className="flex-1 bg-blue-50 p-2 rounded sm:rounded-l sm:rounded-r-none border sm:border-r-0 font-medium text-blue-700 break-all text-xs sm:text-sm">
-                    {shortenedURL.shortURL}
+                    {shortURL}
                   </div>
                   <div className="flex">
                     <TooltipProvider>
                       <Tooltip>
                         <TooltipTrigger asChild>
                           <Button
-                            onClick={() => handleCopy(shortenedURL.shortURL, 'short')}
+                            onClick={() => handleCopy(shortURL, 'short')}
                             variant="outline"
                             size="sm"
                             className="flex-1 sm:flex-none rounded-l sm:rounded-l-none rounded-r-none h-10 sm:h-[42px] border-r-0"
@@ -228,7 +207,7 @@ const ShortenedURLDisplay: React.FC<ShortenedURLDisplayProps> = ({ shortenedURL
                   <Tooltip>
                     <TooltipTrigger asChild>
                       <Button
-                        onClick={() => window.open(shortenedURL.shortURL, '_blank')}
+                        onClick={() => window.open(shortURL, '_blank')}
                         variant="outline"
                         size="sm"
                         className="flex items-center gap-1.5 sm:gap-2 h-8 sm:h-9 text-xs sm:text-sm px-2 sm:px-3"
@@ -330,138 +309,7 @@ const ShortenedURLDisplay: React.FC<ShortenedURLDisplayProps> = ({ shortenedURL
           </TabsContent>
 
           <TabsContent value="qr" className="mt-0">
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6">
-              <div className="flex flex-col items-center justify-center p-2 sm:p-4">
-                <div className="bg-white p-2 sm:p-4 rounded-lg shadow-sm border mb-3 sm:mb-4">
-                  <QRCodeLib.QRCodeCanvas
-                    id="qr-code"
-                    value={shortenedURL.shortURL}
-                    size={qrSize}
-                    level={qrLevel}
-                    marginSize={10}
-                    fgColor={qrColor}
-                    bgColor={qrBgColor}
-                  />
-                </div>
-
-                <div className="flex gap-2">
-                  <TooltipProvider>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <Button
-                          onClick={handleDownloadQR}
-                          variant="outline"
-                          size="sm"
-                          className="flex items-center gap-1.5 sm:gap-2 h-8 sm:h-9 text-xs sm:text-sm px-2 sm:px-3"
-                        >
-                          <Download className="h-3 w-3 sm:h-4 sm:w-4" />
-                          Download
-                        </Button>
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        <p>Download as PNG</p>
-                      </TooltipContent>
-                    </Tooltip>
-                  </TooltipProvider>
-
-                  <TooltipProvider>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <Button
-                          onClick={() => handleCopy(shortenedURL.shortURL, 'short')}
-                          variant="outline"
-                          size="sm"
-                          className="flex items-center gap-1.5 sm:gap-2 h-8 sm:h-9 text-xs sm:text-sm px-2 sm:px-3"
-                        >
-                          <Copy className="h-3 w-3 sm:h-4 sm:w-4" />
-                          Copy URL
-                        </Button>
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        <p>Copy shortened URL</p>
-                      </TooltipContent>
-                    </Tooltip>
-                  </TooltipProvider>
-                </div>
-
-                <p className="text-[10px] sm:text-xs text-gray-500 mt-3 sm:mt-4 text-center">
-                  Scan this QR code with a mobile device to open the shortened URL.
-                </p>
-              </div>
-
-              <div className="space-y-3 sm:space-y-4">
-                <div>
-                  <h3 className="text-xs sm:text-sm font-medium text-gray-500 mb-1.5 sm:mb-2">QR Code Customization</h3>
-
-                  <div className="space-y-3 sm:space-y-4">
-                    <div className="space-y-1 sm:space-y-2">
-                      <label className="text-[10px] sm:text-xs text-gray-500">Size</label>
-                      <div className="flex items-center gap-2 sm:gap-4">
-                        <Slider
-                          value={[qrSize]}
-                          min={100}
-                          max={300}
-                          step={10}
-                          onValueChange={(value) => setQrSize(value[0])}
-                          className="flex-1"
-                        />
-                        <span className="text-[10px] sm:text-xs text-gray-500 w-8 sm:w-10 text-right">{qrSize}px</span>
-                      </div>
-                    </div>
-
-                    <div className="space-y-1 sm:space-y-2">
-                      <label className="text-[10px] sm:text-xs text-gray-500">Error Correction</label>
-                      <Select value={qrLevel} onValueChange={(value) => setQrLevel(value as 'L' | 'M' | 'Q' | 'H')}>
-                        <SelectTrigger className="w-full h-8 sm:h-10 text-xs sm:text-sm">
-                          <SelectValue placeholder="Select level" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="L" className="text-xs sm:text-sm">Low (7%)</SelectItem>
-                          <SelectItem value="M" className="text-xs sm:text-sm">Medium (15%)</SelectItem>
-                          <SelectItem value="Q" className="text-xs sm:text-sm">Quartile (25%)</SelectItem>
-                          <SelectItem value="H" className="text-xs sm:text-sm">High (30%)</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      <p className="text-[10px] sm:text-xs text-gray-400">Higher correction allows QR code to be readable even if partially damaged or obscured.</p>
-                    </div>
-
-                    <div className="grid grid-cols-2 gap-2 sm:gap-4">
-                      <div className="space-y-1 sm:space-y-2">
-                        <label className="text-[10px] sm:text-xs text-gray-500">Foreground Color</label>
-                        <div className="flex items-center gap-1 sm:gap-2">
-                          <div
-                            className="w-5 h-5 sm:w-6 sm:h-6 rounded border"
-                            style={{ backgroundColor: qrColor }}
-                          />
-                          <input
-                            type="color"
-                            value={qrColor}
-                            onChange={(e) => setQrColor(e.target.value)}
-                            className="w-full h-7 sm:h-8"
-                          />
-                        </div>
-                      </div>
-
-                      <div className="space-y-1 sm:space-y-2">
-                        <label className="text-[10px] sm:text-xs text-gray-500">Background Color</label>
-                        <div className="flex items-center gap-1 sm:gap-2">
-                          <div
-                            className="w-5 h-5 sm:w-6 sm:h-6 rounded border"
-                            style={{ backgroundColor: qrBgColor }}
-                          />
-                          <input
-                            type="color"
-                            value={qrBgColor}
-                            onChange={(e) => setQrBgColor(e.target.value)}
-                            className="w-full h-7 sm:h-8"
-                          />
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              </div>
-            </div>
+            <QRPayloadBuilder shortURL={shortURL} shortCode={shortenedURL.shortCode} onLinkCreated={onLinkCreated} />
           </TabsContent>
         </Tabs>
       </CardContent>
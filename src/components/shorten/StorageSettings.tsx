@@ -9,6 +9,7 @@ import { Slider } from '@/components/ui/slider.tsx';
 import { Separator } from '@/components/ui/separator.tsx';
 import { Badge } from '@/components/ui/badge.tsx';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert.tsx';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select.tsx';
 import { 
   Settings, 
   Database, 
@@ -23,7 +24,8 @@ import {
   CheckCircle,
   AlertTriangle
 } from 'lucide-react';
-import { URLShortenerService } from '@/services/URLShortenerService.ts';
+import { URLShortenerService, DEFAULT_STORAGE_SETTINGS } from '@/services/URLShortenerService.ts';
+import { URLStorageSettings, URLStorageStats, URLImportMode, URLImportConflictStrategy } from '@/types/shorten.ts';
 import { toast } from 'sonner';
 
 interface StorageSettingsProps {
@@ -31,18 +33,32 @@ interface StorageSettingsProps {
 }
 
 const StorageSettings: React.FC<StorageSettingsProps> = ({ onClose }) => {
-  const [settings, setSettings] = useState(URLShortenerService.getStorageSettings());
-  const [stats, setStats] = useState(URLShortenerService.getStorageStats());
+  const [settings, setSettings] = useState<URLStorageSettings>(DEFAULT_STORAGE_SETTINGS);
+  const [stats, setStats] = useState<URLStorageStats>({
+    totalUrls: 0,
+    totalClicks: 0,
+    activeUrls: 0,
+    expiredUrls: 0,
+    permanentUrls: 0,
+    storageSizeMB: 0,
+    backupCount: 0
+  });
+  const [importMode, setImportMode] = useState<URLImportMode>('merge');
+  const [conflictStrategy, setConflictStrategy] = useState<URLImportConflictStrategy>('skip');
   const [isExporting, setIsExporting] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
   const [isRestoring, setIsRestoring] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
 
-  // Refresh stats when settings change
+  const refreshStats = async () => {
+    setStats(await URLShortenerService.getStorageStats());
+  };
+
+  // Load persisted settings and stats
   useEffect(() => {
-    const newStats = URLShortenerService.getStorageStats();
-    setStats(newStats);
-  }, [settings]);
+    URLShortenerService.getStorageSettings().then(setSettings);
+    refreshStats();
+  }, []);
 
   const handleSettingsChange = (key: string, value: unknown) => {
     setSettings(prev => ({ ...prev, [key]: value }));
@@ -51,7 +67,7 @@ const StorageSettings: React.FC<StorageSettingsProps> = ({ onClose }) => {
   const saveSettings = async () => {
     try {
       setIsSaving(true);
-      URLShortenerService.updateStorageSettings(settings);
+      setSettings(await URLShortenerService.updateStorageSettings(settings));
       toast.success('Storage settings saved successfully!');
     } catch (error) {
       toast.error('Failed to save settings');
@@ -63,7 +79,7 @@ const StorageSettings: React.FC<StorageSettingsProps> = ({ onClose }) => {
   const handleExport = async () => {
     try {
       setIsExporting(true);
-      const exportData = URLShortenerService.exportURLs(true);
+      const exportData = await URLShortenerService.exportURLs(true);
       
       // Create blob and download
       const blob = new Blob([exportData], { type: 'application/json' });
@@ -91,16 +107,19 @@ const StorageSettings: React.FC<StorageSettingsProps> = ({ onClose }) => {
     try {
       setIsImporting(true);
       const text = await file.text();
-      const success = URLShortenerService.importURLs(text, true);
-      
-      if (success) {
-        toast.success('URLs imported successfully!');
-        setStats(URLShortenerService.getStorageStats());
-      } else {
-        toast.error('Failed to import URLs');
-      }
+      const result = await URLShortenerService.importURLs(text, { mode: importMode, onConflict: conflictStrategy });
+
+      const details = [
+        result.skipped > 0 && `${result.skipped} skipped`,
+        result.overwritten > 0 && `${result.overwritten} overwritten`,
+        result.renamed > 0 && `${result.renamed} renamed`,
+        result.rejected > 0 && `${result.rejected} blocked by the redirect policy`
+      ].filter(Boolean).join(', ');
+      toast.success(`Imported ${result.imported + result.overwritten + result.renamed} URLs${details ? ` (${details})` : ''}`);
+      setSettings(await URLShortenerService.getStorageSettings());
+      await refreshStats();
     } catch (error) {
-      toast.error('Failed to import URLs: ' + error.message);
+      toast.error('Failed to import URLs: ' + (error instanceof Error ? error.message : 'Unknown error'));
     } finally {
       setIsImporting(false);
       // Reset file input
@@ -111,11 +130,12 @@ const StorageSettings: React.FC<StorageSettingsProps> = ({ onClose }) => {
   const handleRestore = async () => {
     try {
       setIsRestoring(true);
-      const success = URLShortenerService.restoreFromBackup();
+      const success = await URLShortenerService.restoreFromBackup();
       
       if (success) {
         toast.success('Backup restored successfully!');
-        setStats(URLShortenerService.getStorageStats());
+        setSettings(await URLShortenerService.getStorageSettings());
+        await refreshStats();
       } else {
         toast.error('No backup found or restore failed');
       }
@@ -126,9 +146,9 @@ const StorageSettings: React.FC<StorageSettingsProps> = ({ onClose }) => {
     }
   };
 
-  const handleCleanup = () => {
-    URLShortenerService.initialize();
-    setStats(URLShortenerService.getStorageStats());
+  const handleCleanup = async () => {
+    await URLShortenerService.cleanupExpiredURLs();
+    await refreshStats();
     toast.success('Storage cleanup completed!');
   };
 
@@ -318,6 +338,38 @@ const StorageSettings: React.FC<StorageSettingsProps> = ({ onClose }) => {
               Backup & Restore
             </h3>
             
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Import mode</Label>
+                <Select value={importMode} onValueChange={(value) => setImportMode(value as URLImportMode)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="merge">Merge with existing URLs</SelectItem>
+                    <SelectItem value="replace">Replace all URLs</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Duplicate short codes</Label>
+                <Select
+                  value={conflictStrategy}
+                  onValueChange={(value) => setConflictStrategy(value as URLImportConflictStrategy)}
+                  disabled={importMode === 'replace'}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="skip">Keep existing</SelectItem>
+                    <SelectItem value="overwrite">Overwrite existing</SelectItem>
+                    <SelectItem value="rename">Import with a new short code</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
               <Button 
                 onClick={handleExport}
@@ -357,6 +409,14 @@ const StorageSettings: React.FC<StorageSettingsProps> = ({ onClose }) => {
                 {isRestoring ? 'Restoring...' : 'Restore Backup'}
               </Button>
             </div>
+
+            {settings.enableBackup && (
+              <p className="text-sm text-gray-500">
+                {stats.lastBackupAt
+                  ? `${stats.backupCount} automatic backup${stats.backupCount === 1 ? '' : 's'}, latest from ${new Date(stats.lastBackupAt).toLocaleString()}`
+                  : 'No automatic backups yet'}
+              </p>
+            )}
           </div>
 
           <Separator />
@@ -402,6 +462,7 @@ const StorageSettings: React.FC<StorageSettingsProps> = ({ onClose }) => {
                 <li>• Enable compression to save up to 30% storage space</li>
                 <li>• Set appropriate expiration times to automatically manage storage</li>
                 <li>• Regular backups help protect against data loss</li>
+                <li>• Automatic backups leave out imported blocklists, and click history except right before an import, restore or cleanup</li>
                 <li>• Use permanent storage for important URLs you want to keep forever</li>
               </ul>
             </div>
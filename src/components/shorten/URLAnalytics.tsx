@@ -2,16 +2,23 @@ import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card.tsx';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs.tsx';
-import { ShortenedURL, URLAnalytics as URLAnalyticsType } from '@/types/shorten.ts';
+import { ShortenedURL, URLAnalytics as URLAnalyticsType, URLRevision } from '@/types/shorten.ts';
 import { URLShortenerService } from '@/services/URLShortenerService.ts';
+import URLConversions from '@/components/shorten/URLConversions.tsx';
+import URLVariantComparison from '@/components/shorten/URLVariantComparison.tsx';
+import ClickLogExplorer from '@/components/shorten/ClickLogExplorer.tsx';
 import {
   BarChart as BarChartIcon,
   LineChart as LineChartIcon,
+  List,
   PieChart as PieChartIcon,
-  Tag
+  Tag,
+  Target
 } from 'lucide-react';
 import { format, subDays } from 'date-fns';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select.tsx';
+import { Checkbox } from '@/components/ui/checkbox.tsx';
+import { Label } from '@/components/ui/label.tsx';
 import {
   ResponsiveContainer,
   LineChart,
@@ -25,7 +32,8 @@ import {
   YAxis,
   CartesianGrid,
   Tooltip,
-  Legend
+  Legend,
+  ReferenceLine
 } from 'recharts';
 
 interface URLAnalyticsProps {
@@ -36,10 +44,19 @@ const URLAnalytics: React.FC<URLAnalyticsProps> = ({ url }) => {
   const [analytics, setAnalytics] = useState<URLAnalyticsType | null>(null);
   const [activeTab, setActiveTab] = useState('overview');
   const [timeRange, setTimeRange] = useState('7days');
+  // Bot and repeat clicks stay stored; this only hides them from the charts
+  const [excludeFiltered, setExcludeFiltered] = useState(false);
+  const [revisions, setRevisions] = useState<URLRevision[]>([]);
 
   useEffect(() => {
     if (url) {
-      URLShortenerService.getURLAnalytics(url.id).then(setAnalytics);
+      URLShortenerService.getURLAnalytics(url.id, { excludeFiltered }).then(setAnalytics);
+    }
+  }, [url, excludeFiltered]);
+
+  useEffect(() => {
+    if (url) {
+      URLShortenerService.getRevisions(url.id).then(setRevisions);
     }
   }, [url]);
 
@@ -71,6 +88,22 @@ const URLAnalytics: React.FC<URLAnalyticsProps> = ({ url }) => {
     }));
   };
 
+  // Destination changes inside the selected time range, oldest first, for timeline annotations
+  const getDestinationChanges = () => {
+    const labels = new Set(getDateLabels());
+    return revisions
+      .flatMap(revision => revision.changes
+        .filter(change => change.field === 'originalURL')
+        .map(change => ({
+          date: format(new Date(revision.timestamp), 'yyyy-MM-dd'),
+          timestamp: revision.timestamp,
+          from: String(change.before || ''),
+          to: String(change.after || '')
+        })))
+      .filter(change => labels.has(change.date))
+      .reverse();
+  };
+
   // Format data for referrer pie chart
   const getReferrerData = () => {
     if (!analytics) return [];
@@ -273,17 +306,32 @@ const URLAnalytics: React.FC<URLAnalyticsProps> = ({ url }) => {
               <div className="text-xs sm:text-sm text-gray-700">
                 Track performance and engagement metrics
               </div>
-              <Select value={timeRange} onValueChange={setTimeRange}>
-                <SelectTrigger className="w-[180px] h-8 text-xs">
-                  <SelectValue placeholder="Select time range" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="7days">Last 7 days</SelectItem>
-                  <SelectItem value="30days">Last 30 days</SelectItem>
-                  <SelectItem value="90days">Last 90 days</SelectItem>
-                  <SelectItem value="all">All time</SelectItem>
-                </SelectContent>
-              </Select>
+              <div className="flex flex-wrap items-center gap-3">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="analytics-exclude-filtered"
+                    checked={excludeFiltered}
+                    onCheckedChange={(checked) => setExcludeFiltered(checked as boolean)}
+                  />
+                  <Label htmlFor="analytics-exclude-filtered" className="text-xs text-gray-700">
+                    Exclude bots and repeat clicks
+                  </Label>
+                </div>
+                {excludeFiltered && (
+                  <span className="text-xs text-gray-500">Clicks recorded before bot filtering was added are not filtered.</span>
+                )}
+                <Select value={timeRange} onValueChange={setTimeRange}>
+                  <SelectTrigger className="w-[180px] h-8 text-xs">
+                    <SelectValue placeholder="Select time range" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="7days">Last 7 days</SelectItem>
+                    <SelectItem value="30days">Last 30 days</SelectItem>
+                    <SelectItem value="90days">Last 90 days</SelectItem>
+                    <SelectItem value="all">All time</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
           </div>
         </div>
@@ -291,7 +339,7 @@ const URLAnalytics: React.FC<URLAnalyticsProps> = ({ url }) => {
       <CardContent className="px-4 sm:px-6 py-5 sm:py-7">
         <Tabs defaultValue="overview" value={activeTab} onValueChange={setActiveTab}>
           <div className="bg-white/80 backdrop-blur-sm rounded-lg border shadow-sm p-1 mb-6 sm:mb-8">
-            <TabsList className="grid w-full grid-cols-4 gap-1.5 bg-transparent">
+            <TabsList className="grid w-full grid-cols-6 gap-1.5 bg-transparent">
               <TabsTrigger
                 value="overview"
                 className="flex items-center justify-center gap-1.5 sm:gap-2 data-[state=active]:bg-gradient-to-r data-[state=active]:from-amber-500 data-[state=active]:to-amber-600 data-[state=active]:text-white rounded-lg transition-all duration-300"
@@ -320,6 +368,20 @@ const URLAnalytics: React.FC<URLAnalyticsProps> = ({ url }) => {
                 <Tag className="h-4 w-4 flex-shrink-0 mr-0 sm:mr-1" />
                 <span className="hidden xs:inline text-xs sm:text-sm">UTM</span>
               </TabsTrigger>
+              <TabsTrigger
+                value="conversions"
+                className="flex items-center justify-center gap-1.5 sm:gap-2 data-[state=active]:bg-gradient-to-r data-[state=active]:from-amber-500 data-[state=active]:to-amber-600 data-[state=active]:text-white rounded-lg transition-all duration-300"
+              >
+                <Target className="h-4 w-4 flex-shrink-0 mr-0 sm:mr-1" />
+                <span className="hidden xs:inline text-xs sm:text-sm">Conversions</span>
+              </TabsTrigger>
+              <TabsTrigger
+                value="clicks"
+                className="flex items-center justify-center gap-1.5 sm:gap-2 data-[state=active]:bg-gradient-to-r data-[state=active]:from-amber-500 data-[state=active]:to-amber-600 data-[state=active]:text-white rounded-lg transition-all duration-300"
+              >
+                <List className="h-4 w-4 flex-shrink-0 mr-0 sm:mr-1" />
+                <span className="hidden xs:inline text-xs sm:text-sm">Clicks</span>
+              </TabsTrigger>
             </TabsList>
           </div>
 
@@ -331,8 +393,11 @@ const URLAnalytics: React.FC<URLAnalyticsProps> = ({ url }) => {
                 transition={{ duration: 0.3 }}
                 className="bg-white rounded-lg p-4 flex flex-col border shadow-sm"
               >
-                <span className="text-sm text-gray-700 font-medium">Total Clicks</span>
-                <span className="text-3xl font-bold text-gray-900 mt-2">{analytics.totalClicks}</span>
+                <span className="text-sm text-gray-700 font-medium">Raw Clicks</span>
+                <span className="text-3xl font-bold text-gray-900 mt-2">{analytics.rawClicks ?? analytics.totalClicks}</span>
+                <span className="text-xs text-gray-500 mt-1">
+                  {analytics.botClicks || 0} from bots, {analytics.duplicateClicks || 0} repeat clicks
+                </span>
               </motion.div>
 
               <motion.div
@@ -341,10 +406,9 @@ const URLAnalytics: React.FC<URLAnalyticsProps> = ({ url }) => {
                 transition={{ duration: 0.3, delay: 0.1 }}
                 className="bg-white rounded-lg p-4 flex flex-col border shadow-sm"
               >
-                <span className="text-sm text-gray-700 font-medium">Unique Visitors</span>
-                <span className="text-3xl font-bold text-gray-900 mt-2">
-                  {Object.keys(analytics.clicksByReferrer).length}
-                </span>
+                <span className="text-sm text-gray-700 font-medium">Human Unique Visitors</span>
+                <span className="text-3xl font-bold text-gray-900 mt-2">{analytics.uniqueVisitors || 0}</span>
+                <span className="text-xs text-gray-500 mt-1">{analytics.humanClicks || 0} human clicks</span>
               </motion.div>
 
               <motion.div
@@ -378,10 +442,25 @@ const URLAnalytics: React.FC<URLAnalyticsProps> = ({ url }) => {
                     <YAxis tick={{ fontSize: 12 }} />
                     <Tooltip content={<CustomTooltip />} />
                     <Bar dataKey="clicks" fill="#f59e0b" radius={[4, 4, 0, 0]} />
+                    {getDestinationChanges().map(change => (
+                      <ReferenceLine key={change.timestamp} x={change.date} stroke="#7c3aed" strokeDasharray="4 2" />
+                    ))}
                   </BarChart>
                 </ResponsiveContainer>
               </div>
+              {getDestinationChanges().length > 0 && (
+                <ul className="mt-2 space-y-1">
+                  {getDestinationChanges().map(change => (
+                    <li key={change.timestamp} className="text-xs text-gray-600 break-all">
+                      <span className="inline-block w-3 border-t-2 border-dashed border-violet-600 mr-1.5 align-middle"></span>
+                      Destination changed {format(new Date(change.timestamp), 'MMM d, p')}: {change.from} → {change.to}
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
+
+            <URLVariantComparison url={url} analytics={analytics} />
           </TabsContent>
 
           <TabsContent value="traffic" className="mt-0">
@@ -408,6 +487,15 @@ const URLAnalytics: React.FC<URLAnalyticsProps> = ({ url }) => {
                         dot={{ r: 4 }}
                         activeDot={{ r: 6 }}
                       />
+                      {getDestinationChanges().map(change => (
+                        <ReferenceLine
+                          key={change.timestamp}
+                          x={change.date}
+                          stroke="#7c3aed"
+                          strokeDasharray="4 2"
+                          label={{ value: 'Destination changed', position: 'insideTopRight', fontSize: 10, fill: '#7c3aed' }}
+                        />
+                      ))}
                     </LineChart>
                   </ResponsiveContainer>
                 </div>
@@ -685,6 +773,14 @@ const URLAnalytics: React.FC<URLAnalyticsProps> = ({ url }) => {
               </div>
             </div>
           </TabsContent>
+
+          <TabsContent value="conversions" className="mt-0">
+            <URLConversions url={url} analytics={analytics} />
+          </TabsContent>
+
+          <TabsContent value="clicks" className="mt-0">
+            <ClickLogExplorer url={url} />
+          </TabsContent>
         </Tabs>
       </CardContent>
     </Card>
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { URLShortenerService } from '@/services/URLShortenerService.ts';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card.tsx';
+import { CheckCircle, AlertTriangle, Loader2 } from 'lucide-react';
+
+/**
+ * Client-side conversion callback for short links
+ * Query parameters: type (conversion type), value (monetary value), goal (goal ID)
+ * and redirect (where to send the visitor afterwards; only the link's destination host is allowed)
+ */
+const URLConversionCallback: React.FC = () => {
+  const { shortCode } = useParams<{ shortCode: string }>();
+  const [searchParams] = useSearchParams();
+  const [status, setStatus] = useState<'recording' | 'recorded' | 'error'>('recording');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const record = async () => {
+      try {
+        if (!shortCode) {
+          throw new Error('Invalid short URL');
+        }
+
+        const rawValue = searchParams.get('value');
+        const value = rawValue !== null && rawValue !== '' ? Number(rawValue) : undefined;
+        if (value !== undefined && Number.isNaN(value)) {
+          throw new Error('Conversion value must be a number');
+        }
+
+        await URLShortenerService.recordConversion(shortCode, {
+          type: searchParams.get('type') || undefined,
+          goalId: searchParams.get('goal') || undefined,
+          value
+        });
+        setStatus('recorded');
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to record conversion');
+        setStatus('error');
+        return;
+      }
+
+      const redirect = searchParams.get('redirect');
+      if (!redirect) return;
+
+      try {
+        // Conversions are recorded on expired links too, so redirect from them the same way
+        const url = await URLShortenerService.getURLByShortCode(shortCode, true);
+        const target = new URL(redirect);
+        if (url && ['http:', 'https:'].includes(target.protocol) && target.hostname === new URL(url.originalURL).hostname) {
+          window.location.replace(target.href);
+        }
+      } catch (err) {
+        console.error('Ignoring invalid conversion redirect:', err);
+      }
+    };
+
+    record();
+  }, [shortCode, searchParams]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <Card className="max-w-sm w-full border shadow-md rounded-xl">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2">
+            {status === 'recording' && <Loader2 className="h-8 w-8 text-amber-500 animate-spin" />}
+            {status === 'recorded' && <CheckCircle className="h-8 w-8 text-green-600" />}
+            {status === 'error' && <AlertTriangle className="h-8 w-8 text-red-600" />}
+          </div>
+          <CardTitle className="text-lg">
+            {status === 'recording' && 'Recording conversion…'}
+            {status === 'recorded' && 'Conversion recorded'}
+            {status === 'error' && 'Conversion not recorded'}
+          </CardTitle>
+          {error && <CardDescription className="text-red-700">{error}</CardDescription>}
+        </CardHeader>
+        {status === 'recorded' && (
+          <CardContent className="text-center text-sm text-gray-600">
+            You can close this page.
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default URLConversionCallback;
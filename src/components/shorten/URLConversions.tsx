@@ -0,0 +1,240 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { ShortenedURL, URLAnalytics, ConversionGoal } from '@/types/shorten.ts';
+import { URLShortenerService } from '@/services/URLShortenerService.ts';
+import { buildConversionURL } from '@/lib/short-links';
+import { Button } from '@/components/ui/button.tsx';
+import { Input } from '@/components/ui/input.tsx';
+import { Progress } from '@/components/ui/progress.tsx';
+import { Badge } from '@/components/ui/badge.tsx';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select.tsx';
+import { Copy, Plus, Target, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip
+} from 'recharts';
+
+interface URLConversionsProps {
+  url: ShortenedURL;
+  analytics: URLAnalytics;
+}
+
+const GOAL_TYPES: Array<{ value: ConversionGoal['type']; label: string }> = [
+  { value: 'signup', label: 'Signup' },
+  { value: 'purchase', label: 'Purchase (value)' },
+  { value: 'pageview', label: 'Page view' },
+  { value: 'event', label: 'Event' },
+  { value: 'custom', label: 'Custom (matched by name)' }
+];
+
+const formatValue = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 2 });
+
+const URLConversions: React.FC<URLConversionsProps> = ({ url, analytics }) => {
+  const [goals, setGoals] = useState<ConversionGoal[]>([]);
+  const [newGoal, setNewGoal] = useState<{ name: string; type: ConversionGoal['type']; targetValue: string }>({
+    name: '',
+    type: 'signup',
+    targetValue: ''
+  });
+
+  const loadGoals = useCallback(() => {
+    URLShortenerService.getConversionGoals(url.id).then(setGoals);
+  }, [url.id]);
+
+  useEffect(() => {
+    loadGoals();
+  }, [loadGoals, analytics]);
+
+  const handleAddGoal = async () => {
+    try {
+      await URLShortenerService.createConversionGoal(url.id, {
+        name: newGoal.name,
+        type: newGoal.type,
+        targetValue: newGoal.targetValue ? Number(newGoal.targetValue) : undefined
+      });
+      setNewGoal({ name: '', type: 'signup', targetValue: '' });
+      loadGoals();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create goal');
+    }
+  };
+
+  const handleDeleteGoal = async (id: string) => {
+    await URLShortenerService.deleteConversionGoal(id);
+    loadGoals();
+  };
+
+  const callbackURL = `${buildConversionURL(url.shortCode)}?type=signup&value=0`;
+
+  const campaignValueData = Object.entries(analytics.conversionValueByUtmCampaign || {})
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 8)
+    .map(([campaign, value]) => ({
+      name: campaign,
+      value,
+      conversions: analytics.conversionsByUtmCampaign?.[campaign] || 0
+    }));
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3 }}
+          className="bg-white rounded-lg p-4 flex flex-col border shadow-sm"
+        >
+          <span className="text-sm text-gray-700 font-medium">Conversions</span>
+          <span className="text-3xl font-bold text-gray-900 mt-2">{analytics.totalConversions || 0}</span>
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3, delay: 0.1 }}
+          className="bg-white rounded-lg p-4 flex flex-col border shadow-sm"
+        >
+          <span className="text-sm text-gray-700 font-medium">Conversion Rate</span>
+          <span className="text-3xl font-bold text-gray-900 mt-2">{(analytics.conversionRate || 0).toFixed(1)}%</span>
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3, delay: 0.2 }}
+          className="bg-white rounded-lg p-4 flex flex-col border shadow-sm"
+        >
+          <span className="text-sm text-gray-700 font-medium">Conversion Value</span>
+          <span className="text-3xl font-bold text-gray-900 mt-2">{formatValue(analytics.conversionValue || 0)}</span>
+        </motion.div>
+      </div>
+
+      {/* Goals */}
+      <div className="bg-white p-4 rounded-lg border shadow-sm space-y-4">
+        <h3 className="text-sm font-medium text-amber-700 flex items-center gap-2">
+          <Target className="h-4 w-4" />
+          Conversion Goals
+        </h3>
+
+        {goals.length === 0 ? (
+          <p className="text-xs text-gray-500">No goals yet. Add one to track progress towards a target.</p>
+        ) : (
+          <div className="space-y-3">
+            {goals.map(goal => {
+              const current = goal.currentValue || 0;
+              return (
+                <div key={goal.id} className="space-y-1.5">
+                  <div className="flex items-center justify-between gap-2 text-sm">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="font-medium truncate">{goal.name}</span>
+                      <Badge variant="outline" className="text-xs">{goal.type}</Badge>
+                      {goal.isCompleted && <Badge className="bg-green-100 text-green-800 text-xs">Completed</Badge>}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-gray-600 text-xs">
+                        {formatValue(current)}{goal.targetValue ? ` / ${formatValue(goal.targetValue)}` : ''}
+                      </span>
+                      <Button variant="ghost" size="sm" onClick={() => handleDeleteGoal(goal.id)} aria-label={`Delete goal ${goal.name}`}>
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  </div>
+                  {goal.targetValue && (
+                    <Progress value={Math.min(100, (current / goal.targetValue) * 100)} className="h-1.5" />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto_8rem_auto] gap-2">
+          <Input
+            placeholder="Goal name"
+            value={newGoal.name}
+            onChange={(e) => setNewGoal(prev => ({ ...prev, name: e.target.value }))}
+          />
+          <Select
+            value={newGoal.type}
+            onValueChange={(value) => setNewGoal(prev => ({ ...prev, type: value as ConversionGoal['type'] }))}
+          >
+            <SelectTrigger className="sm:w-[190px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GOAL_TYPES.map(type => (
+                <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min={0}
+            placeholder="Target"
+            value={newGoal.targetValue}
+            onChange={(e) => setNewGoal(prev => ({ ...prev, targetValue: e.target.value }))}
+          />
+          <Button onClick={handleAddGoal} disabled={!newGoal.name.trim()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      </div>
+
+      {/* Callback */}
+      <div className="bg-white p-4 rounded-lg border shadow-sm space-y-2">
+        <h3 className="text-sm font-medium text-amber-700">Conversion Callback</h3>
+        <p className="text-xs text-gray-700">
+          Send visitors to this URL (or load it in a hidden iframe) after they convert. The conversion is attributed to
+          the link's most recent click. Use <code>goal</code> to attribute to a goal by ID and <code>redirect</code> to
+          continue to a page on the destination site.
+        </p>
+        <div className="flex items-center gap-2">
+          <code className="flex-1 text-xs bg-gray-50 border rounded px-2 py-1.5 overflow-x-auto whitespace-nowrap">{callbackURL}</code>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              navigator.clipboard.writeText(callbackURL);
+              toast.success('Callback URL copied to clipboard!');
+            }}
+          >
+            <Copy className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Value by Campaign */}
+      <div>
+        <h3 className="text-sm font-medium text-gray-500 mb-4">Conversion Value by Campaign</h3>
+        {campaignValueData.length === 0 ? (
+          <div className="h-[120px] bg-gray-50 rounded-lg border flex items-center justify-center text-sm text-gray-500">
+            No conversions recorded yet
+          </div>
+        ) : (
+          <div className="h-[250px] bg-gray-50 rounded-lg border p-4">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={campaignValueData} margin={{ top: 10, right: 10, left: 0, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+                <YAxis tick={{ fontSize: 12 }} />
+                <Tooltip />
+                <Bar dataKey="value" name="Value" fill="#f59e0b" radius={[4, 4, 0, 0]} />
+                <Bar dataKey="conversions" name="Conversions" fill="#b45309" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default URLConversions;
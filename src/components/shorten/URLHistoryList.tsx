@@ -1,11 +1,33 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { ShortenedURL } from '@/types/shorten.ts';
+import { ShortenedURL, URLLinkStatus, URLSavedSearch, URLSortOption } from '@/types/shorten.ts';
 import { Button } from '@/components/ui/button.tsx';
 import { Input } from '@/components/ui/input.tsx';
+import { Badge } from '@/components/ui/badge.tsx';
+import { Checkbox } from '@/components/ui/checkbox.tsx';
+import { Label } from '@/components/ui/label.tsx';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover.tsx';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select.tsx';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu.tsx';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
-import { Copy, Trash2, ExternalLink, Search, QrCode, BarChart3, Star, Clock } from 'lucide-react';
+import {
+  Copy,
+  Trash2,
+  ExternalLink,
+  Search,
+  QrCode,
+  BarChart3,
+  Star,
+  Clock,
+  Folder,
+  Tag,
+  Bookmark,
+  Download,
+  CalendarPlus,
+  History,
+  X
+} from 'lucide-react';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -17,6 +39,28 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog.tsx";
 import { URLShortenerService } from '@/services/URLShortenerService.ts';
+import { URLLibraryService, URL_SORT_OPTIONS } from '@/services/URLLibraryService.ts';
+import { QR_PAYLOAD_LABELS } from '@/services/QRPayloadService.ts';
+import URLRevisionHistory from '@/components/shorten/URLRevisionHistory.tsx';
+import QRBatchExport from '@/components/shorten/QRBatchExport.tsx';
+import { downloadCSV } from '@/utils/csv';
+import { buildLegacyShortURL } from '@/lib/short-links';
+
+const STATUS_BADGES: Record<URLLinkStatus, { label: string; className: string }> = {
+  active: { label: 'Active', className: 'bg-green-100 text-green-800 hover:bg-green-100' },
+  scheduled: { label: 'Scheduled', className: 'bg-blue-100 text-blue-800 hover:bg-blue-100' },
+  expired: { label: 'Expired', className: 'bg-red-100 text-red-800 hover:bg-red-100' },
+  exhausted: { label: 'Used up', className: 'bg-gray-200 text-gray-700 hover:bg-gray-200' }
+};
+
+const LinkStatusBadge: React.FC<{ url: ShortenedURL }> = ({ url }) => {
+  const { label, className } = STATUS_BADGES[URLShortenerService.getLinkStatus(url)];
+  return <Badge className={`text-[10px] px-1.5 py-0 ${className}`}>{label}</Badge>;
+};
+
+const EXTEND_OPTIONS = [7, 30, 90, 365];
+
+const splitTags = (text: string) => text.split(/[,\s]+/).filter(Boolean);
 
 interface URLHistoryListProps {
   urlHistory: ShortenedURL[];
@@ -24,20 +68,114 @@ interface URLHistoryListProps {
   onSelect: (url: ShortenedURL) => void;
   onAnalyticsSelect?: (url: ShortenedURL) => void;
   onUpdate?: () => void;
+  onBulkChange?: () => void; // Called after links are edited in place so the history can be reloaded
 }
 
-const URLHistoryList: React.FC<URLHistoryListProps> = ({ urlHistory, onDelete, onSelect, onAnalyticsSelect, onUpdate }) => {
+const URLHistoryList: React.FC<URLHistoryListProps> = ({ urlHistory, onDelete, onSelect, onAnalyticsSelect, onUpdate, onBulkChange }) => {
   const [searchTerm, setSearchTerm] = useState('');
+  const [sort, setSort] = useState<URLSortOption>('newest');
   const [deleteId, setDeleteId] = useState<string | null>(null);
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [confirmBulkDelete, setConfirmBulkDelete] = useState(false);
+  const [savedSearches, setSavedSearches] = useState<URLSavedSearch[]>([]);
+  const [saveSearchName, setSaveSearchName] = useState<string | null>(null);
+  const [historyURL, setHistoryURL] = useState<ShortenedURL | null>(null);
+  const [retag, setRetag] = useState({ addTags: '', removeTags: '', folder: '', clearFolder: false });
+
+  useEffect(() => {
+    URLShortenerService.getSavedSearches().then(setSavedSearches);
+  }, []);
 
-  // Filter URLs based on search term
-  const filteredURLs = urlHistory.filter(url =>
-    url.originalURL.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    url.shortURL.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    (url.customAlias && url.customAlias.toLowerCase().includes(searchTerm.toLowerCase()))
+  // Filter and sort URLs with the search query syntax
+  const { results: filteredURLs, errors: searchErrors } = useMemo(
+    () => URLLibraryService.search(urlHistory, searchTerm, sort),
+    [urlHistory, searchTerm, sort]
   );
 
+  // Only links that are still in the list can be acted on
+  const selectedURLs = urlHistory.filter(url => selectedIds.has(url.id));
+  const allVisibleSelected = filteredURLs.length > 0 && filteredURLs.every(url => selectedIds.has(url.id));
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAllVisible = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(filteredURLs.map(url => url.id)) : new Set());
+  };
+
+  const handleSaveSearch = async () => {
+    try {
+      const saved = await URLShortenerService.saveSearch(saveSearchName || '', searchTerm, sort);
+      setSavedSearches(prev => [...prev.filter(search => search.id !== saved.id), saved]);
+      setSaveSearchName(null);
+      toast.success(`Saved search "${saved.name}"`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save search');
+    }
+  };
+
+  const handleDeleteSavedSearch = async (id: string) => {
+    if (await URLShortenerService.deleteSavedSearch(id)) {
+      setSavedSearches(prev => prev.filter(search => search.id !== id));
+    }
+  };
+
+  const handleBulkDelete = async () => {
+    const deleted = await URLShortenerService.deleteURLs(selectedURLs.map(url => url.id));
+    setConfirmBulkDelete(false);
+    setSelectedIds(new Set());
+    onBulkChange?.();
+    if (deleted > 0) {
+      toast.success(`Deleted ${deleted} URL${deleted === 1 ? '' : 's'}`);
+    } else {
+      toast.error('Failed to delete the selected URLs');
+    }
+  };
+
+  const handleBulkExtend = async (days: number) => {
+    try {
+      const ids = selectedURLs.filter(url => url.expiresAt).map(url => url.id);
+      if (ids.length === 0) {
+        toast.info('None of the selected URLs expire');
+        return;
+      }
+      await URLShortenerService.extendExpiration(ids, days);
+      onBulkChange?.();
+      toast.success(`Extended ${ids.length} URL${ids.length === 1 ? '' : 's'} by ${days} days`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to extend expiration');
+    }
+  };
+
+  const handleBulkRetag = async () => {
+    try {
+      const updated = await URLShortenerService.retagURLs(selectedURLs.map(url => url.id), {
+        addTags: splitTags(retag.addTags),
+        removeTags: splitTags(retag.removeTags),
+        folder: retag.clearFolder ? '' : retag.folder.trim() || undefined
+      });
+      setRetag({ addTags: '', removeTags: '', folder: '', clearFolder: false });
+      onBulkChange?.();
+      toast.success(`Updated ${updated.length} URL${updated.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update tags');
+    }
+  };
+
+  const handleBulkExport = () => {
+    downloadCSV(`short-links-${new Date().toISOString().split('T')[0]}.csv`, URLLibraryService.toCSV(selectedURLs));
+  };
+
   const handleCopy = (url: string, id: string) => {
     navigator.clipboard.writeText(url);
     setCopiedId(id);
@@ -85,14 +223,182 @@ const URLHistoryList: React.FC<URLHistoryListProps> = ({ urlHistory, onDelete, o
 
   return (
     <div className="space-y-4">
-      <div className="relative">
-        <Search className="absolute left-2 sm:left-3 top-1/2 transform -translate-y-1/2 h-3.5 w-3.5 sm:h-4 sm:w-4 text-gray-400" />
-        <Input
-          placeholder="Search URLs..."
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
-          className="pl-8 sm:pl-10 h-9 sm:h-10 text-xs sm:text-sm"
-        />
+      <div className="space-y-2">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-2 sm:left-3 top-1/2 transform -translate-y-1/2 h-3.5 w-3.5 sm:h-4 sm:w-4 text-gray-400" />
+            <Input
+              placeholder="Search URLs, or tag:promo status:active clicks:>100 created:last-30d"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-8 sm:pl-10 h-9 sm:h-10 text-xs sm:text-sm"
+            />
+          </div>
+          <Select value={sort} onValueChange={(value) => setSort(value as URLSortOption)}>
+            <SelectTrigger className="w-full sm:w-[160px] h-9 sm:h-10 text-xs sm:text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {URL_SORT_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <QRBatchExport urls={urlHistory} />
+        </div>
+
+        {searchErrors.map(error => (
+          <p key={error} className="text-[10px] sm:text-xs text-red-600">Ignored {error}</p>
+        ))}
+
+        <div className="flex flex-wrap items-center gap-1.5">
+          {savedSearches.map(search => (
+            <Badge
+              key={search.id}
+              variant="outline"
+              className="text-[10px] sm:text-xs cursor-pointer gap-1 hover:bg-gray-50"
+              onClick={() => {
+                setSearchTerm(search.query);
+                setSort(search.sort);
+              }}
+              title={search.query}
+            >
+              <Bookmark className="h-3 w-3" />
+              {search.name}
+              <button
+                type="button"
+                aria-label={`Delete saved search ${search.name}`}
+                className="text-gray-400 hover:text-red-500"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDeleteSavedSearch(search.id);
+                }}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+          {saveSearchName === null ? (
+            searchTerm.trim() && (
+              <Button variant="ghost" size="sm" className="h-6 text-[10px] sm:text-xs px-2" onClick={() => setSaveSearchName('')}>
+                <Bookmark className="h-3 w-3 mr-1" />
+                Save search
+              </Button>
+            )
+          ) : (
+            <div className="flex items-center gap-1">
+              <Input
+                autoFocus
+                placeholder="Name"
+                value={saveSearchName}
+                onChange={(e) => setSaveSearchName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSaveSearch()}
+                className="h-7 w-36 text-xs"
+              />
+              <Button size="sm" className="h-7 text-xs px-2" onClick={handleSaveSearch}>Save</Button>
+              <Button variant="ghost" size="sm" className="h-7 text-xs px-2" onClick={() => setSaveSearchName(null)}>Cancel</Button>
+            </div>
+          )}
+        </div>
+
+        {filteredURLs.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 rounded-md border bg-gray-50 px-2 py-1.5">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="history-select-all"
+                checked={allVisibleSelected}
+                onCheckedChange={(checked) => toggleAllVisible(checked as boolean)}
+              />
+              <Label htmlFor="history-select-all" className="text-[10px] sm:text-xs text-gray-600">
+                {selectedURLs.length > 0 ? `${selectedURLs.length} selected` : `Select all ${filteredURLs.length}`}
+              </Label>
+            </div>
+
+            {selectedURLs.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1 ml-auto">
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm" className="h-7 text-[10px] sm:text-xs px-2">
+                      <CalendarPlus className="h-3 w-3 mr-1" />
+                      Extend
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent>
+                    {EXTEND_OPTIONS.map(days => (
+                      <DropdownMenuItem key={days} className="text-xs" onSelect={() => handleBulkExtend(days)}>
+                        +{days} days
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button variant="outline" size="sm" className="h-7 text-[10px] sm:text-xs px-2">
+                      <Tag className="h-3 w-3 mr-1" />
+                      Tags
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-72 space-y-2">
+                    <div className="space-y-1">
+                      <Label className="text-xs">Add tags</Label>
+                      <Input
+                        placeholder="spring, newsletter"
+                        value={retag.addTags}
+                        onChange={(e) => setRetag(prev => ({ ...prev, addTags: e.target.value }))}
+                        className="h-8 text-xs"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Remove tags</Label>
+                      <Input
+                        placeholder="draft"
+                        value={retag.removeTags}
+                        onChange={(e) => setRetag(prev => ({ ...prev, removeTags: e.target.value }))}
+                        className="h-8 text-xs"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Move to folder</Label>
+                      <Input
+                        placeholder="Leave blank to keep the current folder"
+                        value={retag.folder}
+                        disabled={retag.clearFolder}
+                        onChange={(e) => setRetag(prev => ({ ...prev, folder: e.target.value }))}
+                        className="h-8 text-xs"
+                      />
+                      <div className="flex items-center space-x-2 pt-1">
+                        <Checkbox
+                          id="history-clear-folder"
+                          checked={retag.clearFolder}
+                          onCheckedChange={(checked) => setRetag(prev => ({ ...prev, clearFolder: checked as boolean }))}
+                        />
+                        <Label htmlFor="history-clear-folder" className="text-xs">Remove from folder</Label>
+                      </div>
+                    </div>
+                    <Button size="sm" className="w-full h-8 text-xs" onClick={handleBulkRetag}>
+                      Apply to {selectedURLs.length} URL{selectedURLs.length === 1 ? '' : 's'}
+                    </Button>
+                  </PopoverContent>
+                </Popover>
+
+                <Button variant="outline" size="sm" className="h-7 text-[10px] sm:text-xs px-2" onClick={handleBulkExport}>
+                  <Download className="h-3 w-3 mr-1" />
+                  Export
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-[10px] sm:text-xs px-2 text-red-600 hover:text-red-700 hover:bg-red-50"
+                  onClick={() => setConfirmBulkDelete(true)}
+                >
+                  <Trash2 className="h-3 w-3 mr-1" />
+                  Delete
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
       {filteredURLs.length === 0 ? (
@@ -116,14 +422,62 @@ const URLHistoryList: React.FC<URLHistoryListProps> = ({ urlHistory, onDelete, o
               <div className="space-y-2">
                 <div className="flex justify-between items-start gap-2">
                   <div className="space-y-1 flex-1 min-w-0">
-                    <h3 className="font-medium text-xs sm:text-sm text-gray-900 break-all">
-                      {url.shortURL}
-                    </h3>
+                    <div className="flex flex-wrap items-center gap-1.5">
+                      <Checkbox
+                        checked={selectedIds.has(url.id)}
+                        onCheckedChange={(checked) => toggleSelected(url.id, checked as boolean)}
+                        aria-label={`Select ${url.shortURL}`}
+                      />
+                      <h3 className="font-medium text-xs sm:text-sm text-gray-900 break-all">
+                        {url.shortURL}
+                      </h3>
+                      <LinkStatusBadge url={url} />
+                      {url.maxClicks === 1 && (
+                        <Badge variant="outline" className="text-[10px] px-1.5 py-0">One-time</Badge>
+                      )}
+                      {url.payloadType && (
+                        <Badge variant="outline" className="text-[10px] px-1.5 py-0">{QR_PAYLOAD_LABELS[url.payloadType]} QR</Badge>
+                      )}
+                      {url.renamedFrom && (
+                        <Badge variant="outline" className="text-[10px] px-1.5 py-0 text-amber-700 border-amber-200">
+                          Renamed from {url.renamedFrom}
+                        </Badge>
+                      )}
+                    </div>
+                    {url.renamedFrom && (
+                      <p className="text-[10px] sm:text-xs text-amber-700">
+                        "{url.renamedFrom}" is now an app page; links shared earlier keep working at {buildLegacyShortURL(url.renamedFrom)}
+                      </p>
+                    )}
                     <p className="text-[10px] sm:text-xs text-gray-500 break-all truncate">
                       {url.originalURL.length > 30
                         ? `${url.originalURL.substring(0, 30)}...`
                         : url.originalURL}
                     </p>
+                    {(url.folder || url.tags?.length) && (
+                      <div className="flex flex-wrap items-center gap-1 pt-0.5">
+                        {url.folder && (
+                          <Badge
+                            variant="outline"
+                            className="text-[10px] px-1.5 py-0 gap-1 cursor-pointer"
+                            onClick={() => setSearchTerm(`folder:"${url.folder}"`)}
+                          >
+                            <Folder className="h-2.5 w-2.5" />
+                            {url.folder}
+                          </Badge>
+                        )}
+                        {url.tags?.map(tag => (
+                          <Badge
+                            key={tag}
+                            variant="secondary"
+                            className="text-[10px] px-1.5 py-0 cursor-pointer"
+                            onClick={() => setSearchTerm(`tag:${tag}`)}
+                          >
+                            #{tag}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
                   </div>
                   <div className="flex gap-0.5 sm:gap-1 flex-shrink-0">
                     <Button
@@ -183,6 +537,13 @@ const URLHistoryList: React.FC<URLHistoryListProps> = ({ urlHistory, onDelete, o
                     <span>Created: {format(new Date(url.createdAt), 'PP')}</span>
                   </div>
 
+                  {URLShortenerService.getLinkStatus(url) === 'scheduled' && url.activatesAt && (
+                    <div className="flex items-center gap-1 text-blue-700">
+                      <Clock className="h-3 w-3" />
+                      <span>Activates: {format(new Date(url.activatesAt), 'PP p')}</span>
+                    </div>
+                  )}
+
                   {url.expiresAt ? (
                     <div className="flex items-center gap-1">
                       <Clock className="h-3 w-3" />
@@ -198,7 +559,7 @@ const URLHistoryList: React.FC<URLHistoryListProps> = ({ urlHistory, onDelete, o
                   )}
 
                   <div className="flex items-center gap-1">
-                    <span>Clicks: {url.clicks}</span>
+                    <span>Clicks: {url.clicks}{url.maxClicks !== undefined && ` / ${url.maxClicks}`}</span>
                   </div>
                 </div>
 
@@ -221,6 +582,15 @@ const URLHistoryList: React.FC<URLHistoryListProps> = ({ urlHistory, onDelete, o
                     <BarChart3 className="h-2.5 w-2.5 sm:h-3 sm:w-3 mr-1" />
                     Analytics
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-6 sm:h-7 text-[10px] sm:text-xs px-1.5 sm:px-2"
+                    onClick={() => setHistoryURL(url)}
+                  >
+                    <History className="h-2.5 w-2.5 sm:h-3 sm:w-3 mr-1" />
+                    History
+                  </Button>
                 </div>
               </div>
             </motion.div>
@@ -228,6 +598,34 @@ const URLHistoryList: React.FC<URLHistoryListProps> = ({ urlHistory, onDelete, o
         </div>
       )}
 
+      <URLRevisionHistory
+        url={historyURL}
+        onOpenChange={(open) => !open && setHistoryURL(null)}
+        onChanged={onBulkChange}
+      />
+
+      <AlertDialog open={confirmBulkDelete} onOpenChange={setConfirmBulkDelete}>
+        <AlertDialogContent className="max-w-[90vw] sm:max-w-md">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-base sm:text-lg">
+              Delete {selectedURLs.length} URL{selectedURLs.length === 1 ? '' : 's'}?
+            </AlertDialogTitle>
+            <AlertDialogDescription className="text-xs sm:text-sm">
+              This will permanently delete the selected shortened URLs and their analytics. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter className="flex-col sm:flex-row gap-2 sm:gap-0">
+            <AlertDialogCancel className="mt-0 text-xs sm:text-sm h-8 sm:h-10">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleBulkDelete}
+              className="bg-red-500 hover:bg-red-600 text-xs sm:text-sm h-8 sm:h-10"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <AlertDialog open={deleteId !== null} onOpenChange={(open) => !open && setDeleteId(null)}>
         <AlertDialogContent className="max-w-[90vw] sm:max-w-md">
           <AlertDialogHeader>
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { z } from '@/lib/zod-init';
-import { useForm } from 'react-hook-form';
+import { useForm, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form.tsx';
 import { Input } from '@/components/ui/input.tsx';
@@ -10,15 +10,19 @@ import { Checkbox } from '@/components/ui/checkbox.tsx';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover.tsx';
 import { Select, SelectContent, SelectItem, SelectTrigger } from '@/components/ui/select.tsx';
 import { format } from 'date-fns';
-import { CalendarIcon, Sparkles, BarChart3, Eye, EyeOff, AlertTriangle } from 'lucide-react';
+import { CalendarIcon, Sparkles, BarChart3, Eye, EyeOff, AlertTriangle, Plus, Trash2 } from 'lucide-react';
 import { cn } from '@/lib/utils.ts';
-import { ShortenedURL, URLOptions, UTMParams } from '@/types/shorten.ts';
+import { getShortLinkBaseURL } from '@/lib/short-links';
+import { RedirectRule, ShortenedURL, URLOptions, UTMGovernedParam, UTMParams } from '@/types/shorten.ts';
 import { URLShortenerService } from '@/services/URLShortenerService.ts';
+import { CampaignTemplateService } from '@/services/CampaignTemplateService.ts';
 import { URLSanitizerService } from '@/services/URLSanitizerService.ts';
 
 import { CSRFProtectionService } from '@/services/CSRFProtectionService.ts';
 import { toast } from 'sonner';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert.tsx";
+import RedirectRulesEditor from '@/components/shorten/RedirectRulesEditor.tsx';
+import UTMViolations from '@/components/shorten/UTMViolations.tsx';
 
 // Form schema
 const formSchema = z.object({
@@ -51,6 +55,13 @@ const formSchema = z.object({
     ),
   useExpiration: z.boolean().default(false),
   expirationDate: z.date().optional(),
+  useActivation: z.boolean().default(false),
+  activatesAt: z.string().optional(),
+  inactiveMessage: z.string().max(280, { message: 'Message must be at most 280 characters long' }).optional(),
+  useClickLimit: z.boolean().default(false),
+  maxClicks: z.string().optional(),
+  expiredMessage: z.string().max(280, { message: 'Message must be at most 280 characters long' }).optional(),
+  skipInterstitial: z.boolean().default(false),
   usePassword: z.boolean().default(false),
   password: z.string().optional()
     .refine(
@@ -63,8 +74,29 @@ const formSchema = z.object({
   utmCampaign: z.string().optional(),
   utmTerm: z.string().optional(),
   utmContent: z.string().optional(),
+  useVariants: z.boolean().default(false),
+  // Weight of the main URL, which is always the first A/B destination
+  primaryWeight: z.string().optional(),
+  variants: z.array(z.object({
+    url: z.string(),
+    weight: z.string()
+  })).default([]),
+  useRedirectRules: z.boolean().default(false),
+  tags: z.string().optional(),
+  folder: z.string().max(100, { message: 'Folder must be at most 100 characters long' }).optional(),
 });
 
+// A/B destinations besides the main URL
+const MAX_EXTRA_VARIANTS = 4;
+
+const UTM_FORM_FIELDS: Record<UTMGovernedParam, 'utmSource' | 'utmMedium' | 'utmCampaign' | 'utmTerm' | 'utmContent'> = {
+  source: 'utmSource',
+  medium: 'utmMedium',
+  campaign: 'utmCampaign',
+  term: 'utmTerm',
+  content: 'utmContent'
+};
+
 type FormValues = z.infer<typeof formSchema>;
 
 interface URLInputFormProps {
@@ -78,8 +110,10 @@ const URLInputForm: React.FC<URLInputFormProps> = ({ onURLShortened, initialUtmP
   const [csrfToken, setCsrfToken] = useState('');
   const [showSuspiciousWarning, setShowSuspiciousWarning] = useState(false);
   const [suspiciousURL, setSuspiciousURL] = useState('');
+  const [suspiciousReason, setSuspiciousReason] = useState('');
 
   const [showPassword, setShowPassword] = useState(false);
+  const [redirectRules, setRedirectRules] = useState<Array<Omit<RedirectRule, 'id'>>>([]);
 
   // Generate CSRF token on component mount
   useEffect(() => {
@@ -96,6 +130,13 @@ const URLInputForm: React.FC<URLInputFormProps> = ({ onURLShortened, initialUtmP
       customAlias: '',
       useExpiration: false,
       expirationDate: undefined,
+      useActivation: false,
+      activatesAt: '',
+      inactiveMessage: '',
+      useClickLimit: false,
+      maxClicks: '1',
+      expiredMessage: '',
+      skipInterstitial: false,
       usePassword: false,
       password: '',
       useUtm: initialUtmParams ? true : false,
@@ -104,9 +145,27 @@ const URLInputForm: React.FC<URLInputFormProps> = ({ onURLShortened, initialUtmP
       utmCampaign: initialUtmParams?.campaign || '',
       utmTerm: initialUtmParams?.term || '',
       utmContent: initialUtmParams?.content || '',
+      useVariants: false,
+      primaryWeight: '50',
+      variants: [{ url: '', weight: '50' }],
+      useRedirectRules: false,
+      tags: '',
+      folder: '',
     },
   });
 
+  const variantFields = useFieldArray({ control: form.control, name: 'variants' });
+
+  const utmViolations = form.watch('useUtm')
+    ? CampaignTemplateService.lintUTM({
+      source: form.watch('utmSource'),
+      medium: form.watch('utmMedium'),
+      campaign: form.watch('utmCampaign'),
+      term: form.watch('utmTerm'),
+      content: form.watch('utmContent')
+    })
+    : [];
+
   // Function to handle suspicious URL confirmation
   const handleConfirmSuspiciousURL = async () => {
     try {
@@ -117,7 +176,7 @@ const URLInputForm: React.FC<URLInputFormProps> = ({ onURLShortened, initialUtmP
       const values = form.getValues();
 
       // Prepare options
-      const options: URLOptions = prepareURLOptions(values);
+      const options: URLOptions = prepareURLOptions(values, suspiciousURL);
 
       // Create shortened URL with warning flag
       const shortenedURL = await URLShortenerService.shortenURL(suspiciousURL, options);
@@ -142,9 +201,43 @@ const URLInputForm: React.FC<URLInputFormProps> = ({ onURLShortened, initialUtmP
   };
 
   // Function to prepare URL options
-  const prepareURLOptions = (values: FormValues): URLOptions => {
+  const prepareURLOptions = (values: FormValues, destinationURL: string): URLOptions => {
     const options: URLOptions = {};
 
+    // Add A/B destinations if enabled
+    if (values.useVariants) {
+      const parseWeight = (weight: string | undefined, label: string) => {
+        const parsed = Number(weight);
+        if (!Number.isInteger(parsed) || parsed < 1 || parsed > 100) {
+          throw new Error(`${label} weight must be a whole number between 1 and 100`);
+        }
+        return parsed;
+      };
+
+      options.variants = [
+        { label: 'A', url: destinationURL, weight: parseWeight(values.primaryWeight, 'Variant A') },
+        ...values.variants.map((variant, index) => {
+          const label = String.fromCharCode(66 + index);
+          const url = URLSanitizerService.sanitizeURL(variant.url.trim());
+          if (!url) {
+            throw new Error(`Variant ${label} needs a valid URL including http:// or https://`);
+          }
+          return { label, url, weight: parseWeight(variant.weight, `Variant ${label}`) };
+        })
+      ];
+    }
+
+    // Add redirect rules if enabled
+    if (values.useRedirectRules && redirectRules.length > 0) {
+      options.redirectRules = redirectRules.map((rule, index) => {
+        const destination = URLSanitizerService.sanitizeURL(rule.destination.trim());
+        if (!destination) {
+          throw new Error(`${rule.label.trim() || `Rule ${index + 1}`} needs a valid destination URL including http:// or https://`);
+        }
+        return { ...rule, destination };
+      });
+    }
+
     // Add custom alias if enabled
     if (values.useCustomAlias && values.customAlias) {
       // Sanitize the custom alias
@@ -167,6 +260,33 @@ const URLInputForm: React.FC<URLInputFormProps> = ({ onURLShortened, initialUtmP
       options.expiresAt = values.expirationDate.toISOString();
     }
 
+    // Add activation date if enabled
+    if (values.useActivation && values.activatesAt) {
+      const activationDate = new Date(values.activatesAt);
+      if (Number.isNaN(activationDate.getTime())) {
+        throw new Error('Please enter a valid activation date');
+      }
+      options.activatesAt = activationDate.toISOString();
+      options.inactiveMessage = values.inactiveMessage?.trim() || undefined;
+    }
+
+    // Add click limit if enabled
+    if (values.useClickLimit) {
+      const maxClicks = Number(values.maxClicks);
+      if (!Number.isInteger(maxClicks) || maxClicks < 1) {
+        throw new Error('Click limit must be a whole number of at least 1');
+      }
+      options.maxClicks = maxClicks;
+    }
+
+    if (values.useExpiration || values.useClickLimit) {
+      options.expiredMessage = values.expiredMessage?.trim() || undefined;
+    }
+
+    if (values.skipInterstitial) {
+      options.skipInterstitial = true;
+    }
+
     // Add password protection if enabled
     if (values.usePassword && values.password) {
       if (values.password.length < 6) {
@@ -205,12 +325,19 @@ const URLInputForm: React.FC<URLInputFormProps> = ({ onURLShortened, initialUtmP
       }
     }
 
+    // Organize the link in the library
+    const tags = values.tags?.split(/[,\s]+/).filter(Boolean) || [];
+    if (tags.length > 0) {
+      options.tags = URLShortenerService.normalizeTags(tags);
+    }
+    options.folder = URLShortenerService.normalizeFolder(values.folder);
+
     return options;
   };
 
   // Function to reset form after submission
   const resetFormAfterSubmission = (values: FormValues) => {
-    if (!values.useCustomAlias && !values.useExpiration && !values.usePassword && !values.useUtm) {
+    if (!values.useCustomAlias && !values.useExpiration && !values.useActivation && !values.useClickLimit && !values.usePassword && !values.useUtm && !values.useVariants && !values.useRedirectRules && !values.tags && !values.folder) {
       form.reset();
     } else {
       // Just reset the URL field
@@ -264,11 +391,12 @@ const URLInputForm: React.FC<URLInputFormProps> = ({ onURLShortened, initialUtmP
         // Show warning and require confirmation
         setShowSuspiciousWarning(true);
         setSuspiciousURL(sanitizedURL);
+        setSuspiciousReason(urlValidation.reason || '');
         return;
       }
 
       // Prepare options with additional validation
-      const options = prepareURLOptions(values);
+      const options = prepareURLOptions(values, sanitizedURL);
 
       // Create shortened URL
       const shortenedURL = await URLShortenerService.shortenURL(sanitizedURL, options);
@@ -305,6 +433,9 @@ const URLInputForm: React.FC<URLInputFormProps> = ({ onURLShortened, initialUtmP
                 The URL you're trying to shorten has been flagged as potentially suspicious.
                 This could be due to unusual patterns or characteristics that might indicate phishing or malicious intent.
               </p>
+              {suspiciousReason && (
+                <p className="mb-2 font-medium">{suspiciousReason}</p>
+              )}
               <p className="mb-3">
                 URL: <span className="font-mono text-xs break-all">{suspiciousURL}</span>
               </p>
@@ -424,7 +555,7 @@ const URLInputForm: React.FC<URLInputFormProps> = ({ onURLShortened, initialUtmP
                     <FormControl>
                       <div className="flex flex-col sm:flex-row items-start sm:items-center gap-2 sm:gap-0">
                         <span className="bg-gray-100 px-2 sm:px-3 py-1.5 sm:py-2 border sm:border-r-0 rounded-md sm:rounded-r-none text-gray-500 text-xs sm:text-sm w-full sm:w-auto overflow-hidden text-ellipsis whitespace-nowrap">
-                          {window.location.origin}/s/
+                          {getShortLinkBaseURL()}
                         </span>
                         <Input
                           placeholder="my-custom-link"
@@ -439,6 +570,35 @@ const URLInputForm: React.FC<URLInputFormProps> = ({ onURLShortened, initialUtmP
               />
             )}
 
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4 px-2 sm:px-4">
+              <FormField
+                control={form.control}
+                name="tags"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs sm:text-sm">Tags</FormLabel>
+                    <FormControl>
+                      <Input placeholder="spring, newsletter" {...field} />
+                    </FormControl>
+                    <FormMessage className="text-xs" />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="folder"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs sm:text-sm">Folder</FormLabel>
+                    <FormControl>
+                      <Input placeholder="campaigns/spring" {...field} />
+                    </FormControl>
+                    <FormMessage className="text-xs" />
+                  </FormItem>
+                )}
+              />
+            </div>
+
             <FormField
               control={form.control}
               name="useExpiration"
@@ -501,6 +661,135 @@ const URLInputForm: React.FC<URLInputFormProps> = ({ onURLShortened, initialUtmP
               />
             )}
 
+            <FormField
+              control={form.control}
+              name="useActivation"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start space-x-2 sm:space-x-3 space-y-0 rounded-md p-2 sm:p-4">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                      className="mt-0.5"
+                    />
+                  </FormControl>
+                  <div className="space-y-0.5 sm:space-y-1 leading-none">
+                    <FormLabel className="text-xs sm:text-sm">Schedule activation</FormLabel>
+                    <p className="text-[10px] sm:text-xs text-gray-500">
+                      The link only starts redirecting at this time.
+                    </p>
+                  </div>
+                </FormItem>
+              )}
+            />
+
+            {form.watch('useActivation') && (
+              <div className="space-y-3 pl-3 sm:pl-4 border-l-2 border-gray-100">
+                <FormField
+                  control={form.control}
+                  name="activatesAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-xs sm:text-sm">Activates at</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" {...field} className="text-xs sm:text-sm h-8 sm:h-10" />
+                      </FormControl>
+                      <FormMessage className="text-xs" />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="inactiveMessage"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-xs sm:text-sm">Message before activation (optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Tickets go on sale soon!" {...field} className="text-xs sm:text-sm h-8 sm:h-10" />
+                      </FormControl>
+                      <FormMessage className="text-xs" />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            <FormField
+              control={form.control}
+              name="useClickLimit"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start space-x-2 sm:space-x-3 space-y-0 rounded-md p-2 sm:p-4">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                      className="mt-0.5"
+                    />
+                  </FormControl>
+                  <div className="space-y-0.5 sm:space-y-1 leading-none">
+                    <FormLabel className="text-xs sm:text-sm">Limit clicks</FormLabel>
+                    <p className="text-[10px] sm:text-xs text-gray-500">
+                      Stop redirecting after a number of clicks. Use 1 for a one-time link.
+                    </p>
+                  </div>
+                </FormItem>
+              )}
+            />
+
+            {form.watch('useClickLimit') && (
+              <FormField
+                control={form.control}
+                name="maxClicks"
+                render={({ field }) => (
+                  <FormItem className="pl-3 sm:pl-4 border-l-2 border-gray-100">
+                    <FormLabel className="text-xs sm:text-sm">Maximum clicks</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} {...field} className="w-32 text-xs sm:text-sm h-8 sm:h-10" />
+                    </FormControl>
+                    <FormMessage className="text-xs" />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {(form.watch('useExpiration') || form.watch('useClickLimit')) && (
+              <FormField
+                control={form.control}
+                name="expiredMessage"
+                render={({ field }) => (
+                  <FormItem className="pl-3 sm:pl-4 border-l-2 border-gray-100">
+                    <FormLabel className="text-xs sm:text-sm">Message once expired (optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="This offer has ended." {...field} className="text-xs sm:text-sm h-8 sm:h-10" />
+                    </FormControl>
+                    <FormMessage className="text-xs" />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="skipInterstitial"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start space-x-2 sm:space-x-3 space-y-0 rounded-md p-2 sm:p-4">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                      className="mt-0.5"
+                    />
+                  </FormControl>
+                  <div className="space-y-0.5 sm:space-y-1 leading-none">
+                    <FormLabel className="text-xs sm:text-sm">Skip the redirect warning</FormLabel>
+                    <p className="text-[10px] sm:text-xs text-gray-500">
+                      Send visitors straight to the destination. Only applies while it is on your safety allowlist.
+                    </p>
+                  </div>
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="usePassword"
@@ -776,6 +1065,11 @@ const URLInputForm: React.FC<URLInputFormProps> = ({ onURLShortened, initialUtmP
                   />
                 </div>
 
+                <UTMViolations
+                  violations={utmViolations}
+                  onFix={(param, value) => form.setValue(UTM_FORM_FIELDS[param], value, { shouldDirty: true })}
+                />
+
                 <div className="mt-2 p-2 sm:p-3 bg-gray-50 rounded-md border border-gray-100">
                   <h4 className="text-xs sm:text-sm font-medium mb-2 flex items-center">
                     <span className="h-4 w-4 sm:h-5 sm:w-5 rounded-full bg-blue-100 text-blue-600 inline-flex items-center justify-center mr-1.5 sm:mr-2 text-[10px] sm:text-xs">i</span>
@@ -820,6 +1114,136 @@ const URLInputForm: React.FC<URLInputFormProps> = ({ onURLShortened, initialUtmP
                 </div>
               </div>
             )}
+
+            <FormField
+              control={form.control}
+              name="useVariants"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start space-x-2 sm:space-x-3 space-y-0 rounded-md p-2 sm:p-4">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                      className="mt-0.5"
+                    />
+                  </FormControl>
+                  <div className="space-y-0.5 sm:space-y-1 leading-none">
+                    <FormLabel className="text-xs sm:text-sm">A/B test destinations</FormLabel>
+                    <p className="text-[10px] sm:text-xs text-gray-500">
+                      Split visitors across several URLs by weight. Returning visitors keep seeing the same variant.
+                    </p>
+                  </div>
+                </FormItem>
+              )}
+            />
+
+            {form.watch('useVariants') && (
+              <div className="space-y-3 pl-3 sm:pl-4 border-l-2 border-gray-100">
+                <div className="flex items-end gap-2">
+                  <div className="flex-1 min-w-0">
+                    <FormLabel className="text-xs sm:text-sm">Variant A</FormLabel>
+                    <p className="text-xs text-gray-500 truncate h-8 sm:h-10 flex items-center">
+                      {form.watch('url') || 'The URL entered above'}
+                    </p>
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name="primaryWeight"
+                    render={({ field }) => (
+                      <FormItem className="w-20">
+                        <FormLabel className="text-xs sm:text-sm">Weight</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} max={100} {...field} className="text-xs sm:text-sm h-8 sm:h-10" />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <div className="w-9" />
+                </div>
+
+                {variantFields.fields.map((variantField, index) => (
+                  <div key={variantField.id} className="flex items-end gap-2">
+                    <FormField
+                      control={form.control}
+                      name={`variants.${index}.url`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1 min-w-0">
+                          <FormLabel className="text-xs sm:text-sm">Variant {String.fromCharCode(66 + index)}</FormLabel>
+                          <FormControl>
+                            <Input placeholder="https://example.com/landing-b" {...field} className="text-xs sm:text-sm h-8 sm:h-10" />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`variants.${index}.weight`}
+                      render={({ field }) => (
+                        <FormItem className="w-20">
+                          <FormControl>
+                            <Input type="number" min={1} max={100} {...field} className="text-xs sm:text-sm h-8 sm:h-10" />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 sm:h-10 w-9 px-0"
+                      onClick={() => variantFields.remove(index)}
+                      disabled={variantFields.fields.length <= 1}
+                      aria-label={`Remove variant ${String.fromCharCode(66 + index)}`}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                ))}
+
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => variantFields.append({ url: '', weight: '50' })}
+                  disabled={variantFields.fields.length >= MAX_EXTRA_VARIANTS}
+                >
+                  <Plus className="h-3.5 w-3.5 mr-1" />
+                  Add destination
+                </Button>
+              </div>
+            )}
+
+            <FormField
+              control={form.control}
+              name="useRedirectRules"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start space-x-2 sm:space-x-3 space-y-0 rounded-md p-2 sm:p-4">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                      className="mt-0.5"
+                    />
+                  </FormControl>
+                  <div className="space-y-0.5 sm:space-y-1 leading-none">
+                    <FormLabel className="text-xs sm:text-sm">Redirect rules</FormLabel>
+                    <p className="text-[10px] sm:text-xs text-gray-500">
+                      Send visitors elsewhere by device, language or time. Rules are checked top to bottom and the first match wins.
+                    </p>
+                  </div>
+                </FormItem>
+              )}
+            />
+
+            {form.watch('useRedirectRules') && (
+              <div className="pl-3 sm:pl-4 border-l-2 border-gray-100">
+                <RedirectRulesEditor
+                  rules={redirectRules}
+                  onChange={setRedirectRules}
+                  fallbackURL={form.watch('useVariants') ? 'the A/B split' : form.watch('url')}
+                />
+              </div>
+            )}
           </motion.div>
         )}
       </form>
@@ -1,13 +1,16 @@
-import React, { useEffect, useState, useMemo } from 'react';
+import React, { useEffect, useState, useMemo, useCallback } from 'react';
 import { useParams } from 'react-router-dom';
 import { useNavigateWithTransition } from '@/hooks/useNavigateWithTransition';
 import { URLShortenerService } from '@/services/URLShortenerService.ts';
 import { URLSanitizerService } from '@/services/URLSanitizerService.ts';
 import { SecureHeadersService } from '@/services/SecureHeadersService.ts';
-import { ShortenedURL, UTMParams } from '@/types/shorten.ts';
+import { QRPayloadService } from '@/services/QRPayloadService.ts';
+import { RedirectPolicyService } from '@/services/RedirectPolicyService.ts';
+import { downloadBlob } from '@/utils/download';
+import { QRPayloadType, ShortenedURL, URLLinkStatus, UTMParams } from '@/types/shorten.ts';
 import { MotionButton } from '@/components/ui/motion-button.tsx';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle, CardDescription } from '@/components/ui/card.tsx';
-import { ExternalLink, AlertTriangle, ArrowLeft, Shield, Clock, Globe, AlertCircle, Check } from 'lucide-react';
+import { ExternalLink, AlertTriangle, ArrowLeft, Shield, Clock, Globe, AlertCircle, Check, Download, QrCode } from 'lucide-react';
 import { motion, useReducedMotion } from 'framer-motion';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip.tsx';
 import EnhancedBackground from '@/components/utils/EnhancedBackground.tsx';
@@ -16,18 +19,20 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert.tsx";
 import { Badge } from "@/components/ui/badge.tsx";
 import PasswordVerificationForm from '@/components/shorten/PasswordVerificationForm.tsx';
 
-// List of trusted domains that don't require confirmation
-const TRUSTED_DOMAINS = [
-  'google.com', 'github.com', 'microsoft.com', 'apple.com', 'amazon.com',
-  'mozilla.org', 'wikipedia.org', 'linkedin.com', 'twitter.com', 'facebook.com',
-  'instagram.com', 'youtube.com', 'reddit.com', 'medium.com', 'dev.to'
-];
-
-// Check if a domain is in the trusted list or is a subdomain of a trusted domain
-const isTrustedDomain = (domain: string): boolean => {
-  return TRUSTED_DOMAINS.some(trusted =>
-    domain === trusted || domain.endsWith(`.${trusted}`)
-  );
+// Landing copy for links that do not redirect right now; a link's own message replaces the default one
+const UNAVAILABLE_LINK_COPY: Record<Exclude<URLLinkStatus, 'active'>, { title: string; message: string }> = {
+  scheduled: { title: 'Link Not Active Yet', message: 'This shortened URL is not active yet. Please check back later.' },
+  expired: { title: 'Link Expired', message: 'This shortened URL has expired' },
+  exhausted: { title: 'Link No Longer Available', message: 'This shortened URL has reached its click limit' }
+};
+
+// Landing copy for links that wrap a QR payload; Wi-Fi payloads are never wrapped
+const PAYLOAD_LANDING_COPY: Record<QRPayloadType, { title: string; description: string; action: string }> = {
+  vcard: { title: 'Contact Card', description: 'Save this contact to your address book.', action: 'Save contact' },
+  event: { title: 'Calendar Event', description: 'Add this event to your calendar.', action: 'Add to calendar' },
+  email: { title: 'Send an Email', description: 'Your email app should open with the message ready to send.', action: 'Open email app' },
+  sms: { title: 'Send a Text', description: 'Your messaging app should open with the text ready to send.', action: 'Open messages' },
+  wifi: { title: 'Wi-Fi Network', description: 'Scan the Wi-Fi QR code with your camera to join this network.', action: 'Continue' }
 };
 
 // Utility function to append UTM parameters to a URL
@@ -78,6 +83,9 @@ const URLRedirect: React.FC = () => {
   const [showWarning, setShowWarning] = useState(false);
   const [redirectConfirmed, setRedirectConfirmed] = useState(false);
   const [isDangerousURL, setIsDangerousURL] = useState(false);
+  const [policyReasons, setPolicyReasons] = useState<string[]>([]);
+  const [linkStatus, setLinkStatus] = useState<URLLinkStatus>('active');
+  const [payloadURL, setPayloadURL] = useState<ShortenedURL | null>(null);
 
   // Apply secure headers when component mounts
   useEffect(() => {
@@ -92,19 +100,63 @@ const URLRedirect: React.FC = () => {
 
     let timer: NodeJS.Timeout | null = null;
 
+    // Count the visit, preferring UTM parameters from this page's query string over the link's own
+    const recordVisit = async (url: ShortenedURL, variantId?: string, ruleId?: string): Promise<boolean> => {
+      // Extract UTM parameters from the current URL if they exist
+      const currentUrlParams = new URLSearchParams(window.location.search);
+      const extractedUtmParams: UTMParams = {};
+
+      // Check for UTM parameters in the current URL
+      ['source', 'medium', 'campaign', 'term', 'content'].forEach(param => {
+        const value = currentUrlParams.get(`utm_${param}`);
+        if (value) {
+          extractedUtmParams[param] = value;
+        }
+      });
+
+      // Check for custom UTM parameters
+      currentUrlParams.forEach((value, key) => {
+        if (key.startsWith('utm_') && !['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'].includes(key)) {
+          const customParam = key.replace('utm_', '');
+          if (!extractedUtmParams.custom) {
+            extractedUtmParams.custom = {};
+          }
+          extractedUtmParams.custom[customParam] = value;
+        }
+      });
+
+      // Use extracted UTM parameters if available, otherwise use the ones from the shortened URL
+      const utmParameters = Object.keys(extractedUtmParams).length > 0
+        ? extractedUtmParams
+        : url.utmParameters;
+
+      // The link may have been found by the code it had before a rename
+      return URLShortenerService.recordClick(url.shortCode, {
+        referrer: document.referrer || undefined,
+        device: navigator.userAgent || undefined,
+        browser: navigator.userAgent ? navigator.userAgent.split(' ').pop() || undefined : undefined,
+        location: { country: 'Unknown' }, // In a real app, this would be determined server-side
+        utmParameters: utmParameters,
+        variantId,
+        ruleId
+      });
+    };
+
     const processURL = async () => {
       try {
         // Look up the short code
-        const url = await URLShortenerService.getURLByShortCode(shortCode);
+        const url = await URLShortenerService.getURLByShortCode(shortCode, true);
 
         if (!url) {
           setError('This shortened URL does not exist or has expired');
           return;
         }
 
-        // Check if URL has expired
-        if (url.expiresAt && new Date(url.expiresAt) < new Date()) {
-          setError('This shortened URL has expired');
+        // Check that the link is active: not expired, not scheduled for later and not out of clicks
+        const status = URLShortenerService.getLinkStatus(url);
+        if (status !== 'active') {
+          setLinkStatus(status);
+          setError((status === 'scheduled' ? url.inactiveMessage : url.expiredMessage) || UNAVAILABLE_LINK_COPY[status].message);
           return;
         }
 
@@ -117,10 +169,27 @@ const URLRedirect: React.FC = () => {
           return;
         }
 
+        // Wrapped QR payloads open the email or SMS, or offer their file, instead of redirecting
+        if (url.payloadType) {
+          const recorded = await recordVisit(url);
+          if (!recorded && url.maxClicks !== undefined) {
+            setLinkStatus('exhausted');
+            setError(url.expiredMessage || UNAVAILABLE_LINK_COPY.exhausted.message);
+            return;
+          }
+          setPayloadURL(url);
+          return;
+        }
+
+        // Targeting rules take precedence; otherwise pick the A/B variant, if the link splits traffic
+        const rule = URLShortenerService.evaluateRedirectRules(url.redirectRules);
+        const variant = rule ? null : URLShortenerService.selectVariant(url);
+        const destinationURL = rule?.destination ?? variant?.url ?? url.originalURL;
+
         // Get the final URL with UTM parameters if present
         const finalURL = url.utmParameters
-          ? appendUtmParameters(url.originalURL, url.utmParameters)
-          : url.originalURL;
+          ? appendUtmParameters(destinationURL, url.utmParameters)
+          : destinationURL;
 
         // Sanitize and validate the URL
         const sanitizedURLData = URLSanitizerService.getSafeDisplayURL(finalURL);
@@ -136,27 +205,23 @@ const URLRedirect: React.FC = () => {
           return;
         }
 
-        // Check if URL is suspicious (from the shortened URL metadata)
-        if (url.isSuspicious && !redirectConfirmed) {
+        // Check the destination against the redirect safety policy
+        await RedirectPolicyService.load();
+        const policyCheck = RedirectPolicyService.check(finalURL);
+        setPolicyReasons(policyCheck.reasons);
+
+        if (policyCheck.verdict === 'blocked') {
+          setIsDangerousURL(true);
           setShowWarning(true);
-          setOriginalURL(finalURL);
+          setError(`This URL has been blocked by the link safety policy: ${policyCheck.reasons[0]}`);
           return;
         }
 
-        // Check if domain is trusted
-        try {
-          const domain = new URL(finalURL).hostname;
-          const isTrusted = isTrustedDomain(domain);
-
-          // If not trusted and not confirmed, show warning
-          if (!isTrusted && !redirectConfirmed) {
-            setShowWarning(true);
-            setOriginalURL(finalURL);
-            return;
-          }
-        } catch (e) {
-          console.error('Error parsing URL domain:', e);
-          setError('Invalid URL format');
+        // Suspicious links (flagged now or when they were created) and untrusted destinations need confirmation
+        const isTrusted = policyCheck.verdict === 'trusted' && !url.isSuspicious;
+        if (!isTrusted && !redirectConfirmed) {
+          setShowWarning(true);
+          setOriginalURL(finalURL);
           return;
         }
 
@@ -165,41 +230,20 @@ const URLRedirect: React.FC = () => {
 
         // Record the click only if we're actually redirecting
         if (redirectConfirmed || !showWarning) {
-          // Extract UTM parameters from the current URL if they exist
-          const currentUrlParams = new URLSearchParams(window.location.search);
-          const extractedUtmParams: UTMParams = {};
-
-          // Check for UTM parameters in the current URL
-          ['source', 'medium', 'campaign', 'term', 'content'].forEach(param => {
-            const value = currentUrlParams.get(`utm_${param}`);
-            if (value) {
-              extractedUtmParams[param] = value;
-            }
-          });
-
-          // Check for custom UTM parameters
-          currentUrlParams.forEach((value, key) => {
-            if (key.startsWith('utm_') && !['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'].includes(key)) {
-              const customParam = key.replace('utm_', '');
-              if (!extractedUtmParams.custom) {
-                extractedUtmParams.custom = {};
-              }
-              extractedUtmParams.custom[customParam] = value;
-            }
-          });
-
-          // Use extracted UTM parameters if available, otherwise use the ones from the shortened URL
-          const utmParameters = Object.keys(extractedUtmParams).length > 0
-            ? extractedUtmParams
-            : url.utmParameters;
-
-          await URLShortenerService.recordClick(shortCode, {
-            referrer: document.referrer || undefined,
-            device: navigator.userAgent || undefined,
-            browser: navigator.userAgent ? navigator.userAgent.split(' ').pop() || undefined : undefined,
-            location: { country: 'Unknown' }, // In a real app, this would be determined server-side
-            utmParameters: utmParameters
-          });
+          const recorded = await recordVisit(url, variant?.id, rule?.id);
+
+          // Click-limited links only redirect clicks that were counted
+          if (!recorded && url.maxClicks !== undefined) {
+            setLinkStatus('exhausted');
+            setError(url.expiredMessage || UNAVAILABLE_LINK_COPY.exhausted.message);
+            return;
+          }
+        }
+
+        // Links that opt out of the interstitial go straight to trusted destinations
+        if (url.skipInterstitial && isTrusted) {
+          window.location.replace(finalURL);
+          return;
         }
 
         // Only start countdown if redirect is confirmed or no warning is needed
@@ -249,6 +293,24 @@ const URLRedirect: React.FC = () => {
     }
   };
 
+  // Email and SMS links hand over to the visitor's apps; contact and event links download their file
+  const handleOpenPayload = useCallback(() => {
+    if (!payloadURL?.payloadType) return;
+
+    const file = QRPayloadService.decodeFile(payloadURL.originalURL, payloadURL.payloadType);
+    if (file) {
+      downloadBlob(`${payloadURL.shortCode}.${file.extension}`, file.blob);
+    } else if (/^(mailto|sms):/i.test(payloadURL.originalURL)) {
+      window.location.href = payloadURL.originalURL;
+    }
+  }, [payloadURL]);
+
+  useEffect(() => {
+    if (payloadURL?.payloadType === 'email' || payloadURL?.payloadType === 'sms') {
+      handleOpenPayload();
+    }
+  }, [payloadURL, handleOpenPayload]);
+
   const handleConfirmRedirect = () => {
     setRedirectConfirmed(true);
     setShowWarning(false);
@@ -274,10 +336,10 @@ const URLRedirect: React.FC = () => {
                 <AlertTriangle className="h-8 w-8 text-red-600" />
               </div>
               <CardTitle className="text-center text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-red-700 to-red-500">
-                Redirect Error
+                {linkStatus === 'active' ? 'Redirect Error' : UNAVAILABLE_LINK_COPY[linkStatus].title}
               </CardTitle>
               <CardDescription className="text-center text-red-700 mt-2 font-medium">
-                We couldn't process this shortened URL
+                {linkStatus === 'active' ? "We couldn't process this shortened URL" : 'This link is not redirecting right now'}
               </CardDescription>
             </CardHeader>
             <CardContent className="text-center py-4">
@@ -336,6 +398,42 @@ const URLRedirect: React.FC = () => {
     );
   }
 
+  if (payloadURL?.payloadType) {
+    const copy = PAYLOAD_LANDING_COPY[payloadURL.payloadType];
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        {memoizedBackground}
+        <ScrollReveal>
+          <Card className="max-w-md w-full p-6 mx-auto border border-teal-200 shadow-xl backdrop-blur-md bg-gradient-to-b from-white to-teal-50/30 rounded-xl">
+            <CardHeader className="pb-4">
+              <div className="mx-auto bg-gradient-to-br from-teal-200 to-blue-200 p-3 rounded-full mb-4 w-16 h-16 flex items-center justify-center shadow-sm">
+                <QrCode className="h-8 w-8 text-teal-700" />
+              </div>
+              <CardTitle className="text-center text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-teal-700 to-blue-600">
+                {copy.title}
+              </CardTitle>
+              <CardDescription className="text-center mt-2">
+                {copy.description}
+              </CardDescription>
+            </CardHeader>
+            <CardFooter className="flex justify-center gap-3 pt-2">
+              <MotionButton
+                onClick={handleOpenPayload}
+                className="flex items-center gap-2 bg-gradient-to-r from-teal-600 to-blue-600 text-white shadow-md"
+                whileHover={prefersReducedMotion ? {} : { scale: 1.03, y: -2 }}
+                whileTap={prefersReducedMotion ? {} : { scale: 0.97 }}
+                transitionType="spring"
+              >
+                <Download className="h-4 w-4" />
+                {copy.action}
+              </MotionButton>
+            </CardFooter>
+          </Card>
+        </ScrollReveal>
+      </div>
+    );
+  }
+
   // Show warning for suspicious or untrusted URLs
   if (showWarning && originalURL && !isDangerousURL) {
     return (
@@ -359,9 +457,16 @@ const URLRedirect: React.FC = () => {
                 <AlertTriangle className="h-4 w-4 text-amber-700" />
                 <AlertTitle className="text-amber-900 font-semibold">Caution Required</AlertTitle>
                 <AlertDescription className="text-amber-800 text-sm">
-                  {shortenedURL?.isSuspicious
+                  {shortenedURL?.isSuspicious || policyReasons.length > 0
                     ? "This URL has been flagged as potentially suspicious. It may lead to an unsafe website."
                     : "You're being redirected to a website outside our trusted domain list."}
+                  {policyReasons.length > 0 && (
+                    <ul className="list-disc pl-4 mt-2 space-y-0.5">
+                      {policyReasons.map(reason => (
+                        <li key={reason}>{reason}</li>
+                      ))}
+                    </ul>
+                  )}
                 </AlertDescription>
               </Alert>
 
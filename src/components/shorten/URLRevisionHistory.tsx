@@ -0,0 +1,187 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ShortenedURL, URLRevision, URLRevisionChange, URLRevisionField, UTMParams } from '@/types/shorten.ts';
+import { URLShortenerService } from '@/services/URLShortenerService.ts';
+import { URLSanitizerService } from '@/services/URLSanitizerService.ts';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog.tsx';
+import { Button } from '@/components/ui/button.tsx';
+import { Input } from '@/components/ui/input.tsx';
+import { Label } from '@/components/ui/label.tsx';
+import { Badge } from '@/components/ui/badge.tsx';
+import { format } from 'date-fns';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+
+const FIELD_LABELS: Record<URLRevisionField, string> = {
+  originalURL: 'Destination',
+  utmParameters: 'UTM parameters',
+  password: 'Password',
+  expiresAt: 'Expires'
+};
+
+const describeValue = (field: URLRevisionField, value?: string | UTMParams): string => {
+  if (value === undefined || value === null || value === '') return 'none';
+  if (field === 'expiresAt' && typeof value === 'string') return format(new Date(value), 'PP p');
+  if (typeof value === 'object') {
+    const params = Object.entries(value).filter(([, param]) => typeof param === 'string' && param);
+    return params.length > 0 ? params.map(([key, param]) => `${key}=${param}`).join(', ') : 'none';
+  }
+  return value;
+};
+
+const describeChange = (change: URLRevisionChange): string => {
+  // Password hashes are never shown
+  if (change.field === 'password') {
+    if (!change.before) return 'added';
+    return change.after ? 'changed' : 'removed';
+  }
+  return `${describeValue(change.field, change.before)} → ${describeValue(change.field, change.after)}`;
+};
+
+interface URLRevisionHistoryProps {
+  url: ShortenedURL | null;
+  onOpenChange: (open: boolean) => void;
+  onChanged?: () => void;
+}
+
+const URLRevisionHistory: React.FC<URLRevisionHistoryProps> = ({ url, onOpenChange, onChanged }) => {
+  const [revisions, setRevisions] = useState<URLRevision[]>([]);
+  const [destination, setDestination] = useState('');
+  // The url prop is not refreshed after an edit, so track the saved destination here
+  const [savedDestination, setSavedDestination] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadRevisions = useCallback(async () => {
+    if (url) {
+      setRevisions(await URLShortenerService.getRevisions(url.id));
+    }
+  }, [url]);
+
+  useEffect(() => {
+    setDestination(url?.originalURL || '');
+    setSavedDestination(url?.originalURL || '');
+    loadRevisions();
+  }, [url, loadRevisions]);
+
+  const handleSaveDestination = async () => {
+    if (!url) return;
+
+    const sanitizedURL = URLSanitizerService.sanitizeURL(destination.trim());
+    const validation = sanitizedURL ? URLShortenerService.isValidURL(sanitizedURL) : { valid: false, reason: undefined };
+    if (!sanitizedURL || !validation.valid) {
+      toast.error(validation.reason || 'Please enter a valid URL including http:// or https://');
+      return;
+    }
+    if (sanitizedURL === savedDestination) return;
+
+    setIsSaving(true);
+    try {
+      const updated = await URLShortenerService.updateURL(url.id, { originalURL: sanitizedURL });
+      if (!updated) {
+        throw new Error('Failed to update destination');
+      }
+      setSavedDestination(updated.originalURL);
+      toast.success('Destination updated');
+      await loadRevisions();
+      onChanged?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update destination');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRollback = async (revision: URLRevision) => {
+    if (!url) return;
+
+    try {
+      const updated = await URLShortenerService.rollbackRevision(url.id, revision.id);
+      setDestination(updated.originalURL);
+      setSavedDestination(updated.originalURL);
+      toast.success('Change rolled back');
+      await loadRevisions();
+      onChanged?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to roll back change');
+    }
+  };
+
+  return (
+    <Dialog open={url !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[90vw] sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-base sm:text-lg flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Edit history
+          </DialogTitle>
+          <DialogDescription className="text-xs sm:text-sm break-all">
+            {url?.shortURL}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="revision-destination" className="text-xs sm:text-sm">Destination</Label>
+          <div className="flex gap-2">
+            <Input
+              id="revision-destination"
+              value={destination}
+              onChange={(e) => setDestination(e.target.value)}
+              disabled={!!url?.payloadType}
+              className="h-8 sm:h-9 text-xs sm:text-sm"
+            />
+            <Button
+              size="sm"
+              className="h-8 sm:h-9 text-xs"
+              onClick={handleSaveDestination}
+              disabled={isSaving || !!url?.payloadType || !destination.trim() || destination.trim() === savedDestination}
+            >
+              {isSaving && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+              Save
+            </Button>
+          </div>
+          <p className="text-[10px] sm:text-xs text-gray-500">
+            {url?.payloadType
+              ? 'This link wraps a QR code payload, so its destination cannot be edited.'
+              : 'Printed QR codes keep pointing at this short link, so changing the destination changes where they go.'}
+          </p>
+        </div>
+
+        {revisions.length === 0 ? (
+          <p className="text-xs sm:text-sm text-gray-500 text-center py-4">No changes recorded yet.</p>
+        ) : (
+          <div className="max-h-[320px] overflow-y-auto pr-1">
+            <ol className="space-y-2">
+              {revisions.map((revision, index) => (
+                <li key={revision.id} className="border rounded-md p-2.5 text-xs space-y-1.5">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-1.5 text-gray-500">
+                      <span>{format(new Date(revision.timestamp), 'PP p')}</span>
+                      {index === 0 && <Badge variant="secondary" className="text-[10px] px-1.5 py-0">Latest</Badge>}
+                      {revision.rollbackOf && <Badge variant="outline" className="text-[10px] px-1.5 py-0">Rollback</Badge>}
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-6 text-[10px] sm:text-xs px-2"
+                      onClick={() => handleRollback(revision)}
+                    >
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      Roll back
+                    </Button>
+                  </div>
+                  {revision.changes.map(change => (
+                    <div key={change.field} className="break-all">
+                      <span className="font-medium text-gray-700">{FIELD_LABELS[change.field]}:</span>{' '}
+                      <span className="text-gray-600">{describeChange(change)}</span>
+                    </div>
+                  ))}
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default URLRevisionHistory;
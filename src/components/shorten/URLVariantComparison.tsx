@@ -0,0 +1,72 @@
+import React from 'react';
+import { ShortenedURL, URLAnalytics } from '@/types/shorten.ts';
+import { Badge } from '@/components/ui/badge.tsx';
+
+interface URLVariantComparisonProps {
+  url: ShortenedURL;
+  analytics: URLAnalytics;
+}
+
+/**
+ * Side-by-side clicks and conversions for each A/B destination of a link
+ */
+const URLVariantComparison: React.FC<URLVariantComparisonProps> = ({ url, analytics }) => {
+  if (!url.variants?.length) return null;
+
+  const totalWeight = url.variants.reduce((sum, variant) => sum + variant.weight, 0);
+  const rows = url.variants.map(variant => {
+    const clicks = analytics.clicksByVariant?.[variant.id] || 0;
+    const conversions = analytics.conversionsByVariant?.[variant.id] || 0;
+    return {
+      ...variant,
+      share: totalWeight > 0 ? (variant.weight / totalWeight) * 100 : 0,
+      clicks,
+      conversions,
+      conversionRate: clicks > 0 ? (conversions / clicks) * 100 : 0,
+      value: analytics.conversionValueByVariant?.[variant.id] || 0
+    };
+  });
+  const bestRate = Math.max(...rows.map(row => row.conversionRate));
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-sm font-medium text-gray-500 mb-4">A/B Variants</h3>
+      <div className="overflow-x-auto bg-white rounded-lg border shadow-sm">
+        <table className="w-full text-xs sm:text-sm">
+          <thead className="bg-gray-50">
+            <tr className="text-left text-gray-600">
+              <th className="p-2 sm:p-3">Variant</th>
+              <th className="p-2 sm:p-3">Traffic share</th>
+              <th className="p-2 sm:p-3 text-right">Clicks</th>
+              <th className="p-2 sm:p-3 text-right">Conversions</th>
+              <th className="p-2 sm:p-3 text-right">Conv. rate</th>
+              <th className="p-2 sm:p-3 text-right">Value</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.id} className="border-t align-top">
+                <td className="p-2 sm:p-3">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{row.label}</span>
+                    {row.conversionRate > 0 && row.conversionRate === bestRate && (
+                      <Badge className="bg-green-100 text-green-800 text-[10px]">Leading</Badge>
+                    )}
+                  </div>
+                  <div className="text-gray-500 break-all">{row.url}</div>
+                </td>
+                <td className="p-2 sm:p-3">{row.share.toFixed(0)}%</td>
+                <td className="p-2 sm:p-3 text-right">{row.clicks}</td>
+                <td className="p-2 sm:p-3 text-right">{row.conversions}</td>
+                <td className="p-2 sm:p-3 text-right">{row.conversionRate.toFixed(1)}%</td>
+                <td className="p-2 sm:p-3 text-right">{row.value.toLocaleString(undefined, { maximumFractionDigits: 2 })}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default URLVariantComparison;
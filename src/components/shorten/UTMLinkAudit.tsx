@@ -0,0 +1,124 @@
+import React, { useState, useMemo } from 'react';
+import { ShortenedURL, UTMAuditResult } from '@/types/shorten.ts';
+import { CampaignTemplateService } from '@/services/CampaignTemplateService.ts';
+import { URLShortenerService } from '@/services/URLShortenerService.ts';
+import { Button } from '@/components/ui/button.tsx';
+import { Badge } from '@/components/ui/badge.tsx';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog.tsx';
+import { ScrollArea } from '@/components/ui/scroll-area.tsx';
+import { ClipboardCheck, Loader2, Wand2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface UTMLinkAuditProps {
+  urls: ShortenedURL[];
+  onLinksUpdated?: () => void;
+}
+
+const hasFixes = (result: UTMAuditResult) => result.violations.some(violation => violation.suggestion);
+
+/**
+ * Check existing links against the UTM naming rules and apply the suggested fixes
+ */
+const UTMLinkAudit: React.FC<UTMLinkAuditProps> = ({ urls, onLinksUpdated }) => {
+  const [open, setOpen] = useState(false);
+  const [fixingIds, setFixingIds] = useState<string[]>([]);
+
+  // Rules may have changed since the dialog was last opened
+  const results = useMemo(() => (open ? CampaignTemplateService.auditLinks(urls) : []), [open, urls]);
+  const fixable = results.filter(hasFixes);
+
+  const applyFixes = async (targets: UTMAuditResult[]) => {
+    setFixingIds(targets.map(result => result.url.id));
+    try {
+      // One at a time, since each update rewrites the stored link list
+      let count = 0;
+      for (const { url, violations } of targets) {
+        const updated = await URLShortenerService.updateURL(url.id, {
+          utmParameters: CampaignTemplateService.fixUTM(url.utmParameters || {}, violations)
+        });
+        if (updated) count++;
+      }
+      toast.success(`Fixed UTM parameters on ${count} link${count !== 1 ? 's' : ''}`);
+      onLinksUpdated?.();
+    } catch (error) {
+      console.error('Error fixing UTM parameters:', error);
+      toast.error('Failed to fix UTM parameters');
+    } finally {
+      setFixingIds([]);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="flex items-center gap-1 h-8 sm:h-9 text-xs sm:text-sm">
+          <ClipboardCheck className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+          <span>Audit Links</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-[90vw] sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="text-base sm:text-lg">UTM Audit</DialogTitle>
+          <DialogDescription className="text-xs sm:text-sm">
+            {results.length > 0
+              ? `${results.length} link${results.length !== 1 ? 's' : ''} break the UTM naming rules.`
+              : 'Every link with UTM parameters follows the naming rules.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {fixable.length > 1 && (
+          <Button
+            size="sm"
+            className="self-start h-8 text-xs sm:text-sm"
+            onClick={() => applyFixes(fixable)}
+            disabled={fixingIds.length > 0}
+          >
+            <Wand2 className="h-3.5 w-3.5 mr-1" />
+            Apply all suggested fixes ({fixable.length})
+          </Button>
+        )}
+
+        {results.length > 0 && (
+          <ScrollArea className="max-h-[50vh] pr-3">
+            <div className="space-y-2">
+              {results.map(result => (
+                <div key={result.url.id} className="rounded-md border p-2 sm:p-3 space-y-1.5">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-xs sm:text-sm font-medium truncate">{result.url.shortCode}</p>
+                      <p className="text-[10px] sm:text-xs text-gray-500 truncate">{result.url.originalURL}</p>
+                    </div>
+                    {hasFixes(result) && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-7 text-xs flex-shrink-0"
+                        onClick={() => applyFixes([result])}
+                        disabled={fixingIds.length > 0}
+                      >
+                        {fixingIds.includes(result.url.id) && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                        Fix
+                      </Button>
+                    )}
+                  </div>
+                  <ul className="space-y-0.5">
+                    {result.violations.map(violation => (
+                      <li key={`${violation.param}-${violation.message}`} className="text-xs text-amber-800 flex flex-wrap items-center gap-1.5">
+                        <span>{violation.message}</span>
+                        {violation.suggestion && (
+                          <Badge variant="outline" className="text-[10px] font-mono">→ {violation.suggestion}</Badge>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UTMLinkAudit;
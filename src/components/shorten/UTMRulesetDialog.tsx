@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import { UTMGovernedParam, UTMRuleset } from '@/types/shorten.ts';
+import { CampaignTemplateService } from '@/services/CampaignTemplateService.ts';
+import { Button } from '@/components/ui/button.tsx';
+import { Input } from '@/components/ui/input.tsx';
+import { Label } from '@/components/ui/label.tsx';
+import { Textarea } from '@/components/ui/textarea.tsx';
+import { Checkbox } from '@/components/ui/checkbox.tsx';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog.tsx';
+import { ScrollArea } from '@/components/ui/scroll-area.tsx';
+import { ListChecks } from 'lucide-react';
+import { toast } from 'sonner';
+
+const PARAMS: UTMGovernedParam[] = ['source', 'medium', 'campaign', 'term', 'content'];
+
+// Parameters whose values are usually picked from a fixed list
+const LIST_PARAMS: UTMGovernedParam[] = ['source', 'medium'];
+
+interface RulesetForm {
+  enforceLowercase: boolean;
+  blockViolations: boolean;
+  allowed: Partial<Record<UTMGovernedParam, string>>;
+  aliases: string;
+  requiredParams: UTMGovernedParam[];
+  requiredByCategory: string;
+  campaignPattern: string;
+}
+
+const splitValues = (text: string): string[] => text.split(/[\n,]/).map(value => value.trim()).filter(Boolean);
+
+const isParam = (value: string): value is UTMGovernedParam => PARAMS.includes(value as UTMGovernedParam);
+
+// One "alias = value" or "Category: source, medium" entry per line
+const toForm = (ruleset: UTMRuleset): RulesetForm => ({
+  enforceLowercase: ruleset.enforceLowercase,
+  blockViolations: ruleset.blockViolations,
+  allowed: Object.fromEntries(LIST_PARAMS.map(param => [param, (ruleset.allowedValues[param] || []).join(', ')])),
+  aliases: Object.entries(ruleset.aliases).map(([alias, value]) => `${alias} = ${value}`).join('\n'),
+  requiredParams: ruleset.requiredParams,
+  requiredByCategory: Object.entries(ruleset.requiredByCategory).map(([category, params]) => `${category}: ${params.join(', ')}`).join('\n'),
+  campaignPattern: ruleset.campaignPattern || ''
+});
+
+const fromForm = (form: RulesetForm): UTMRuleset => ({
+  enforceLowercase: form.enforceLowercase,
+  blockViolations: form.blockViolations,
+  allowedValues: Object.fromEntries(LIST_PARAMS.map(param => [param, splitValues(form.allowed[param] || '')])),
+  aliases: Object.fromEntries(form.aliases.split('\n')
+    .map(line => line.split('=').map(part => part.trim()))
+    .filter(([alias, value]) => alias && value)),
+  requiredParams: form.requiredParams,
+  requiredByCategory: Object.fromEntries(form.requiredByCategory.split('\n')
+    .map(line => {
+      const separator = line.lastIndexOf(':');
+      if (separator < 0) return ['', []];
+      return [line.slice(0, separator).trim(), splitValues(line.slice(separator + 1)).map(value => value.replace(/^utm_/, '')).filter(isParam)];
+    })
+    .filter(([category]) => category)),
+  campaignPattern: form.campaignPattern
+});
+
+interface UTMRulesetDialogProps {
+  onSaved?: () => void;
+}
+
+/**
+ * Edit the UTM naming rules that links and templates are checked against
+ */
+const UTMRulesetDialog: React.FC<UTMRulesetDialogProps> = ({ onSaved }) => {
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<RulesetForm>(() => toForm(CampaignTemplateService.getRuleset()));
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) setForm(toForm(CampaignTemplateService.getRuleset()));
+    setOpen(isOpen);
+  };
+
+  const toggleRequired = (param: UTMGovernedParam, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      requiredParams: checked ? [...prev.requiredParams, param] : prev.requiredParams.filter(item => item !== param)
+    }));
+  };
+
+  const handleSave = () => {
+    try {
+      CampaignTemplateService.saveRuleset(fromForm(form));
+      toast.success('UTM naming rules saved');
+      setOpen(false);
+      onSaved?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save the UTM naming rules');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="flex items-center gap-1 h-8 sm:h-9 text-xs sm:text-sm">
+          <ListChecks className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+          <span>Naming Rules</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-[90vw] sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-base sm:text-lg">UTM Naming Rules</DialogTitle>
+          <DialogDescription className="text-xs sm:text-sm">
+            Keep UTM values consistent so analytics do not split "Facebook", "facebook" and "fb".
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh] pr-3">
+          <div className="grid gap-4 py-2">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="utm-lowercase"
+                checked={form.enforceLowercase}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, enforceLowercase: checked === true }))}
+              />
+              <Label htmlFor="utm-lowercase" className="text-xs sm:text-sm">Values must be lowercase</Label>
+            </div>
+
+            {LIST_PARAMS.map(param => (
+              <div key={param} className="space-y-1">
+                <Label htmlFor={`utm-allowed-${param}`} className="text-xs sm:text-sm">Allowed utm_{param} values</Label>
+                <Input
+                  id={`utm-allowed-${param}`}
+                  value={form.allowed[param] || ''}
+                  onChange={(e) => setForm(prev => ({ ...prev, allowed: { ...prev.allowed, [param]: e.target.value } }))}
+                  placeholder={param === 'source' ? 'facebook, google, newsletter' : 'social, cpc, email'}
+                  className="text-xs sm:text-sm h-8 sm:h-10"
+                />
+                <p className="text-[10px] sm:text-xs text-gray-500">Comma separated. Leave empty to allow any value.</p>
+              </div>
+            ))}
+
+            <div className="space-y-1">
+              <Label htmlFor="utm-aliases" className="text-xs sm:text-sm">Aliases</Label>
+              <Textarea
+                id="utm-aliases"
+                value={form.aliases}
+                onChange={(e) => setForm(prev => ({ ...prev, aliases: e.target.value }))}
+                placeholder={'fb = facebook\nig = instagram'}
+                rows={3}
+                className="font-mono text-xs"
+              />
+              <p className="text-[10px] sm:text-xs text-gray-500">Values people type and what they should be, one per line.</p>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="utm-campaign-pattern" className="text-xs sm:text-sm">utm_campaign pattern</Label>
+              <Input
+                id="utm-campaign-pattern"
+                value={form.campaignPattern}
+                onChange={(e) => setForm(prev => ({ ...prev, campaignPattern: e.target.value }))}
+                placeholder="^\d{4}_[a-z0-9_]+$"
+                className="font-mono text-xs sm:text-sm h-8 sm:h-10"
+              />
+              <p className="text-[10px] sm:text-xs text-gray-500">Regular expression, e.g. a year prefix: 2026_spring_sale.</p>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label className="text-xs sm:text-sm">Required on every link and template</Label>
+              <div className="flex flex-wrap gap-3">
+                {PARAMS.map(param => (
+                  <div key={param} className="flex items-center gap-1.5">
+                    <Checkbox
+                      id={`utm-required-${param}`}
+                      checked={form.requiredParams.includes(param)}
+                      onCheckedChange={(checked) => toggleRequired(param, checked === true)}
+                    />
+                    <Label htmlFor={`utm-required-${param}`} className="text-xs">{param}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="utm-required-category" className="text-xs sm:text-sm">Required by template category</Label>
+              <Textarea
+                id="utm-required-category"
+                value={form.requiredByCategory}
+                onChange={(e) => setForm(prev => ({ ...prev, requiredByCategory: e.target.value }))}
+                placeholder={'Paid Search: source, medium, campaign, term\nEmail: source, medium, campaign, content'}
+                rows={3}
+                className="font-mono text-xs"
+              />
+            </div>
+
+            <div className="flex items-start gap-2">
+              <Checkbox
+                id="utm-block"
+                checked={form.blockViolations}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, blockViolations: checked === true }))}
+                className="mt-0.5"
+              />
+              <div className="space-y-0.5 leading-none">
+                <Label htmlFor="utm-block" className="text-xs sm:text-sm">Block links and templates that break the rules</Label>
+                <p className="text-[10px] sm:text-xs text-gray-500">Otherwise violations are shown as warnings.</p>
+              </div>
+            </div>
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => setOpen(false)} className="text-xs sm:text-sm h-8 sm:h-10">
+            Cancel
+          </Button>
+          <Button onClick={handleSave} className="text-xs sm:text-sm h-8 sm:h-10">
+            Save Rules
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UTMRulesetDialog;
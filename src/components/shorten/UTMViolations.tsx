@@ -0,0 +1,61 @@
+import React from 'react';
+import { UTMGovernedParam, UTMViolation } from '@/types/shorten.ts';
+import { Button } from '@/components/ui/button.tsx';
+import { AlertTriangle, Wand2 } from 'lucide-react';
+
+interface UTMViolationsProps {
+  violations: UTMViolation[];
+  onFix: (param: UTMGovernedParam, value: string) => void;
+}
+
+/**
+ * Inline list of UTM naming-rule violations with one-click fixes
+ */
+const UTMViolations: React.FC<UTMViolationsProps> = ({ violations, onFix }) => {
+  if (violations.length === 0) return null;
+
+  const fixable = violations.filter(violation => violation.suggestion);
+
+  return (
+    <div className="rounded-md border border-amber-200 bg-amber-50 p-2 sm:p-3 space-y-1.5">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs font-medium text-amber-800 flex items-center gap-1.5">
+          <AlertTriangle className="h-3.5 w-3.5" />
+          UTM naming rules
+        </p>
+        {fixable.length > 1 && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-6 text-[10px] sm:text-xs bg-white"
+            onClick={() => fixable.forEach(violation => onFix(violation.param, violation.suggestion as string))}
+          >
+            <Wand2 className="h-3 w-3 mr-1" />
+            Fix all
+          </Button>
+        )}
+      </div>
+      <ul className="space-y-1">
+        {violations.map(violation => (
+          <li key={`${violation.param}-${violation.message}`} className="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-amber-800">
+            <span>{violation.message}</span>
+            {violation.suggestion && (
+              <Button
+                type="button"
+                variant="link"
+                size="sm"
+                className="h-auto p-0 text-xs text-amber-900 underline"
+                onClick={() => onFix(violation.param, violation.suggestion as string)}
+              >
+                Use "{violation.suggestion}"
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default UTMViolations;
@@ -12,7 +12,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useAIConfig } from '@/contexts/AIConfigContext';
-import { getAIService } from '@/utils/aiService';
+import { createAIService, APITestCase, AITestSuite } from '@/utils/aiService';
 import {
   Play,
   Pause,
@@ -61,47 +61,6 @@ interface Environment {
   variables: { [key: string]: string };
 }
 
-interface APITestCase {
-  id: string;
-  name: string;
-  category: 'Happy Path' | 'Authentication' | 'Validation' | 'Performance' | 'Security' | 'Edge Cases';
-  description: string;
-  request: {
-    method: string;
-    url: string;
-    headers: { [key: string]: string };
-    body?: string;
-    params?: { [key: string]: string };
-    authentication?: string;
-  };
-  expectedResponse: {
-    statusCode: number;
-    body?: string;
-    headers?: { [key: string]: string };
-    responseTime?: string;
-  };
-  validations: Array<{
-    field: string;
-    condition: string;
-    expectedValue: string;
-  }>;
-  testData?: string;
-  securityConsiderations?: string[];
-  priority: 'High' | 'Medium' | 'Low';
-}
-
-interface AITestSuite {
-  endpoint: string;
-  method: string;
-  testCases: APITestCase[];
-  coverage: {
-    categories: string[];
-    totalTests: number;
-    estimatedTime: string;
-  };
-  recommendations: string[];
-}
-
 interface APIResponse {
   status?: number;
   statusText?: string;
@@ -326,11 +285,7 @@ const APITester = () => {
     setTestGenerationError(null);
 
     try {
-      const aiService = getAIService();
-      if (!aiService) {
-        throw new Error('AI service not available');
-      }
-
+      const aiService = createAIService(config);
       const apiSpec = buildAPISpecForTesting();
       
       const result = await aiService.generateAPITests(apiSpec, {
@@ -339,23 +294,8 @@ const APITester = () => {
         authType: auth.type
       });
 
-      function isAITestSuite(data: unknown): data is AITestSuite {
-        return (
-          typeof data === 'object' && data !== null &&
-          'endpoint' in data &&
-          'method' in data &&
-          'testCases' in data &&
-          'coverage' in data &&
-          'recommendations' in data
-        );
-      }
-
       if (result.success && result.data) {
-        if (isAITestSuite(result.data)) {
-          setAiTestSuite(result.data);
-        } else {
-          throw new Error('Invalid AI test suite format');
-        }
+        setAiTestSuite(result.data);
       } else {
         throw new Error(result.error || 'Failed to generate API tests');
       }
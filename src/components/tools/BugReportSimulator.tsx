@@ -11,7 +11,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useAIConfig } from '@/contexts/AIConfigContext';
-import { getAIService } from '@/utils/aiService';
+import { createAIService, AIAnalysis } from '@/utils/aiService';
 import {
   Bug,
   AlertTriangle,
@@ -62,44 +62,6 @@ interface BugReport {
   timestamp: Date;
 }
 
-interface AIAnalysis {
-  summary: {
-    confidence: number;
-    severity: string;
-    priority: string;
-    estimatedImpact: string;
-    urgency: string;
-  };
-  rootCause: {
-    possibleCauses: string[];
-    probability: number[];
-    category: string;
-    systemComponent: string;
-  };
-  investigation: {
-    suggestedSteps: string[];
-    requiredInformation: string[];
-    stakeholders: string[];
-    estimatedTime: string;
-  };
-  solution: {
-    quickFixes: string[];
-    permanentSolutions: string[];
-    workarounds: string[];
-    preventionMeasures: string[];
-  };
-  relatedIssues: {
-    similarBugs: string[];
-    knownPatterns: string[];
-    historicalData: string[];
-  };
-  metrics: {
-    processingTime: number;
-    aiModel: string;
-    timestamp: string;
-  };
-}
-
 interface StepTemplate {
   id: string;
   title: string;
@@ -413,10 +375,7 @@ Tags: ${report.tags?.join(', ') || 'None'}
     setAnalysisError(null);
 
     try {
-      const aiService = getAIService();
-      if (!aiService) {
-        throw new Error('AI service not available');
-      }
+      const aiService = createAIService(config);
 
       const bugReportText = formatBugReportForAnalysis(bugReport);
       
@@ -427,7 +386,7 @@ Tags: ${report.tags?.join(', ') || 'None'}
       });
 
       if (result.success && result.data) {
-        setAiAnalysis(result.data as unknown as AIAnalysis);
+        setAiAnalysis(result.data);
         setShowAIPanel(true);
       } else {
         throw new Error(result.error || 'Failed to analyze bug report');
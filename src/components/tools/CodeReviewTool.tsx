@@ -1,7 +1,8 @@
-import { useState } from 'react';
+import { useState, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { useAIConfig } from '@/contexts/AIConfigContext';
-import { createAIService } from '@/utils/aiService';
+import { createAIService, AI_REQUEST_CANCELLED } from '@/utils/aiService';
+import AIStreamPreview from '@/components/ai/AIStreamPreview';
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -65,6 +66,8 @@ const CodeReviewTool = () => {
   const aiConfigContext = useAIConfig();
   const [isAIConfigured, setIsAIConfigured] = useState(false);
   const [focusAreas, setFocusAreas] = useState<string[]>(['quality', 'security', 'performance']);
+  const [streamedText, setStreamedText] = useState('');
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const languages = [
     { value: 'javascript', label: 'JavaScript' },
@@ -101,12 +104,23 @@ const CodeReviewTool = () => {
       if (isAIConfigured && aiConfigContext.config.useAI) {
         // Use AI for code analysis
         const aiService = createAIService(aiConfigContext.config);
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setStreamedText('');
+
         const result = await aiService.analyzeCode(code, {
           language,
           focusAreas,
-          qualityLevel: aiConfigContext.config.qualityLevel
+          qualityLevel: aiConfigContext.config.qualityLevel,
+          onChunk: (_chunk, text) => setStreamedText(text),
+          signal: controller.signal
         });
 
+        if (result.error === AI_REQUEST_CANCELLED) {
+          // Stopped by the user: keep the previous results and stay on the input tab
+          return;
+        }
+
         if (result.success && result.data) {
           const aiIssues = convertAIResponseToIssues(result.data);
           const aiMetrics = calculateMetricsFromAI(result.data, code);
@@ -139,10 +153,15 @@ const CodeReviewTool = () => {
       setMetrics(mockMetrics);
       setActiveTab('results');
     } finally {
+      abortControllerRef.current = null;
       setLoading(false);
     }
   };
 
+  const cancelAnalysis = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const generateMockIssues = (codeText: string, lang: string): CodeIssue[] => {
     const lines = codeText.split('\n');
     const mockIssues: CodeIssue[] = [];
@@ -481,6 +500,14 @@ function calculateTotal(items) {
                     </div>
                   </div>
 
+                  {loading && isAIConfigured && aiConfigContext.config.useAI && aiConfigContext.config.enableStreaming && (
+                    <AIStreamPreview
+                      text={streamedText}
+                      label="Reviewing code..."
+                      onCancel={cancelAnalysis}
+                    />
+                  )}
+
                   <div className="flex items-center justify-between pt-4 border-t">
                     <div className="flex items-center space-x-4 text-sm text-gray-600">
                       <div className="flex items-center">
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -11,7 +11,8 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { useAIConfig } from '@/contexts/AIConfigContext';
-import { getAIService } from '@/utils/aiService';
+import { createAIService, AI_REQUEST_CANCELLED } from '@/utils/aiService';
+import AIStreamPreview from '@/components/ai/AIStreamPreview';
 import {
   TestTube,
   Sparkles,
@@ -115,6 +116,8 @@ const TestCaseGenerator = () => {
   const [maxTestCases, setMaxTestCases] = useState(25);
   const [qualityLevel, setQualityLevel] = useState<'basic' | 'standard' | 'premium' | 'enterprise'>('standard');
   const [autoAnalyze, setAutoAnalyze] = useState(true);
+  const [streamedText, setStreamedText] = useState('');
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const frameworks = [
     { value: 'traditional', label: 'Traditional Test Cases' },
@@ -150,18 +153,24 @@ const TestCaseGenerator = () => {
 
   // AI-Enhanced Test Case Generation
   const generateTestCasesWithAI = async (): Promise<TestCase[]> => {
-    const aiService = getAIService();
-    if (!aiService || !isConfigured) {
+    if (!isConfigured) {
       throw new Error('AI service is not configured');
     }
 
+    const aiService = createAIService(config);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     setAiError(null);
+    setStreamedText('');
     
     const response = await aiService.generateTestCases(requirements, {
       framework: selectedFramework,
       testTypes: selectedTypes,
       maxTestCases,
-      qualityLevel
+      qualityLevel,
+      onChunk: (_chunk, text) => setStreamedText(text),
+      signal: controller.signal
     });
 
     if (!response.success) {
@@ -208,8 +217,8 @@ const TestCaseGenerator = () => {
 
   // AI Test Suite Analysis
   const performAIAnalysis = async (testCases: TestCase[]): Promise<void> => {
-    const aiService = getAIService();
-    if (!aiService || !isConfigured || testCases.length === 0) return;
+    if (!isConfigured || testCases.length === 0) return;
+    const aiService = createAIService(config);
 
     setIsAnalyzing(true);
     setAiError(null);
@@ -234,7 +243,8 @@ const TestCaseGenerator = () => {
       const response = await aiService.analyzeCode(JSON.stringify(testSuiteData), {
         language: 'test-suite',
         focusAreas: ['coverage', 'quality', 'optimization', 'risk-assessment'],
-        qualityLevel
+        qualityLevel,
+        tool: 'test-generator'
       });
 
       if (response.success && response.data) {
@@ -355,14 +365,22 @@ const TestCaseGenerator = () => {
       
       setActiveTab('results');
     } catch (error) {
-      console.error('Error generating test cases:', error);
-      setAiError((error as Error).message || 'Failed to generate test cases');
+      // Stopping a generation is not an error worth surfacing
+      if ((error as Error).message !== AI_REQUEST_CANCELLED) {
+        console.error('Error generating test cases:', error);
+        setAiError((error as Error).message || 'Failed to generate test cases');
+      }
     } finally {
+      abortControllerRef.current = null;
       setLoading(false);
       setIsGeneratingAI(false);
     }
   };
 
+  const cancelGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const parseRequirements = (text: string): Requirement[] => {
     const lines = text.split('\n').filter(line => line.trim());
     return lines.map((line, index) => ({
@@ -880,6 +898,15 @@ const TestCaseGenerator = () => {
                     </div>
                   </div>
 
+                  {/* Live AI output while streaming */}
+                  {isGeneratingAI && config.enableStreaming && (
+                    <AIStreamPreview
+                      text={streamedText}
+                      label="Generating test cases..."
+                      onCancel={cancelGeneration}
+                    />
+                  )}
+
                   {/* Error Display */}
                   {aiError && (
                     <div className="bg-red-50 border border-red-200 rounded-lg p-3">
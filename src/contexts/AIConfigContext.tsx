@@ -1,15 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-
-export interface AIModel {
-  id: string;
-  name: string;
-  provider: 'openai' | 'anthropic' | 'google' | 'custom';
-  description: string;
-  maxTokens: number;
-  costPer1k: number;
-  capabilities: string[];
-  recommended?: boolean;
-}
+import { getAIProvider } from '@/utils/aiProviders';
+import { AIModel, availableModels } from '@/utils/aiModels';
 
 export interface AIPromptTemplate {
   id: string;
@@ -23,6 +14,7 @@ export interface AIPromptTemplate {
 
 export interface AIConfiguration {
   // API Settings
+  provider?: AIModel['provider']; // Inferred from the model name when not set
   apiEndpoint: string;
   apiKey: string;
   selectedModel: string;
@@ -97,73 +89,6 @@ const defaultConfig: AIConfiguration = {
   useCustomTemplates: false,
 };
 
-const availableModels: AIModel[] = [
-  {
-    id: 'gpt-4o',
-    name: 'GPT-4o',
-    provider: 'openai',
-    description: 'Most advanced GPT-4 model with optimized performance',
-    maxTokens: 128000,
-    costPer1k: 0.03,
-    capabilities: ['code-analysis', 'test-generation', 'bug-detection', 'documentation'],
-    recommended: true
-  },
-  {
-    id: 'gpt-4-turbo',
-    name: 'GPT-4 Turbo',
-    provider: 'openai',
-    description: 'Fast and capable GPT-4 variant',
-    maxTokens: 128000,
-    costPer1k: 0.01,
-    capabilities: ['code-analysis', 'test-generation', 'bug-detection', 'documentation']
-  },
-  {
-    id: 'gpt-3.5-turbo',
-    name: 'GPT-3.5 Turbo',
-    provider: 'openai',
-    description: 'Fast and cost-effective for basic tasks',
-    maxTokens: 16385,
-    costPer1k: 0.002,
-    capabilities: ['test-generation', 'bug-detection', 'basic-analysis']
-  },
-  {
-    id: 'claude-3-opus',
-    name: 'Claude 3 Opus',
-    provider: 'anthropic',
-    description: 'Anthropic\'s most powerful model for complex reasoning',
-    maxTokens: 200000,
-    costPer1k: 0.015,
-    capabilities: ['code-analysis', 'test-generation', 'bug-detection', 'documentation', 'security-analysis']
-  },
-  {
-    id: 'claude-3-sonnet',
-    name: 'Claude 3 Sonnet',
-    provider: 'anthropic',
-    description: 'Balanced performance and cost',
-    maxTokens: 200000,
-    costPer1k: 0.003,
-    capabilities: ['code-analysis', 'test-generation', 'bug-detection', 'documentation']
-  },
-  {
-    id: 'claude-3-haiku',
-    name: 'Claude 3 Haiku',
-    provider: 'anthropic',
-    description: 'Fast and lightweight for simple tasks',
-    maxTokens: 200000,
-    costPer1k: 0.00025,
-    capabilities: ['test-generation', 'basic-analysis']
-  },
-  {
-    id: 'gemini-pro',
-    name: 'Gemini Pro',
-    provider: 'google',
-    description: 'Google\'s advanced multimodal AI model',
-    maxTokens: 32768,
-    costPer1k: 0.0005,
-    capabilities: ['code-analysis', 'test-generation', 'bug-detection']
-  }
-];
-
 const defaultTemplates: AIPromptTemplate[] = [
   {
     id: 'comprehensive-testing',
@@ -481,23 +406,24 @@ export const AIConfigProvider: React.FC<AIConfigProviderProps> = ({ children })
     setTemplates(prev => prev.filter(t => t.id !== templateId));
   };
 
-  const isConfigured = config.apiKey.length > 0 && config.apiEndpoint.length > 0;
+  const provider = getAIProvider(config);
+  const isConfigured = config.apiEndpoint.length > 0 && (config.apiKey.length > 0 || !provider.requiresApiKey);
 
   const testConnection = async (): Promise<boolean> => {
     if (!isConfigured) return false;
 
     try {
-      const response = await fetch(config.apiEndpoint, {
+      const request = provider.buildRequest({
+        config: { ...config, maxTokens: 10 },
+        prompt: 'Hello, this is a connection test.',
+        systemPrompt: 'Reply with a single word.',
+        stream: false
+      });
+
+      const response = await fetch(request.url, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${config.apiKey}`
-        },
-        body: JSON.stringify({
-          model: config.selectedModel,
-          messages: [{ role: 'user', content: 'Hello, this is a connection test.' }],
-          max_tokens: 10
-        })
+        headers: request.headers,
+        body: JSON.stringify(request.body)
       });
 
       return response.ok;
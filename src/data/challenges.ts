@@ -1,37 +1,141 @@
 import { ChallengeWithTests } from '../services/ChallengeService';
-import { TestResult } from '../types/playground';
-
-// Type definitions for testing environment
-interface ConsoleLog {
-  type: string;
-  message: string;
-  timestamp: number;
-}
-
-interface NetworkRequest {
-  url: string;
-  method: string;
-  status?: number;
-  timestamp: number;
-}
-
-interface ElementInfo {
-  tagName: string;
-  id?: string;
-  className?: string;
-  attributes?: Record<string, string>;
-}
-
-// Type alias for the testing environment used in challenge tests
-type TestingEnvironment = {
-  iframe: HTMLIFrameElement | null;
-  url: string;
-  device: 'desktop' | 'tablet' | 'mobile';
-  consoleLogs: ConsoleLog[];
-  networkRequests: NetworkRequest[];
-  elements: ElementInfo[];
+import { TestingEnvironment, TestResult } from '../types/playground';
+import {
+  INTERACTIVE_SELECTOR,
+  INTROSPECTION_QUERY,
+  IntrospectionSchema,
+  collectLongTasks,
+  contrastRatio,
+  describeElement,
+  fail,
+  findInconsistentFields,
+  formatBytes,
+  getAccessibleName,
+  getApiRequests,
+  getConsoleErrors,
+  getEffectiveBackground,
+  getGraphQLEndpoint,
+  getNavigationEntry,
+  getResourceEntries,
+  getStyleRules,
+  getTextElements,
+  graphQLRequest,
+  inspectDocument,
+  isGraphQLRequest,
+  isVisible,
+  parseColor,
+  parseDuration,
+  parseSize,
+  pass,
+  probe,
+  queryVisible,
+  readJSON,
+  resolveURL,
+  summarize,
+  unwrapGraphQLType
+} from '../lib/challenge-inspection';
+
+// Thresholds used by the challenge tests
+const SLOW_RESOURCE_MS = 1000;
+const MAX_PAGE_LOAD_MS = 3000;
+const MAX_BLOCKING_STYLESHEET_BYTES = 50 * 1024;
+const MAX_IMAGE_BYTES = 200 * 1024;
+const OVERSIZED_IMAGE_FACTOR = 1.5;
+const MAX_DOM_ELEMENTS = 1500;
+const MAX_DOM_DEPTH = 32;
+const MAX_BLOCKING_TIME_MS = 300;
+const MAX_LONG_TASK_MS = 200;
+const MAX_API_RESPONSE_MS = 1000;
+const MAX_AVERAGE_API_RESPONSE_MS = 500;
+const MAX_PROBED_ENDPOINTS = 5;
+const MIN_TOUCH_TARGET_PX = 44;
+const MIN_TEST_ID_COVERAGE = 0.8;
+const MAX_NAV_ITEMS = 9;
+const MAX_FORM_FIELDS = 8;
+const MAX_BUTTON_VARIANTS = 3;
+const MIN_EDGE_CASE_COVERAGE = 0.5;
+const MAX_LOW_RISK_SHARE_BEFORE_CRITICAL = 0.5;
+const MAX_SMOKE_READY_MS = 2000;
+const N_PLUS_ONE_WINDOW_MS = 100;
+const MAX_BURST_REQUESTS = 5;
+const STABILITY_SAMPLE_MS = 300;
+const MAX_LAYOUT_DRIFT = 0.01;
+
+// Patterns used by the challenge tests
+const FORM_FIELD_SELECTOR = 'input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="reset"]):not([type="image"]), select, textarea';
+const GENERIC_ALT_TEXT = /^(image|img|photo|picture|graphic|icon|logo|banner|\S+\.(png|jpe?g|gif|svg|webp))$/i;
+const XSS_PAYLOAD_PATTERN = /alert\(|prompt\(|confirm\(|document\.cookie|<script/i;
+const CSRF_FIELD_PATTERN = /csrf|xsrf|authenticity_token|_token|anti.?forgery/i;
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+const SEQUENTIAL_ID_PATTERN = /\/(users?|profiles?|accounts?|orders?|invoices?|documents?)\/\d+\b|[?&](user_?id|account_?id|order_?id|id)=\d+\b/i;
+const SENSITIVE_KEY_PATTERN = /pass(word|wd)?|secret|token|api[_-]?key|ssn|credit|card_?number|cvv/i;
+const CARD_NUMBER_PATTERN = /\b(?:\d[ -]?){13,16}\b/;
+const SSN_PATTERN = /\b\d{3}-\d{2}-\d{4}\b/;
+const PROTECTED_PATH_PATTERN = /\/(admin|account|profile|users?|orders?|me)\b/i;
+const CREDENTIAL_PARAM_PATTERN = /[?&](token|access_token|api_key|apikey|password|auth)=/i;
+const STACK_TRACE_PATTERN = /\bat \S+ \(|stacktrace|sqlstate|syntax error at|internal server error|exception/i;
+const HIGH_RISK_ENDPOINT_PATTERN = /\/(checkout|payments?|orders?|login|auth|signin|cart)\b/i;
+const COMPATIBILITY_ERROR_PATTERN = /is not defined|is not a function|is not supported|unexpected token|syntaxerror|cannot read propert/i;
+const MODERN_CSS_PATTERN = /display:\s*(grid|inline-grid)|(^|\s)gap:|aspect-ratio:|backdrop-filter:|position:\s*sticky/i;
+const NATIVE_PICKER_TYPES = ['date', 'time', 'datetime-local', 'month', 'week', 'color'];
+const VAGUE_LINK_TEXT = /^(click here|here|more|link|page|go)$/i;
+const DESTRUCTIVE_ACTION_PATTERN = /\b(delete|remove|cancel (order|subscription)|discard|clear all|reset)\b/i;
+const SYNONYM_GROUPS = [
+  ['delete', 'remove', 'erase'],
+  ['save', 'submit', 'apply'],
+  ['cancel', 'dismiss', 'abort'],
+  ['sign in', 'log in', 'login'],
+  ['sign up', 'register', 'create account']
+];
+const UNTRANSLATED_PATTERN = /\[TRANSLATE_ME\]|\{\{.*\}\}|\bTODO\b|\bMISSING_TRANSLATION\b|%s\b/;
+const TRANSLATION_KEY_PATTERN = /^[a-z][a-zA-Z0-9_]*(\.[a-zA-Z0-9_]+){2,}$/;
+const FLAG_EMOJI_PATTERN = /[\u{1F1E6}-\u{1F1FF}]{2}/u;
+const RTL_SCRIPT_PATTERN = /[\u0590-\u05FF\u0600-\u06FF\u0750-\u077F]/;
+const RTL_LANGUAGES = ['ar', 'he', 'fa', 'ur', 'yi'];
+const DYNAMIC_TEXT_PATTERN = /\b\d{1,2}:\d{2}(:\d{2})?\b|\b(just now|\d+ (seconds?|minutes?|hours?) ago|today|yesterday)\b/i;
+const VISUAL_IGNORE_ATTRIBUTE = 'data-visual-ignore';
+const MUTATION_VERBS: Record<string, string> = {
+  create: 'create|add',
+  update: 'update|edit',
+  delete: 'delete|remove'
 };
 
+const MOBILE_INPUT_TYPES: { pattern: RegExp; type: string; inputMode: string; autocomplete?: string }[] = [
+  { pattern: /e-?mail/, type: 'email', inputMode: 'email', autocomplete: 'email' },
+  { pattern: /phone|mobile|\btel\b/, type: 'tel', inputMode: 'tel', autocomplete: 'tel' },
+  { pattern: /\burl\b|website/, type: 'url', inputMode: 'url', autocomplete: 'url' },
+  { pattern: /zip|postal|postcode/, type: 'text', inputMode: 'numeric', autocomplete: 'postal-code' },
+  { pattern: /\b(age|quantity|qty|amount)\b/, type: 'number', inputMode: 'decimal' }
+];
+
+// Critical user journeys for regression tests
+const CRITICAL_FLOWS: {
+  name: string;
+  endpoint: RegExp;
+  isPresent: (doc: Document) => boolean;
+  controls: (doc: Document) => Element[];
+}[] = [
+  {
+    name: 'login',
+    endpoint: /\/(login|auth|signin|session)/i,
+    isPresent: doc => !!doc.querySelector('input[type="password"]'),
+    controls: doc => Array.from(doc.querySelectorAll('input[type="password"]'))
+      .flatMap(input => Array.from((input as HTMLInputElement).form?.querySelectorAll('input, button') || [input]))
+  },
+  {
+    name: 'search',
+    endpoint: /\/search|[?&]q=/i,
+    isPresent: doc => !!doc.querySelector('input[type="search"], [role="search"], input[name="q"]'),
+    controls: doc => Array.from(doc.querySelectorAll('input[type="search"], [role="search"] input, [role="search"] button, input[name="q"]'))
+  },
+  {
+    name: 'checkout',
+    endpoint: /\/(checkout|cart|orders?|payments?)/i,
+    isPresent: doc => Array.from(doc.querySelectorAll('a, button')).some(el => /checkout|cart|place order|pay/i.test(el.textContent || '')),
+    controls: doc => Array.from(doc.querySelectorAll('a, button')).filter(el => /checkout|cart|place order|pay/i.test(el.textContent || ''))
+  }
+];
+
 // Challenge 1: Accessibility Testing
 const accessibilityChallenge: ChallengeWithTests = {
   id: 'challenge-accessibility-1',
@@ -77,13 +181,28 @@ const accessibilityChallenge: ChallengeWithTests = {
       description: 'Checks if all images have appropriate alt text',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        // In a real implementation, this would analyze the DOM
-        // For demo purposes, we'll simulate the test
-        return {
-          passed: true,
-          message: 'All images have appropriate alt text',
-          details: 'Found 5 images, all with descriptive alt text.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const images = Array.from(doc.querySelectorAll('img, input[type="image"], [role="img"]'))
+            .filter(img => isVisible(img, win) && img.getAttribute('role') !== 'presentation');
+
+          if (images.length === 0) {
+            return pass('No informative images found', 'The page has no visible images that require alt text.');
+          }
+
+          const missing = images.filter(img => img.tagName === 'IMG' || img.tagName === 'INPUT'
+            ? !img.hasAttribute('alt')
+            : !getAccessibleName(img));
+          const generic = images.filter(img => GENERIC_ALT_TEXT.test(img.getAttribute('alt')?.trim() || ''));
+          const findings = [
+            ...missing.map(img => `${describeElement(img)} has no alt text (${img.getAttribute('src') || 'inline'})`),
+            ...generic.map(img => `${describeElement(img)} has non-descriptive alt "${img.getAttribute('alt')}"`)
+          ];
+
+          if (findings.length > 0) {
+            return fail(`${findings.length} of ${images.length} images lack descriptive alt text`, summarize(findings));
+          }
+          return pass('All images have appropriate alt text', `Found ${images.length} images, all with descriptive or intentionally empty alt text.`);
+        });
       }
     },
     {
@@ -92,11 +211,34 @@ const accessibilityChallenge: ChallengeWithTests = {
       description: 'Validates proper heading hierarchy (h1, h2, etc.)',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Heading structure is not sequential',
-          details: 'Found h1 followed by h3, missing h2 level. Headings should follow a logical sequence.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const headings = queryVisible<HTMLHeadingElement>(doc, 'h1, h2, h3, h4, h5, h6');
+          if (headings.length === 0) {
+            return fail('No headings found', 'Pages should expose their structure with at least one h1 and nested section headings.');
+          }
+
+          const findings: string[] = [];
+          const h1Count = headings.filter(h => h.tagName === 'H1').length;
+          if (h1Count === 0) findings.push('Page has no h1');
+          if (h1Count > 1) findings.push(`Page has ${h1Count} h1 elements`);
+
+          let previousLevel = 0;
+          headings.forEach(heading => {
+            const level = Number(heading.tagName[1]);
+            if (previousLevel > 0 && level > previousLevel + 1) {
+              findings.push(`h${previousLevel} followed by h${level} ("${heading.textContent?.trim().slice(0, 40)}")`);
+            }
+            if (!heading.textContent?.trim()) {
+              findings.push(`Empty ${describeElement(heading)}`);
+            }
+            previousLevel = level;
+          });
+
+          if (findings.length > 0) {
+            return fail('Heading structure is not sequential', summarize(findings));
+          }
+          return pass('Heading structure is valid', `Found ${headings.length} headings in a logical h1-h6 sequence.`);
+        });
       }
     },
     {
@@ -105,11 +247,33 @@ const accessibilityChallenge: ChallengeWithTests = {
       description: 'Checks if all interactive elements are keyboard accessible',
       weight: 25,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: true,
-          message: 'All interactive elements are keyboard accessible',
-          details: 'Successfully navigated through all 12 interactive elements using Tab key.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const interactive = queryVisible<HTMLElement>(doc, INTERACTIVE_SELECTOR);
+          if (interactive.length === 0) {
+            return fail('No interactive elements found', 'The page has no links, buttons or form controls to navigate.');
+          }
+
+          const findings: string[] = [];
+          interactive.forEach(el => {
+            const tabIndexAttr = el.getAttribute('tabindex');
+            const isNative = el.matches('a[href], button, input, select, textarea, summary');
+            const disabled = (el as HTMLButtonElement).disabled;
+
+            if (disabled) return;
+            if (tabIndexAttr !== null && Number(tabIndexAttr) < 0) {
+              findings.push(`${describeElement(el)} is removed from the tab order (tabindex=${tabIndexAttr})`);
+            } else if (!isNative && tabIndexAttr === null) {
+              findings.push(`${describeElement(el)} is clickable but not focusable`);
+            } else if (tabIndexAttr !== null && Number(tabIndexAttr) > 0) {
+              findings.push(`${describeElement(el)} uses positive tabindex=${tabIndexAttr}, breaking natural tab order`);
+            }
+          });
+
+          if (findings.length > 0) {
+            return fail(`${findings.length} interactive elements are not keyboard accessible`, summarize(findings));
+          }
+          return pass('All interactive elements are keyboard accessible', `All ${interactive.length} interactive elements are reachable in natural tab order.`);
+        });
       }
     },
     {
@@ -118,11 +282,37 @@ const accessibilityChallenge: ChallengeWithTests = {
       description: 'Verifies that text has sufficient contrast with its background',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Some text elements have insufficient contrast',
-          details: 'Found 3 instances of text with contrast ratio below 4.5:1, which fails WCAG AA standards.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const textElements = getTextElements(doc).filter(el => isVisible(el, win));
+          const findings: string[] = [];
+          let checked = 0;
+
+          textElements.forEach(el => {
+            const style = win.getComputedStyle(el);
+            const foreground = parseColor(style.color);
+            const background = getEffectiveBackground(el, win);
+            if (!foreground || !background) return;
+
+            checked++;
+            const fontSize = parseFloat(style.fontSize);
+            const isBold = Number(style.fontWeight) >= 700;
+            const isLargeText = fontSize >= 24 || (isBold && fontSize >= 18.66);
+            const required = isLargeText ? 3 : 4.5;
+            const ratio = contrastRatio(foreground, background);
+
+            if (ratio < required) {
+              findings.push(`${describeElement(el)} "${el.textContent?.trim().slice(0, 30)}" has ${ratio.toFixed(2)}:1 (needs ${required}:1)`);
+            }
+          });
+
+          if (checked === 0) {
+            return fail('Unable to evaluate text contrast', 'No visible text with a solid background color was found.');
+          }
+          if (findings.length > 0) {
+            return fail('Some text elements have insufficient contrast', `${findings.length} of ${checked} text elements fail WCAG AA: ${summarize(findings)}`);
+          }
+          return pass('All text meets WCAG AA contrast requirements', `Checked ${checked} text elements against their backgrounds.`);
+        });
       }
     },
     {
@@ -131,11 +321,44 @@ const accessibilityChallenge: ChallengeWithTests = {
       description: 'Checks if forms have proper labels and accessible error messages',
       weight: 15,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: true,
-          message: 'Forms have proper labels and accessible error messages',
-          details: 'All 4 form fields have associated labels and error messages are announced to screen readers.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const fields = queryVisible<HTMLInputElement>(doc, FORM_FIELD_SELECTOR);
+          if (fields.length === 0) {
+            return fail('No form fields found', 'The page has no form fields to evaluate.');
+          }
+
+          const findings: string[] = [];
+          fields.forEach(field => {
+            if (!getAccessibleName(field)) {
+              const hint = field.placeholder ? ` (placeholder "${field.placeholder}" is not a label)` : '';
+              findings.push(`${describeElement(field)} has no label${hint}`);
+            }
+            if (field.getAttribute('aria-invalid') === 'true') {
+              const describedBy = field.getAttribute('aria-describedby');
+              const message = describedBy
+                ?.split(/\s+/)
+                .map(id => doc.getElementById(id)?.textContent?.trim())
+                .find(Boolean);
+              if (!message) {
+                findings.push(`${describeElement(field)} is invalid but has no error message linked via aria-describedby`);
+              }
+            }
+          });
+
+          const visibleErrors = queryVisible(doc, '.error, .error-message, [class*="error"]')
+            .filter(el => el.textContent?.trim() && !el.closest('[role="alert"], [aria-live]'));
+          visibleErrors.forEach(el => {
+            const id = el.id;
+            if (!id || !doc.querySelector(`[aria-describedby~="${id}"]`)) {
+              findings.push(`Error "${el.textContent?.trim().slice(0, 40)}" is not announced to screen readers`);
+            }
+          });
+
+          if (findings.length > 0) {
+            return fail('Forms have accessibility issues', summarize(findings));
+          }
+          return pass('Forms have proper labels and accessible error messages', `All ${fields.length} form fields have associated labels.`);
+        });
       }
     }
   ],
@@ -214,11 +437,35 @@ const performanceChallenge: ChallengeWithTests = {
       description: 'Measures the total page load time and identifies slow resources',
       weight: 25,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Page load time exceeds 3 seconds',
-          details: 'Page loaded in 5.2 seconds. Main causes: large unoptimized images (2.3MB) and render-blocking JavaScript (1.5MB).'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const navigation = getNavigationEntry(win);
+          const resources = getResourceEntries(win);
+          const loadTime = navigation && navigation.loadEventEnd > 0
+            ? navigation.loadEventEnd - navigation.startTime
+            : null;
+
+          const slowResources = [
+            ...resources
+              .filter(r => r.duration > SLOW_RESOURCE_MS)
+              .map(r => `${r.name.split('/').pop() || r.name} (${Math.round(r.duration)}ms)`),
+            ...env.networkRequests
+              .filter(r => parseDuration(r.time) > SLOW_RESOURCE_MS && !resources.some(e => e.name === r.url))
+              .map(r => `${r.url.split('/').pop() || r.url} (${Math.round(parseDuration(r.time))}ms)`)
+          ];
+
+          if (loadTime === null && resources.length === 0 && env.networkRequests.length === 0) {
+            return fail('No load timing data available', 'Reload the application so navigation and resource timings can be collected.');
+          }
+
+          const loadSummary = loadTime !== null ? `Page loaded in ${(loadTime / 1000).toFixed(2)} seconds.` : 'Navigation timing unavailable.';
+          if ((loadTime !== null && loadTime > MAX_PAGE_LOAD_MS) || slowResources.length > 0) {
+            return fail(
+              loadTime !== null && loadTime > MAX_PAGE_LOAD_MS ? 'Page load time exceeds 3 seconds' : 'Slow resources detected',
+              `${loadSummary} Slow resources: ${slowResources.length > 0 ? summarize(slowResources) : 'none'}.`
+            );
+          }
+          return pass('Page load time is within budget', `${loadSummary} No resource took longer than ${SLOW_RESOURCE_MS}ms.`);
+        });
       }
     },
     {
@@ -227,11 +474,30 @@ const performanceChallenge: ChallengeWithTests = {
       description: 'Identifies CSS and JavaScript files that block rendering',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Found render-blocking resources',
-          details: 'Detected 3 render-blocking CSS files and 2 render-blocking JavaScript files. Consider inlining critical CSS and deferring non-critical JavaScript.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const resources = getResourceEntries(win);
+          const sizeOf = (url: string) => resources.find(r => r.name === url)?.transferSize
+            || parseSize(env.networkRequests.find(r => r.url === url)?.size);
+
+          const blockingScripts = Array.from(doc.head.querySelectorAll<HTMLScriptElement>('script[src]'))
+            .filter(script => !script.async && !script.defer && script.type !== 'module');
+          const blockingStyles = Array.from(doc.head.querySelectorAll<HTMLLinkElement>('link[rel="stylesheet"]'))
+            .filter(link => !link.media || link.media === 'all' || win.matchMedia(link.media).matches)
+            .filter(link => sizeOf(link.href) > MAX_BLOCKING_STYLESHEET_BYTES);
+
+          const findings = [
+            ...blockingScripts.map(s => `script ${s.src.split('/').pop()} has no async/defer`),
+            ...blockingStyles.map(l => `stylesheet ${l.href.split('/').pop()} (${formatBytes(sizeOf(l.href))}) blocks rendering`)
+          ];
+
+          if (findings.length > 0) {
+            return fail(
+              'Found render-blocking resources',
+              `Detected ${blockingStyles.length} render-blocking CSS files and ${blockingScripts.length} render-blocking JavaScript files: ${summarize(findings)}`
+            );
+          }
+          return pass('No render-blocking resources found', 'Scripts in <head> are deferred and stylesheets are small enough to not delay first paint.');
+        });
       }
     },
     {
@@ -240,11 +506,34 @@ const performanceChallenge: ChallengeWithTests = {
       description: 'Checks if images are properly sized and compressed',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Images are not optimized',
-          details: 'Found 5 unoptimized images that could be reduced by at least 40% in size. Hero image is 1.5MB but displayed at 600x400px.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const images = queryVisible<HTMLImageElement>(doc, 'img').filter(img => img.complete && img.naturalWidth > 0);
+          if (images.length === 0) {
+            return fail('No loaded images found', 'Wait for images to finish loading before running this test.');
+          }
+
+          const resources = getResourceEntries(win);
+          const ratio = win.devicePixelRatio || 1;
+          const findings: string[] = [];
+
+          images.forEach(img => {
+            const name = img.currentSrc.split('/').pop() || img.currentSrc;
+            const bytes = resources.find(r => r.name === img.currentSrc)?.transferSize
+              || parseSize(env.networkRequests.find(r => r.url === img.currentSrc)?.size);
+            const renderedWidth = img.clientWidth * ratio;
+
+            if (renderedWidth > 0 && img.naturalWidth > renderedWidth * OVERSIZED_IMAGE_FACTOR) {
+              findings.push(`${name} is ${img.naturalWidth}x${img.naturalHeight}px but displayed at ${img.clientWidth}x${img.clientHeight}px`);
+            } else if (bytes > MAX_IMAGE_BYTES) {
+              findings.push(`${name} is ${formatBytes(bytes)}`);
+            }
+          });
+
+          if (findings.length > 0) {
+            return fail('Images are not optimized', `Found ${findings.length} unoptimized images: ${summarize(findings)}`);
+          }
+          return pass('Images are properly sized', `All ${images.length} images are served close to their displayed size.`);
+        });
       }
     },
     {
@@ -253,11 +542,33 @@ const performanceChallenge: ChallengeWithTests = {
       description: 'Checks if the DOM tree is too large or deeply nested',
       weight: 15,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: true,
-          message: 'DOM size is acceptable',
-          details: 'DOM contains 850 elements with a maximum depth of 10 levels, which is within acceptable limits.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const allElements = doc.getElementsByTagName('*');
+          let maxDepth = 0;
+          let deepest: Element | null = null;
+
+          Array.from(allElements).forEach(el => {
+            let depth = 0;
+            let parent = el.parentElement;
+            while (parent) {
+              depth++;
+              parent = parent.parentElement;
+            }
+            if (depth > maxDepth) {
+              maxDepth = depth;
+              deepest = el;
+            }
+          });
+
+          const summary = `DOM contains ${allElements.length} elements with a maximum depth of ${maxDepth} levels`;
+          if (allElements.length > MAX_DOM_ELEMENTS || maxDepth > MAX_DOM_DEPTH) {
+            return fail(
+              'DOM is too large or deeply nested',
+              `${summary}. Limits are ${MAX_DOM_ELEMENTS} elements and ${MAX_DOM_DEPTH} levels${deepest ? `; deepest node is ${describeElement(deepest)}` : ''}.`
+            );
+          }
+          return pass('DOM size is acceptable', `${summary}, which is within acceptable limits.`);
+        });
       }
     },
     {
@@ -266,11 +577,31 @@ const performanceChallenge: ChallengeWithTests = {
       description: 'Analyzes JavaScript execution time and identifies bottlenecks',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'JavaScript execution is too slow',
-          details: 'Main thread was blocked for 620ms during page load. Identified a slow function in main.js that takes 350ms to execute.'
-        };
+        return inspectDocument(env, async (doc, win) => {
+          const longTasks = await collectLongTasks(win);
+          const blockingTime = longTasks.reduce((total, task) => total + Math.max(0, task.duration - 50), 0);
+          const slowest = longTasks.reduce((max, task) => Math.max(max, task.duration), 0);
+          const errors = getConsoleErrors(env);
+
+          const findings: string[] = [];
+          if (blockingTime > MAX_BLOCKING_TIME_MS) {
+            findings.push(`Main thread was blocked for ${Math.round(blockingTime)}ms across ${longTasks.length} long tasks`);
+          }
+          if (slowest > MAX_LONG_TASK_MS) {
+            findings.push(`Slowest task took ${Math.round(slowest)}ms`);
+          }
+          if (errors.length > 0) {
+            findings.push(`${errors.length} script errors: ${summarize(errors, 2)}`);
+          }
+
+          if (findings.length > 0) {
+            return fail('JavaScript execution is too slow or failing', findings.join('. '));
+          }
+          return pass(
+            'JavaScript execution is within budget',
+            `${longTasks.length} long tasks with ${Math.round(blockingTime)}ms total blocking time and no script errors.`
+          );
+        });
       }
     }
   ],
@@ -349,11 +680,44 @@ const securityChallenge: ChallengeWithTests = {
       description: 'Checks if the application is vulnerable to Cross-Site Scripting attacks',
       weight: 25,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'XSS vulnerability detected',
-          details: 'Successfully injected script via the search form. Input "<script>alert(1)</script>" was rendered as executable JavaScript.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const findings: string[] = [];
+          const params = Array.from(new URL(doc.location.href).searchParams.entries());
+          const bodyHTML = doc.body.innerHTML;
+
+          params.forEach(([name, value]) => {
+            if (/[<>"']/.test(value) && bodyHTML.includes(value)) {
+              findings.push(`Query parameter "${name}" is reflected into the page without encoding`);
+            }
+          });
+
+          doc.querySelectorAll('a[href], iframe[src], form[action]').forEach(el => {
+            const target = el.getAttribute('href') || el.getAttribute('src') || el.getAttribute('action') || '';
+            if (/^\s*javascript:/i.test(target) && target.replace(/^\s*javascript:\s*/i, '').trim() !== 'void(0)') {
+              findings.push(`${describeElement(el)} uses a javascript: URL`);
+            }
+          });
+
+          doc.querySelectorAll('*').forEach(el => {
+            Array.from(el.attributes)
+              .filter(attr => attr.name.startsWith('on') && XSS_PAYLOAD_PATTERN.test(attr.value))
+              .forEach(attr => findings.push(`${describeElement(el)} has an injected ${attr.name} handler`));
+          });
+
+          doc.querySelectorAll('script:not([src])').forEach(script => {
+            if (XSS_PAYLOAD_PATTERN.test(script.textContent || '')) {
+              findings.push('An injected inline script is present in the page');
+            }
+          });
+
+          if (findings.length > 0) {
+            return fail('XSS vulnerability detected', summarize(findings));
+          }
+          return pass(
+            'No XSS injection points detected',
+            `Checked ${params.length} query parameters, links and inline handlers for unencoded or injected script.`
+          );
+        });
       }
     },
     {
@@ -362,11 +726,28 @@ const securityChallenge: ChallengeWithTests = {
       description: 'Verifies if forms are protected against Cross-Site Request Forgery',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Missing CSRF protection',
-          details: 'The profile update form does not include a CSRF token or other protection mechanism.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const forms = Array.from(doc.querySelectorAll<HTMLFormElement>('form'))
+            .filter(form => form.method.toLowerCase() === 'post');
+          if (forms.length === 0) {
+            return pass('No state-changing forms found', 'The page has no POST forms that need CSRF protection.');
+          }
+
+          const metaToken = doc.querySelector('meta[name="csrf-token"], meta[name="_csrf"], meta[name="xsrf-token"]');
+          const unprotected = forms.filter(form => {
+            const hasToken = Array.from(form.querySelectorAll<HTMLInputElement>('input[type="hidden"]'))
+              .some(input => CSRF_FIELD_PATTERN.test(input.name) && input.value.length >= 16);
+            return !hasToken && !metaToken;
+          });
+
+          if (unprotected.length > 0) {
+            return fail(
+              'Forms are missing CSRF protection',
+              `${unprotected.length} of ${forms.length} POST forms lack an anti-CSRF token: ${summarize(unprotected.map(f => f.getAttribute('action') || describeElement(f)))}`
+            );
+          }
+          return pass('Forms are protected against CSRF', `All ${forms.length} POST forms include an anti-CSRF token.`);
+        });
       }
     },
     {
@@ -375,11 +756,36 @@ const securityChallenge: ChallengeWithTests = {
       description: 'Analyzes login mechanisms for security weaknesses',
       weight: 25,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Insecure authentication detected',
-          details: 'Login form submits credentials over HTTP instead of HTTPS. No account lockout after multiple failed attempts.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const passwordFields = Array.from(doc.querySelectorAll<HTMLInputElement>('input[type="password"]'));
+          const disguisedFields = Array.from(doc.querySelectorAll<HTMLInputElement>('input:not([type="password"])'))
+            .filter(input => /pass(word|wd)?|pwd/i.test(`${input.name} ${input.id}`));
+
+          if (passwordFields.length === 0 && disguisedFields.length === 0) {
+            return fail('No login form found', 'Navigate to the login page before running the authentication test.');
+          }
+
+          const findings: string[] = disguisedFields.map(input => `${describeElement(input)} shows the password in plain text`);
+          passwordFields.forEach(field => {
+            const form = field.form;
+            const action = resolveURL(form?.getAttribute('action') || doc.location.href, doc.location.href);
+            if (action && action.protocol !== 'https:' && !LOCAL_HOSTNAMES.includes(action.hostname)) {
+              findings.push(`Credentials are submitted over ${action.protocol.replace(':', '').toUpperCase()} to ${action.host}`);
+            }
+            if (form && form.method.toLowerCase() !== 'post') {
+              findings.push('Login form uses GET, exposing the password in the URL');
+            }
+            const autocomplete = field.getAttribute('autocomplete');
+            if (autocomplete && !['current-password', 'new-password', 'off'].includes(autocomplete)) {
+              findings.push(`Password field uses autocomplete="${autocomplete}"`);
+            }
+          });
+
+          if (findings.length > 0) {
+            return fail('Authentication has security weaknesses', summarize(Array.from(new Set(findings))));
+          }
+          return pass('Login form follows secure authentication practices', `Checked ${passwordFields.length} password fields for transport security and safe submission.`);
+        });
       }
     },
     {
@@ -388,11 +794,31 @@ const securityChallenge: ChallengeWithTests = {
       description: 'Checks if the application properly restricts access to resources',
       weight: 15,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Insecure direct object reference detected',
-          details: 'Changing the user ID in the URL (/profile?id=2) allows access to another user\'s profile without authorization.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const candidates = new Set<string>();
+          doc.querySelectorAll<HTMLAnchorElement>('a[href]').forEach(a => candidates.add(a.href));
+          env.networkRequests.filter(r => r.status >= 200 && r.status < 300).forEach(r => candidates.add(r.url));
+          candidates.add(doc.location.href);
+
+          const exposed = Array.from(candidates).filter(url => SEQUENTIAL_ID_PATTERN.test(url));
+          if (exposed.length === 0) {
+            return pass('No guessable object references found', 'Resource URLs do not expose sequential identifiers.');
+          }
+
+          const accessible = exposed.filter(url =>
+            url === doc.location.href || env.networkRequests.some(r => r.url === url && r.status >= 200 && r.status < 300)
+          );
+          if (accessible.length > 0) {
+            return fail(
+              'Insecure direct object references detected',
+              `Resources are addressed by sequential IDs and were served without an authorization error: ${summarize(accessible)}`
+            );
+          }
+          return pass(
+            'Object references appear to be access-controlled',
+            `Found ${exposed.length} sequential resource IDs, none of which were served to the current session.`
+          );
+        });
       }
     },
     {
@@ -401,11 +827,55 @@ const securityChallenge: ChallengeWithTests = {
       description: 'Checks if sensitive data is properly protected',
       weight: 15,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: true,
-          message: 'No sensitive data exposure detected',
-          details: 'All sensitive data appears to be properly encrypted and protected.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const findings: string[] = [];
+
+          const scanStorage = (storage: Storage | null, label: string) => {
+            if (!storage) return;
+            for (let i = 0; i < storage.length; i++) {
+              const key = storage.key(i);
+              if (key && SENSITIVE_KEY_PATTERN.test(key)) {
+                findings.push(`${label} stores "${key}"`);
+              }
+            }
+          };
+          try {
+            scanStorage(win.localStorage, 'localStorage');
+            scanStorage(win.sessionStorage, 'sessionStorage');
+          } catch {
+            // Storage may be blocked for sandboxed frames
+          }
+
+          if (SENSITIVE_KEY_PATTERN.test(doc.cookie.split(';').map(c => c.split('=')[0]).join(' '))) {
+            findings.push('Sensitive values are stored in cookies readable by JavaScript');
+          }
+
+          env.networkRequests.forEach(request => {
+            const url = resolveURL(request.url, doc.location.href);
+            url?.searchParams.forEach((_, name) => {
+              if (SENSITIVE_KEY_PATTERN.test(name)) {
+                findings.push(`${request.method} ${url.pathname} sends "${name}" in the query string`);
+              }
+            });
+          });
+
+          env.consoleLogs
+            .filter(log => /(password|secret|token|api[_-]?key)\s*[:=]/i.test(log.message))
+            .forEach(log => findings.push(`Console output leaks a secret: "${log.message.slice(0, 40)}"`));
+
+          const pageText = doc.body.innerText || '';
+          if (CARD_NUMBER_PATTERN.test(pageText)) {
+            findings.push('A full payment card number is displayed on the page');
+          }
+          if (SSN_PATTERN.test(pageText)) {
+            findings.push('A social security number is displayed on the page');
+          }
+
+          if (findings.length > 0) {
+            return fail('Sensitive data is exposed', summarize(Array.from(new Set(findings))));
+          }
+          return pass('No sensitive data exposure found', 'Storage, cookies, request URLs, console output and page text contain no secrets.');
+        });
       }
     }
   ],
@@ -484,11 +954,29 @@ const apiTestingChallenge: ChallengeWithTests = {
       description: 'Checks if API endpoints return appropriate status codes',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Some endpoints return incorrect status codes',
-          details: 'DELETE /users/{id} returns 200 instead of 204 when successful. GET /products/{id} returns 200 for non-existent products instead of 404.'
-        };
+        const requests = getApiRequests(env);
+        if (requests.length === 0) {
+          return fail('No API requests captured', 'Exercise the API endpoints from the application so their responses can be validated.');
+        }
+
+        const findings: string[] = [];
+        requests.forEach(request => {
+          const label = `${request.method} ${resolveURL(request.url, env.url)?.pathname || request.url}`;
+          if (!request.status) {
+            findings.push(`${label} failed without a response`);
+          } else if (request.status >= 500) {
+            findings.push(`${label} returned ${request.status}`);
+          } else if (request.method === 'DELETE' && request.status === 200) {
+            findings.push(`${label} returned 200 instead of 204 No Content`);
+          } else if (request.method === 'POST' && request.status === 200 && !/search|query|login|graphql/i.test(request.url)) {
+            findings.push(`${label} returned 200 instead of 201 Created`);
+          }
+        });
+
+        if (findings.length > 0) {
+          return fail('Some endpoints return incorrect status codes', summarize(Array.from(new Set(findings))));
+        }
+        return pass('All endpoints return appropriate status codes', `Validated ${requests.length} API responses.`);
       }
     },
     {
@@ -497,11 +985,35 @@ const apiTestingChallenge: ChallengeWithTests = {
       description: 'Verifies that protected endpoints require proper authentication',
       weight: 25,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: true,
-          message: 'Authentication mechanisms work correctly',
-          details: 'All protected endpoints properly verify JWT tokens. Invalid or expired tokens are rejected with 401 Unauthorized.'
-        };
+        const protectedEndpoints = Array.from(new Set(
+          getApiRequests(env)
+            .filter(request => request.method === 'GET' && PROTECTED_PATH_PATTERN.test(request.url))
+            .map(request => resolveURL(request.url, env.url)?.href)
+            .filter(Boolean)
+        )).slice(0, MAX_PROBED_ENDPOINTS);
+
+        const findings: string[] = getApiRequests(env)
+          .filter(request => CREDENTIAL_PARAM_PATTERN.test(request.url))
+          .map(request => `${request.method} ${request.url} passes credentials in the query string`);
+
+        if (protectedEndpoints.length === 0 && findings.length === 0) {
+          return fail('No protected endpoints captured', 'Call the authenticated endpoints (users, profile, orders, admin) before running this test.');
+        }
+
+        for (const endpoint of protectedEndpoints) {
+          const response = await probe(endpoint, { credentials: 'omit' });
+          if (response && response.status >= 200 && response.status < 300) {
+            findings.push(`GET ${new URL(endpoint).pathname} returned ${response.status} without credentials`);
+          }
+        }
+
+        if (findings.length > 0) {
+          return fail('Protected endpoints are accessible without authentication', summarize(findings));
+        }
+        return pass(
+          'Protected endpoints require authentication',
+          `${protectedEndpoints.length} protected endpoints rejected unauthenticated requests.`
+        );
       }
     },
     {
@@ -510,11 +1022,45 @@ const apiTestingChallenge: ChallengeWithTests = {
       description: 'Validates JSON response structure and data types',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Response structure issues detected',
-          details: 'GET /users returns inconsistent data types for the "age" field (string in some records, number in others). "createdAt" field is missing in some responses.'
-        };
+        const endpoints = Array.from(new Set(
+          getApiRequests(env)
+            .filter(request => request.method === 'GET' && request.status >= 200 && request.status < 300 && !isGraphQLRequest(request))
+            .map(request => resolveURL(request.url, env.url)?.href)
+            .filter(Boolean)
+        )).slice(0, MAX_PROBED_ENDPOINTS);
+
+        if (endpoints.length === 0) {
+          return fail('No successful GET responses captured', 'Load data from the API so response payloads can be validated.');
+        }
+
+        const findings: string[] = [];
+        for (const endpoint of endpoints) {
+          const path = new URL(endpoint).pathname;
+          const response = await probe(endpoint);
+          if (!response) {
+            findings.push(`${path} could not be re-requested`);
+            continue;
+          }
+          if (!(response.headers.get('content-type') || '').includes('json')) {
+            findings.push(`${path} is not served as JSON`);
+          }
+          const body = await readJSON(response);
+          if (!body.ok) {
+            findings.push(`${path} returned malformed JSON`);
+            continue;
+          }
+          const records = Array.isArray(body.data)
+            ? body.data
+            : Object.values(body.data as Record<string, unknown> || {}).find(Array.isArray) as unknown[] | undefined;
+          if (records) {
+            findings.push(...findInconsistentFields(records).map(field => `${path}: "${field}" has inconsistent types`));
+          }
+        }
+
+        if (findings.length > 0) {
+          return fail('Response structure issues found', summarize(findings));
+        }
+        return pass('Responses follow a consistent JSON structure', `Validated payloads from ${endpoints.length} endpoints.`);
       }
     },
     {
@@ -523,11 +1069,40 @@ const apiTestingChallenge: ChallengeWithTests = {
       description: 'Checks if API provides meaningful error messages',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Error handling needs improvement',
-          details: 'Invalid parameters to /search endpoint return generic 500 error instead of specific 400 Bad Request with details. Some error responses lack proper JSON structure.'
-        };
+        const errorResponses = getApiRequests(env).filter(request => request.status >= 400);
+        if (errorResponses.length === 0) {
+          return fail('No error responses captured', 'Send invalid parameters or malformed data to the API to exercise its error handling.');
+        }
+
+        const findings: string[] = errorResponses
+          .filter(request => request.status >= 500)
+          .map(request => `${request.method} ${resolveURL(request.url, env.url)?.pathname} returned ${request.status} instead of a client error`);
+
+        const probed = Array.from(new Set(
+          errorResponses
+            .filter(request => request.method === 'GET' && request.status < 500)
+            .map(request => resolveURL(request.url, env.url)?.href)
+            .filter(Boolean)
+        )).slice(0, MAX_PROBED_ENDPOINTS);
+
+        for (const endpoint of probed) {
+          const path = new URL(endpoint).pathname;
+          const response = await probe(endpoint);
+          if (!response) continue;
+          const body = await readJSON(response);
+          const payload = body.ok ? body.data as Record<string, unknown> : null;
+          const message = payload?.message || payload?.error || (payload?.errors as unknown[])?.[0];
+          if (!message) {
+            findings.push(`${path} (${response.status}) has no error message in its body`);
+          } else if (STACK_TRACE_PATTERN.test(JSON.stringify(payload))) {
+            findings.push(`${path} (${response.status}) leaks internal details`);
+          }
+        }
+
+        if (findings.length > 0) {
+          return fail('API error handling is inadequate', summarize(findings));
+        }
+        return pass('API provides meaningful error messages', `${errorResponses.length} error responses returned client errors with descriptive messages.`);
       }
     },
     {
@@ -536,11 +1111,24 @@ const apiTestingChallenge: ChallengeWithTests = {
       description: 'Measures API endpoint response times',
       weight: 15,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: true,
-          message: 'API response times are acceptable',
-          details: 'All tested endpoints respond within 300ms, with the slowest being GET /products/category/{id} at 285ms.'
-        };
+        const requests = getApiRequests(env).filter(request => parseDuration(request.time) > 0);
+        if (requests.length === 0) {
+          return fail('No API timings captured', 'Exercise the API endpoints so their response times can be measured.');
+        }
+
+        const durations = requests.map(request => parseDuration(request.time));
+        const average = durations.reduce((sum, d) => sum + d, 0) / durations.length;
+        const slow = requests
+          .filter(request => parseDuration(request.time) > MAX_API_RESPONSE_MS)
+          .map(request => `${request.method} ${resolveURL(request.url, env.url)?.pathname} (${Math.round(parseDuration(request.time))}ms)`);
+
+        if (slow.length > 0 || average > MAX_AVERAGE_API_RESPONSE_MS) {
+          return fail(
+            'Some endpoints respond too slowly',
+            `Average response time is ${Math.round(average)}ms. Slow endpoints: ${slow.length > 0 ? summarize(slow) : 'none'}.`
+          );
+        }
+        return pass('API response times are acceptable', `${requests.length} requests averaged ${Math.round(average)}ms.`);
       }
     }
   ],
@@ -619,11 +1207,31 @@ const mobileTestingChallenge: ChallengeWithTests = {
       description: 'Checks if the application adapts properly to different screen sizes',
       weight: 25,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Responsive design issues detected',
-          details: 'Content overflow observed on iPhone SE size (375px width). Navigation menu doesn\'t collapse properly on small screens. Product grid doesn\'t reflow below 768px.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const findings: string[] = [];
+          const viewport = doc.querySelector<HTMLMetaElement>('meta[name="viewport"]')?.content || '';
+          if (!/width\s*=\s*device-width/i.test(viewport)) {
+            findings.push('Missing <meta name="viewport" content="width=device-width">');
+          }
+
+          const viewportWidth = doc.documentElement.clientWidth;
+          if (doc.documentElement.scrollWidth > viewportWidth + 1) {
+            findings.push(`Page scrolls horizontally (${doc.documentElement.scrollWidth}px content in a ${viewportWidth}px viewport)`);
+          }
+
+          queryVisible(doc, 'body *')
+            .filter(el => {
+              const rect = el.getBoundingClientRect();
+              return rect.right > viewportWidth + 1 && win.getComputedStyle(el).position !== 'fixed';
+            })
+            .filter(el => !el.parentElement || el.parentElement.getBoundingClientRect().right <= viewportWidth + 1)
+            .forEach(el => findings.push(`${describeElement(el)} overflows the viewport by ${Math.round(el.getBoundingClientRect().right - viewportWidth)}px`));
+
+          if (findings.length > 0) {
+            return fail(`Layout does not adapt to the ${env.device} viewport`, summarize(findings));
+          }
+          return pass('Layout adapts to the viewport', `Content fits within the ${viewportWidth}px ${env.device} viewport without horizontal scrolling.`);
+        });
       }
     },
     {
@@ -632,11 +1240,44 @@ const mobileTestingChallenge: ChallengeWithTests = {
       description: 'Verifies if touch gestures work as expected',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: true,
-          message: 'Touch interactions work correctly',
-          details: 'Swipe, pinch-to-zoom, and tap gestures function as expected across the application.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const targets = queryVisible<HTMLElement>(doc, INTERACTIVE_SELECTOR)
+            .filter(el => !(el.tagName === 'A' && el.closest('p, li')) && (el as HTMLInputElement).type !== 'hidden');
+
+          if (targets.length === 0) {
+            return fail('No touch targets found', 'The page has no interactive elements to evaluate.');
+          }
+
+          const tooSmall = targets.filter(el => {
+            const rect = el.getBoundingClientRect();
+            return rect.width < MIN_TOUCH_TARGET_PX || rect.height < MIN_TOUCH_TARGET_PX;
+          });
+
+          const crowded = targets.filter((el, index) => {
+            const rect = el.getBoundingClientRect();
+            return targets.slice(index + 1).some(other => {
+              const o = other.getBoundingClientRect();
+              return !el.contains(other) && !other.contains(el)
+                && rect.left < o.right && o.left < rect.right && rect.top < o.bottom && o.top < rect.bottom;
+            });
+          });
+
+          const findings = [
+            ...tooSmall.map(el => {
+              const rect = el.getBoundingClientRect();
+              return `${describeElement(el)} is ${Math.round(rect.width)}x${Math.round(rect.height)}px`;
+            }),
+            ...crowded.map(el => `${describeElement(el)} overlaps another touch target`)
+          ];
+
+          if (findings.length > 0) {
+            return fail(
+              'Touch targets are too small or overlapping',
+              `${findings.length} of ${targets.length} targets are below ${MIN_TOUCH_TARGET_PX}x${MIN_TOUCH_TARGET_PX}px or overlap: ${summarize(findings)}`
+            );
+          }
+          return pass('Touch targets are appropriately sized', `All ${targets.length} targets are at least ${MIN_TOUCH_TARGET_PX}x${MIN_TOUCH_TARGET_PX}px.`);
+        });
       }
     },
     {
@@ -645,11 +1286,35 @@ const mobileTestingChallenge: ChallengeWithTests = {
       description: 'Tests if the application works properly without internet connection',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Offline functionality issues detected',
-          details: 'Application crashes when network connection is lost. No offline cache for previously viewed content. No user feedback when actions require connectivity.'
-        };
+        return inspectDocument(env, async (doc, win) => {
+          const findings: string[] = [];
+          const serviceWorker = win.navigator.serviceWorker;
+          let registrations: readonly ServiceWorkerRegistration[] = [];
+          try {
+            registrations = serviceWorker ? await serviceWorker.getRegistrations() : [];
+          } catch {
+            registrations = [];
+          }
+
+          if (!serviceWorker?.controller && registrations.length === 0) {
+            findings.push('No service worker is registered to serve content offline');
+          }
+          if (!doc.querySelector('link[rel="manifest"]')) {
+            findings.push('No web app manifest is linked');
+          }
+
+          const failedWhileOffline = env.networkRequests.filter(request => request.status === 0);
+          const hasOfflineFeedback = queryVisible(doc, '[role="alert"], [role="status"], [aria-live]')
+            .some(el => /offline|connection|network/i.test(el.textContent || ''));
+          if (failedWhileOffline.length > 0 && !hasOfflineFeedback) {
+            findings.push(`${failedWhileOffline.length} requests failed without any offline message shown to the user`);
+          }
+
+          if (findings.length > 0) {
+            return fail('Application does not handle offline mode properly', summarize(findings));
+          }
+          return pass('Application supports offline use', 'A service worker is active and connectivity failures are communicated to the user.');
+        });
       }
     },
     {
@@ -658,11 +1323,35 @@ const mobileTestingChallenge: ChallengeWithTests = {
       description: 'Checks if the application handles device rotation properly',
       weight: 15,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: true,
-          message: 'Device orientation handling works correctly',
-          details: 'Content properly adjusts when rotating between portrait and landscape modes. State is maintained during rotation.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const findings: string[] = [];
+          const viewport = doc.querySelector<HTMLMetaElement>('meta[name="viewport"]')?.content || '';
+          if (/user-scalable\s*=\s*(no|0)/i.test(viewport) || /maximum-scale\s*=\s*1(\.0)?\b/i.test(viewport)) {
+            findings.push('Viewport meta disables zooming');
+          }
+
+          const mediaRules = getStyleRules(doc).filter((rule): rule is CSSMediaRule => 'media' in rule && 'cssRules' in rule);
+          const conditions = mediaRules.map(rule => rule.media.mediaText);
+          const adaptsToOrientation = conditions.some(c => /orientation|aspect-ratio/i.test(c));
+          const adaptsToWidth = conditions.some(c => /width/i.test(c));
+          if (!adaptsToOrientation && !adaptsToWidth) {
+            findings.push('No media queries adapt the layout to orientation or viewport width');
+          }
+
+          const fixedWide = queryVisible<HTMLElement>(doc, 'body *').filter(el => {
+            const width = win.getComputedStyle(el).width;
+            return /px$/.test(el.style.width) && parseFloat(width) > Math.min(win.screen.width, win.screen.height);
+          });
+          fixedWide.forEach(el => findings.push(`${describeElement(el)} has a fixed width wider than a portrait screen`));
+
+          if (findings.length > 0) {
+            return fail('Layout does not handle orientation changes', summarize(findings));
+          }
+          return pass(
+            'Layout handles device rotation',
+            `Found ${conditions.length} media queries${adaptsToOrientation ? ' including orientation rules' : ''} and no zoom or width locks.`
+          );
+        });
       }
     },
     {
@@ -671,11 +1360,32 @@ const mobileTestingChallenge: ChallengeWithTests = {
       description: 'Validates various mobile-specific input methods',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Issues with mobile input methods',
-          details: 'Appropriate keyboard types not used for different input fields (e.g., email, phone). Address form difficult to complete on mobile. No support for autocomplete.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const fields = queryVisible<HTMLInputElement>(doc, 'input');
+          if (fields.length === 0) {
+            return fail('No input fields found', 'Navigate to a form before running the mobile input test.');
+          }
+
+          const findings: string[] = [];
+          fields.forEach(field => {
+            const hint = `${field.name} ${field.id} ${field.getAttribute('autocomplete') || ''} ${getAccessibleName(field)}`.toLowerCase();
+            const expected = MOBILE_INPUT_TYPES.find(({ pattern }) => pattern.test(hint));
+            if (!expected) return;
+
+            const inputMode = field.getAttribute('inputmode');
+            if (field.type !== expected.type && inputMode !== expected.inputMode) {
+              findings.push(`${describeElement(field)} should use type="${expected.type}" (currently "${field.type}")`);
+            }
+            if (expected.autocomplete && !field.getAttribute('autocomplete')) {
+              findings.push(`${describeElement(field)} is missing autocomplete="${expected.autocomplete}"`);
+            }
+          });
+
+          if (findings.length > 0) {
+            return fail('Input fields do not trigger the right mobile keyboards', summarize(findings));
+          }
+          return pass('Inputs use mobile-friendly types', `All ${fields.length} inputs use appropriate types and autocomplete hints.`);
+        });
       }
     }
   ],
@@ -754,11 +1464,37 @@ const automatedUITestingChallenge: ChallengeWithTests = {
       description: 'Evaluates the quality and stability of element selectors',
       weight: 25,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Selector issues detected',
-          details: 'Multiple selectors rely on index-based selection (e.g., cy.get(\'.item\').eq(2)) which is fragile. Some selectors use implementation details like CSS classes that may change (.btn-blue instead of [data-testid="submit"]).'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const interactive = queryVisible<HTMLElement>(doc, INTERACTIVE_SELECTOR);
+          if (interactive.length === 0) {
+            return fail('No interactive elements found', 'There is nothing on the page to select in automated tests.');
+          }
+
+          const stable = interactive.filter(el => el.hasAttribute('data-testid') || el.hasAttribute('data-test') || el.hasAttribute('data-cy'));
+          const coverage = stable.length / interactive.length;
+
+          const ids = Array.from(doc.querySelectorAll('[id]')).map(el => el.id);
+          const duplicateIds = Array.from(new Set(ids.filter((id, i) => ids.indexOf(id) !== i)));
+          const testIds = stable.map(el => el.getAttribute('data-testid') || el.getAttribute('data-test') || el.getAttribute('data-cy'));
+          const duplicateTestIds = Array.from(new Set(testIds.filter((id, i) => testIds.indexOf(id) !== i)));
+
+          const findings: string[] = [];
+          if (coverage < MIN_TEST_ID_COVERAGE) {
+            const missing = interactive.filter(el => !stable.includes(el)).map(describeElement);
+            findings.push(`Only ${Math.round(coverage * 100)}% of interactive elements have data-testid (missing on ${summarize(missing, 3)})`);
+          }
+          if (duplicateIds.length > 0) {
+            findings.push(`Duplicate ids: ${summarize(duplicateIds, 3)}`);
+          }
+          if (duplicateTestIds.length > 0) {
+            findings.push(`Duplicate data-testid values: ${summarize(duplicateTestIds as string[], 3)}`);
+          }
+
+          if (findings.length > 0) {
+            return fail('Element selectors are not stable', findings.join('. '));
+          }
+          return pass('Elements expose stable selectors', `${stable.length} of ${interactive.length} interactive elements have unique test ids.`);
+        });
       }
     },
     {
@@ -767,11 +1503,25 @@ const automatedUITestingChallenge: ChallengeWithTests = {
       description: 'Checks if assertions effectively verify application behavior',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: true,
-          message: 'Assertions are effective',
-          details: 'Tests include appropriate assertions that verify both UI state and application behavior. Negative test cases are included to verify error handling.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const interactive = queryVisible<HTMLElement>(doc, INTERACTIVE_SELECTOR);
+          const unnamed = interactive.filter(el => !getAccessibleName(el));
+          const liveRegions = doc.querySelectorAll('[role="status"], [role="alert"], [aria-live]');
+          const forms = doc.querySelectorAll('form');
+
+          const findings: string[] = unnamed.map(el => `${describeElement(el)} has no visible text or accessible name to assert on`);
+          if (forms.length > 0 && liveRegions.length === 0) {
+            findings.push('Form outcomes are not exposed in a status or alert region');
+          }
+
+          if (findings.length > 0) {
+            return fail('User-visible outcomes are hard to assert', summarize(findings));
+          }
+          return pass(
+            'Application state can be asserted through user-visible output',
+            `All ${interactive.length} controls have accessible names and ${liveRegions.length} live regions report outcomes.`
+          );
+        });
       }
     },
     {
@@ -780,11 +1530,34 @@ const automatedUITestingChallenge: ChallengeWithTests = {
       description: 'Verifies proper handling of asynchronous operations',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Issues with async handling',
-          details: 'Tests use arbitrary waits (cy.wait(2000)) instead of waiting for specific conditions. No retry logic for flaky network requests. Missing timeout adjustments for slow operations.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const findings: string[] = [];
+          const pending = env.networkRequests.filter(request => !request.status);
+          if (pending.length > 0) {
+            findings.push(`${pending.length} requests never completed: ${summarize(pending.map(r => r.url), 3)}`);
+          }
+
+          const busy = queryVisible(doc, '[aria-busy="true"], [role="progressbar"]:not([aria-valuenow])');
+          if (busy.length > 0) {
+            findings.push(`${busy.length} loading indicators are still active`);
+          }
+
+          const spinners = queryVisible(doc, '.spinner, .loading, [class*="spinner"], [class*="loading"]')
+            .filter(el => !el.hasAttribute('aria-busy') && !el.closest('[aria-busy]') && el.getAttribute('role') !== 'progressbar');
+          if (spinners.length > 0) {
+            findings.push(`${spinners.length} loading indicators are not exposed via aria-busy or role="progressbar", so tests must rely on fixed waits`);
+          }
+
+          const rejections = getConsoleErrors(env).filter(message => /unhandled|promise|timeout/i.test(message));
+          if (rejections.length > 0) {
+            findings.push(`Unhandled async errors: ${summarize(rejections, 2)}`);
+          }
+
+          if (findings.length > 0) {
+            return fail('Asynchronous operations are not handled reliably', findings.join('. '));
+          }
+          return pass('Asynchronous operations settle observably', 'All requests completed and loading states are exposed for tests to wait on.');
+        });
       }
     },
     {
@@ -793,11 +1566,32 @@ const automatedUITestingChallenge: ChallengeWithTests = {
       description: 'Evaluates the structure and organization of test code',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: true,
-          message: 'Tests are well-organized',
-          details: 'Tests follow the AAA pattern (Arrange, Act, Assert). Test files are logically grouped. Common setup is extracted to before() and beforeEach() hooks.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const findings: string[] = [];
+          const landmarks = {
+            main: doc.querySelectorAll('main, [role="main"]').length,
+            navigation: doc.querySelectorAll('nav, [role="navigation"]').length,
+            banner: doc.querySelectorAll('header, [role="banner"]').length,
+            contentinfo: doc.querySelectorAll('footer, [role="contentinfo"]').length
+          };
+
+          if (landmarks.main !== 1) {
+            findings.push(`Page has ${landmarks.main} main landmarks (expected exactly 1)`);
+          }
+          Object.entries(landmarks)
+            .filter(([name, count]) => name !== 'main' && count === 0)
+            .forEach(([name]) => findings.push(`No ${name} landmark to scope tests to`));
+
+          const sections = Array.from(doc.querySelectorAll('section, form'));
+          const unlabeled = sections.filter(section => !getAccessibleName(section) && !section.hasAttribute('data-testid')
+            && !section.querySelector('h1, h2, h3, h4, h5, h6, legend'));
+          unlabeled.forEach(section => findings.push(`${describeElement(section)} has no heading, label or test id to group tests by`));
+
+          if (findings.length > 0) {
+            return fail('Page structure does not support organized tests', summarize(findings));
+          }
+          return pass('Page is organized into testable regions', `Found ${sections.length} labeled sections within standard landmarks.`);
+        });
       }
     },
     {
@@ -806,11 +1600,27 @@ const automatedUITestingChallenge: ChallengeWithTests = {
       description: 'Checks for reusable test components and custom commands',
       weight: 15,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Limited test reusability',
-          details: 'Common workflows are duplicated across tests instead of being extracted into custom commands. No use of fixtures for test data. Login sequence repeated in multiple test files.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const forms = Array.from(doc.querySelectorAll<HTMLFormElement>('form'));
+          if (forms.length === 0) {
+            return fail('No forms found', 'Reusable commands are usually built around forms such as login; none are present.');
+          }
+
+          const findings: string[] = [];
+          forms.forEach(form => {
+            const controls = Array.from(form.querySelectorAll<HTMLElement>('input:not([type="hidden"]), select, textarea, button'));
+            const withoutHooks = controls.filter(el => !el.hasAttribute('data-testid') && !el.getAttribute('name') && !el.id);
+            if (!form.hasAttribute('data-testid') && !form.id && !form.getAttribute('name')) {
+              findings.push(`${describeElement(form)} cannot be targeted by a reusable command`);
+            }
+            withoutHooks.forEach(el => findings.push(`${describeElement(el)} in ${describeElement(form)} has no stable hook`));
+          });
+
+          if (findings.length > 0) {
+            return fail('Forms lack hooks for reusable commands', summarize(findings));
+          }
+          return pass('Forms expose stable hooks for reusable commands', `All ${forms.length} forms and their controls can be driven by custom commands.`);
+        });
       }
     }
   ],
@@ -889,11 +1699,39 @@ const usabilityTestingChallenge: ChallengeWithTests = {
       description: 'Evaluates the usability of forms and input fields',
       weight: 25,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Form usability issues detected',
-          details: 'Checkout form has unclear error messages. Address fields reset when validation fails. Required fields are not clearly marked. Form submission provides no feedback during processing.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const forms = queryVisible<HTMLFormElement>(doc, 'form');
+          if (forms.length === 0) {
+            return fail('No forms found', 'Navigate to a form before running the form usability test.');
+          }
+
+          const findings: string[] = [];
+          forms.forEach(form => {
+            const fields = Array.from(form.querySelectorAll<HTMLInputElement>(FORM_FIELD_SELECTOR)).filter(f => isVisible(f, win));
+            fields.forEach(field => {
+              const labels = Array.from(field.labels || []);
+              if (labels.length === 0 && field.placeholder) {
+                findings.push(`${describeElement(field)} relies on placeholder "${field.placeholder}" as its label`);
+              }
+              const required = field.required || field.getAttribute('aria-required') === 'true';
+              const labelText = labels.map(l => l.textContent || '').join(' ');
+              if (required && !/\*|required/i.test(labelText) && !field.getAttribute('aria-required')) {
+                findings.push(`${describeElement(field)} is required but not marked as such`);
+              }
+              if (field.getAttribute('aria-invalid') === 'true' && !field.value) {
+                findings.push(`${describeElement(field)} lost its value after validation`);
+              }
+            });
+            if (!form.querySelector('button:not([type="button"]):not([type="reset"]), input[type="submit"]')) {
+              findings.push(`${describeElement(form)} has no submit button`);
+            }
+          });
+
+          if (findings.length > 0) {
+            return fail('Form usability issues detected', summarize(findings));
+          }
+          return pass('Forms are easy to complete', `All ${forms.length} forms have labeled, clearly marked fields and a submit action.`);
+        });
       }
     },
     {
@@ -902,11 +1740,41 @@ const usabilityTestingChallenge: ChallengeWithTests = {
       description: 'Assesses the clarity and effectiveness of site navigation',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Navigation issues detected',
-          details: 'Categories in main navigation don\'t clearly indicate their contents. Current page not highlighted in navigation. Mobile menu requires too many taps to reach important sections.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const navs = queryVisible(doc, 'nav, [role="navigation"]');
+          if (navs.length === 0) {
+            return fail('No navigation found', 'The page has no nav landmark to help users move between sections.');
+          }
+
+          const findings: string[] = [];
+          const links = navs.flatMap(nav => Array.from(nav.querySelectorAll<HTMLAnchorElement>('a[href]')));
+          if (links.length === 0) {
+            findings.push('Navigation contains no links');
+          }
+
+          const current = links.filter(link =>
+            link.getAttribute('aria-current') || /\b(active|current|selected)\b/i.test(link.className)
+          );
+          if (links.length > 0 && current.length === 0) {
+            findings.push('No navigation item indicates the current page (aria-current or active state)');
+          }
+
+          const vague = links.filter(link => VAGUE_LINK_TEXT.test(getAccessibleName(link)));
+          vague.forEach(link => findings.push(`Navigation link "${getAccessibleName(link)}" is not descriptive`));
+
+          if (links.length > MAX_NAV_ITEMS) {
+            findings.push(`Navigation has ${links.length} items, which overwhelms users (max ${MAX_NAV_ITEMS})`);
+          }
+
+          const hasBreadcrumb = !!doc.querySelector('[aria-label*="breadcrumb" i], .breadcrumb, [class*="breadcrumb"]');
+          if (findings.length > 0) {
+            return fail('Navigation is unclear', summarize(findings));
+          }
+          return pass(
+            'Navigation is clear',
+            `${links.length} descriptive navigation links with a current-page indicator${hasBreadcrumb ? ' and breadcrumbs' : ''}.`
+          );
+        });
       }
     },
     {
@@ -915,11 +1783,34 @@ const usabilityTestingChallenge: ChallengeWithTests = {
       description: 'Measures the efficiency of completing common user tasks',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: true,
-          message: 'Task completion is efficient',
-          details: 'Product search and filtering work efficiently. Add to cart process is streamlined. Account creation requires reasonable steps.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const forms = queryVisible<HTMLFormElement>(doc, 'form');
+          const findings: string[] = [];
+          const viewportHeight = win.innerHeight;
+
+          const primaryActions = queryVisible<HTMLElement>(doc, 'button[type="submit"], input[type="submit"], form button:not([type]), [data-primary], .btn-primary');
+          if (primaryActions.length === 0) {
+            findings.push('No primary action is available on the page');
+          } else if (primaryActions.every(el => el.getBoundingClientRect().top > viewportHeight)) {
+            findings.push('The primary action is below the fold');
+          }
+
+          forms.forEach(form => {
+            const fields = Array.from(form.querySelectorAll(FORM_FIELD_SELECTOR)).filter(f => isVisible(f, win));
+            if (fields.length > MAX_FORM_FIELDS) {
+              findings.push(`${describeElement(form)} asks for ${fields.length} fields (max ${MAX_FORM_FIELDS} per step)`);
+            }
+          });
+
+          const disabled = queryVisible<HTMLButtonElement>(doc, 'button[disabled], [aria-disabled="true"]')
+            .filter(el => !el.getAttribute('title') && !el.getAttribute('aria-describedby'));
+          disabled.forEach(el => findings.push(`"${getAccessibleName(el)}" is disabled without explaining why`));
+
+          if (findings.length > 0) {
+            return fail('Task completion has unnecessary friction', summarize(findings));
+          }
+          return pass('Common tasks can be completed efficiently', `Primary actions are visible and ${forms.length} forms stay within ${MAX_FORM_FIELDS} fields.`);
+        });
       }
     },
     {
@@ -928,11 +1819,33 @@ const usabilityTestingChallenge: ChallengeWithTests = {
       description: 'Evaluates how well the interface prevents and handles errors',
       weight: 15,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Error handling needs improvement',
-          details: 'No confirmation for delete actions. Error messages are technical rather than helpful. No way to recover data after form validation errors.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const findings: string[] = [];
+
+          const destructive = queryVisible<HTMLElement>(doc, 'button, a[href], [role="button"], input[type="submit"]')
+            .filter(el => DESTRUCTIVE_ACTION_PATTERN.test(getAccessibleName(el)));
+          destructive
+            .filter(el => !el.hasAttribute('data-confirm')
+              && el.getAttribute('aria-haspopup') !== 'dialog'
+              && !/confirm\(/.test(el.getAttribute('onclick') || ''))
+            .forEach(el => findings.push(`"${getAccessibleName(el)}" performs a destructive action without confirmation`));
+
+          const unconstrained = queryVisible<HTMLInputElement>(doc, 'input[type="text"], input:not([type])')
+            .filter(field => MOBILE_INPUT_TYPES.some(({ pattern }) => pattern.test(`${field.name} ${field.id}`)) && !field.pattern);
+          unconstrained.forEach(field => findings.push(`${describeElement(field)} accepts any text instead of constraining input`));
+
+          queryVisible<HTMLInputElement>(doc, '[aria-invalid="true"]')
+            .filter(field => !field.getAttribute('aria-describedby') && !field.getAttribute('aria-errormessage'))
+            .forEach(field => findings.push(`${describeElement(field)} is invalid without explaining how to fix it`));
+
+          if (findings.length > 0) {
+            return fail('Error prevention and recovery can be improved', summarize(findings));
+          }
+          return pass(
+            'Interface prevents and explains errors',
+            `${destructive.length} destructive actions require confirmation and invalid fields explain how to recover.`
+          );
+        });
       }
     },
     {
@@ -941,11 +1854,33 @@ const usabilityTestingChallenge: ChallengeWithTests = {
       description: 'Checks if the interface uses consistent patterns and elements',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Inconsistent UI patterns',
-          details: 'Button styles vary across different sections. Inconsistent terminology (e.g., "Purchase" vs "Buy" vs "Checkout"). Form layouts differ between account and checkout pages.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const buttons = queryVisible<HTMLElement>(doc, 'button, input[type="submit"], input[type="button"], [role="button"]');
+          if (buttons.length === 0) {
+            return fail('No buttons found', 'The page has no buttons to compare for consistency.');
+          }
+
+          const variants = new Set(buttons.map(button => {
+            const style = win.getComputedStyle(button);
+            return [style.borderRadius, style.fontSize, style.fontFamily, style.paddingTop].join('|');
+          }));
+
+          const labels = buttons.map(button => getAccessibleName(button).toLowerCase());
+          const conflictingTerms = SYNONYM_GROUPS
+            .map(group => group.filter(term => labels.some(label => new RegExp(`\\b${term}\\b`).test(label))))
+            .filter(used => used.length > 1);
+
+          const findings: string[] = [];
+          if (variants.size > MAX_BUTTON_VARIANTS) {
+            findings.push(`Buttons use ${variants.size} different shape/typography styles (max ${MAX_BUTTON_VARIANTS})`);
+          }
+          conflictingTerms.forEach(terms => findings.push(`Mixed terminology for the same action: ${terms.join(' / ')}`));
+
+          if (findings.length > 0) {
+            return fail('UI patterns are inconsistent', findings.join('. '));
+          }
+          return pass('UI patterns are consistent', `${buttons.length} buttons share ${variants.size} style variants and consistent terminology.`);
+        });
       }
     }
   ],
@@ -1024,11 +1959,37 @@ const localizationTestingChallenge: ChallengeWithTests = {
       description: 'Evaluates the completeness and accuracy of translations',
       weight: 25,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Translation issues detected',
-          details: 'Found 12 untranslated strings in German version. Spanish translation contains grammatical errors in product descriptions. Error messages in French use machine translation without review.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const findings: string[] = [];
+          const lang = doc.documentElement.lang;
+          if (!lang) {
+            findings.push('The <html> element has no lang attribute');
+          }
+
+          const texts = getTextElements(doc).filter(el => isVisible(el, win));
+          texts.forEach(el => {
+            const text = el.textContent?.trim() || '';
+            if (UNTRANSLATED_PATTERN.test(text)) {
+              findings.push(`Untranslated placeholder "${text.slice(0, 40)}" in ${describeElement(el)}`);
+            } else if (TRANSLATION_KEY_PATTERN.test(text)) {
+              findings.push(`Raw translation key "${text}" in ${describeElement(el)}`);
+            }
+          });
+
+          queryVisible<HTMLElement>(doc, '[placeholder], [title], [alt], [aria-label]').forEach(el => {
+            ['placeholder', 'title', 'alt', 'aria-label'].forEach(attr => {
+              const value = el.getAttribute(attr) || '';
+              if (UNTRANSLATED_PATTERN.test(value) || TRANSLATION_KEY_PATTERN.test(value)) {
+                findings.push(`Untranslated ${attr} "${value}" on ${describeElement(el)}`);
+              }
+            });
+          });
+
+          if (findings.length > 0) {
+            return fail('Translations are incomplete', summarize(findings));
+          }
+          return pass('Translations are complete', `Checked ${texts.length} text elements in "${lang}" with no untranslated strings.`);
+        });
       }
     },
     {
@@ -1037,11 +1998,41 @@ const localizationTestingChallenge: ChallengeWithTests = {
       description: 'Checks if date, time, currency, and number formats are appropriate for each locale',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Formatting issues detected',
-          details: 'Dates in German version use MM/DD/YYYY instead of DD.MM.YYYY format. Currency symbol placement incorrect in French version (15€ instead of 15 €). Number separators inconsistent in Italian version.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const locale = doc.documentElement.lang || 'en-US';
+          let dayFirst = false;
+          let decimalSeparator = '.';
+          try {
+            const parts = new Intl.DateTimeFormat(locale).formatToParts(new Date(2024, 10, 25));
+            dayFirst = parts.findIndex(p => p.type === 'day') < parts.findIndex(p => p.type === 'month');
+            decimalSeparator = new Intl.NumberFormat(locale).formatToParts(1.5).find(p => p.type === 'decimal')?.value || '.';
+          } catch {
+            return fail('Invalid document locale', `"${locale}" is not a valid BCP 47 language tag.`);
+          }
+
+          const text = doc.body.innerText || '';
+          const findings: string[] = [];
+
+          Array.from(text.matchAll(/\b(\d{1,2})[/.](\d{1,2})[/.](\d{4})\b/g)).forEach(([date, first, second]) => {
+            if (dayFirst && Number(second) > 12) {
+              findings.push(`${date} uses month-first order in a day-first locale (${locale})`);
+            } else if (!dayFirst && Number(first) > 12) {
+              findings.push(`${date} uses day-first order in a month-first locale (${locale})`);
+            }
+          });
+
+          const wrongSeparator = decimalSeparator === ','
+            ? /\b\d{1,3}(,\d{3})+\.\d{2}\b/g
+            : /\b\d{1,3}(\.\d{3})+,\d{2}\b/g;
+          Array.from(text.matchAll(wrongSeparator)).forEach(([amount]) => {
+            findings.push(`${amount} uses the wrong decimal separator for ${locale}`);
+          });
+
+          if (findings.length > 0) {
+            return fail(`Dates or numbers are not formatted for ${locale}`, summarize(findings));
+          }
+          return pass('Formats match the page locale', `Dates and numbers follow ${locale} conventions.`);
+        });
       }
     },
     {
@@ -1050,11 +2041,29 @@ const localizationTestingChallenge: ChallengeWithTests = {
       description: 'Verifies if UI accommodates text length differences between languages',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Text expansion issues detected',
-          details: 'Button text gets truncated in German ("Zahlungsmeth..." instead of "Zahlungsmethode"). Navigation menu items overflow in Finnish. Dialog titles break to multiple lines in Russian.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const candidates = queryVisible<HTMLElement>(doc, 'button, a, label, th, [role="tab"], [role="menuitem"], .btn, h1, h2, h3');
+          const truncated = candidates.filter(el => {
+            const style = win.getComputedStyle(el);
+            const clipped = style.overflow === 'hidden' || style.overflowX === 'hidden' || style.textOverflow === 'ellipsis';
+            return clipped && (el.scrollWidth > el.clientWidth + 1 || el.scrollHeight > el.clientHeight + 1);
+          });
+          const overflowing = candidates.filter(el => {
+            const parent = el.parentElement;
+            return parent && el.getBoundingClientRect().right > parent.getBoundingClientRect().right + 1
+              && win.getComputedStyle(parent).overflow !== 'visible';
+          });
+
+          const findings = [
+            ...truncated.map(el => `"${el.textContent?.trim().slice(0, 30)}" is truncated in ${describeElement(el)}`),
+            ...overflowing.map(el => `${describeElement(el)} overflows its container`)
+          ];
+
+          if (findings.length > 0) {
+            return fail('UI does not accommodate longer translations', summarize(findings));
+          }
+          return pass('UI accommodates text expansion', `Checked ${candidates.length} labels and controls for truncation and overflow.`);
+        });
       }
     },
     {
@@ -1063,11 +2072,33 @@ const localizationTestingChallenge: ChallengeWithTests = {
       description: 'Assesses if content is culturally appropriate for target audiences',
       weight: 15,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: true,
-          message: 'Content is culturally appropriate',
-          details: 'Images, examples, and metaphors are well-adapted for different markets. No culturally inappropriate content detected.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const findings: string[] = [];
+          const switcher = doc.querySelector('[aria-label*="language" i], [data-language-switcher], .language-switcher, select[name*="lang" i]');
+          const alternates = doc.querySelectorAll('link[rel="alternate"][hreflang]');
+
+          if (!switcher && alternates.length === 0) {
+            findings.push('No language switcher or hreflang alternates for other audiences');
+          }
+          if (switcher) {
+            const options = Array.from(switcher.querySelectorAll('a, button, option'));
+            options
+              .filter(option => FLAG_EMOJI_PATTERN.test(option.textContent || '') && !/\p{L}{2,}/u.test(option.textContent || ''))
+              .forEach(option => findings.push(`Language option "${option.textContent?.trim()}" uses only a flag, which represents a country rather than a language`));
+            options
+              .filter(option => !option.getAttribute('lang') && !option.getAttribute('hreflang'))
+              .forEach(option => findings.push(`Language option "${option.textContent?.trim()}" has no lang attribute`));
+          }
+
+          queryVisible<HTMLImageElement>(doc, 'img')
+            .filter(img => /text|banner|slogan/i.test(img.currentSrc) && !img.alt)
+            .forEach(img => findings.push(`${img.currentSrc.split('/').pop()} appears to contain text that cannot be localized`));
+
+          if (findings.length > 0) {
+            return fail('Content is not adapted for all target audiences', summarize(findings));
+          }
+          return pass('Content adapts to target audiences', 'Language options are labeled by language and alternate locales are declared.');
+        });
       }
     },
     {
@@ -1076,11 +2107,38 @@ const localizationTestingChallenge: ChallengeWithTests = {
       description: 'Checks support for right-to-left languages like Arabic and Hebrew',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'RTL support issues detected',
-          details: 'Layout doesn\'t mirror properly in Arabic version. Text alignment incorrect in RTL mode. Icons and buttons don\'t flip direction. Input fields show RTL text with LTR alignment.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const lang = (doc.documentElement.lang || '').split('-')[0].toLowerCase();
+          const rtlText = getTextElements(doc).filter(el => RTL_SCRIPT_PATTERN.test(el.textContent || '') && isVisible(el, win));
+
+          if (!RTL_LANGUAGES.includes(lang) && rtlText.length === 0) {
+            return fail('No RTL content to evaluate', 'Switch the application to Arabic or Hebrew before running the RTL test.');
+          }
+
+          const findings: string[] = [];
+          if (RTL_LANGUAGES.includes(lang) && doc.documentElement.dir !== 'rtl') {
+            findings.push(`<html lang="${doc.documentElement.lang}"> is missing dir="rtl"`);
+          }
+
+          rtlText.forEach(el => {
+            const style = win.getComputedStyle(el);
+            if (style.direction !== 'rtl') {
+              findings.push(`${describeElement(el)} renders RTL text left-to-right`);
+            } else if (style.textAlign === 'left') {
+              findings.push(`${describeElement(el)} hard-codes text-align: left`);
+            }
+          });
+
+          const nav = doc.querySelector('nav, [role="navigation"]');
+          if (nav && win.getComputedStyle(nav).direction !== 'rtl') {
+            findings.push('Navigation is not mirrored for RTL');
+          }
+
+          if (findings.length > 0) {
+            return fail('RTL layout is not supported correctly', summarize(findings));
+          }
+          return pass('RTL languages are supported', `${rtlText.length} RTL text elements render right-to-left with a mirrored layout.`);
+        });
       }
     }
   ],
@@ -1159,11 +2217,23 @@ const regressionTestingChallenge: ChallengeWithTests = {
       description: 'Evaluates identification of critical functionality for regression testing',
       weight: 25,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Critical path identification needs improvement',
-          details: 'Missing checkout process in critical paths. User authentication not included. Payment processing flows not prioritized. Some edge cases like promo code handling omitted.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const present = CRITICAL_FLOWS.filter(flow => flow.isPresent(doc));
+          if (present.length === 0) {
+            return fail('No critical user journeys found', 'Navigate to the application pages that contain login, search or checkout.');
+          }
+
+          const exercised = present.filter(flow => env.networkRequests.some(request => flow.endpoint.test(request.url)));
+          const missing = present.filter(flow => !exercised.includes(flow));
+
+          if (missing.length > 0) {
+            return fail(
+              'Critical paths have not been covered',
+              `Found ${present.length} critical journeys; not yet exercised: ${missing.map(flow => flow.name).join(', ')}.`
+            );
+          }
+          return pass('Critical paths identified and exercised', `Covered ${exercised.map(flow => flow.name).join(', ')}.`);
+        });
       }
     },
     {
@@ -1172,11 +2242,31 @@ const regressionTestingChallenge: ChallengeWithTests = {
       description: 'Assesses the quality and completeness of regression test plans',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: true,
-          message: 'Regression test plan is well-structured',
-          details: 'Test plan includes clear test cases with steps, expected results, and priority levels. Tests are organized by feature area and dependency.'
-        };
+        const apiRequests = getApiRequests(env);
+        if (apiRequests.length === 0) {
+          return fail('No test activity captured', 'Execute your regression test plan against the application first.');
+        }
+
+        const endpoints = new Map<string, { success: boolean; failure: boolean }>();
+        apiRequests.forEach(request => {
+          const path = resolveURL(request.url, env.url)?.pathname.replace(/\/\d+(?=\/|$)/g, '/:id') || request.url;
+          const key = `${request.method} ${path}`;
+          const entry = endpoints.get(key) || { success: false, failure: false };
+          if (request.status >= 200 && request.status < 400) entry.success = true;
+          if (request.status >= 400) entry.failure = true;
+          endpoints.set(key, entry);
+        });
+
+        const happyPathOnly = Array.from(endpoints.entries()).filter(([, entry]) => entry.success && !entry.failure).map(([key]) => key);
+        const edgeCaseRatio = 1 - happyPathOnly.length / endpoints.size;
+
+        if (edgeCaseRatio < MIN_EDGE_CASE_COVERAGE) {
+          return fail(
+            'Test plan covers mostly happy paths',
+            `Only ${Math.round(edgeCaseRatio * 100)}% of ${endpoints.size} endpoints were tested with invalid input. Add edge cases for: ${summarize(happyPathOnly)}`
+          );
+        }
+        return pass('Test plan covers happy paths and edge cases', `${Math.round(edgeCaseRatio * 100)}% of ${endpoints.size} endpoints were exercised with both valid and invalid input.`);
       }
     },
     {
@@ -1185,11 +2275,25 @@ const regressionTestingChallenge: ChallengeWithTests = {
       description: 'Checks if regression tests are appropriately prioritized by risk',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Risk prioritization needs improvement',
-          details: 'High-traffic user flows not given highest priority. Critical financial transactions have same priority as UI cosmetic tests. Risk assessment doesn\'t consider historical bug patterns.'
-        };
+        const apiRequests = [...getApiRequests(env)].sort((a, b) => a.startTime - b.startTime);
+        if (apiRequests.length === 0) {
+          return fail('No test activity captured', 'Execute your regression tests so their order can be evaluated.');
+        }
+
+        const riskOf = (url: string) => HIGH_RISK_ENDPOINT_PATTERN.test(url) ? 2 : PROTECTED_PATH_PATTERN.test(url) ? 1 : 0;
+        const firstHighRisk = apiRequests.findIndex(request => riskOf(request.url) === 2);
+        if (firstHighRisk === -1) {
+          return fail('High-risk features were not tested', 'No requests to payment, checkout or authentication endpoints were captured.');
+        }
+
+        const lowRiskFirst = apiRequests.slice(0, firstHighRisk).filter(request => riskOf(request.url) === 0);
+        if (lowRiskFirst.length > apiRequests.length * MAX_LOW_RISK_SHARE_BEFORE_CRITICAL) {
+          return fail(
+            'Tests are not prioritized by risk',
+            `${lowRiskFirst.length} low-risk requests ran before the first high-risk check (${resolveURL(apiRequests[firstHighRisk].url, env.url)?.pathname}).`
+          );
+        }
+        return pass('Regression tests are prioritized by risk', 'High-risk payment and authentication flows were exercised before low-risk features.');
       }
     },
     {
@@ -1198,11 +2302,29 @@ const regressionTestingChallenge: ChallengeWithTests = {
       description: 'Evaluates the balance between manual and automated regression testing',
       weight: 15,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: true,
-          message: 'Good balance of manual and automated testing',
-          details: 'Critical paths automated with proper test coverage. Exploratory testing used for complex user interactions. Visual tests appropriately left to manual testing.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const criticalControls = CRITICAL_FLOWS
+            .flatMap(flow => flow.controls(doc))
+            .filter(el => isVisible(el, win));
+
+          if (criticalControls.length === 0) {
+            return fail('No critical-flow controls found', 'Navigate to the login, search or checkout pages to evaluate automation readiness.');
+          }
+
+          const automatable = criticalControls.filter(el => el.hasAttribute('data-testid') || (el.id && doc.querySelectorAll(`#${CSS.escape(el.id)}`).length === 1));
+          const manualOnly = criticalControls.filter(el => !automatable.includes(el));
+
+          if (automatable.length / criticalControls.length < MIN_TEST_ID_COVERAGE) {
+            return fail(
+              'Critical flows cannot be reliably automated',
+              `${manualOnly.length} of ${criticalControls.length} critical controls lack stable hooks: ${summarize(manualOnly.map(describeElement))}`
+            );
+          }
+          return pass(
+            'Critical flows are ready for automation',
+            `${automatable.length} of ${criticalControls.length} critical controls can be automated; the rest suit exploratory manual testing.`
+          );
+        });
       }
     },
     {
@@ -1211,11 +2333,22 @@ const regressionTestingChallenge: ChallengeWithTests = {
       description: 'Checks if regression testing is effectively integrated into CI/CD pipelines',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'CI/CD integration needs improvement',
-          details: 'Regression tests run too late in the pipeline to provide early feedback. No parallelization for faster results. Missing smoke tests to gate deployments. Test results not easily accessible to developers.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const errors = getConsoleErrors(env);
+          const failedRequests = env.networkRequests.filter(request => request.status >= 500 || request.status === 0);
+          const navigation = getNavigationEntry(win);
+          const readyTime = navigation ? navigation.domContentLoadedEventEnd - navigation.startTime : 0;
+
+          const findings: string[] = [];
+          if (errors.length > 0) findings.push(`${errors.length} console errors: ${summarize(errors, 2)}`);
+          if (failedRequests.length > 0) findings.push(`${failedRequests.length} requests failed: ${summarize(failedRequests.map(r => r.url), 2)}`);
+          if (readyTime > MAX_SMOKE_READY_MS) findings.push(`DOM ready took ${Math.round(readyTime)}ms, too slow for a fast smoke gate`);
+
+          if (findings.length > 0) {
+            return fail('Build would fail the smoke-test gate', findings.join('. '));
+          }
+          return pass('Build passes the smoke-test gate', `No console errors or failed requests; DOM ready in ${Math.round(readyTime)}ms.`);
+        });
       }
     }
   ],
@@ -1294,11 +2427,36 @@ const crossBrowserTestingChallenge: ChallengeWithTests = {
       description: 'Evaluates layout consistency across different browsers',
       weight: 25,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Layout inconsistencies detected',
-          details: 'Navigation menu breaks in Safari. Hero section has different heights in Firefox vs. Chrome. Grid layout has alignment issues in Edge. Font rendering inconsistent in mobile browsers.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const findings: string[] = [];
+          const viewportWidth = doc.documentElement.clientWidth;
+          if (doc.documentElement.scrollWidth > viewportWidth + 1) {
+            findings.push(`Page overflows horizontally by ${doc.documentElement.scrollWidth - viewportWidth}px`);
+          }
+
+          const gridContainers = queryVisible(doc, 'body *').filter(el => /grid/.test(win.getComputedStyle(el).display));
+          const hasGridFallback = getStyleRules(doc).some(rule => 'conditionText' in rule && /display:\s*grid/i.test((rule as CSSSupportsRule).conditionText));
+          if (gridContainers.length > 0 && !hasGridFallback) {
+            findings.push(`${gridContainers.length} CSS Grid layouts have no @supports fallback (${summarize(gridContainers.map(describeElement), 3)})`);
+          }
+
+          const blocks = queryVisible(doc, 'header, nav, main, section, footer, aside');
+          blocks.forEach((el, index) => {
+            const rect = el.getBoundingClientRect();
+            blocks.slice(index + 1)
+              .filter(other => !el.contains(other) && !other.contains(el))
+              .filter(other => {
+                const o = other.getBoundingClientRect();
+                return rect.left < o.right - 1 && o.left < rect.right - 1 && rect.top < o.bottom - 1 && o.top < rect.bottom - 1;
+              })
+              .forEach(other => findings.push(`${describeElement(el)} overlaps ${describeElement(other)}`));
+          });
+
+          if (findings.length > 0) {
+            return fail('Layout is fragile across browsers', summarize(findings));
+          }
+          return pass('Layout is consistent', `${blocks.length} layout regions render without overlap or overflow.`);
+        });
       }
     },
     {
@@ -1307,11 +2465,19 @@ const crossBrowserTestingChallenge: ChallengeWithTests = {
       description: 'Checks if JavaScript functionality works across browsers',
       weight: 25,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'JavaScript compatibility issues detected',
-          details: 'Date picker doesn\'t work in Internet Explorer 11. Custom dropdown menus fail in Safari. Form validation behaves differently in Firefox. Some ES6 features used without polyfills.'
-        };
+        const errors = getConsoleErrors(env);
+        const compatibilityErrors = errors.filter(message => COMPATIBILITY_ERROR_PATTERN.test(message));
+
+        if (compatibilityErrors.length > 0) {
+          return fail(
+            'JavaScript compatibility issues found',
+            `${compatibilityErrors.length} errors indicate unsupported APIs or syntax: ${summarize(compatibilityErrors, 3)}`
+          );
+        }
+        if (errors.length > 0) {
+          return fail('JavaScript errors occurred', summarize(errors, 3));
+        }
+        return pass('JavaScript runs without errors', `No script errors were logged while running in the ${env.device} profile.`);
       }
     },
     {
@@ -1320,11 +2486,42 @@ const crossBrowserTestingChallenge: ChallengeWithTests = {
       description: 'Verifies if CSS features are supported across browsers',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'CSS compatibility issues detected',
-          details: 'CSS Grid layout breaks in older browsers with no fallback. CSS variables not supported in IE11. Flexbox behavior inconsistent in Safari. Missing vendor prefixes for some properties.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const supports = (win as Window & typeof globalThis).CSS?.supports?.bind((win as Window & typeof globalThis).CSS);
+          if (!supports) {
+            return fail('Unable to evaluate CSS support', 'CSS.supports is not available in the application window.');
+          }
+
+          const styleRules = getStyleRules(doc).filter((rule): rule is CSSStyleRule => 'style' in rule && 'selectorText' in rule);
+          const insideSupports = new Set(
+            getStyleRules(doc)
+              .filter(rule => rule.constructor.name === 'CSSSupportsRule')
+              .flatMap(rule => Array.from((rule as CSSSupportsRule).cssRules))
+          );
+
+          const unsupported = new Set<string>();
+          const unguarded = new Set<string>();
+          styleRules.forEach(rule => {
+            Array.from(rule.style).forEach(property => {
+              const value = rule.style.getPropertyValue(property);
+              if (!property.startsWith('--') && !supports(property, value)) {
+                unsupported.add(`${property}: ${value}`);
+              }
+              if (MODERN_CSS_PATTERN.test(`${property}: ${value}`) && !insideSupports.has(rule)) {
+                unguarded.add(`${property}: ${value} in ${rule.selectorText}`);
+              }
+            });
+          });
+
+          const findings = [
+            ...Array.from(unsupported).map(decl => `Unsupported declaration ${decl}`),
+            ...Array.from(unguarded).map(decl => `No fallback for ${decl}`)
+          ];
+          if (findings.length > 0) {
+            return fail('CSS features need fallbacks', summarize(findings));
+          }
+          return pass('CSS features are supported or have fallbacks', `Checked ${styleRules.length} style rules.`);
+        });
       }
     },
     {
@@ -1333,11 +2530,35 @@ const crossBrowserTestingChallenge: ChallengeWithTests = {
       description: 'Tests if forms work consistently across browsers',
       weight: 15,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: true,
-          message: 'Forms work consistently across browsers',
-          details: 'Form controls, validation, and submission work as expected across tested browsers. Date inputs fall back gracefully in unsupported browsers.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const forms = Array.from(doc.querySelectorAll<HTMLFormElement>('form'));
+          if (forms.length === 0) {
+            return fail('No forms found', 'Navigate to a form before testing form behavior.');
+          }
+
+          const findings: string[] = [];
+          forms.forEach(form => {
+            form.querySelectorAll<HTMLInputElement>('input[type]').forEach(input => {
+              const declared = input.getAttribute('type')!.toLowerCase();
+              if (input.type !== declared) {
+                findings.push(`input[type="${declared}"] is unsupported and falls back to "${input.type}"`);
+              } else if (NATIVE_PICKER_TYPES.includes(declared) && !input.placeholder && !input.pattern) {
+                findings.push(`${describeElement(input)} (${declared}) has no placeholder or pattern fallback for browsers without a native picker`);
+              }
+            });
+            form.querySelectorAll('button:not([type])').forEach(button => {
+              findings.push(`"${getAccessibleName(button)}" button has no explicit type and submits the form by default`);
+            });
+            if (!form.getAttribute('action') && !form.hasAttribute('data-testid') && !form.onsubmit) {
+              findings.push(`${describeElement(form)} has no action, so submission behavior depends on the browser`);
+            }
+          });
+
+          if (findings.length > 0) {
+            return fail('Form behavior differs across browsers', summarize(findings));
+          }
+          return pass('Forms behave consistently', `All ${forms.length} forms use supported input types with explicit submission behavior.`);
+        });
       }
     },
     {
@@ -1346,11 +2567,26 @@ const crossBrowserTestingChallenge: ChallengeWithTests = {
       description: 'Compares performance across different browsers',
       weight: 15,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: true,
-          message: 'Performance is acceptable across browsers',
-          details: 'Page load and rendering times are within acceptable ranges across all tested browsers. Animation performance is consistent.'
-        };
+        return inspectDocument(env, async (doc, win) => {
+          const navigation = getNavigationEntry(win);
+          const longTasks = await collectLongTasks(win);
+          const resources = getResourceEntries(win);
+          if (!navigation) {
+            return fail('No performance data available', 'Reload the application so navigation timing can be collected.');
+          }
+
+          const metrics = {
+            domReady: navigation.domContentLoadedEventEnd - navigation.startTime,
+            load: navigation.loadEventEnd - navigation.startTime,
+            blocking: longTasks.reduce((total, task) => total + Math.max(0, task.duration - 50), 0)
+          };
+          const summary = `DOM ready ${Math.round(metrics.domReady)}ms, load ${Math.round(metrics.load)}ms, ${Math.round(metrics.blocking)}ms blocking, ${resources.length} resources`;
+
+          if (metrics.domReady > MAX_SMOKE_READY_MS || metrics.load > MAX_PAGE_LOAD_MS || metrics.blocking > MAX_BLOCKING_TIME_MS) {
+            return fail(`Performance is outside budget in this browser (${env.device})`, summary);
+          }
+          return pass(`Performance is within budget in this browser (${env.device})`, summary);
+        });
       }
     }
   ],
@@ -1429,11 +2665,28 @@ const graphqlTestingChallenge: ChallengeWithTests = {
       description: 'Validates GraphQL query structure and syntax',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: true,
-          message: 'GraphQL queries are valid',
-          details: 'All sample queries parsed successfully. Field selections and arguments properly structured. Fragment usage is correct.'
-        };
+        const endpoint = getGraphQLEndpoint(env);
+        if (!endpoint) {
+          return fail('No GraphQL endpoint found', 'Run at least one GraphQL query from the application first.');
+        }
+
+        const valid = await graphQLRequest(endpoint, '{ __typename }');
+        const malformed = await graphQLRequest(endpoint, '{ __typename');
+        const findings: string[] = [];
+
+        if (!valid?.body?.data?.__typename) {
+          findings.push(`A valid query returned ${valid ? `status ${valid.status} without data` : 'no response'}`);
+        }
+        if (!malformed?.body?.errors?.length) {
+          findings.push('A syntactically invalid query was not rejected with an errors array');
+        } else if (malformed.body.data) {
+          findings.push('A syntactically invalid query returned partial data');
+        }
+
+        if (findings.length > 0) {
+          return fail('Query validation is not working correctly', findings.join('. '));
+        }
+        return pass('Queries are validated correctly', 'Valid queries resolve and malformed queries are rejected with errors.');
       }
     },
     {
@@ -1442,11 +2695,40 @@ const graphqlTestingChallenge: ChallengeWithTests = {
       description: 'Checks if GraphQL schema types are properly defined',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Schema definition issues detected',
-          details: 'User type missing required email field. Order type references non-existent Product type. Some mutation inputs lack validation rules. Enum values inconsistently named.'
-        };
+        const endpoint = getGraphQLEndpoint(env);
+        if (!endpoint) {
+          return fail('No GraphQL endpoint found', 'Run at least one GraphQL query from the application first.');
+        }
+
+        const result = await graphQLRequest(endpoint, INTROSPECTION_QUERY);
+        const schema = result?.body?.data?.__schema as IntrospectionSchema | undefined;
+        if (!schema) {
+          return fail('Schema could not be introspected', 'Enable introspection in the development environment to validate the schema.');
+        }
+
+        const objectTypes = schema.types.filter(type => type.kind === 'OBJECT' && !type.name.startsWith('__'));
+        const typeNames = new Set(schema.types.map(type => type.name));
+        const findings: string[] = [];
+
+        objectTypes.forEach(type => {
+          if (!type.fields || type.fields.length === 0) {
+            findings.push(`${type.name} defines no fields`);
+          }
+          type.fields?.forEach(field => {
+            const named = unwrapGraphQLType(field.type);
+            if (named && !typeNames.has(named)) {
+              findings.push(`${type.name}.${field.name} references missing type ${named}`);
+            }
+            if (field.name === 'id' && field.type.kind !== 'NON_NULL') {
+              findings.push(`${type.name}.id is nullable`);
+            }
+          });
+        });
+
+        if (findings.length > 0) {
+          return fail('Schema definitions are incomplete', summarize(findings));
+        }
+        return pass('Schema types are properly defined', `${objectTypes.length} object types have fields and resolvable references.`);
       }
     },
     {
@@ -1455,11 +2737,29 @@ const graphqlTestingChallenge: ChallengeWithTests = {
       description: 'Verifies that resolvers return the expected data',
       weight: 25,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Resolver issues detected',
-          details: 'User resolver doesn\'t handle missing data gracefully. Posts resolver doesn\'t properly filter by date. Comments resolver N+1 query problem detected. Author resolver doesn\'t support pagination.'
-        };
+        const requests = env.networkRequests.filter(isGraphQLRequest);
+        if (requests.length === 0) {
+          return fail('No GraphQL operations captured', 'Run queries from the application so resolver responses can be evaluated.');
+        }
+
+        const failed = requests.filter(request => request.status < 200 || request.status >= 300);
+        const slow = requests.filter(request => parseDuration(request.time) > MAX_API_RESPONSE_MS);
+        const batches = new Map<number, number>();
+        requests.forEach(request => {
+          const bucket = Math.floor(request.startTime / N_PLUS_ONE_WINDOW_MS);
+          batches.set(bucket, (batches.get(bucket) || 0) + 1);
+        });
+        const burst = Math.max(...Array.from(batches.values()));
+
+        const findings: string[] = [];
+        if (failed.length > 0) findings.push(`${failed.length} operations failed (${summarize(failed.map(r => String(r.status)), 3)})`);
+        if (slow.length > 0) findings.push(`${slow.length} operations took over ${MAX_API_RESPONSE_MS}ms`);
+        if (burst > MAX_BURST_REQUESTS) findings.push(`${burst} operations fired within ${N_PLUS_ONE_WINDOW_MS}ms, suggesting an N+1 pattern`);
+
+        if (findings.length > 0) {
+          return fail('Resolvers are not returning data reliably', findings.join('. '));
+        }
+        return pass('Resolvers return data reliably', `${requests.length} GraphQL operations completed successfully and promptly.`);
       }
     },
     {
@@ -1468,11 +2768,37 @@ const graphqlTestingChallenge: ChallengeWithTests = {
       description: 'Evaluates error handling in GraphQL operations',
       weight: 15,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Error handling needs improvement',
-          details: 'Some errors expose internal details that should be hidden. Authentication errors don\'t provide clear messages. Field-level errors not properly propagated to client.'
-        };
+        const endpoint = getGraphQLEndpoint(env);
+        if (!endpoint) {
+          return fail('No GraphQL endpoint found', 'Run at least one GraphQL query from the application first.');
+        }
+
+        const result = await graphQLRequest(endpoint, '{ __nonexistentField__ }');
+        if (!result) {
+          return fail('GraphQL endpoint did not respond', `No response from ${endpoint}.`);
+        }
+
+        const errors = result.body?.errors || [];
+        const findings: string[] = [];
+        if (errors.length === 0) {
+          findings.push('Querying an unknown field did not return an errors array');
+        }
+        if (result.status >= 500) {
+          findings.push(`Validation error returned HTTP ${result.status}`);
+        }
+        errors.forEach(error => {
+          if (!error.message) {
+            findings.push('An error has no message');
+          }
+          if (STACK_TRACE_PATTERN.test(JSON.stringify(error))) {
+            findings.push(`Error leaks internal details: "${error.message?.slice(0, 60)}"`);
+          }
+        });
+
+        if (findings.length > 0) {
+          return fail('GraphQL error handling is inadequate', summarize(findings));
+        }
+        return pass('GraphQL errors are descriptive and safe', 'Invalid operations return clear messages without internal details.');
       }
     },
     {
@@ -1481,11 +2807,44 @@ const graphqlTestingChallenge: ChallengeWithTests = {
       description: 'Tests create, update, and delete operations via GraphQL mutations',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: true,
-          message: 'Mutation operations work correctly',
-          details: 'Create, update, and delete mutations function as expected. Input validation is properly implemented. Return values reflect changes accurately.'
-        };
+        const endpoint = getGraphQLEndpoint(env);
+        if (!endpoint) {
+          return fail('No GraphQL endpoint found', 'Run at least one GraphQL query from the application first.');
+        }
+
+        const result = await graphQLRequest(endpoint, INTROSPECTION_QUERY);
+        const schema = result?.body?.data?.__schema as IntrospectionSchema | undefined;
+        if (!schema) {
+          return fail('Schema could not be introspected', 'Enable introspection in the development environment to inspect mutations.');
+        }
+
+        const mutationType = schema.types.find(type => type.name === schema.mutationType?.name);
+        const mutations = mutationType?.fields?.map(field => field.name) || [];
+        if (mutations.length === 0) {
+          return fail('No mutations defined', 'The schema exposes no create, update or delete operations.');
+        }
+
+        const operations = Object.keys(MUTATION_VERBS);
+        const crudMutations = mutations.filter(name => new RegExp(`^(${Object.values(MUTATION_VERBS).join('|')})`, 'i').test(name));
+        if (crudMutations.length === 0) {
+          return fail('No CRUD mutations defined', `Found ${mutations.length} mutations, none of which create, update or delete data.`);
+        }
+
+        const entities = new Set(crudMutations.map(name => name.replace(new RegExp(`^(${Object.values(MUTATION_VERBS).join('|')})`, 'i'), '')));
+        const incomplete = Array.from(entities)
+          .map(entity => ({
+            entity,
+            missing: operations.filter(op => !mutations.some(name => new RegExp(`^${MUTATION_VERBS[op]}${entity}$`, 'i').test(name)))
+          }))
+          .filter(({ missing }) => missing.length > 0);
+
+        if (incomplete.length > 0) {
+          return fail(
+            'Mutation coverage is incomplete',
+            summarize(incomplete.map(({ entity, missing }) => `${entity || 'unknown'} is missing ${missing.join('/')}`))
+          );
+        }
+        return pass('CRUD mutations are available', `${mutations.length} mutations cover create, update and delete for ${entities.size} entities.`);
       }
     }
   ],
@@ -1564,11 +2923,23 @@ const visualRegressionTestingChallenge: ChallengeWithTests = {
       description: 'Evaluates the quality and coverage of baseline screenshots',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Baseline coverage needs improvement',
-          details: 'Missing baselines for critical pages (checkout, product details). Some baselines captured at wrong viewport sizes. Several baselines outdated (over 3 months old).'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const images = Array.from(doc.images);
+          const broken = images.filter(img => img.complete && img.naturalWidth === 0 && img.currentSrc);
+          const pending = images.filter(img => !img.complete && img.loading !== 'lazy');
+          const fontsReady = !doc.fonts || doc.fonts.status === 'loaded';
+
+          const findings = [
+            ...broken.map(img => `Broken image ${img.currentSrc.split('/').pop()}`),
+            ...pending.map(img => `Image ${img.currentSrc.split('/').pop() || describeElement(img)} is still loading`)
+          ];
+          if (!fontsReady) findings.push('Web fonts are still loading');
+
+          if (findings.length > 0) {
+            return fail('Page is not ready for a baseline capture', summarize(findings));
+          }
+          return pass('Page renders completely for baselines', `All ${images.length} images and web fonts are loaded.`);
+        });
       }
     },
     {
@@ -1577,11 +2948,34 @@ const visualRegressionTestingChallenge: ChallengeWithTests = {
       description: 'Checks if screenshot capture settings are appropriate',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: true,
-          message: 'Screenshot configuration is appropriate',
-          details: 'Screenshots captured at relevant viewport sizes. Full-page screenshots used where appropriate. Element-specific screenshots used for complex components.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const findings: string[] = [];
+          const preset = env.iframe?.getBoundingClientRect();
+          if (preset && (preset.width === 0 || preset.height === 0)) {
+            findings.push('Testing viewport has no size');
+          }
+
+          const animations = typeof doc.getAnimations === 'function' ? doc.getAnimations() : [];
+          const infinite = animations.filter(animation => animation.effect?.getComputedTiming().iterations === Infinity);
+          if (infinite.length > 0) {
+            findings.push(`${infinite.length} infinite animations will make screenshots non-deterministic`);
+          }
+
+          const fixed = queryVisible(doc, 'body *').filter(el => ['fixed', 'sticky'].includes(win.getComputedStyle(el).position));
+          if (fixed.length > 0 && doc.documentElement.scrollHeight > win.innerHeight) {
+            findings.push(`${fixed.length} fixed/sticky elements will repeat in full-page captures (${summarize(fixed.map(describeElement), 3)})`);
+          }
+
+          const caretFields = queryVisible<HTMLElement>(doc, 'input, textarea').filter(el => el === doc.activeElement);
+          if (caretFields.length > 0) {
+            findings.push('A focused field will capture a blinking caret');
+          }
+
+          if (findings.length > 0) {
+            return fail('Screenshot capture settings need adjustment', summarize(findings));
+          }
+          return pass('Page is stable for screenshot capture', `Viewport ${Math.round(preset?.width || 0)}x${Math.round(preset?.height || 0)} with no running animations.`);
+        });
       }
     },
     {
@@ -1590,11 +2984,34 @@ const visualRegressionTestingChallenge: ChallengeWithTests = {
       description: 'Verifies if comparison thresholds are properly calibrated',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Threshold configuration needs adjustment',
-          details: 'Global threshold too strict (0.001) causing false positives. Some pages need looser thresholds due to animation or content rotation. Pixel-perfect comparison used where anti-aliasing causes issues.'
-        };
+        return inspectDocument(env, async (doc, win) => {
+          const snapshot = () => queryVisible(doc, 'body *').map(el => {
+            const rect = el.getBoundingClientRect();
+            return `${Math.round(rect.left)},${Math.round(rect.top)},${Math.round(rect.width)},${Math.round(rect.height)}`;
+          });
+
+          const before = snapshot();
+          await new Promise(resolve => setTimeout(resolve, STABILITY_SAMPLE_MS));
+          const after = snapshot();
+
+          if (before.length === 0) {
+            return fail('No rendered content to compare', 'Load a page with visible content before calibrating thresholds.');
+          }
+
+          const changed = before.filter((rect, index) => rect !== after[index]).length + Math.abs(before.length - after.length);
+          const drift = changed / before.length;
+
+          if (drift > MAX_LAYOUT_DRIFT) {
+            return fail(
+              'Layout is too unstable for a tight comparison threshold',
+              `${changed} of ${before.length} elements moved within ${STABILITY_SAMPLE_MS}ms (${(drift * 100).toFixed(1)}%). Stabilize the page before lowering the threshold.`
+            );
+          }
+          return pass(
+            'Layout is stable enough for a strict threshold',
+            `${(drift * 100).toFixed(1)}% of elements moved between samples, supporting a threshold around ${MAX_LAYOUT_DRIFT}.`
+          );
+        });
       }
     },
     {
@@ -1603,11 +3020,26 @@ const visualRegressionTestingChallenge: ChallengeWithTests = {
       description: 'Evaluates how well visual tests handle dynamic content',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: false,
-          message: 'Dynamic content handling needs improvement',
-          details: 'No ignore regions defined for date/time displays. Carousel images cause false positives. Dynamic user data not properly masked or mocked. A/B test variations causing inconsistent results.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const dynamic = [
+            ...queryVisible(doc, 'time, video[autoplay], [aria-roledescription="carousel"], .carousel, [class*="carousel"], [aria-live]'),
+            ...getTextElements(doc).filter(el => isVisible(el, win) && DYNAMIC_TEXT_PATTERN.test(el.textContent || ''))
+          ];
+          const unique = Array.from(new Set(dynamic));
+
+          if (unique.length === 0) {
+            return pass('No dynamic content detected', 'The page has no dates, timers, carousels or live regions that would change between captures.');
+          }
+
+          const unmasked = unique.filter(el => !el.closest(`[${VISUAL_IGNORE_ATTRIBUTE}]`));
+          if (unmasked.length > 0) {
+            return fail(
+              'Dynamic content is not excluded from visual comparison',
+              `${unmasked.length} dynamic regions need ${VISUAL_IGNORE_ATTRIBUTE}: ${summarize(unmasked.map(describeElement))}`
+            );
+          }
+          return pass('Dynamic content is handled', `All ${unique.length} dynamic regions are marked as ignore regions.`);
+        });
       }
     },
     {
@@ -1616,11 +3048,29 @@ const visualRegressionTestingChallenge: ChallengeWithTests = {
       description: 'Checks how effectively visual testing is integrated into CI/CD',
       weight: 20,
       testFunction: async (env: TestingEnvironment): Promise<TestResult> => {
-        return {
-          passed: true,
-          message: 'CI/CD integration is effective',
-          details: 'Visual tests run automatically on pull requests. Results displayed in PR comments with visual diffs. Approval workflow for intentional visual changes.'
-        };
+        return inspectDocument(env, (doc, win) => {
+          const findings: string[] = [];
+          const errors = getConsoleErrors(env);
+          if (errors.length > 0) {
+            findings.push(`${errors.length} console errors would fail the pipeline: ${summarize(errors, 2)}`);
+          }
+
+          const failed = env.networkRequests.filter(request => request.status >= 400 || request.status === 0);
+          if (failed.length > 0) {
+            findings.push(`${failed.length} failed requests would render error states in screenshots`);
+          }
+
+          const experiments = doc.querySelectorAll('[data-variant], [data-experiment], [data-ab-test]');
+          const pinned = Array.from(experiments).filter(el => el.hasAttribute(VISUAL_IGNORE_ATTRIBUTE) || el.getAttribute('data-variant') === 'control');
+          if (experiments.length > pinned.length) {
+            findings.push(`${experiments.length - pinned.length} A/B test variations are not pinned for visual runs`);
+          }
+
+          if (findings.length > 0) {
+            return fail('Visual tests are not deterministic enough for CI/CD', findings.join('. '));
+          }
+          return pass('Visual tests can run deterministically in CI/CD', 'No errors, failed requests or unpinned experiments were found.');
+        });
       }
     }
   ],
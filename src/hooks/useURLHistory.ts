@@ -11,7 +11,8 @@ export const useURLHistory = () => {
       // Initialize the service if not already initialized
       await URLShortenerService.initialize();
 
-      const urls = await URLShortenerService.getURLs();
+      // Expired links stay listed so they can be found and extended
+      const urls = await URLShortenerService.getURLs(true);
 
       // Ensure urls is an array before proceeding
       if (!Array.isArray(urls)) {
@@ -118,6 +119,7 @@ export const useURLHistory = () => {
 
   return {
     urlHistory,
+    reloadHistory: loadHistory,
     addToHistory,
     removeFromHistory,
     updateInHistory
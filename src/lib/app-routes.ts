@@ -0,0 +1,31 @@
+/**
+ * Paths of the app's own pages. The router mounts these, and short codes served at the
+ * root path are checked against them so a link can never shadow a page.
+ */
+export const APP_ROUTES = {
+  root: '/',
+  home: '/home',
+  blog: '/blog',
+  blogPost: '/blog/:slug',
+  resources: '/resources',
+  projects: '/projects',
+  projectDetail: '/projects/:slug',
+  services: '/services',
+  professionalTools: '/professional-tools',
+  contactForm: '/contact-form',
+  apiTester: '/tools/api-tester',
+  testCaseGenerator: '/tools/test-case-generator',
+  bugReportSimulator: '/tools/bug-report-simulator',
+  codeReviewTool: '/tools/code-review-tool',
+  urlShortener: '/url-shortener',
+  playground: '/playground/*'
+} as const;
+
+/**
+ * First path segment of every app route, lowercased (the router matches case-insensitively)
+ */
+export const APP_ROUTE_SEGMENTS: string[] = Array.from(new Set(
+  Object.values(APP_ROUTES)
+    .map(path => path.split('/')[1]?.toLowerCase() || '')
+    .filter(segment => segment && !segment.startsWith(':') && segment !== '*')
+));
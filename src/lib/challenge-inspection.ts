@@ -0,0 +1,510 @@
+/**
+ * DOM, console and network inspection helpers for playground challenge tests
+ * Every helper works against the environment TestingEnvironment.runTests passes in
+ */
+import type { NetworkRequest, TestingEnvironment, TestResult } from '@/types/playground';
+
+// Console source used by the test runner for its own log lines
+export const TEST_RUNNER_SOURCE = 'test-runner';
+
+const MAX_LISTED_FINDINGS = 5;
+const PROBE_TIMEOUT_MS = 5000;
+
+export const INTERACTIVE_SELECTOR = [
+  'a[href]',
+  'button',
+  'input:not([type="hidden"])',
+  'select',
+  'textarea',
+  'summary',
+  '[role="button"]',
+  '[role="link"]',
+  '[role="checkbox"]',
+  '[role="tab"]',
+  '[onclick]',
+  '[contenteditable="true"]'
+].join(', ');
+
+/**
+ * Build a passing test result
+ */
+export function pass(message: string, details?: string): TestResult {
+  return { passed: true, message, details };
+}
+
+/**
+ * Build a failing test result
+ */
+export function fail(message: string, details?: string): TestResult {
+  return { passed: false, message, details };
+}
+
+/**
+ * Summarize a list of findings, keeping details readable for long lists
+ */
+export function summarize(items: string[], limit: number = MAX_LISTED_FINDINGS): string {
+  if (items.length <= limit) {
+    return items.join('; ');
+  }
+  return `${items.slice(0, limit).join('; ')}; and ${items.length - limit} more`;
+}
+
+/**
+ * Get the iframe document if it is same-origin and loaded
+ */
+export function getTestDocument(env: TestingEnvironment): Document | null {
+  try {
+    const doc = env.iframe?.contentDocument;
+    if (!doc || !doc.body || doc.location.href === 'about:blank') {
+      return null;
+    }
+    return doc;
+  } catch {
+    // Cross-origin frames throw a SecurityError on access
+    return null;
+  }
+}
+
+/**
+ * Run an inspector against the iframe document, failing cleanly when it cannot be read
+ */
+export async function inspectDocument(
+  env: TestingEnvironment,
+  inspector: (doc: Document, win: Window) => TestResult | Promise<TestResult>
+): Promise<TestResult> {
+  const doc = getTestDocument(env);
+  const win = doc?.defaultView;
+  if (!doc || !win) {
+    return fail(
+      'Unable to inspect the application',
+      'Load the challenge application in the testing environment (same-origin) before running tests.'
+    );
+  }
+  return inspector(doc, win);
+}
+
+/**
+ * Short human-readable description of an element, e.g. img#hero.banner
+ */
+export function describeElement(el: Element): string {
+  const id = el.id ? `#${el.id}` : '';
+  const classes = Array.from(el.classList).slice(0, 2).map(c => `.${c}`).join('');
+  return `${el.tagName.toLowerCase()}${id}${classes}`;
+}
+
+/**
+ * Whether an element is rendered and visible to users
+ */
+export function isVisible(el: Element, win: Window): boolean {
+  if (el.closest('[hidden], [aria-hidden="true"]')) {
+    return false;
+  }
+  const style = win.getComputedStyle(el);
+  if (style.display === 'none' || style.visibility === 'hidden' || style.opacity === '0') {
+    return false;
+  }
+  const rect = el.getBoundingClientRect();
+  return rect.width > 0 && rect.height > 0;
+}
+
+/**
+ * Query visible elements matching a selector
+ */
+export function queryVisible<T extends Element = Element>(doc: Document, selector: string): T[] {
+  const win = doc.defaultView;
+  return Array.from(doc.querySelectorAll<T>(selector)).filter(el => !win || isVisible(el, win));
+}
+
+/**
+ * Compute the accessible name of an element following the common cases of the
+ * accessible name algorithm (aria-labelledby, aria-label, labels, alt, title, text)
+ */
+export function getAccessibleName(el: Element): string {
+  const doc = el.ownerDocument;
+
+  const labelledBy = el.getAttribute('aria-labelledby');
+  if (labelledBy) {
+    const text = labelledBy
+      .split(/\s+/)
+      .map(id => doc.getElementById(id)?.textContent?.trim() || '')
+      .join(' ')
+      .trim();
+    if (text) return text;
+  }
+
+  const ariaLabel = el.getAttribute('aria-label')?.trim();
+  if (ariaLabel) return ariaLabel;
+
+  if ('labels' in el) {
+    const labels = (el as HTMLInputElement).labels;
+    if (labels && labels.length > 0) {
+      const text = Array.from(labels).map(l => l.textContent?.trim() || '').join(' ').trim();
+      if (text) return text;
+    }
+  }
+
+  const alt = el.getAttribute('alt')?.trim();
+  if (alt) return alt;
+
+  if (el.tagName === 'INPUT') {
+    const input = el as HTMLInputElement;
+    if (['submit', 'button', 'reset'].includes(input.type) && input.value) {
+      return input.value.trim();
+    }
+  }
+
+  const title = el.getAttribute('title')?.trim();
+  if (title) return title;
+
+  const text = el.textContent?.trim();
+  if (text && !['INPUT', 'SELECT', 'TEXTAREA'].includes(el.tagName)) return text;
+
+  const img = el.querySelector('img[alt], svg[aria-label]');
+  return img?.getAttribute('alt')?.trim() || img?.getAttribute('aria-label')?.trim() || '';
+}
+
+/**
+ * Parse a CSS rgb()/rgba() color into its channels
+ */
+export function parseColor(value: string): [number, number, number, number] | null {
+  const match = value.match(/rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+%?))?\s*\)/i);
+  if (!match) return null;
+  let alpha = 1;
+  if (match[4] !== undefined) {
+    alpha = match[4].endsWith('%') ? parseFloat(match[4]) / 100 : parseFloat(match[4]);
+  }
+  return [parseFloat(match[1]), parseFloat(match[2]), parseFloat(match[3]), alpha];
+}
+
+function relativeLuminance([r, g, b]: [number, number, number, number]): number {
+  const channel = (c: number) => {
+    const s = c / 255;
+    return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+/**
+ * WCAG contrast ratio between two opaque colors
+ */
+export function contrastRatio(
+  foreground: [number, number, number, number],
+  background: [number, number, number, number]
+): number {
+  const l1 = relativeLuminance(foreground);
+  const l2 = relativeLuminance(background);
+  const [lighter, darker] = l1 > l2 ? [l1, l2] : [l2, l1];
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+function blend(
+  top: [number, number, number, number],
+  bottom: [number, number, number, number]
+): [number, number, number, number] {
+  const a = top[3];
+  return [
+    top[0] * a + bottom[0] * (1 - a),
+    top[1] * a + bottom[1] * (1 - a),
+    top[2] * a + bottom[2] * (1 - a),
+    1
+  ];
+}
+
+/**
+ * Resolve the effective (composited) background color behind an element
+ * Returns null when a background image makes the color undeterminable
+ */
+export function getEffectiveBackground(el: Element, win: Window): [number, number, number, number] | null {
+  const layers: [number, number, number, number][] = [];
+  let current: Element | null = el;
+
+  while (current) {
+    const style = win.getComputedStyle(current);
+    if (style.backgroundImage && style.backgroundImage !== 'none') {
+      return null;
+    }
+    const color = parseColor(style.backgroundColor);
+    if (color && color[3] > 0) {
+      layers.push(color);
+      if (color[3] >= 1) break;
+    }
+    current = current.parentElement;
+  }
+
+  return layers.reduceRight<[number, number, number, number]>(
+    (acc, layer) => blend(layer, acc),
+    [255, 255, 255, 1]
+  );
+}
+
+/**
+ * Parse a duration such as "120 ms", "1.2s" or "87" into milliseconds
+ */
+export function parseDuration(value: string | number | undefined): number {
+  if (typeof value === 'number') return value;
+  if (!value) return 0;
+  const match = value.trim().match(/^([\d.]+)\s*(ms|s)?$/i);
+  if (!match) return 0;
+  const amount = parseFloat(match[1]);
+  return match[2]?.toLowerCase() === 's' ? amount * 1000 : amount;
+}
+
+/**
+ * Parse a size such as "12.5 KB", "1.2MB" or "300 B" into bytes
+ */
+export function parseSize(value: string | number | undefined): number {
+  if (typeof value === 'number') return value;
+  if (!value) return 0;
+  const match = value.trim().match(/^([\d.]+)\s*(b|kb|mb|gb)?$/i);
+  if (!match) return 0;
+  const multipliers: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+  return parseFloat(match[1]) * (multipliers[(match[2] || 'b').toLowerCase()] || 1);
+}
+
+/**
+ * Format a byte count for result details
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)}MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)}KB`;
+  return `${Math.round(bytes)}B`;
+}
+
+/**
+ * Safe URL parsing relative to the inspected page
+ */
+export function resolveURL(url: string, base?: string): URL | null {
+  try {
+    return new URL(url, base);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a captured request targets an API rather than a static asset
+ */
+export function isApiRequest(request: NetworkRequest): boolean {
+  const type = request.type?.toLowerCase();
+  return type === 'fetch' || type === 'xhr' || /\/(api|graphql|v\d+)\b/i.test(request.url);
+}
+
+export function getApiRequests(env: TestingEnvironment): NetworkRequest[] {
+  return env.networkRequests.filter(isApiRequest);
+}
+
+export function isGraphQLRequest(request: NetworkRequest): boolean {
+  return /graphql/i.test(request.url);
+}
+
+/**
+ * Console errors captured from the application
+ */
+export function getConsoleErrors(env: TestingEnvironment): string[] {
+  return env.consoleLogs
+    .filter(log => log.type === 'error' && log.source !== TEST_RUNNER_SOURCE)
+    .map(log => log.message);
+}
+
+/**
+ * Fetch a resource with a timeout, for tests that actively probe the application
+ */
+export async function probe(url: string, init: RequestInit = {}): Promise<Response | null> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Read a JSON body without throwing on malformed payloads
+ */
+export async function readJSON(response: Response): Promise<{ ok: true; data: unknown } | { ok: false }> {
+  try {
+    return { ok: true, data: await response.clone().json() };
+  } catch {
+    return { ok: false };
+  }
+}
+
+/**
+ * Send a GraphQL operation to an endpoint and parse the response
+ */
+export async function graphQLRequest(
+  endpoint: string,
+  query: string
+): Promise<{ status: number; body: { data?: Record<string, unknown>; errors?: { message: string; extensions?: Record<string, unknown> }[] } | null } | null> {
+  const response = await probe(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query })
+  });
+  if (!response) return null;
+  const parsed = await readJSON(response);
+  return {
+    status: response.status,
+    body: parsed.ok ? (parsed.data as { data?: Record<string, unknown>; errors?: { message: string }[] }) : null
+  };
+}
+
+/**
+ * Resource timing entries recorded by the application window
+ */
+export function getResourceEntries(win: Window): PerformanceResourceTiming[] {
+  try {
+    return win.performance.getEntriesByType('resource') as PerformanceResourceTiming[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Navigation timing for the current application page
+ */
+export function getNavigationEntry(win: Window): PerformanceNavigationTiming | null {
+  try {
+    const [entry] = win.performance.getEntriesByType('navigation') as PerformanceNavigationTiming[];
+    return entry || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Collect buffered long tasks from the application window
+ */
+export function collectLongTasks(win: Window): Promise<PerformanceEntry[]> {
+  const Observer = (win as Window & typeof globalThis).PerformanceObserver;
+  if (!Observer || !Observer.supportedEntryTypes?.includes('longtask')) {
+    return Promise.resolve([]);
+  }
+
+  return new Promise(resolve => {
+    const entries: PerformanceEntry[] = [];
+    const observer = new Observer(list => {
+      entries.push(...list.getEntries());
+    });
+    observer.observe({ type: 'longtask', buffered: true });
+    // Buffered entries are delivered asynchronously
+    setTimeout(() => {
+      entries.push(...observer.takeRecords());
+      observer.disconnect();
+      resolve(entries);
+    }, 50);
+  });
+}
+
+/**
+ * Iterate same-origin stylesheet rules, recursing into grouping rules
+ */
+export function getStyleRules(doc: Document): CSSRule[] {
+  const rules: CSSRule[] = [];
+  const walk = (list: CSSRuleList) => {
+    Array.from(list).forEach(rule => {
+      rules.push(rule);
+      if ('cssRules' in rule && (rule as CSSGroupingRule).cssRules) {
+        walk((rule as CSSGroupingRule).cssRules);
+      }
+    });
+  };
+
+  Array.from(doc.styleSheets).forEach(sheet => {
+    try {
+      walk(sheet.cssRules);
+    } catch {
+      // Cross-origin stylesheets cannot be read
+    }
+  });
+
+  return rules;
+}
+
+/**
+ * Visible text nodes' parent elements, used for text-level checks
+ */
+export function getTextElements(doc: Document): Element[] {
+  const elements = new Set<Element>();
+  const walker = doc.createTreeWalker(doc.body, NodeFilter.SHOW_TEXT);
+  let node = walker.nextNode();
+  while (node) {
+    const parent = node.parentElement;
+    if (parent && node.textContent?.trim() && !['SCRIPT', 'STYLE', 'NOSCRIPT'].includes(parent.tagName)) {
+      elements.add(parent);
+    }
+    node = walker.nextNode();
+  }
+  return Array.from(elements);
+}
+
+/**
+ * Fields whose value types differ between records of the same collection
+ */
+export function findInconsistentFields(records: unknown[]): string[] {
+  const typesByField = new Map<string, Set<string>>();
+  records
+    .filter((record): record is Record<string, unknown> => !!record && typeof record === 'object' && !Array.isArray(record))
+    .forEach(record => {
+      Object.entries(record).forEach(([field, value]) => {
+        const type = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+        if (!typesByField.has(field)) typesByField.set(field, new Set());
+        typesByField.get(field)!.add(type);
+      });
+    });
+
+  return Array.from(typesByField.entries())
+    .filter(([, types]) => Array.from(types).filter(type => type !== 'null').length > 1)
+    .map(([field]) => field);
+}
+
+// GraphQL introspection shapes used by schema tests
+export interface IntrospectionTypeRef {
+  kind: string;
+  name: string | null;
+  ofType?: IntrospectionTypeRef | null;
+}
+
+export interface IntrospectionSchema {
+  queryType: { name: string } | null;
+  mutationType: { name: string } | null;
+  types: {
+    kind: string;
+    name: string;
+    fields: { name: string; type: IntrospectionTypeRef }[] | null;
+  }[];
+}
+
+export const INTROSPECTION_QUERY = `{
+  __schema {
+    queryType { name }
+    mutationType { name }
+    types {
+      kind
+      name
+      fields { name type { kind name ofType { kind name ofType { kind name ofType { kind name } } } } }
+    }
+  }
+}`;
+
+/**
+ * Resolve the named type behind NON_NULL and LIST wrappers
+ */
+export function unwrapGraphQLType(type: IntrospectionTypeRef | null | undefined): string | null {
+  let current = type;
+  while (current && !current.name) {
+    current = current.ofType;
+  }
+  return current?.name || null;
+}
+
+/**
+ * The GraphQL endpoint the application talks to, resolved from captured requests
+ */
+export function getGraphQLEndpoint(env: TestingEnvironment): string | null {
+  const request = env.networkRequests.find(isGraphQLRequest);
+  return request ? resolveURL(request.url, env.url)?.href || null : null;
+}
@@ -0,0 +1,78 @@
+/**
+ * Short link base configuration shared by the URL shortener service, the QR codes
+ * and the router. Configured at build time:
+ *   VITE_SHORT_LINK_DOMAIN  - custom domain serving the short links (defaults to the app origin)
+ *   VITE_SHORT_LINK_PREFIX  - path segment before the short code (defaults to none, i.e. the root path)
+ */
+import { APP_ROUTE_SEGMENTS } from './app-routes';
+
+export interface ShortLinkBase {
+  // Origin short links are served from, e.g. https://pearl.ink
+  origin: string;
+  // Path segment before the short code, without slashes ('' for the root path)
+  pathPrefix: string;
+}
+
+// Legacy path that short links used before the base became configurable
+export const LEGACY_SHORT_LINK_PREFIX = 's';
+
+const FALLBACK_ORIGIN = 'http://localhost:8080';
+
+// Top-level app routes that a short code at the root path must not shadow
+export const RESERVED_SHORT_CODES: string[] = [LEGACY_SHORT_LINK_PREFIX, ...APP_ROUTE_SEGMENTS];
+
+export const isReservedShortCode = (shortCode: string): boolean =>
+  RESERVED_SHORT_CODES.includes(shortCode.toLowerCase());
+
+const normalizeOrigin = (domain: string | undefined): string | null => {
+  if (!domain || !domain.trim()) return null;
+  try {
+    const withProtocol = /^https?:\/\//i.test(domain.trim()) ? domain.trim() : `https://${domain.trim()}`;
+    return new URL(withProtocol).origin;
+  } catch {
+    console.error(`Invalid VITE_SHORT_LINK_DOMAIN "${domain}", falling back to the app origin`);
+    return null;
+  }
+};
+
+const normalizePrefix = (prefix: string | undefined): string =>
+  (prefix ?? '').trim().replace(/^\/+|\/+$/g, '');
+
+const configuredOrigin = normalizeOrigin(import.meta.env.VITE_SHORT_LINK_DOMAIN);
+const configuredPrefix = normalizePrefix(import.meta.env.VITE_SHORT_LINK_PREFIX);
+
+export const getShortLinkBase = (): ShortLinkBase => ({
+  origin: configuredOrigin || (typeof window !== 'undefined' ? window.location.origin : FALLBACK_ORIGIN),
+  pathPrefix: configuredPrefix
+});
+
+/**
+ * Everything before the short code, e.g. https://example.com/ or https://example.com/go/
+ */
+export const getShortLinkBaseURL = (): string => {
+  const { origin, pathPrefix } = getShortLinkBase();
+  return pathPrefix ? `${origin}/${pathPrefix}/` : `${origin}/`;
+};
+
+export const buildShortURL = (shortCode: string): string =>
+  `${getShortLinkBaseURL()}${encodeURIComponent(shortCode)}`;
+
+export const buildLegacyShortURL = (shortCode: string): string =>
+  `${getShortLinkBase().origin}/${LEGACY_SHORT_LINK_PREFIX}/${encodeURIComponent(shortCode)}`;
+
+/**
+ * Router paths that resolve short links. The legacy /s/ path is always kept so
+ * links shared before the base changed keep working.
+ */
+export const SHORT_LINK_ROUTES: string[] = Array.from(new Set([
+  configuredPrefix ? `/${configuredPrefix}/:shortCode` : '/:shortCode',
+  `/${LEGACY_SHORT_LINK_PREFIX}/:shortCode`
+]));
+
+/**
+ * Callback paths that record a conversion for a short link, e.g. /abc123/convert?type=signup&value=20
+ */
+export const SHORT_LINK_CONVERSION_ROUTES: string[] = SHORT_LINK_ROUTES.map(path => `${path}/convert`);
+
+export const buildConversionURL = (shortCode: string): string =>
+  `${buildShortURL(shortCode)}/convert`;
@@ -0,0 +1,286 @@
+/**
+ * Instrumentation agent for same-origin challenge apps loaded in TestingEnvironment
+ * Hooks console, fetch, XMLHttpRequest and resource loading, snapshots the DOM,
+ * and reports everything to the parent window through postMessage
+ */
+
+export const TESTING_AGENT_SOURCE = 'pearleseed-testing-agent';
+
+export interface TestingAgentConfig {
+  // Per-session token that ties messages to the TestingEnvironment that injected the agent
+  channel: string;
+  // Origin of the parent window, used as the postMessage target origin
+  parentOrigin: string;
+  // Milliseconds between DOM snapshots (only sent when the DOM changed)
+  snapshotInterval: number;
+  // Upper bound of elements included in a DOM snapshot
+  maxElements: number;
+}
+
+export type TestingAgentMessageType = 'console' | 'network' | 'dom' | 'testResult';
+
+export interface TestingAgentMessage {
+  source: typeof TESTING_AGENT_SOURCE;
+  channel: string;
+  type: TestingAgentMessageType;
+  data: unknown;
+}
+
+type AgentWindow = Window & typeof globalThis & { __testingAgentInstalled?: boolean };
+
+/**
+ * The agent itself. It must stay self-contained: it is serialized with
+ * Function.prototype.toString and evaluated inside the iframe, so it cannot
+ * reference anything from this module's scope.
+ */
+function testingAgent(win: AgentWindow, config: TestingAgentConfig & { source: string }): void {
+  if (win.__testingAgentInstalled) return;
+  win.__testingAgentInstalled = true;
+
+  const doc = win.document;
+  const perf = win.performance;
+  let requestCounter = 0;
+
+  const post = (type: string, data: unknown) => {
+    try {
+      win.parent.postMessage({ source: config.source, channel: config.channel, type, data }, config.parentOrigin);
+    } catch {
+      // Non-cloneable payloads are dropped rather than breaking the app
+    }
+  };
+
+  const serialize = (value: unknown): string => {
+    if (typeof value === 'string') return value;
+    if (value instanceof win.Error) return `${value.name}: ${value.message}`;
+    try {
+      return JSON.stringify(value) ?? String(value);
+    } catch {
+      return String(value);
+    }
+  };
+
+  const formatSize = (bytes: number): string => {
+    if (!bytes) return '0 B';
+    if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${bytes} B`;
+  };
+
+  const resolve = (url: string): string => {
+    try {
+      return new win.URL(url, win.location.href).href;
+    } catch {
+      return url;
+    }
+  };
+
+  const reportRequest = (method: string, url: string, status: number, startTime: number, duration: number, size: number, type: string) => {
+    requestCounter++;
+    post('network', {
+      id: `${config.channel}-${requestCounter}`,
+      method,
+      url,
+      status,
+      time: `${Math.round(duration)} ms`,
+      size: formatSize(size),
+      type,
+      initiator: win.location.pathname,
+      startTime
+    });
+  };
+
+  // Console
+  const levels: Record<string, string> = { log: 'info', info: 'info', warn: 'warning', error: 'error', debug: 'debug' };
+  Object.keys(levels).forEach(level => {
+    const target = win.console as unknown as Record<string, (...args: unknown[]) => void>;
+    const original = target[level];
+    if (typeof original !== 'function') return;
+    target[level] = function (...args: unknown[]) {
+      post('console', { type: levels[level], message: args.map(serialize).join(' ') });
+      return original.apply(this, args);
+    };
+  });
+
+  win.addEventListener('error', event => {
+    const location = event.filename ? `${event.filename.split('/').pop()}:${event.lineno}` : undefined;
+    post('console', { type: 'error', message: `Uncaught ${event.message}`, source: location });
+  });
+
+  win.addEventListener('unhandledrejection', event => {
+    post('console', { type: 'error', message: `Unhandled promise rejection: ${serialize(event.reason)}` });
+  });
+
+  // fetch
+  const originalFetch = win.fetch;
+  if (typeof originalFetch === 'function') {
+    win.fetch = function (input: RequestInfo | URL, init?: RequestInit) {
+      const start = perf.now();
+      const isRequest = input instanceof win.Request;
+      const method = (init?.method || (isRequest ? (input as Request).method : 'GET')).toUpperCase();
+      const url = resolve(isRequest ? (input as Request).url : String(input));
+
+      return originalFetch.call(this, input, init).then(
+        (response: Response) => {
+          const size = Number(response.headers.get('content-length')) || 0;
+          reportRequest(method, url, response.status, start, perf.now() - start, size, 'fetch');
+          return response;
+        },
+        (error: unknown) => {
+          reportRequest(method, url, 0, start, perf.now() - start, 0, 'fetch');
+          throw error;
+        }
+      );
+    };
+  }
+
+  // XMLHttpRequest
+  const xhrProto = win.XMLHttpRequest?.prototype as XMLHttpRequest & { __agent?: { method: string; url: string; start: number } };
+  if (xhrProto) {
+    const originalOpen = xhrProto.open;
+    const originalSend = xhrProto.send;
+
+    xhrProto.open = function (this: typeof xhrProto, method: string, url: string | URL, ...rest: unknown[]) {
+      this.__agent = { method: String(method).toUpperCase(), url: resolve(String(url)), start: 0 };
+      return (originalOpen as (...args: unknown[]) => void).apply(this, [method, url, ...rest]);
+    } as typeof xhrProto.open;
+
+    xhrProto.send = function (this: typeof xhrProto, body?: Document | XMLHttpRequestBodyInit | null) {
+      const request = this.__agent;
+      if (request) {
+        request.start = perf.now();
+        this.addEventListener('loadend', () => {
+          const textResponse = this.responseType === '' || this.responseType === 'text';
+          const size = textResponse ? this.responseText.length : Number(this.getResponseHeader('content-length')) || 0;
+          reportRequest(request.method, request.url, this.status, request.start, perf.now() - request.start, size, 'xhr');
+        });
+      }
+      return originalSend.call(this, body);
+    };
+  }
+
+  // Static resources (scripts, stylesheets, images, fonts)
+  if (win.PerformanceObserver?.supportedEntryTypes?.includes('resource')) {
+    const observer = new win.PerformanceObserver(list => {
+      (list.getEntries() as PerformanceResourceTiming[])
+        .filter(entry => entry.initiatorType !== 'fetch' && entry.initiatorType !== 'xmlhttprequest')
+        .forEach(entry => {
+          const status = (entry as PerformanceResourceTiming & { responseStatus?: number }).responseStatus || 200;
+          reportRequest('GET', entry.name, status, entry.startTime, entry.duration, entry.transferSize || entry.encodedBodySize, entry.initiatorType);
+        });
+    });
+    observer.observe({ type: 'resource', buffered: true });
+  }
+
+  // DOM snapshots
+  const cssPath = (el: Element): string => {
+    const parts: string[] = [];
+    let current: Element | null = el;
+    while (current && current !== doc.documentElement) {
+      if (current.id) {
+        parts.unshift(`${current.tagName.toLowerCase()}#${current.id}`);
+        break;
+      }
+      const parent = current.parentElement;
+      const tag = current.tagName;
+      const siblings = parent ? Array.from(parent.children).filter(child => child.tagName === tag) : [];
+      const index = siblings.length > 1 ? `:nth-of-type(${siblings.indexOf(current) + 1})` : '';
+      parts.unshift(`${tag.toLowerCase()}${index}`);
+      current = parent;
+    }
+    return parts.join(' > ');
+  };
+
+  const snapshot = () => {
+    if (!doc.body) return;
+    const elements = Array.from(doc.body.querySelectorAll('*'))
+      .filter(el => el.tagName !== 'SCRIPT' && el.tagName !== 'STYLE')
+      .slice(0, config.maxElements)
+      .map(el => ({
+        tag: el.tagName.toLowerCase(),
+        id: el.id,
+        classes: Array.from(el.classList),
+        attributes: Array.from(el.attributes).reduce<Record<string, string>>((acc, attr) => {
+          acc[attr.name] = attr.value;
+          return acc;
+        }, {}),
+        children: el.children.length,
+        path: cssPath(el)
+      }));
+    post('dom', { elements });
+  };
+
+  let dirty = true;
+  new win.MutationObserver(() => {
+    dirty = true;
+  }).observe(doc, { childList: true, subtree: true, attributes: true });
+
+  win.setInterval(() => {
+    if (!dirty) return;
+    dirty = false;
+    snapshot();
+  }, config.snapshotInterval);
+
+  if (doc.readyState !== 'loading') {
+    dirty = false;
+    snapshot();
+  }
+}
+
+/**
+ * Build the agent as an inline script, for apps that prefer to embed it themselves
+ */
+export function getTestingAgentScript(config: TestingAgentConfig): string {
+  const payload = JSON.stringify({ ...config, source: TESTING_AGENT_SOURCE });
+  return `(${testingAgent.toString()})(window, ${payload});`;
+}
+
+/**
+ * Install the agent into a same-origin iframe
+ * Tries an inline script first so hooks run in the app's own realm, and falls back to
+ * installing from the parent when the app's Content-Security-Policy blocks inline scripts.
+ * Returns false when the iframe is cross-origin or not loaded.
+ */
+export function injectTestingAgent(iframe: HTMLIFrameElement, config: TestingAgentConfig): boolean {
+  try {
+    const win = iframe.contentWindow as AgentWindow | null;
+    const doc = iframe.contentDocument;
+    if (!win || !doc?.documentElement) {
+      return false;
+    }
+
+    if (!win.__testingAgentInstalled) {
+      const script = doc.createElement('script');
+      script.textContent = getTestingAgentScript(config);
+      (doc.head || doc.documentElement).appendChild(script);
+      script.remove();
+    }
+
+    if (!win.__testingAgentInstalled) {
+      testingAgent(win, { ...config, source: TESTING_AGENT_SOURCE });
+    }
+
+    return true;
+  } catch {
+    // Cross-origin frames throw a SecurityError on access
+    return false;
+  }
+}
+
+/**
+ * Validate that a message event was posted by the agent of a specific iframe
+ */
+export function isTestingAgentMessage(
+  event: MessageEvent,
+  expected: { channel: string; origin: string; source: Window | null }
+): event is MessageEvent<TestingAgentMessage> {
+  const data = event.data as Partial<TestingAgentMessage> | null;
+  return (
+    !!expected.source &&
+    event.source === expected.source &&
+    event.origin === expected.origin &&
+    !!data &&
+    data.source === TESTING_AGENT_SOURCE &&
+    data.channel === expected.channel &&
+    typeof data.type === 'string'
+  );
+}
@@ -10,7 +10,8 @@ import URLHistoryList from '@/components/shorten/URLHistoryList.tsx';
 import { ShortenedURL, UTMParams } from '@/types/shorten.ts';
 import { useURLHistory } from '@/hooks/useURLHistory.ts';
 import { URLShortenerService } from '@/services/URLShortenerService.ts';
-import { Link2, History, BarChart3, AlertCircle, Tag, Sparkles } from 'lucide-react';
+import { CampaignTemplateService } from '@/services/CampaignTemplateService.ts';
+import { Link2, History, BarChart3, AlertCircle, Tag, Sparkles, FileSpreadsheet, Shield, List } from 'lucide-react';
 import Header from '@/components/home/Header.tsx';
 import Footer from '@/components/home/Footer.tsx';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert.tsx";
@@ -21,8 +22,16 @@ import { MotionButton } from "@/components/ui/motion-button.tsx";
 // Lazy load components that aren't needed immediately
 const URLAnalytics = lazy(() => import('@/components/shorten/URLAnalytics'));
 
+const BulkURLShortener = lazy(() => import('@/components/shorten/BulkURLShortener'));
+
 const CampaignTemplates = lazy(() => import('@/components/shorten/CampaignTemplates').then(module => ({ default: module.CampaignTemplates })));
 
+const CampaignAnalytics = lazy(() => import('@/components/shorten/CampaignAnalytics'));
+
+const ClickLogExplorer = lazy(() => import('@/components/shorten/ClickLogExplorer'));
+
+const RedirectPolicySettings = lazy(() => import('@/components/shorten/RedirectPolicySettings'));
+
 // Loading fallback component
 const LoadingFallback = () => (
   <div className="p-4 sm:p-6 flex flex-col justify-center items-center min-h-[200px] bg-gray-50/50 rounded-lg border border-gray-100">
@@ -95,10 +104,13 @@ const URLShortenerPage: React.FC = () => {
   }, []);
 
   // We're using responsive design with breakpoints instead of the isMobile hook
-  const [activeTab, setActiveTab] = useState<string>('shorten');
+  // Shared template links open on the templates tab, which offers the import
+  const [activeTab, setActiveTab] = useState<string>(() =>
+    CampaignTemplateService.parseShareFragment(window.location.hash) ? 'templates' : 'shorten'
+  );
   const [currentURL, setCurrentURL] = useState<ShortenedURL | null>(null);
   const [selectedTemplate, setSelectedTemplate] = useState<UTMParams | null>(null);
-  const { urlHistory, addToHistory, removeFromHistory } = useURLHistory();
+  const { urlHistory, reloadHistory, addToHistory, removeFromHistory } = useURLHistory();
 
   // Reference to the tabs section for smooth scrolling
   const tabsSectionRef = useRef<HTMLDivElement>(null);
@@ -124,6 +136,10 @@ const URLShortenerPage: React.FC = () => {
     // The service now handles clearing the analytics cache internally
   }, [addToHistory, selectedTemplate]);
 
+  const handleBulkShortened = useCallback((urls: ShortenedURL[]) => {
+    urls.forEach(addToHistory);
+  }, [addToHistory]);
+
   const handleDeleteURL = useCallback(async (id: string) => {
     await removeFromHistory(id);
     if (currentURL && currentURL.id === id) {
@@ -326,7 +342,7 @@ const URLShortenerPage: React.FC = () => {
               className="w-full"
             >
               <div className="bg-white/80 backdrop-blur-sm rounded-xl border border shadow-md p-1 mb-8 sm:mb-10 top-16 sm:top-20  z-20">
-                <TabsList className="grid w-full grid-cols-4 gap-1.5 bg-transparent">
+                <TabsList className="grid w-full grid-cols-6 gap-1.5 bg-transparent">
                   <TabsTrigger
                     value="shorten"
                     className="flex items-center justify-center gap-1.5 sm:gap-2 data-[state=active]:bg-gradient-to-r data-[state=active]:from-blue-500 data-[state=active]:to-blue-600 data-[state=active]:text-white rounded-lg transition-all duration-300"
@@ -334,6 +350,13 @@ const URLShortenerPage: React.FC = () => {
                     <Link2 className="h-4 w-4 flex-shrink-0 mr-0 sm:mr-1" />
                     <span className="hidden xs:inline text-xs sm:text-sm">Shorten</span>
                   </TabsTrigger>
+                  <TabsTrigger
+                    value="bulk"
+                    className="flex items-center justify-center gap-1.5 sm:gap-2 data-[state=active]:bg-gradient-to-r data-[state=active]:from-indigo-500 data-[state=active]:to-indigo-600 data-[state=active]:text-white rounded-lg transition-all duration-300"
+                  >
+                    <FileSpreadsheet className="h-4 w-4 flex-shrink-0 mr-0 sm:mr-1" />
+                    <span className="hidden xs:inline text-xs sm:text-sm">Bulk</span>
+                  </TabsTrigger>
                   <TabsTrigger
                     value="templates"
                     className="flex items-center justify-center gap-1.5 sm:gap-2 data-[state=active]:bg-gradient-to-r data-[state=active]:from-teal-500 data-[state=active]:to-teal-600 data-[state=active]:text-white rounded-lg transition-all duration-300"
@@ -355,6 +378,13 @@ const URLShortenerPage: React.FC = () => {
                     <BarChart3 className="h-4 w-4 flex-shrink-0 mr-0 sm:mr-1" />
                     <span className="hidden xs:inline text-xs sm:text-sm">Analytics</span>
                   </TabsTrigger>
+                  <TabsTrigger
+                    value="safety"
+                    className="flex items-center justify-center gap-1.5 sm:gap-2 data-[state=active]:bg-gradient-to-r data-[state=active]:from-rose-500 data-[state=active]:to-rose-600 data-[state=active]:text-white rounded-lg transition-all duration-300"
+                  >
+                    <Shield className="h-4 w-4 flex-shrink-0 mr-0 sm:mr-1" />
+                    <span className="hidden xs:inline text-xs sm:text-sm">Safety</span>
+                  </TabsTrigger>
                 </TabsList>
               </div>
 
@@ -398,7 +428,7 @@ const URLShortenerPage: React.FC = () => {
                             <Card className="border border shadow-md hover:shadow-lg transition-all duration-300 bg-white/90 backdrop-blur-md rounded-xl overflow-hidden">
                               <div className="h-1.5 w-full bg-gradient-to-r from-green-400 to-blue-500"></div>
                               <CardContent className="p-4 sm:p-6 md:p-7">
-                                <ShortenedURLDisplay shortenedURL={currentURL} />
+                                <ShortenedURLDisplay shortenedURL={currentURL} onLinkCreated={addToHistory} />
                               </CardContent>
                             </Card>
                           </ScrollReveal>
@@ -438,6 +468,7 @@ const URLShortenerPage: React.FC = () => {
                                 onDelete={handleDeleteURL}
                                 onSelect={handleHistorySelect}
                                 onAnalyticsSelect={handleAnalyticsSelect}
+                                onBulkChange={reloadHistory}
                                 onUpdate={() => {
                                   // Force reload history after permanent storage changes
                                   window.location.reload();
@@ -450,6 +481,38 @@ const URLShortenerPage: React.FC = () => {
                     </motion.div>
                   </TabsContent>
 
+                  <TabsContent value="bulk" className="mt-0">
+                    <motion.div
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ duration: 0.3 }}
+                    >
+                      <Card className="border border-indigo-100 shadow-md hover:shadow-lg transition-all duration-300 bg-white/90 backdrop-blur-md rounded-xl overflow-hidden">
+                        <div className="h-1.5 w-full bg-gradient-to-r from-indigo-400 to-indigo-600"></div>
+                        <CardHeader className="pb-3 sm:pb-4 px-4 sm:px-6 pt-4 sm:pt-6 bg-gradient-to-r from-indigo-500/10 to-indigo-600/5 border-b border-indigo-100">
+                          <div className="flex items-center gap-2 sm:gap-3">
+                            <div className="bg-indigo-100 p-1.5 sm:p-2 rounded-full flex-shrink-0 shadow-sm">
+                              <FileSpreadsheet className="h-4 w-4 sm:h-5 sm:w-5 text-indigo-600" />
+                            </div>
+                            <div>
+                              <CardTitle className="text-base sm:text-xl font-bold text-indigo-900">Bulk Shorten</CardTitle>
+                              <CardDescription className="text-xs sm:text-sm text-indigo-700">
+                                Shorten many URLs at once from a CSV file
+                              </CardDescription>
+                            </div>
+                          </div>
+                        </CardHeader>
+                        <CardContent className="px-4 sm:px-6 py-5 sm:py-7">
+                          <LazyLoadErrorBoundary>
+                            <Suspense fallback={<LoadingFallback />}>
+                              <BulkURLShortener onURLsShortened={handleBulkShortened} />
+                            </Suspense>
+                          </LazyLoadErrorBoundary>
+                        </CardContent>
+                      </Card>
+                    </motion.div>
+                  </TabsContent>
+
                   <TabsContent value="templates" className="mt-0">
                     <motion.div
                       initial={{ opacity: 0, y: 10 }}
@@ -476,11 +539,69 @@ const URLShortenerPage: React.FC = () => {
                             <Suspense fallback={<LoadingFallback />}>
                               <CampaignTemplates
                                 onSelectTemplate={handleTemplateSelect}
+                                urls={urlHistory}
+                                onLinksUpdated={reloadHistory}
                               />
                             </Suspense>
                           </LazyLoadErrorBoundary>
                         </CardContent>
                       </Card>
+
+                      <Card className="mt-6 border border-teal-100 shadow-md hover:shadow-lg transition-all duration-300 bg-white/90 backdrop-blur-md rounded-xl overflow-hidden">
+                        <div className="h-1.5 w-full bg-gradient-to-r from-teal-400 to-teal-600"></div>
+                        <CardHeader className="pb-3 sm:pb-4 px-4 sm:px-6 pt-4 sm:pt-6 bg-gradient-to-r from-teal-500/10 to-teal-600/5 border-b border-teal-100">
+                          <div className="flex items-center gap-2 sm:gap-3">
+                            <div className="bg-teal-100 p-1.5 sm:p-2 rounded-full flex-shrink-0 shadow-sm">
+                              <BarChart3 className="h-4 w-4 sm:h-5 sm:w-5 text-teal-600" />
+                            </div>
+                            <div>
+                              <CardTitle className="text-base sm:text-xl font-bold text-teal-900">Campaign Performance</CardTitle>
+                              <CardDescription className="text-xs sm:text-sm text-teal-700">
+                                Clicks and conversions across every link in a campaign
+                              </CardDescription>
+                            </div>
+                          </div>
+                        </CardHeader>
+                        <CardContent className="px-4 sm:px-6 py-5 sm:py-7">
+                          <LazyLoadErrorBoundary>
+                            <Suspense fallback={<LoadingFallback />}>
+                              <CampaignAnalytics urls={urlHistory} />
+                            </Suspense>
+                          </LazyLoadErrorBoundary>
+                        </CardContent>
+                      </Card>
+                    </motion.div>
+                  </TabsContent>
+
+                  <TabsContent value="safety" className="mt-0">
+                    <motion.div
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ duration: 0.3 }}
+                    >
+                      <Card className="border border-rose-100 shadow-md hover:shadow-lg transition-all duration-300 bg-white/90 backdrop-blur-md rounded-xl overflow-hidden">
+                        <div className="h-1.5 w-full bg-gradient-to-r from-rose-400 to-rose-600"></div>
+                        <CardHeader className="pb-3 sm:pb-4 px-4 sm:px-6 pt-4 sm:pt-6 bg-gradient-to-r from-rose-500/10 to-rose-600/5 border-b border-rose-100">
+                          <div className="flex items-center gap-2 sm:gap-3">
+                            <div className="bg-rose-100 p-1.5 sm:p-2 rounded-full flex-shrink-0 shadow-sm">
+                              <Shield className="h-4 w-4 sm:h-5 sm:w-5 text-rose-600" />
+                            </div>
+                            <div>
+                              <CardTitle className="text-base sm:text-xl font-bold text-rose-900">Redirect Safety</CardTitle>
+                              <CardDescription className="text-xs sm:text-sm text-rose-700">
+                                Choose which destinations are trusted, flagged or blocked
+                              </CardDescription>
+                            </div>
+                          </div>
+                        </CardHeader>
+                        <CardContent className="px-4 sm:px-6 py-5 sm:py-7">
+                          <LazyLoadErrorBoundary>
+                            <Suspense fallback={<LoadingFallback />}>
+                              <RedirectPolicySettings />
+                            </Suspense>
+                          </LazyLoadErrorBoundary>
+                        </CardContent>
+                      </Card>
                     </motion.div>
                   </TabsContent>
 
@@ -538,6 +659,7 @@ const URLShortenerPage: React.FC = () => {
                                   onDelete={handleDeleteURL}
                                   onSelect={handleAnalyticsSelect}
                                   onAnalyticsSelect={handleAnalyticsSelect}
+                                  onBulkChange={reloadHistory}
                                   onUpdate={() => {
                                     // Force reload history after permanent storage changes
                                     window.location.reload();
@@ -590,6 +712,32 @@ const URLShortenerPage: React.FC = () => {
                           </CardContent>
                         </Card>
                       )}
+
+                      {urlHistory.length > 0 && (
+                        <Card className="mt-6 border border-amber-100 shadow-md hover:shadow-lg transition-all duration-300 bg-white/90 backdrop-blur-md rounded-xl overflow-hidden">
+                          <div className="h-1.5 w-full bg-gradient-to-r from-amber-400 to-amber-600"></div>
+                          <CardHeader className="pb-3 sm:pb-4 px-4 sm:px-6 pt-4 sm:pt-6 bg-gradient-to-r from-amber-500/10 to-amber-600/5 border-b border-amber-100">
+                            <div className="flex items-center gap-2 sm:gap-3">
+                              <div className="bg-amber-100 p-1.5 sm:p-2 rounded-full flex-shrink-0 shadow-sm">
+                                <List className="h-4 w-4 sm:h-5 sm:w-5 text-amber-600" />
+                              </div>
+                              <div>
+                                <CardTitle className="text-base sm:text-xl font-bold text-amber-900">Click Log</CardTitle>
+                                <CardDescription className="text-xs sm:text-sm text-amber-700">
+                                  Individual clicks across all your links, ready to export
+                                </CardDescription>
+                              </div>
+                            </div>
+                          </CardHeader>
+                          <CardContent className="px-4 sm:px-6 py-5 sm:py-7">
+                            <LazyLoadErrorBoundary>
+                              <Suspense fallback={<LoadingFallback />}>
+                                <ClickLogExplorer urls={urlHistory} />
+                              </Suspense>
+                            </LazyLoadErrorBoundary>
+                          </CardContent>
+                        </Card>
+                      )}
                     </motion.div>
                   </TabsContent>
                 </div>
@@ -0,0 +1,195 @@
+/**
+ * AIUsageService - per-tool ledger of AI token usage and spend, with monthly budget caps
+ * Persists to IndexedDB via idb-keyval
+ */
+import { get, set, del } from 'idb-keyval';
+import { nanoid } from 'nanoid';
+
+export type AIToolId = 'api-tester' | 'test-generator' | 'code-review' | 'bug-simulator' | 'general';
+
+export const AI_TOOL_LABELS: Record<AIToolId, string> = {
+  'api-tester': 'API Tester',
+  'test-generator': 'Test Case Generator',
+  'code-review': 'Code Review',
+  'bug-simulator': 'Bug Report Simulator',
+  'general': 'Other'
+};
+
+export interface AIUsageEntry {
+  id: string;
+  tool: AIToolId;
+  model: string;
+  provider: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number; // USD
+  timestamp: string;
+}
+
+export interface AIUsageTotals {
+  requests: number;
+  tokens: number;
+  cost: number;
+}
+
+export interface AIUsageSummary {
+  month: string; // yyyy-MM
+  total: AIUsageTotals;
+  byTool: Record<AIToolId, AIUsageTotals>;
+}
+
+export interface AIBudget {
+  monthlyLimit: number | null; // USD across all tools, null for no cap
+  toolLimits: Partial<Record<AIToolId, number>>;
+}
+
+export interface AIBudgetCheck {
+  allowed: boolean;
+  reason?: string;
+}
+
+// Logging utility
+const logError = (message: string, error?: unknown): void => {
+  if (process.env.NODE_ENV === 'development') {
+    console.error(`[AIUsageService] ${message}`, error);
+  }
+};
+
+// Storage keys
+const STORAGE_KEYS = {
+  LEDGER: 'ai_usage_ledger',
+  BUDGET: 'ai_usage_budget'
+} as const;
+
+// Ledger entries older than this many months are pruned
+const RETENTION_MONTHS = 12;
+
+const DEFAULT_BUDGET: AIBudget = {
+  monthlyLimit: null,
+  toolLimits: {}
+};
+
+const monthKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+const emptyTotals = (): AIUsageTotals => ({ requests: 0, tokens: 0, cost: 0 });
+
+export class AIUsageService {
+  private static async getLedger(): Promise<AIUsageEntry[]> {
+    try {
+      const ledger = await get<AIUsageEntry[]>(STORAGE_KEYS.LEDGER);
+      return Array.isArray(ledger) ? ledger : [];
+    } catch (error) {
+      logError('Error reading usage ledger', error);
+      return [];
+    }
+  }
+
+  /**
+   * Cost in USD for a number of tokens at a model's per-1K token rate
+   */
+  static calculateCost(totalTokens: number, costPer1k: number): number {
+    return (totalTokens / 1000) * costPer1k;
+  }
+
+  static async recordUsage(entry: Omit<AIUsageEntry, 'id' | 'timestamp'>): Promise<AIUsageEntry> {
+    const record: AIUsageEntry = {
+      ...entry,
+      id: nanoid(),
+      timestamp: new Date().toISOString()
+    };
+
+    try {
+      const cutoff = new Date();
+      cutoff.setMonth(cutoff.getMonth() - RETENTION_MONTHS);
+
+      const ledger = (await this.getLedger()).filter(item => new Date(item.timestamp) >= cutoff);
+      ledger.push(record);
+      await set(STORAGE_KEYS.LEDGER, ledger);
+    } catch (error) {
+      logError('Error recording usage', error);
+    }
+
+    return record;
+  }
+
+  static async getEntries(month: Date = new Date()): Promise<AIUsageEntry[]> {
+    const key = monthKey(month);
+    return (await this.getLedger()).filter(entry => monthKey(new Date(entry.timestamp)) === key);
+  }
+
+  static async getMonthlySummary(month: Date = new Date()): Promise<AIUsageSummary> {
+    const byTool = Object.fromEntries(
+      (Object.keys(AI_TOOL_LABELS) as AIToolId[]).map(tool => [tool, emptyTotals()])
+    ) as Record<AIToolId, AIUsageTotals>;
+    const total = emptyTotals();
+
+    (await this.getEntries(month)).forEach(entry => {
+      const toolTotals = byTool[entry.tool] || byTool.general;
+      [toolTotals, total].forEach(totals => {
+        totals.requests++;
+        totals.tokens += entry.totalTokens;
+        totals.cost += entry.cost;
+      });
+    });
+
+    return { month: monthKey(month), total, byTool };
+  }
+
+  static async getBudget(): Promise<AIBudget> {
+    try {
+      const budget = await get<AIBudget>(STORAGE_KEYS.BUDGET);
+      return { ...DEFAULT_BUDGET, ...budget, toolLimits: { ...budget?.toolLimits } };
+    } catch (error) {
+      logError('Error reading budget', error);
+      return DEFAULT_BUDGET;
+    }
+  }
+
+  static async updateBudget(updates: Partial<AIBudget>): Promise<AIBudget> {
+    const budget = { ...(await this.getBudget()), ...updates };
+
+    if (budget.monthlyLimit !== null && (!Number.isFinite(budget.monthlyLimit) || budget.monthlyLimit < 0)) {
+      throw new Error('Monthly limit must be a non-negative number');
+    }
+    if (Object.values(budget.toolLimits).some(limit => !Number.isFinite(limit) || limit < 0)) {
+      throw new Error('Tool limits must be non-negative numbers');
+    }
+
+    await set(STORAGE_KEYS.BUDGET, budget);
+    return budget;
+  }
+
+  /**
+   * Whether a tool may make another AI call this month
+   */
+  static async checkBudget(tool: AIToolId): Promise<AIBudgetCheck> {
+    const [budget, summary] = await Promise.all([this.getBudget(), this.getMonthlySummary()]);
+
+    if (budget.monthlyLimit !== null && summary.total.cost >= budget.monthlyLimit) {
+      return {
+        allowed: false,
+        reason: `Monthly AI budget of $${budget.monthlyLimit.toFixed(2)} reached - raise the cap in AI settings to continue`
+      };
+    }
+
+    const toolLimit = budget.toolLimits[tool];
+    if (toolLimit !== undefined && summary.byTool[tool].cost >= toolLimit) {
+      return {
+        allowed: false,
+        reason: `Monthly ${AI_TOOL_LABELS[tool]} budget of $${toolLimit.toFixed(2)} reached - raise the cap in AI settings to continue`
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  static async clearLedger(): Promise<void> {
+    try {
+      await del(STORAGE_KEYS.LEDGER);
+    } catch (error) {
+      logError('Error clearing usage ledger', error);
+    }
+  }
+}
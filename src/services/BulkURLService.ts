@@ -0,0 +1,261 @@
+/**
+ * BulkURLService - shorten many URLs at once from CSV
+ * Parses and validates rows for preview, then shortens them in rate-limited batches
+ */
+import { BulkURLRow, BulkURLResult, URLOptions, UTMParams } from '@/types/shorten.ts';
+import { URLShortenerService } from './URLShortenerService.ts';
+import { URLSanitizerService } from './URLSanitizerService.ts';
+import { RateLimiterService } from './RateLimiterService.ts';
+import { parseCSV, toCSV } from '@/utils/csv';
+
+export const MAX_BULK_ROWS = 500;
+
+// Rows are shortened in batches of this size, at most one batch per rate limit window
+const BATCH_SIZE = 10;
+const RATE_LIMIT_KEY = 'url-shortener-bulk';
+const RATE_LIMIT = { maxAttempts: BATCH_SIZE, windowMs: 1000, blockDurationMs: 0 };
+
+type BulkColumn = 'url' | 'alias' | 'expiresAt' | 'password' | 'source' | 'medium' | 'campaign' | 'term' | 'content';
+
+// Accepted header names (lowercase, spaces and hyphens as underscores)
+const COLUMN_ALIASES: Record<string, BulkColumn> = {
+  url: 'url',
+  long_url: 'url',
+  original_url: 'url',
+  destination: 'url',
+  alias: 'alias',
+  custom_alias: 'alias',
+  short_code: 'alias',
+  expires_at: 'expiresAt',
+  expires: 'expiresAt',
+  expiry: 'expiresAt',
+  expiration: 'expiresAt',
+  password: 'password',
+  utm_source: 'source',
+  utm_medium: 'medium',
+  utm_campaign: 'campaign',
+  utm_term: 'term',
+  utm_content: 'content'
+};
+
+// Column order assumed when the file has no header row
+const DEFAULT_COLUMNS: BulkColumn[] = ['url', 'alias', 'expiresAt', 'password', 'source', 'medium', 'campaign', 'term', 'content'];
+
+const UTM_COLUMNS: Array<Extract<BulkColumn, keyof UTMParams>> = ['source', 'medium', 'campaign', 'term', 'content'];
+const INVALID_UTM_CHARS = /[^\w\s\-_.]/;
+
+export const BULK_CSV_TEMPLATE = toCSV(
+  ['url', 'alias', 'expires_at', 'password', 'utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'],
+  [['https://example.com/landing-page', 'spring-sale', '2030-12-31', '', 'newsletter', 'email', 'spring_sale', '', '']]
+);
+
+const normalizeHeader = (header: string): string =>
+  header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class BulkURLService {
+  /**
+   * Parse CSV text and validate every row
+   * Rows with errors are kept so they can be shown in the preview and the results file.
+   */
+  static async prepareRows(csv: string): Promise<BulkURLRow[]> {
+    const records = parseCSV(csv);
+    if (records.length === 0) {
+      throw new Error('The CSV file is empty');
+    }
+
+    const headerColumns = records[0].map(header => COLUMN_ALIASES[normalizeHeader(header)]);
+    const hasHeader = headerColumns.includes('url');
+    if (!hasHeader && !/^https?:\/\//i.test(records[0][0]?.trim() || '')) {
+      throw new Error('Could not find a "url" column in the CSV header');
+    }
+
+    const columns = hasHeader ? headerColumns : DEFAULT_COLUMNS;
+    const dataRecords = hasHeader ? records.slice(1) : records;
+    if (dataRecords.length === 0) {
+      throw new Error('The CSV file has no rows to shorten');
+    }
+    if (dataRecords.length > MAX_BULK_ROWS) {
+      throw new Error(`A bulk import can contain at most ${MAX_BULK_ROWS} rows`);
+    }
+
+    const existingCodes = new Set((await URLShortenerService.getURLs()).map(url => url.shortCode));
+    const aliasesInFile = new Set<string>();
+
+    return dataRecords.map((record, index) => {
+      const values: Partial<Record<BulkColumn, string>> = {};
+      columns.forEach((column, columnIndex) => {
+        const value = record[columnIndex]?.trim();
+        if (column && value) values[column] = value;
+      });
+
+      const row = this.validateRow(values, index + (hasHeader ? 2 : 1), existingCodes);
+      const alias = row.options.customAlias;
+      if (alias) {
+        if (aliasesInFile.has(alias)) {
+          row.errors.push(`Alias "${alias}" appears more than once in the file`);
+        }
+        aliasesInFile.add(alias);
+      }
+      return row;
+    });
+  }
+
+  private static validateRow(
+    values: Partial<Record<BulkColumn, string>>,
+    rowNumber: number,
+    existingCodes: Set<string>
+  ): BulkURLRow {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const options: URLOptions = {};
+    let suspicious = false;
+
+    // URL
+    const rawURL = values.url || '';
+    const sanitizedURL = URLSanitizerService.sanitizeURL(rawURL);
+    if (!rawURL) {
+      errors.push('URL is required');
+    } else if (!sanitizedURL) {
+      errors.push('Invalid URL format. URLs must include http:// or https://');
+    } else {
+      const validation = URLShortenerService.isValidURL(sanitizedURL);
+      if (!validation.valid) {
+        errors.push(validation.reason || 'Invalid URL');
+      } else if (validation.suspicious) {
+        suspicious = true;
+        warnings.push(validation.reason ? `URL looks suspicious: ${validation.reason}` : 'URL looks suspicious');
+      }
+    }
+
+    // Alias
+    if (values.alias) {
+      const alias = URLSanitizerService.sanitizeAlias(values.alias);
+      const aliasValidation = URLShortenerService.validateAlias(values.alias);
+      if (alias !== values.alias || !aliasValidation.valid) {
+        errors.push(aliasValidation.reason || 'Alias can only contain letters, numbers, hyphens and underscores');
+      } else if (existingCodes.has(alias)) {
+        errors.push(`Alias "${alias}" is already in use`);
+      }
+      options.customAlias = alias;
+    }
+
+    // Expiration
+    if (values.expiresAt) {
+      const expiresAt = new Date(values.expiresAt);
+      if (Number.isNaN(expiresAt.getTime())) {
+        errors.push(`Invalid expiration date "${values.expiresAt}"`);
+      } else if (expiresAt <= new Date()) {
+        errors.push('Expiration date must be in the future');
+      } else {
+        options.expiresAt = expiresAt.toISOString();
+      }
+    }
+
+    // Password
+    if (values.password) {
+      if (values.password.length < 6) {
+        errors.push('Password must be at least 6 characters long');
+      }
+      options.password = values.password;
+    }
+
+    // UTM parameters
+    const utmParameters: UTMParams = {};
+    UTM_COLUMNS.forEach(column => {
+      const value = values[column] ? URLSanitizerService.sanitizeString(values[column]) : '';
+      if (!value) return;
+      if (INVALID_UTM_CHARS.test(value)) {
+        errors.push(`UTM ${column} contains invalid characters`);
+      }
+      utmParameters[column] = value;
+    });
+    if (Object.keys(utmParameters).length > 0) {
+      if (!utmParameters.source) {
+        errors.push('UTM source is required when using UTM parameters');
+      }
+      options.utmParameters = utmParameters;
+    }
+
+    return {
+      rowNumber,
+      url: sanitizedURL || rawURL,
+      options,
+      errors,
+      warnings,
+      suspicious
+    };
+  }
+
+  /**
+   * Shorten the valid rows in rate-limited batches
+   * Returns one result per input row, in order; rows with errors (and suspicious rows
+   * unless includeSuspicious is set) are reported as failures without being shortened.
+   */
+  static async shortenRows(
+    rows: BulkURLRow[],
+    options: { includeSuspicious?: boolean; onProgress?: (completed: number, total: number) => void } = {}
+  ): Promise<BulkURLResult[]> {
+    const { includeSuspicious = false, onProgress } = options;
+    const results = new Map<number, BulkURLResult>();
+
+    const pending = rows.filter(row => {
+      if (row.errors.length > 0) {
+        results.set(row.rowNumber, { rowNumber: row.rowNumber, originalURL: row.url, error: row.errors.join('; ') });
+        return false;
+      }
+      if (row.suspicious && !includeSuspicious) {
+        results.set(row.rowNumber, { rowNumber: row.rowNumber, originalURL: row.url, error: 'Skipped: URL looks suspicious' });
+        return false;
+      }
+      return true;
+    });
+
+    let completed = 0;
+    onProgress?.(completed, pending.length);
+
+    for (let start = 0; start < pending.length; start += BATCH_SIZE) {
+      if (start > 0) {
+        await wait(RATE_LIMIT.windowMs);
+      }
+
+      const batch = pending.slice(start, start + BATCH_SIZE);
+      const batchResults = await RateLimiterService.batchExecute(
+        RATE_LIMIT_KEY,
+        batch.map(row => () => URLShortenerService.shortenURL(row.url, row.options)),
+        RATE_LIMIT
+      );
+
+      batch.forEach((row, index) => {
+        const { success, result, error } = batchResults[index];
+        results.set(row.rowNumber, {
+          rowNumber: row.rowNumber,
+          originalURL: row.url,
+          shortenedURL: success ? result : undefined,
+          error: success ? undefined : error || 'Failed to shorten URL'
+        });
+      });
+
+      completed += batch.length;
+      onProgress?.(completed, pending.length);
+    }
+
+    return rows.map(row => results.get(row.rowNumber) as BulkURLResult);
+  }
+
+  static resultsToCSV(results: BulkURLResult[]): string {
+    return toCSV(
+      ['row', 'original_url', 'short_url', 'short_code', 'expires_at', 'status', 'error'],
+      results.map(result => [
+        result.rowNumber,
+        result.originalURL,
+        result.shortenedURL?.shortURL,
+        result.shortenedURL?.shortCode,
+        result.shortenedURL?.expiresAt,
+        result.shortenedURL ? 'shortened' : 'failed',
+        result.error
+      ])
+    );
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * CampaignAnalyticsService - rolls up analytics across every link that shares a utm_campaign value
+ * Built from the per-link daily rollups kept by ClickStorageService.
+ */
+import { format, subDays } from 'date-fns';
+import {
+  CampaignBreakdownRow,
+  CampaignRollup,
+  CampaignSummary,
+  CampaignTemplate,
+  ShortenedURL,
+  URLClickRollup,
+  URLRollupDimension
+} from '@/types/shorten.ts';
+import { ClickStorageService } from './ClickStorageService.ts';
+import { toCSV } from '@/utils/csv';
+
+export interface CampaignRollupOptions {
+  excludeFiltered?: boolean; // Count human clicks only
+  days?: number;             // Only the last N days; all time when omitted
+}
+
+const CSV_HEADERS = ['campaign', 'section', 'key', 'clicks', 'conversions', 'conversion_value'];
+
+// Campaign values are matched case-insensitively, as analytics tools treat them
+const campaignKey = (campaign?: string): string => campaign?.trim().toLowerCase() || '';
+
+const addTo = (rows: Map<string, CampaignBreakdownRow>, key: string, values: Partial<CampaignBreakdownRow>) => {
+  const row = rows.get(key) || { key, clicks: 0, conversions: 0, conversionValue: 0 };
+  row.clicks += values.clicks || 0;
+  row.conversions += values.conversions || 0;
+  row.conversionValue += values.conversionValue || 0;
+  rows.set(key, row);
+};
+
+const byClicks = (rows: Map<string, CampaignBreakdownRow>): CampaignBreakdownRow[] =>
+  Array.from(rows.values()).sort((a, b) => b.clicks - a.clicks || b.conversions - a.conversions || a.key.localeCompare(b.key));
+
+export class CampaignAnalyticsService {
+  /**
+   * Campaigns used by links or templates, most links first
+   */
+  static getCampaigns(urls: ShortenedURL[], templates: CampaignTemplate[]): CampaignSummary[] {
+    const campaigns = new Map<string, CampaignSummary>();
+    const summaryFor = (campaign: string) => {
+      const key = campaignKey(campaign);
+      const summary = campaigns.get(key) || { campaign: campaign.trim(), linkCount: 0, templateNames: [] };
+      campaigns.set(key, summary);
+      return summary;
+    };
+
+    urls.forEach(url => {
+      if (campaignKey(url.utmParameters?.campaign)) summaryFor(url.utmParameters?.campaign as string).linkCount++;
+    });
+    templates.forEach(template => {
+      if (campaignKey(template.utmParameters.campaign)) {
+        summaryFor(template.utmParameters.campaign as string).templateNames.push(template.name);
+      }
+    });
+
+    return Array.from(campaigns.values())
+      .sort((a, b) => b.linkCount - a.linkCount || a.campaign.localeCompare(b.campaign));
+  }
+
+  static getCampaignURLs(urls: ShortenedURL[], campaign: string): ShortenedURL[] {
+    const key = campaignKey(campaign);
+    return urls.filter(url => key && campaignKey(url.utmParameters?.campaign) === key);
+  }
+
+  /**
+   * Clicks, unique visitors, conversions, top sources and mediums and a daily timeline
+   * across every link of a campaign
+   */
+  static async getCampaignRollup(
+    campaign: string,
+    urls: ShortenedURL[],
+    options: CampaignRollupOptions = {}
+  ): Promise<CampaignRollup> {
+    const { excludeFiltered = false, days } = options;
+    const campaignURLs = this.getCampaignURLs(urls, campaign);
+    const since = days ? format(subDays(new Date(), days - 1), 'yyyy-MM-dd') : '';
+
+    const rollupsByLink = await Promise.all(campaignURLs.map(async url => ({
+      url,
+      rollups: (await ClickStorageService.getRollups(url.id)).filter(rollup => rollup.date >= since)
+    })));
+    const allRollups = rollupsByLink.flatMap(({ rollups }) => rollups);
+
+    const clicksOf = (rollup: URLClickRollup) => (excludeFiltered ? rollup.humanClicks || 0 : rollup.clicks);
+    const links = new Map<string, CampaignBreakdownRow>();
+    const timeline = new Map<string, CampaignBreakdownRow>();
+    const visitors = new Set<string>();
+
+    rollupsByLink.forEach(({ url, rollups }) => {
+      addTo(links, url.shortCode, {});
+      rollups.forEach(rollup => {
+        const values = { clicks: clicksOf(rollup), conversions: rollup.conversions, conversionValue: rollup.conversionValue };
+        addTo(links, url.shortCode, values);
+        addTo(timeline, rollup.date, values);
+        rollup.humanVisitors?.forEach(visitorId => visitors.add(visitorId));
+      });
+    });
+
+    const breakdown = (dimension: URLRollupDimension): CampaignBreakdownRow[] => {
+      const rows = new Map<string, CampaignBreakdownRow>();
+      const clicks = ClickStorageService.sumRollups(allRollups, excludeFiltered ? 'humanClicksBy' : 'clicksBy', dimension);
+      const conversions = ClickStorageService.sumRollups(allRollups, 'conversionsBy', dimension);
+      const values = ClickStorageService.sumRollups(allRollups, 'conversionValueBy', dimension);
+      Object.entries(clicks).forEach(([key, count]) => addTo(rows, key, { clicks: count }));
+      Object.entries(conversions).forEach(([key, count]) => addTo(rows, key, { conversions: count }));
+      Object.entries(values).forEach(([key, value]) => addTo(rows, key, { conversionValue: value }));
+      return byClicks(rows);
+    };
+
+    const linkRows = byClicks(links);
+    const totalClicks = linkRows.reduce((sum, row) => sum + row.clicks, 0);
+    const totalConversions = linkRows.reduce((sum, row) => sum + row.conversions, 0);
+
+    return {
+      campaign: campaign.trim(),
+      linkCount: campaignURLs.length,
+      totalClicks,
+      uniqueVisitors: visitors.size,
+      totalConversions,
+      conversionRate: totalClicks > 0 ? (totalConversions / totalClicks) * 100 : 0,
+      conversionValue: linkRows.reduce((sum, row) => sum + row.conversionValue, 0),
+      excludesFilteredClicks: excludeFiltered,
+      links: linkRows,
+      sources: breakdown('utmSource'),
+      mediums: breakdown('utmMedium'),
+      timeline: Array.from(timeline.values()).sort((a, b) => a.key.localeCompare(b.key))
+    };
+  }
+
+  /**
+   * CSV with one row per total, link, source, medium and day of each campaign
+   */
+  static toCSV(rollups: CampaignRollup[]): string {
+    const rows = rollups.flatMap(rollup => {
+      const section = (name: string, breakdown: CampaignBreakdownRow[]) => breakdown.map(row => [
+        rollup.campaign, name, row.key, row.clicks, row.conversions, row.conversionValue
+      ]);
+      return [
+        [rollup.campaign, 'total', 'clicks', rollup.totalClicks, rollup.totalConversions, rollup.conversionValue],
+        [rollup.campaign, 'total', 'unique_visitors', rollup.uniqueVisitors, '', ''],
+        ...section('link', rollup.links),
+        ...section('utm_source', rollup.sources),
+        ...section('utm_medium', rollup.mediums),
+        ...section('date', rollup.timeline)
+      ];
+    });
+    return toCSV(CSV_HEADERS, rows);
+  }
+}
@@ -1,8 +1,34 @@
-import { CampaignTemplate, UTMParams } from '@/types/shorten.ts';
+import {
+  CampaignTemplate,
+  CampaignTemplateCollection,
+  CampaignTemplateConflictStrategy,
+  CampaignTemplateImportResult,
+  CampaignTemplateInput,
+  ShortenedURL,
+  UTMAuditResult,
+  UTMGovernedParam,
+  UTMParams,
+  UTMRuleset,
+  UTMViolation
+} from '@/types/shorten.ts';
 import { nanoid } from 'nanoid';
 
 // Constants
 const TEMPLATE_STORAGE_KEY = 'campaign_templates';
+const RULESET_STORAGE_KEY = 'utm_ruleset';
+const UTM_PARAM_NAMES: UTMGovernedParam[] = ['source', 'medium', 'campaign', 'term', 'content'];
+const MAX_SUGGESTION_DISTANCE = 2;
+const COLLECTION_VERSION = 1;
+const SHARE_FRAGMENT_KEY = 'template';
+
+const DEFAULT_RULESET: UTMRuleset = {
+  enforceLowercase: true,
+  allowedValues: {},
+  aliases: {},
+  requiredParams: [],
+  requiredByCategory: {},
+  blockViolations: false
+};
 
 // Error logging utility to prevent sensitive information exposure
 const logError = (message: string, error?: unknown): void => {
@@ -50,6 +76,76 @@ const validateTemplate = (template: Partial<CampaignTemplate>): string[] => {
   return errors;
 };
 
+// Number of single-character edits between two values, used to suggest the closest allowed value
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Own aliases only, so values like "constructor" or "__proto__" don't resolve to prototype members
+const aliasFor = (ruleset: UTMRuleset, value: string): string | undefined => {
+  const key = value.toLowerCase();
+  if (!Object.prototype.hasOwnProperty.call(ruleset.aliases, key)) return undefined;
+  const alias = ruleset.aliases[key];
+  return typeof alias === 'string' ? alias : undefined;
+};
+
+const compilePattern = (pattern?: string): RegExp | null => {
+  if (!pattern) return null;
+  try {
+    return new RegExp(pattern);
+  } catch (error) {
+    logError('Invalid utm_campaign pattern', error);
+    return null;
+  }
+};
+
+// Only string UTM values are kept from imported or shared templates
+const sanitizeUTM = (value: unknown): UTMParams | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const source = value as Record<string, unknown>;
+  const params: UTMParams = {};
+  UTM_PARAM_NAMES.forEach(param => {
+    if (typeof source[param] === 'string') params[param] = source[param] as string;
+  });
+  if (source.custom && typeof source.custom === 'object') {
+    const custom = Object.entries(source.custom as Record<string, unknown>)
+      .filter((entry): entry is [string, string] => typeof entry[1] === 'string');
+    if (custom.length > 0) params.custom = Object.fromEntries(custom);
+  }
+  return params;
+};
+
+const toTemplateInput = (value: unknown): Partial<CampaignTemplateInput> => {
+  const source = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  return {
+    name: typeof source.name === 'string' ? source.name.trim() : undefined,
+    description: typeof source.description === 'string' ? source.description : undefined,
+    category: typeof source.category === 'string' ? source.category.trim() : undefined,
+    utmParameters: sanitizeUTM(source.utmParameters)
+  };
+};
+
+const nameKey = (name: string): string => name.trim().toLowerCase();
+
+// Share links carry the template as base64url-encoded UTF-8 JSON
+const encodeBase64URL = (text: string): string => {
+  const binary = Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const decodeBase64URL = (encoded: string): string => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
 // Default templates
 const DEFAULT_TEMPLATES: CampaignTemplate[] = [
   {
@@ -168,6 +264,7 @@ export class CampaignTemplateService {
     if (validationErrors.length > 0) {
       throw new Error(`Template validation failed: ${validationErrors.join(', ')}`);
     }
+    this.assertFollowsRules(template.utmParameters, template.category);
 
     const now = new Date().toISOString();
 
@@ -214,6 +311,7 @@ export class CampaignTemplateService {
     if (validationErrors.length > 0) {
       throw new Error(`Template validation failed: ${validationErrors.join(', ')}`);
     }
+    this.assertFollowsRules(updatedTemplate.utmParameters, updatedTemplate.category);
 
     // Update in array
     templates[templateIndex] = updatedTemplate;
@@ -267,6 +365,149 @@ export class CampaignTemplateService {
     return Array.from(categories);
   }
 
+  // Import templates from a backup, either merged by ID or replacing all templates
+  static importTemplates(templates: CampaignTemplate[], mode: 'merge' | 'replace' = 'merge'): number {
+    const validTemplates = templates.filter(template => template.id && validateTemplate(template).length === 0);
+
+    if (mode === 'replace') {
+      if (!this.saveTemplates(validTemplates)) {
+        throw new Error('Failed to save imported templates to storage');
+      }
+      return validTemplates.length;
+    }
+
+    const existingIds = new Set(this.getTemplates().map(template => template.id));
+    const newTemplates = validTemplates.filter(template => !existingIds.has(template.id));
+
+    if (newTemplates.length > 0 && !this.saveTemplates([...this.getTemplates(), ...newTemplates])) {
+      throw new Error('Failed to save imported templates to storage');
+    }
+
+    return newTemplates.length;
+  }
+
+  // Sharing
+  /**
+   * Templates as a collection file, either the given ones or all of them
+   */
+  static exportTemplates(ids?: string[]): CampaignTemplateCollection {
+    return {
+      version: COLLECTION_VERSION,
+      exportedAt: new Date().toISOString(),
+      templates: this.getTemplates().filter(template => !ids || ids.includes(template.id))
+    };
+  }
+
+  /**
+   * Templates from a collection file; a bare array of templates is accepted too
+   */
+  static parseTemplateCollection(json: string): Partial<CampaignTemplateInput>[] {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch (error) {
+      logError('Error parsing template collection', error);
+      throw new Error('The file is not valid JSON');
+    }
+
+    const templates = Array.isArray(data) ? data : (data as Partial<CampaignTemplateCollection> | null)?.templates;
+    if (!Array.isArray(templates)) {
+      throw new Error('No campaign templates found in the file');
+    }
+    return templates.map(toTemplateInput);
+  }
+
+  /**
+   * Add shared templates under new IDs; names that already exist are skipped,
+   * overwritten in place or imported as "Name (2)"
+   */
+  static importTemplateCollection(
+    templates: Partial<CampaignTemplateInput>[],
+    onConflict: CampaignTemplateConflictStrategy = 'rename'
+  ): CampaignTemplateImportResult {
+    const result: CampaignTemplateImportResult = { imported: 0, renamed: 0, overwritten: 0, skipped: 0, invalid: 0 };
+    const ruleset = this.getRuleset();
+    const existing = this.getTemplates();
+    const now = new Date().toISOString();
+
+    templates.forEach(input => {
+      if (validateTemplate(input).length > 0) {
+        result.invalid++;
+        return;
+      }
+      const template = input as CampaignTemplateInput;
+      if (ruleset.blockViolations && this.lintUTM(template.utmParameters, template.category, ruleset).length > 0) {
+        result.invalid++;
+        return;
+      }
+
+      const index = existing.findIndex(item => nameKey(item.name) === nameKey(template.name));
+      if (index !== -1 && onConflict === 'skip') {
+        result.skipped++;
+        return;
+      }
+      if (index !== -1 && onConflict === 'overwrite') {
+        existing[index] = { ...existing[index], ...template, name: existing[index].name, updatedAt: now };
+        result.overwritten++;
+        return;
+      }
+
+      const name = index !== -1 ? this.uniqueName(template.name, existing) : template.name;
+      existing.push({ ...template, name, id: generateId(), createdAt: now, updatedAt: now });
+      result.imported++;
+      if (index !== -1) result.renamed++;
+    });
+
+    if (result.imported + result.overwritten > 0 && !this.saveTemplates(existing)) {
+      throw new Error('Failed to save imported templates to storage');
+    }
+    return result;
+  }
+
+  // First free "Name (n)" among the given templates
+  private static uniqueName(name: string, templates: CampaignTemplate[]): string {
+    const taken = new Set(templates.map(template => nameKey(template.name)));
+    let suffix = 2;
+    while (taken.has(nameKey(`${name} (${suffix})`))) suffix++;
+    return `${name} (${suffix})`;
+  }
+
+  /**
+   * Link that opens the URL shortener and offers to import the template
+   */
+  static buildShareLink(template: CampaignTemplate): string {
+    const payload = {
+      n: template.name,
+      c: template.category,
+      d: template.description || undefined,
+      u: template.utmParameters
+    };
+    const encoded = encodeBase64URL(JSON.stringify(payload));
+    return `${window.location.origin}/url-shortener#${SHARE_FRAGMENT_KEY}=${encoded}`;
+  }
+
+  /**
+   * Template carried in a share link fragment, or null when there is none or it is invalid
+   */
+  static parseShareFragment(hash: string): CampaignTemplateInput | null {
+    const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_FRAGMENT_KEY);
+    if (!encoded) return null;
+
+    try {
+      const payload = JSON.parse(decodeBase64URL(encoded));
+      const template = toTemplateInput({
+        name: payload?.n,
+        category: payload?.c,
+        description: payload?.d,
+        utmParameters: payload?.u
+      });
+      return validateTemplate(template).length === 0 ? template as CampaignTemplateInput : null;
+    } catch (error) {
+      logError('Invalid shared template link', error);
+      return null;
+    }
+  }
+
   // Apply template to UTM parameters
   static applyTemplate(templateId: string): UTMParams | null {
     const template = this.getTemplateById(templateId);
@@ -277,4 +518,166 @@ export class CampaignTemplateService {
     
     return { ...template.utmParameters };
   }
+
+  // UTM naming rules
+  static getRuleset(): UTMRuleset {
+    try {
+      const stored = localStorage.getItem(RULESET_STORAGE_KEY);
+      return stored ? { ...DEFAULT_RULESET, ...JSON.parse(stored) } : DEFAULT_RULESET;
+    } catch (error) {
+      logError('Error getting UTM ruleset from localStorage', error);
+      return DEFAULT_RULESET;
+    }
+  }
+
+  /**
+   * Save the naming rules; value lists are trimmed and deduplicated (and lowercased when lowercase is enforced)
+   */
+  static saveRuleset(ruleset: UTMRuleset): UTMRuleset {
+    const pattern = ruleset.campaignPattern?.trim() || undefined;
+    if (pattern && !compilePattern(pattern)) {
+      throw new Error('The utm_campaign pattern is not a valid regular expression');
+    }
+
+    const normalize = (value: string) => (ruleset.enforceLowercase ? value.trim().toLowerCase() : value.trim());
+    const normalizeList = (values: string[] = []) => Array.from(new Set(values.map(normalize).filter(Boolean)));
+
+    const allowedValues: UTMRuleset['allowedValues'] = {};
+    UTM_PARAM_NAMES.forEach(param => {
+      const values = normalizeList(ruleset.allowedValues[param]);
+      if (values.length > 0) allowedValues[param] = values;
+    });
+
+    // fromEntries defines own keys, so an alias named "__proto__" can't replace the prototype
+    const aliases: Record<string, string> = Object.fromEntries(Object.entries(ruleset.aliases)
+      .filter((entry): entry is [string, string] => typeof entry[1] === 'string' && !!entry[0].trim() && !!entry[1].trim())
+      .map(([alias, value]) => [alias.trim().toLowerCase(), normalize(value)]));
+
+    const requiredByCategory: Record<string, UTMGovernedParam[]> = {};
+    Object.entries(ruleset.requiredByCategory).forEach(([category, params]) => {
+      const valid = UTM_PARAM_NAMES.filter(param => params.includes(param));
+      if (category.trim() && valid.length > 0) requiredByCategory[category.trim()] = valid;
+    });
+
+    const normalized: UTMRuleset = {
+      enforceLowercase: ruleset.enforceLowercase,
+      allowedValues,
+      aliases,
+      requiredParams: UTM_PARAM_NAMES.filter(param => ruleset.requiredParams.includes(param)),
+      requiredByCategory,
+      campaignPattern: pattern,
+      blockViolations: ruleset.blockViolations
+    };
+
+    try {
+      localStorage.setItem(RULESET_STORAGE_KEY, JSON.stringify(normalized));
+    } catch (error) {
+      logError('Error saving UTM ruleset to localStorage', error);
+      throw new Error('Failed to save the UTM naming rules');
+    }
+    return normalized;
+  }
+
+  // Why a non-empty value breaks the rules, or null when it follows them
+  private static checkValue(param: UTMGovernedParam, value: string, ruleset: UTMRuleset): string | null {
+    const alias = aliasFor(ruleset, value);
+    if (alias && alias !== value) {
+      return `utm_${param} "${value}" should be written as "${alias}"`;
+    }
+    const allowed = ruleset.allowedValues[param];
+    if (allowed?.length && !allowed.includes(value)) {
+      return `"${value}" is not an allowed utm_${param}`;
+    }
+    if (ruleset.enforceLowercase && value !== value.toLowerCase()) {
+      return `utm_${param} should be lowercase`;
+    }
+    const pattern = param === 'campaign' ? compilePattern(ruleset.campaignPattern) : null;
+    if (pattern && !pattern.test(value)) {
+      return `utm_campaign "${value}" does not match the naming pattern ${ruleset.campaignPattern}`;
+    }
+    return null;
+  }
+
+  // A value that follows the rules and most likely means the same thing
+  private static suggestValue(param: UTMGovernedParam, value: string, ruleset: UTMRuleset): string | undefined {
+    const lower = value.toLowerCase();
+    const allowed = ruleset.allowedValues[param] || [];
+    const closest = allowed
+      .map(candidate => ({ candidate, distance: editDistance(lower, candidate.toLowerCase()) }))
+      .filter(({ distance }) => distance <= MAX_SUGGESTION_DISTANCE)
+      .sort((a, b) => a.distance - b.distance)[0]?.candidate;
+    const normalized = ruleset.enforceLowercase ? lower : value;
+
+    const candidates = [
+      aliasFor(ruleset, value),
+      allowed.find(candidate => candidate.toLowerCase() === lower),
+      closest,
+      normalized,
+      // Campaign names usually fail the pattern because of spaces, hyphens or punctuation
+      normalized.replace(/[\s-]+/g, '_').replace(/[^\w.]/g, '')
+    ];
+    return candidates.find(candidate => !!candidate && candidate !== value && !this.checkValue(param, candidate, ruleset));
+  }
+
+  /**
+   * Check UTM values against the naming rules
+   * Category adds the parameters required for templates in that category.
+   */
+  static lintUTM(params: UTMParams, category?: string, ruleset: UTMRuleset = this.getRuleset()): UTMViolation[] {
+    const categoryParams = category && Object.prototype.hasOwnProperty.call(ruleset.requiredByCategory, category)
+      ? ruleset.requiredByCategory[category]
+      : [];
+    const required = new Set([...ruleset.requiredParams, ...(Array.isArray(categoryParams) ? categoryParams : [])]);
+    const violations: UTMViolation[] = [];
+
+    UTM_PARAM_NAMES.forEach(param => {
+      const raw = params[param];
+      const value = typeof raw === 'string' ? raw.trim() : '';
+      if (!value) {
+        if (required.has(param)) violations.push({ param, message: `utm_${param} is required` });
+        return;
+      }
+
+      const message = this.checkValue(param, value, ruleset);
+      if (message) {
+        violations.push({ param, message, suggestion: this.suggestValue(param, value, ruleset) });
+      }
+    });
+
+    return violations;
+  }
+
+  /**
+   * UTM values with every suggested fix applied
+   */
+  static fixUTM(params: UTMParams, violations: UTMViolation[]): UTMParams {
+    return violations.reduce<UTMParams>(
+      (fixed, violation) => (violation.suggestion ? { ...fixed, [violation.param]: violation.suggestion } : fixed),
+      { ...params }
+    );
+  }
+
+  /**
+   * Links whose UTM parameters break the current rules
+   */
+  static auditLinks(urls: ShortenedURL[]): UTMAuditResult[] {
+    const ruleset = this.getRuleset();
+    return urls
+      .filter(url => url.utmParameters && Object.keys(url.utmParameters).length > 0)
+      .map(url => ({ url, violations: this.lintUTM(url.utmParameters as UTMParams, undefined, ruleset) }))
+      .filter(result => result.violations.length > 0);
+  }
+
+  /**
+   * Throw when the rules block violations and the values break them
+   */
+  static assertFollowsRules(params: UTMParams, category?: string): void {
+    const ruleset = this.getRuleset();
+    if (!ruleset.blockViolations) return;
+
+    const violations = this.lintUTM(params, category, ruleset);
+    if (violations.length > 0) {
+      throw new Error(`UTM naming rules: ${violations.map(violation => violation.message).join('; ')}`);
+    }
+  }
 }
@@ -1,5 +1,5 @@
 import { Challenge } from '@/components/playground/ChallengeCard';
-import { TestResult } from '../types/playground';
+import { TestingEnvironment, TestResult } from '../types/playground';
 import { ChallengeLoaderService } from './ChallengeLoaderService';
 import challengesMeta from '@/data/challengesMeta';
 import { get, set, del } from 'idb-keyval';
@@ -32,7 +32,7 @@ export interface ChallengeTest {
   name: string;
   description: string;
   weight: number; // importance of this test in the overall score
-  testFunction: (env: Record<string, unknown>) => Promise<TestResult>;
+  testFunction: (env: TestingEnvironment) => Promise<TestResult>;
 }
 
 // Challenge with tests
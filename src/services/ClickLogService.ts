@@ -0,0 +1,124 @@
+/**
+ * ClickLogService - raw click records for inspection and export
+ * Reads the per-link shards kept by ClickStorageService.
+ */
+import { format } from 'date-fns';
+import { ShortenedURL, URLClickData } from '@/types/shorten.ts';
+import { ClickStorageService } from './ClickStorageService.ts';
+import { toCSV } from '@/utils/csv';
+
+// Which clicks to keep: every click, human clicks only, or only bot and repeat clicks
+export type ClickLogTraffic = 'all' | 'human' | 'filtered';
+
+export interface ClickLogFilter {
+  from?: string;             // First local day, yyyy-MM-dd
+  to?: string;               // Last local day (inclusive), yyyy-MM-dd
+  search?: string;           // Matched against referrer, device, browser, location and UTM values
+  traffic?: ClickLogTraffic;
+  conversionsOnly?: boolean;
+}
+
+const CSV_HEADERS = [
+  'timestamp', 'short_code', 'url_id', 'click_id', 'referrer', 'device', 'browser',
+  'country', 'region', 'city', 'utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content',
+  'session_duration', 'exit_page', 'is_conversion', 'conversion_type', 'conversion_value', 'conversion_count',
+  'variant_id', 'rule_id', 'visitor_id', 'is_bot', 'bot_reason', 'is_duplicate'
+];
+
+// Local calendar day of a click, empty when the timestamp is unreadable
+const clickDay = (click: URLClickData): string => {
+  const date = new Date(click.timestamp);
+  return Number.isNaN(date.getTime()) ? '' : format(date, 'yyyy-MM-dd');
+};
+
+const isFiltered = (click: URLClickData): boolean => !!click.isBot || !!click.isDuplicate;
+
+// Text the search box is matched against
+const searchableText = (click: URLClickData): string => [
+  click.referrer,
+  click.device,
+  click.browser,
+  click.location?.country,
+  click.location?.region,
+  click.location?.city,
+  click.utmParameters?.source,
+  click.utmParameters?.medium,
+  click.utmParameters?.campaign,
+  click.utmParameters?.term,
+  click.utmParameters?.content,
+  click.conversionType,
+  click.exitPage
+].filter(Boolean).join(' ').toLowerCase();
+
+const shortCodes = (urls: ShortenedURL[]): Map<string, string> => new Map(urls.map(url => [url.id, url.shortCode]));
+
+export class ClickLogService {
+  /**
+   * Clicks of one link, or of every link when no ID is given, newest first
+   */
+  static async getClicks(urlId?: string): Promise<URLClickData[]> {
+    const clicks = urlId ? await ClickStorageService.getClicks(urlId) : await ClickStorageService.getAllClicks();
+    return [...clicks].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  static filterClicks(clicks: URLClickData[], filter: ClickLogFilter): URLClickData[] {
+    const search = filter.search?.trim().toLowerCase();
+
+    return clicks.filter(click => {
+      if (filter.from || filter.to) {
+        const day = clickDay(click);
+        if (!day) return false;
+        if (filter.from && day < filter.from) return false;
+        if (filter.to && day > filter.to) return false;
+      }
+      if (filter.traffic === 'human' && isFiltered(click)) return false;
+      if (filter.traffic === 'filtered' && !isFiltered(click)) return false;
+      if (filter.conversionsOnly && !click.isConversion) return false;
+      return !search || searchableText(click).includes(search);
+    });
+  }
+
+  /**
+   * One row per click, for spreadsheets
+   */
+  static toCSV(clicks: URLClickData[], urls: ShortenedURL[]): string {
+    const codes = shortCodes(urls);
+    return toCSV(CSV_HEADERS, clicks.map(click => [
+      click.timestamp,
+      codes.get(click.urlId) || '',
+      click.urlId,
+      click.id,
+      click.referrer,
+      click.device,
+      click.browser,
+      click.location?.country,
+      click.location?.region,
+      click.location?.city,
+      click.utmParameters?.source,
+      click.utmParameters?.medium,
+      click.utmParameters?.campaign,
+      click.utmParameters?.term,
+      click.utmParameters?.content,
+      click.sessionDuration,
+      click.exitPage,
+      click.isConversion ? 'true' : 'false',
+      click.conversionType,
+      click.conversionValue,
+      click.conversions?.length ?? (click.isConversion ? 1 : 0),
+      click.variantId,
+      click.ruleId,
+      click.visitorId,
+      click.isBot ? 'true' : 'false',
+      click.botReason,
+      click.isDuplicate ? 'true' : 'false'
+    ]));
+  }
+
+  /**
+   * One JSON object per line, each click as stored plus its link's short code
+   */
+  static toNDJSON(clicks: URLClickData[], urls: ShortenedURL[]): string {
+    const codes = shortCodes(urls);
+    return clicks.map(click => JSON.stringify({ ...click, shortCode: codes.get(click.urlId) })).join('\n');
+  }
+}
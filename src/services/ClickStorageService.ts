@@ -0,0 +1,362 @@
+/**
+ * ClickStorageService - click data sharded per short link, with daily rollups
+ * Each link keeps its clicks and its pre-aggregated daily counts under its own IndexedDB keys.
+ * Writes go through idb-keyval's update(), which reads and writes inside a single
+ * transaction, so concurrent tabs cannot overwrite each other's clicks.
+ */
+import { get, set, del, update, keys, getMany, setMany, delMany } from 'idb-keyval';
+import { format, parseISO } from 'date-fns';
+import {
+  ShortenedURL,
+  URLClickConversion,
+  URLClickData,
+  URLClickRollup,
+  URLRollupCounts,
+  URLRollupDimension,
+  UTMParams
+} from '@/types/shorten.ts';
+
+const CLICK_SHARD_PREFIX = 'url_clicks:';
+const ROLLUP_PREFIX = 'url_click_rollups:';
+
+// Before sharding, every click lived in a single array under this key
+const LEGACY_CLICKS_KEY = 'url_clicks';
+const LAYOUT_VERSION_KEY = 'url_click_storage_version';
+const LAYOUT_VERSION = 3; // 3: rollups track bot and duplicate clicks
+
+// Repeat clicks by the same visitor within this window are flagged as duplicates
+export const DUPLICATE_CLICK_WINDOW_MS = 30 * 60 * 1000;
+
+type RollupsByDate = Record<string, URLClickRollup>;
+type RollupCountField = 'clicksBy' | 'humanClicksBy' | 'conversionsBy' | 'conversionValueBy';
+
+const shardKey = (urlId: string) => `${CLICK_SHARD_PREFIX}${urlId}`;
+const rollupKey = (urlId: string) => `${ROLLUP_PREFIX}${urlId}`;
+
+const formatTimestamp = (timestamp: string, pattern: string, fallback: string): string => {
+  try {
+    return format(parseISO(timestamp), pattern);
+  } catch (error) {
+    return fallback;
+  }
+};
+
+const dimensionValues = (click: URLClickData, utm?: UTMParams): Partial<Record<URLRollupDimension, string>> => ({
+  referrer: String(click.referrer || 'Unknown'),
+  device: String(click.device || 'Unknown'),
+  browser: String(click.browser || 'Unknown'),
+  country: String(click.location?.country || 'Unknown'),
+  region: String(click.location?.region || 'Unknown'),
+  city: String(click.location?.city || 'Unknown'),
+  hour: formatTimestamp(click.timestamp, 'HH', 'Unknown'),
+  utmSource: String(utm?.source || 'Unknown'),
+  utmMedium: String(utm?.medium || 'Unknown'),
+  utmCampaign: String(utm?.campaign || 'Unknown'),
+  utmTerm: String(utm?.term || 'Unknown'),
+  utmContent: String(utm?.content || 'Unknown'),
+  variant: String(click.variantId || 'Unknown')
+});
+
+const increment = (counts: URLRollupCounts, values: Partial<Record<URLRollupDimension, string>>, amount: number) => {
+  (Object.entries(values) as Array<[URLRollupDimension, string]>).forEach(([dimension, value]) => {
+    const bucket = counts[dimension] || (counts[dimension] = {});
+    bucket[value] = (bucket[value] || 0) + amount;
+  });
+};
+
+// Conversions of a click; clicks stored before repeat conversions were kept only carry the flags
+const conversionsOf = (click: URLClickData): URLClickConversion[] => {
+  if (Array.isArray(click.conversions)) return click.conversions;
+  return click.isConversion
+    ? [{ type: click.conversionType, value: click.conversionValue, timestamp: click.timestamp }]
+    : [];
+};
+
+// The click as the rollups see one of its conversions, dated when the conversion happened
+const withConversion = (click: URLClickData, conversion: URLClickConversion): URLClickData => ({
+  ...click,
+  timestamp: conversion.timestamp,
+  conversionType: conversion.type,
+  conversionValue: conversion.value
+});
+
+const emptyRollup = (date: string): URLClickRollup => ({
+  date,
+  clicks: 0,
+  conversions: 0,
+  conversionValue: 0,
+  humanClicks: 0,
+  botClicks: 0,
+  duplicateClicks: 0,
+  humanVisitors: [],
+  clicksBy: {},
+  humanClicksBy: {},
+  conversionsBy: {},
+  conversionValueBy: {}
+});
+
+export class ClickStorageService {
+  /**
+   * Add a click (or a conversion on an already counted click) to a link's daily rollups
+   * Conversions are attributed to the click's UTM parameters, falling back to the link's own.
+   */
+  private static applyToRollups(
+    rollups: RollupsByDate,
+    click: URLClickData,
+    kind: 'click' | 'conversion',
+    fallbackUtm?: UTMParams
+  ): RollupsByDate {
+    const date = formatTimestamp(click.timestamp, 'yyyy-MM-dd', 'Invalid Date');
+    const rollup = rollups[date] || (rollups[date] = emptyRollup(date));
+
+    if (kind === 'click') {
+      const values = dimensionValues(click, click.utmParameters);
+      rollup.clicks++;
+      increment(rollup.clicksBy, values, 1);
+
+      if (click.isBot) {
+        rollup.botClicks++;
+      } else if (click.isDuplicate) {
+        rollup.duplicateClicks++;
+      } else {
+        rollup.humanClicks++;
+        increment(rollup.humanClicksBy, values, 1);
+        if (click.visitorId && !rollup.humanVisitors.includes(click.visitorId)) {
+          rollup.humanVisitors.push(click.visitorId);
+        }
+      }
+    } else {
+      const values = {
+        ...dimensionValues(click, click.utmParameters || fallbackUtm),
+        conversionType: String(click.conversionType || 'Unknown')
+      };
+      rollup.conversions++;
+      rollup.conversionValue += click.conversionValue || 0;
+      increment(rollup.conversionsBy, values, 1);
+      increment(rollup.conversionValueBy, values, click.conversionValue || 0);
+    }
+
+    return rollups;
+  }
+
+  private static buildRollups(clicks: URLClickData[], fallbackUtm?: UTMParams): RollupsByDate {
+    return clicks.reduce<RollupsByDate>((rollups, click) => {
+      this.applyToRollups(rollups, click, 'click');
+      conversionsOf(click).forEach(conversion => this.applyToRollups(rollups, withConversion(click, conversion), 'conversion', fallbackUtm));
+      return rollups;
+    }, {});
+  }
+
+  static async getClicks(urlId: string): Promise<URLClickData[]> {
+    try {
+      const clicks = await get<URLClickData[]>(shardKey(urlId));
+      return Array.isArray(clicks) ? clicks : [];
+    } catch (error) {
+      console.error(`Error reading clicks for ${urlId}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Every stored click across all links, for exports and backups
+   */
+  static async getAllClicks(): Promise<URLClickData[]> {
+    try {
+      const shardKeys = (await keys()).filter(key => typeof key === 'string' && key.startsWith(CLICK_SHARD_PREFIX));
+      const shards = await getMany<URLClickData[] | undefined>(shardKeys);
+      return shards.flatMap(shard => (Array.isArray(shard) ? shard : []));
+    } catch (error) {
+      console.error('Error reading all clicks:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Daily rollups for a link, oldest first
+   */
+  static async getRollups(urlId: string): Promise<URLClickRollup[]> {
+    try {
+      const rollups = await get<RollupsByDate>(rollupKey(urlId)) || {};
+      return Object.values(rollups).sort((a, b) => a.date.localeCompare(b.date));
+    } catch (error) {
+      console.error(`Error reading click rollups for ${urlId}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Sum one dimension of a set of rollups, e.g. clicks by device
+   */
+  static sumRollups(rollups: URLClickRollup[], field: RollupCountField, dimension: URLRollupDimension): Record<string, number> {
+    return rollups.reduce<Record<string, number>>((totals, rollup) => {
+      Object.entries(rollup[field]?.[dimension] || {}).forEach(([value, count]) => {
+        totals[value] = (totals[value] || 0) + count;
+      });
+      return totals;
+    }, {});
+  }
+
+  /**
+   * Store a click and add it to the rollups
+   * A human click is flagged as a duplicate when the same visitor clicked the link
+   * within DUPLICATE_CLICK_WINDOW_MS; this is decided inside the write transaction.
+   */
+  static async addClick(click: URLClickData, fallbackUtm?: UTMParams): Promise<void> {
+    await update<URLClickData[]>(shardKey(click.urlId), stored => {
+      const clicks = Array.isArray(stored) ? stored : [];
+      if (click.visitorId && !click.isBot) {
+        const windowStart = new Date(click.timestamp).getTime() - DUPLICATE_CLICK_WINDOW_MS;
+        // Clicks are appended in time order, so scan backwards until the window is left
+        for (let i = clicks.length - 1; i >= 0 && new Date(clicks[i].timestamp).getTime() >= windowStart; i--) {
+          if (clicks[i].visitorId === click.visitorId && !clicks[i].isBot) {
+            click.isDuplicate = true;
+            break;
+          }
+        }
+      }
+      return [...clicks, click];
+    });
+    await update<RollupsByDate>(rollupKey(click.urlId), rollups => {
+      const updated = this.applyToRollups(rollups || {}, click, 'click');
+      conversionsOf(click).forEach(conversion => this.applyToRollups(updated, withConversion(click, conversion), 'conversion', fallbackUtm));
+      return updated;
+    });
+  }
+
+  /**
+   * Credit a conversion to the visitor's most recent click on the link (the link's most recent
+   * click when no visitor is given). Repeat conversions are added to the same click.
+   * Bot clicks are only used when there is no other click to attribute it to.
+   * Returns the converted click, or null when the visitor has no click on the link.
+   */
+  static async recordConversion(
+    url: ShortenedURL,
+    conversion: Omit<URLClickConversion, 'timestamp'>,
+    visitorId?: string
+  ): Promise<URLClickData | null> {
+    const result: { click?: URLClickData; conversion?: URLClickConversion } = {};
+
+    await update<URLClickData[]>(shardKey(url.id), stored => {
+      const clicks = Array.isArray(stored) ? stored : [];
+      const candidates = visitorId ? clicks.filter(click => click.visitorId === visitorId) : clicks;
+      const latestOf = (list: URLClickData[]) => list.reduce<URLClickData | undefined>(
+        (best, click) => (!best || click.timestamp >= best.timestamp ? click : best),
+        undefined
+      );
+      const latest = latestOf(candidates.filter(click => !click.isBot)) || latestOf(candidates);
+      if (latest) {
+        const recorded: URLClickConversion = { ...conversion, timestamp: new Date().toISOString() };
+        latest.conversions = [...conversionsOf(latest), recorded];
+        if (!latest.isConversion) {
+          latest.isConversion = true;
+          latest.conversionType = recorded.type;
+          latest.conversionValue = recorded.value;
+        }
+        result.click = latest;
+        result.conversion = recorded;
+      }
+      return clicks;
+    });
+
+    const { click, conversion: recorded } = result;
+    if (!click || !recorded) return null;
+
+    await update<RollupsByDate>(rollupKey(url.id), rollups =>
+      this.applyToRollups(rollups || {}, withConversion(click, recorded), 'conversion', url.utmParameters));
+    return click;
+  }
+
+  static async deleteClicks(urlId: string): Promise<void> {
+    try {
+      await delMany([shardKey(urlId), rollupKey(urlId)]);
+    } catch (error) {
+      console.error(`Error deleting clicks for ${urlId}:`, error);
+    }
+  }
+
+  /**
+   * Replace all stored clicks, rebuilding every link's rollups (imports and backup restores)
+   */
+  static async replaceAllClicks(clicks: URLClickData[], urls: ShortenedURL[]): Promise<void> {
+    const existingKeys = (await keys()).filter(key =>
+      typeof key === 'string' && (key.startsWith(CLICK_SHARD_PREFIX) || key.startsWith(ROLLUP_PREFIX))
+    );
+    await delMany(existingKeys);
+    await this.writeShards(clicks, urls);
+  }
+
+  private static async writeShards(clicks: URLClickData[], urls: ShortenedURL[]): Promise<void> {
+    const utmByUrlId = new Map(urls.map(url => [url.id, url.utmParameters]));
+    const clicksByUrlId = clicks.reduce<Map<string, URLClickData[]>>((groups, click) => {
+      groups.set(click.urlId, [...(groups.get(click.urlId) || []), click]);
+      return groups;
+    }, new Map());
+
+    const entries: Array<[string, URLClickData[] | RollupsByDate]> = [];
+    clicksByUrlId.forEach((urlClicks, urlId) => {
+      entries.push([shardKey(urlId), urlClicks]);
+      entries.push([rollupKey(urlId), this.buildRollups(urlClicks, utmByUrlId.get(urlId))]);
+    });
+    await setMany(entries);
+  }
+
+  /**
+   * Rebuild every link's rollups from its stored clicks; the clicks themselves are not rewritten
+   */
+  private static async rebuildRollups(urls: ShortenedURL[]): Promise<void> {
+    const utmByUrlId = new Map(urls.map(url => [url.id, url.utmParameters]));
+    const storedKeys = (await keys()).filter((key): key is string => typeof key === 'string');
+    const shardKeys = storedKeys.filter(key => key.startsWith(CLICK_SHARD_PREFIX));
+    const shards = await getMany<URLClickData[] | undefined>(shardKeys);
+
+    const entries = shardKeys.map((key, index): [string, RollupsByDate] => {
+      const urlId = key.slice(CLICK_SHARD_PREFIX.length);
+      const clicks = shards[index];
+      return [rollupKey(urlId), this.buildRollups(Array.isArray(clicks) ? clicks : [], utmByUrlId.get(urlId))];
+    });
+    await setMany(entries);
+
+    // Rollups left over from links whose clicks are gone
+    const rebuilt = new Set(entries.map(([key]) => key));
+    await delMany(storedKeys.filter(key => key.startsWith(ROLLUP_PREFIX) && !rebuilt.has(key)));
+  }
+
+  /**
+   * One-time move from the single legacy clicks array to per-link shards;
+   * also rebuilds all rollups when their layout version changes
+   * Clicks recorded before bot filtering existed are kept as they are (unfiltered).
+   * Returns the number of legacy clicks migrated.
+   */
+  static async migrateLegacyClicks(urls: ShortenedURL[]): Promise<number> {
+    try {
+      if (await get<number>(LAYOUT_VERSION_KEY) === LAYOUT_VERSION) return 0;
+
+      const legacyClicks = await get<unknown>(LEGACY_CLICKS_KEY);
+      const clicks = Array.isArray(legacyClicks)
+        ? legacyClicks.filter((click): click is URLClickData => !!click && typeof click.urlId === 'string')
+        : [];
+
+      // Append legacy clicks to their link's shard, keeping anything already recorded there (e.g. by another tab)
+      const legacyByUrlId = clicks.reduce<Map<string, URLClickData[]>>((groups, click) => {
+        groups.set(click.urlId, [...(groups.get(click.urlId) || []), click]);
+        return groups;
+      }, new Map());
+      for (const [urlId, urlClicks] of legacyByUrlId) {
+        await update<URLClickData[]>(shardKey(urlId), stored => {
+          const existing = Array.isArray(stored) ? stored : [];
+          const seen = new Set(existing.map(click => click.id));
+          return [...existing, ...urlClicks.filter(click => !seen.has(click.id))]
+            .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+        });
+      }
+      await this.rebuildRollups(urls);
+
+      await set(LAYOUT_VERSION_KEY, LAYOUT_VERSION);
+      await del(LEGACY_CLICKS_KEY);
+      return clicks.length;
+    } catch (error) {
+      console.error('Error migrating click storage:', error);
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * QRCodeService - branded QR codes rendered as SVG, with PNG export, reusable
+ * style presets and zipped batches
+ */
+import QRCode from 'qrcode';
+import type { BitMatrix } from 'qrcode';
+import { get, set } from 'idb-keyval';
+import { nanoid } from 'nanoid';
+import { QRCodeStyle, QRErrorLevel, QRStylePreset, ShortenedURL } from '@/types/shorten.ts';
+import { buildShortURL } from '@/lib/short-links';
+import { createZip, ZipEntry } from '@/utils/zip';
+
+export const DEFAULT_QR_STYLE: QRCodeStyle = {
+  size: 240,
+  fgColor: '#000000',
+  bgColor: '#FFFFFF',
+  level: 'M',
+  moduleStyle: 'square',
+  logoScale: 0.2,
+  caption: ''
+};
+
+// 2048px is about 17 cm wide at 300 dpi
+export const PRINT_PNG_SIZE = 2048;
+
+const QUIET_ZONE = 4; // Modules of empty margin required around the code
+const FINDER_SIZE = 7;
+const MAX_LOGO_BYTES = 256 * 1024;
+const MAX_CAPTION_LENGTH = 40;
+const MAX_PRESETS = 20;
+const PRESETS_KEY = 'qr_style_presets';
+const LEVEL_ORDER: QRErrorLevel[] = ['L', 'M', 'Q', 'H'];
+
+const escapeXML = (text: string): string =>
+  text.replace(/[<>&"']/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[char] as string));
+
+const isFinderModule = (x: number, y: number, count: number): boolean =>
+  (x < FINDER_SIZE && y < FINDER_SIZE) ||
+  (x >= count - FINDER_SIZE && y < FINDER_SIZE) ||
+  (x < FINDER_SIZE && y >= count - FINDER_SIZE);
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('Failed to render QR code'));
+  image.src = src;
+});
+
+export class QRCodeService {
+  /**
+   * Error correction actually used: a logo covers modules, so it needs at least
+   * Quartile, or High for logos wider than a fifth of the code
+   */
+  static effectiveLevel(style: QRCodeStyle): QRErrorLevel {
+    if (!style.logo) return style.level;
+    const minimum: QRErrorLevel = style.logoScale > 0.2 ? 'H' : 'Q';
+    return LEVEL_ORDER.indexOf(style.level) >= LEVEL_ORDER.indexOf(minimum) ? style.level : minimum;
+  }
+
+  /**
+   * Module matrix for a value, indexed [row][column]
+   */
+  static getModules(value: string, level: QRErrorLevel): boolean[][] {
+    let matrix: BitMatrix;
+    try {
+      matrix = QRCode.create(value, { errorCorrectionLevel: level }).modules;
+    } catch (error) {
+      console.error('Error encoding QR code:', error);
+      throw new Error('Failed to generate QR code');
+    }
+
+    return Array.from({ length: matrix.size }, (_, y) =>
+      Array.from({ length: matrix.size }, (_, x) => !!matrix.get(y, x)));
+  }
+
+  /**
+   * Render a styled QR code as a standalone SVG document
+   * Coordinates are in modules; the quiet zone and optional caption frame are included.
+   */
+  static buildSVG(value: string, style: QRCodeStyle): string {
+    const modules = this.getModules(value, this.effectiveLevel(style));
+    const count = modules.length;
+    const width = count + QUIET_ZONE * 2;
+    const caption = style.caption?.trim().slice(0, MAX_CAPTION_LENGTH);
+    const captionHeight = caption ? Math.max(5, Math.round(width * 0.16)) : 0;
+    const height = width + captionHeight;
+    const fg = escapeXML(style.fgColor);
+    const bg = escapeXML(style.bgColor);
+
+    // Modules under the logo are cleared so it sits on a clean background
+    const logoSize = style.logo ? Math.ceil(count * style.logoScale) : 0;
+    const logoStart = Math.floor((count - logoSize) / 2);
+    const underLogo = (x: number, y: number) =>
+      logoSize > 0 && x >= logoStart - 1 && x <= logoStart + logoSize && y >= logoStart - 1 && y <= logoStart + logoSize;
+
+    const shapes: string[] = [];
+    const squares: string[] = [];
+    modules.forEach((row, y) => row.forEach((dark, x) => {
+      if (!dark || underLogo(x, y)) return;
+      // Finder patterns are drawn whole below so styled codes stay easy to scan
+      if (style.moduleStyle !== 'square' && isFinderModule(x, y, count)) return;
+
+      const left = x + QUIET_ZONE;
+      const top = y + QUIET_ZONE;
+      if (style.moduleStyle === 'dots') {
+        shapes.push(`<circle cx="${left + 0.5}" cy="${top + 0.5}" r="0.45"/>`);
+      } else if (style.moduleStyle === 'rounded') {
+        shapes.push(`<rect x="${left + 0.05}" y="${top + 0.05}" width="0.9" height="0.9" rx="0.35"/>`);
+      } else {
+        squares.push(`M${left} ${top}h1v1h-1z`);
+      }
+    }));
+
+    if (style.moduleStyle !== 'square') {
+      [[0, 0], [count - FINDER_SIZE, 0], [0, count - FINDER_SIZE]].forEach(([x, y]) => {
+        const left = x + QUIET_ZONE;
+        const top = y + QUIET_ZONE;
+        shapes.push(
+          `<rect x="${left + 0.5}" y="${top + 0.5}" width="6" height="6" rx="1.6" fill="none" stroke="${fg}" stroke-width="1"/>`,
+          `<rect x="${left + 2}" y="${top + 2}" width="3" height="3" rx="0.8"/>`
+        );
+      });
+    }
+
+    const parts = [
+      `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${style.size}" height="${Math.round(style.size * height / width)}">`,
+      `<rect width="${width}" height="${height}" rx="${caption ? 2 : 0}" fill="${bg}"/>`,
+      `<g fill="${fg}">`,
+      squares.length > 0 ? `<path d="${squares.join('')}" shape-rendering="crispEdges"/>` : '',
+      ...shapes,
+      '</g>'
+    ];
+
+    if (style.logo) {
+      const logoLeft = logoStart + QUIET_ZONE;
+      parts.push(
+        `<image href="${escapeXML(style.logo)}" x="${logoLeft}" y="${logoLeft}" width="${logoSize}" height="${logoSize}" preserveAspectRatio="xMidYMid meet"/>`
+      );
+    }
+
+    if (caption) {
+      parts.push(
+        `<rect x="0.5" y="0.5" width="${width - 1}" height="${height - 1}" rx="2" fill="none" stroke="${fg}" stroke-width="1"/>`,
+        `<path d="M0 ${width}h${width}v${captionHeight - 2}a2 2 0 0 1 -2 2h-${width - 4}a2 2 0 0 1 -2 -2z" fill="${fg}"/>`,
+        `<text x="${width / 2}" y="${width + captionHeight / 2}" fill="${bg}" font-family="Arial, Helvetica, sans-serif" font-weight="bold" font-size="${captionHeight * 0.5}" text-anchor="middle" dominant-baseline="central">${escapeXML(caption)}</text>`
+      );
+    }
+
+    parts.push('</svg>');
+    return parts.join('');
+  }
+
+  static toDataURL(svg: string): string {
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  }
+
+  static toSVGBlob(svg: string): Blob {
+    return new Blob([svg], { type: 'image/svg+xml;charset=utf-8' });
+  }
+
+  /**
+   * Rasterize a styled QR code to PNG at the given width
+   */
+  static async renderPNG(value: string, style: QRCodeStyle, width: number = style.size): Promise<Blob> {
+    const image = await loadImage(this.toDataURL(this.buildSVG(value, { ...style, size: width })));
+    const canvas = document.createElement('canvas');
+    canvas.width = image.width;
+    canvas.height = image.height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Failed to render QR code');
+    }
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to render QR code'))), 'image/png');
+    });
+  }
+
+  /**
+   * QR codes for several links in one ZIP file, named after their short codes
+   */
+  static async buildBatchZip(urls: ShortenedURL[], style: QRCodeStyle, format: 'svg' | 'png'): Promise<Blob> {
+    const entries: ZipEntry[] = [];
+    for (const url of urls) {
+      const value = buildShortURL(url.shortCode);
+      entries.push({
+        name: `qr-${url.shortCode}.${format}`,
+        data: format === 'svg'
+          ? this.buildSVG(value, style)
+          : new Uint8Array(await (await this.renderPNG(value, style, PRINT_PNG_SIZE)).arrayBuffer())
+      });
+    }
+    return createZip(entries);
+  }
+
+  /**
+   * Read an uploaded logo as a data URL so it can be embedded in exports
+   */
+  static readLogo(file: File): Promise<string> {
+    if (!file.type.startsWith('image/')) {
+      return Promise.reject(new Error('The logo must be an image'));
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      return Promise.reject(new Error(`The logo can be at most ${MAX_LOGO_BYTES / 1024} KB`));
+    }
+
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(String(reader.result));
+      reader.onerror = () => reject(new Error('Failed to read the logo'));
+      reader.readAsDataURL(file);
+    });
+  }
+
+  // Style presets
+  static async getPresets(): Promise<QRStylePreset[]> {
+    try {
+      const presets = await get<QRStylePreset[]>(PRESETS_KEY);
+      return Array.isArray(presets) ? presets : [];
+    } catch (error) {
+      console.error('Error reading QR style presets:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save a style under a name; saving an existing name replaces that preset
+   */
+  static async savePreset(name: string, style: QRCodeStyle): Promise<QRStylePreset> {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      throw new Error('Presets need a name');
+    }
+
+    const presets = await this.getPresets();
+    const existing = presets.find(preset => preset.name.toLowerCase() === trimmedName.toLowerCase());
+    if (!existing && presets.length >= MAX_PRESETS) {
+      throw new Error(`You can save at most ${MAX_PRESETS} presets`);
+    }
+
+    const preset: QRStylePreset = {
+      id: existing?.id || nanoid(),
+      name: trimmedName,
+      style,
+      createdAt: existing?.createdAt || new Date().toISOString()
+    };
+    await set(PRESETS_KEY, existing
+      ? presets.map(item => (item.id === existing.id ? preset : item))
+      : [...presets, preset]);
+    return preset;
+  }
+
+  static async deletePreset(id: string): Promise<boolean> {
+    const presets = await this.getPresets();
+    const remaining = presets.filter(preset => preset.id !== id);
+    if (remaining.length === presets.length) return false;
+
+    await set(PRESETS_KEY, remaining);
+    return true;
+  }
+
+  /**
+   * Import presets from a backup, either added to the existing ones (names already taken are skipped)
+   * or replacing them; returns the number imported
+   */
+  static async importPresets(presets: QRStylePreset[], mode: 'merge' | 'replace' = 'merge'): Promise<number> {
+    const valid = presets.filter(preset => preset.id && preset.name?.trim() && preset.style);
+    const existing = mode === 'replace' ? [] : await this.getPresets();
+    const takenNames = new Set(existing.map(preset => preset.name.toLowerCase()));
+    const takenIds = new Set(existing.map(preset => preset.id));
+    const added = valid
+      .filter(preset => !takenNames.has(preset.name.toLowerCase()))
+      .slice(0, Math.max(0, MAX_PRESETS - existing.length))
+      .map(preset => (takenIds.has(preset.id) ? { ...preset, id: nanoid() } : preset));
+
+    await set(PRESETS_KEY, [...existing, ...added]);
+    return added.length;
+  }
+}
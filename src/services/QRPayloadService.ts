@@ -0,0 +1,290 @@
+/**
+ * QRPayloadService - builds and validates non-URL QR code content:
+ * contact cards, Wi-Fi join codes, email and SMS templates and calendar events
+ */
+import validator from 'validator';
+import { nanoid } from 'nanoid';
+import { EventPayload, QRPayload, QRPayloadType, VCardPayload, WifiPayload } from '@/types/shorten.ts';
+
+export const QR_PAYLOAD_LABELS: Record<QRPayloadType, string> = {
+  vcard: 'Contact',
+  wifi: 'Wi-Fi',
+  email: 'Email',
+  sms: 'SMS',
+  event: 'Event'
+};
+
+// Files that wrapped contact and event payloads are downloaded as
+const PAYLOAD_FILES: Record<'vcard' | 'event', { mimeType: string; extension: string }> = {
+  vcard: { mimeType: 'text/vcard', extension: 'vcf' },
+  event: { mimeType: 'text/calendar', extension: 'ics' }
+};
+
+// Largest payload that still fits a QR code at High error correction
+const MAX_PAYLOAD_BYTES = 1200;
+const MAX_FOLDED_LINE_BYTES = 75;
+const MAX_SSID_BYTES = 32;
+const PHONE_PATTERN = /^\+?\d{3,15}$/;
+const HEX_PATTERN = /^[0-9a-f]+$/i;
+
+const byteLength = (text: string): number => new TextEncoder().encode(text).length;
+
+const normalizePhone = (phone: string): string => phone.trim().replace(/[\s().-]/g, '');
+
+const splitAddresses = (to: string): string[] => to.split(',').map(address => address.trim()).filter(Boolean);
+
+// Text values in vCard and iCalendar properties
+const escapeText = (text: string): string =>
+  text.trim().replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Wi-Fi fields escape the characters that delimit them
+const escapeWifi = (text: string): string => text.replace(/([\\;,:"])/g, '\\$1');
+
+/**
+ * Fold content lines longer than 75 bytes, as vCard and iCalendar require
+ */
+const foldLine = (line: string): string => {
+  if (byteLength(line) <= MAX_FOLDED_LINE_BYTES) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? MAX_FOLDED_LINE_BYTES : MAX_FOLDED_LINE_BYTES - 1;
+    if (byteLength(current + char) > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const contentLines = (lines: Array<string | false | undefined>): string =>
+  lines.filter((line): line is string => !!line).map(foldLine).join('\r\n');
+
+// iCalendar UTC date-time, e.g. 20261019T143000Z
+const formatUTC = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10).replace(/-/g, '');
+
+// All-day dates are parsed as UTC so the day does not shift with the local time zone
+const parseEventDate = (value: string, allDay?: boolean): Date =>
+  new Date(allDay ? `${value.slice(0, 10)}T00:00:00Z` : value);
+
+export class QRPayloadService {
+  /**
+   * Validation errors for a payload; empty when it can be encoded
+   */
+  static validate(payload: QRPayload): string[] {
+    const errors: string[] = [];
+
+    switch (payload.type) {
+      case 'vcard': {
+        const { firstName, lastName, phone, email, website } = payload.data;
+        if (!firstName.trim() && !lastName.trim()) errors.push('Enter a first or last name');
+        if (phone?.trim() && !PHONE_PATTERN.test(normalizePhone(phone))) errors.push('Enter a valid phone number');
+        if (email?.trim() && !validator.isEmail(email.trim())) errors.push('Enter a valid email address');
+        if (website?.trim() && !validator.isURL(website.trim(), { protocols: ['http', 'https'], require_protocol: true })) {
+          errors.push('Website must start with http:// or https://');
+        }
+        break;
+      }
+
+      case 'wifi': {
+        const { ssid, password = '', encryption } = payload.data;
+        if (!ssid.trim()) {
+          errors.push('Enter the network name');
+        } else if (byteLength(ssid) > MAX_SSID_BYTES) {
+          errors.push(`Network names can be at most ${MAX_SSID_BYTES} bytes long`);
+        }
+        if (encryption === 'WPA' && !(
+          (password.length >= 8 && password.length <= 63) || (password.length === 64 && HEX_PATTERN.test(password))
+        )) {
+          errors.push('WPA passwords are 8 to 63 characters long');
+        }
+        if (encryption === 'WEP' && !(
+          [5, 13].includes(password.length) || ([10, 26].includes(password.length) && HEX_PATTERN.test(password))
+        )) {
+          errors.push('WEP keys are 5 or 13 characters, or 10 or 26 hex digits');
+        }
+        break;
+      }
+
+      case 'email': {
+        const addresses = splitAddresses(payload.data.to);
+        if (addresses.length === 0) {
+          errors.push('Enter a recipient');
+        } else if (!addresses.every(address => validator.isEmail(address))) {
+          errors.push('Enter valid email addresses, separated by commas');
+        }
+        break;
+      }
+
+      case 'sms':
+        if (!PHONE_PATTERN.test(normalizePhone(payload.data.phone))) errors.push('Enter a valid phone number');
+        break;
+
+      case 'event': {
+        const { title, start, end, allDay } = payload.data;
+        if (!title.trim()) errors.push('Enter an event title');
+        const startDate = start ? parseEventDate(start, allDay) : null;
+        if (!startDate || Number.isNaN(startDate.getTime())) {
+          errors.push('Enter a start date');
+        } else if (end) {
+          const endDate = parseEventDate(end, allDay);
+          if (Number.isNaN(endDate.getTime()) || endDate < startDate || (!allDay && endDate.getTime() === startDate.getTime())) {
+            errors.push('The event must end after it starts');
+          }
+        }
+        break;
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Encode a payload as QR code content; value is empty when there are errors
+   */
+  static build(payload: QRPayload): { value: string; errors: string[] } {
+    const errors = this.validate(payload);
+    if (errors.length > 0) return { value: '', errors };
+
+    const value = this.encode(payload);
+    const bytes = byteLength(value);
+    if (bytes > MAX_PAYLOAD_BYTES) {
+      return { value: '', errors: [`The content is too long for a QR code (${bytes} of ${MAX_PAYLOAD_BYTES} bytes)`] };
+    }
+    return { value, errors: [] };
+  }
+
+  private static encode(payload: QRPayload): string {
+    switch (payload.type) {
+      case 'vcard': return this.encodeVCard(payload.data);
+      case 'wifi': return this.encodeWifi(payload.data);
+      case 'email': return this.toURI(payload);
+      // SMSTO is the form camera apps recognize; sms: URIs are used when the payload is wrapped
+      case 'sms': return `SMSTO:${normalizePhone(payload.data.phone)}:${payload.data.message?.trim() || ''}`;
+      case 'event': return this.encodeEvent(payload.data);
+    }
+  }
+
+  private static encodeVCard(card: VCardPayload): string {
+    const isV4 = card.version === '4.0';
+    const firstName = card.firstName.trim();
+    const lastName = card.lastName.trim();
+    const phone = card.phone?.trim() ? normalizePhone(card.phone) : '';
+
+    return contentLines([
+      'BEGIN:VCARD',
+      `VERSION:${card.version}`,
+      `N:${escapeText(lastName)};${escapeText(firstName)};;;`,
+      `FN:${escapeText([firstName, lastName].filter(Boolean).join(' '))}`,
+      card.organization?.trim() && `ORG:${escapeText(card.organization)}`,
+      card.title?.trim() && `TITLE:${escapeText(card.title)}`,
+      phone && (isV4 ? `TEL;TYPE=cell;VALUE=uri:tel:${phone}` : `TEL;TYPE=CELL:${phone}`),
+      card.email?.trim() && (isV4 ? `EMAIL:${card.email.trim()}` : `EMAIL;TYPE=INTERNET:${card.email.trim()}`),
+      card.website?.trim() && `URL:${card.website.trim()}`,
+      card.address?.trim() && `ADR:;;${escapeText(card.address)};;;;`,
+      card.note?.trim() && `NOTE:${escapeText(card.note)}`,
+      'END:VCARD'
+    ]);
+  }
+
+  private static encodeWifi(wifi: WifiPayload): string {
+    const fields = [`T:${wifi.encryption}`, `S:${escapeWifi(wifi.ssid)}`];
+    if (wifi.encryption !== 'nopass') fields.push(`P:${escapeWifi(wifi.password || '')}`);
+    if (wifi.hidden) fields.push('H:true');
+    return `WIFI:${fields.join(';')};;`;
+  }
+
+  private static encodeEvent(event: EventPayload): string {
+    const start = parseEventDate(event.start, event.allDay);
+    let dates: string[];
+    if (event.allDay) {
+      // All-day end dates are exclusive, so a one-day event ends the next day
+      const end = parseEventDate(event.end || event.start, true);
+      end.setUTCDate(end.getUTCDate() + 1);
+      dates = [`DTSTART;VALUE=DATE:${formatDate(start)}`, `DTEND;VALUE=DATE:${formatDate(end)}`];
+    } else {
+      const end = event.end ? new Date(event.end) : new Date(start.getTime() + 60 * 60 * 1000);
+      dates = [`DTSTART:${formatUTC(start)}`, `DTEND:${formatUTC(end)}`];
+    }
+
+    return contentLines([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//URL Shortener//QR Event//EN',
+      'BEGIN:VEVENT',
+      `UID:${nanoid()}@qr-event`,
+      `DTSTAMP:${formatUTC(new Date())}`,
+      ...dates,
+      `SUMMARY:${escapeText(event.title)}`,
+      event.location?.trim() && `LOCATION:${escapeText(event.location)}`,
+      event.description?.trim() && `DESCRIPTION:${escapeText(event.description)}`,
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ]);
+  }
+
+  /**
+   * Wi-Fi codes must be scanned by the camera itself to join the network,
+   * so they cannot be wrapped behind a short link
+   */
+  static canWrap(type: QRPayloadType): boolean {
+    return type !== 'wifi';
+  }
+
+  /**
+   * Destination stored on a short link that wraps the payload:
+   * mailto: and sms: URIs, or a data: URI for contact and event files
+   */
+  static toURI(payload: QRPayload): string {
+    switch (payload.type) {
+      case 'email': {
+        // Line breaks in mailto bodies are CRLF
+        const params = [
+          payload.data.subject?.trim() && `subject=${encodeURIComponent(payload.data.subject.trim())}`,
+          payload.data.body?.trim() && `body=${encodeURIComponent(payload.data.body.trim().replace(/\r?\n/g, '\r\n'))}`
+        ].filter(Boolean);
+        return `mailto:${splitAddresses(payload.data.to).join(',')}${params.length > 0 ? `?${params.join('&')}` : ''}`;
+      }
+
+      case 'sms': {
+        const message = payload.data.message?.trim();
+        return `sms:${normalizePhone(payload.data.phone)}${message ? `?body=${encodeURIComponent(message)}` : ''}`;
+      }
+
+      case 'vcard':
+      case 'event': {
+        const { mimeType } = PAYLOAD_FILES[payload.type];
+        return `data:${mimeType};charset=utf-8,${encodeURIComponent(this.encode(payload))}`;
+      }
+
+      default:
+        throw new Error(`${QR_PAYLOAD_LABELS[payload.type]} codes cannot be wrapped behind a short link`);
+    }
+  }
+
+  /**
+   * The file behind a wrapped contact or event link, or null for other destinations
+   */
+  static decodeFile(uri: string, type: QRPayloadType): { blob: Blob; extension: string } | null {
+    if (type !== 'vcard' && type !== 'event') return null;
+    const file = PAYLOAD_FILES[type];
+    const prefix = `data:${file.mimeType};charset=utf-8,`;
+    if (!uri.startsWith(prefix)) return null;
+
+    try {
+      return {
+        blob: new Blob([decodeURIComponent(uri.slice(prefix.length))], { type: `${file.mimeType};charset=utf-8` }),
+        extension: file.extension
+      };
+    } catch (error) {
+      console.error('Error decoding payload file:', error);
+      return null;
+    }
+  }
+}
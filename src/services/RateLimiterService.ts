@@ -63,6 +63,37 @@ const DEFAULT_OPTIONS: RateLimitOptions = {
   showToast: true
 };
 
+// Progressive lockout configuration: every lockout lasts twice as long as the previous one
+interface LockoutOptions {
+  maxFailures: number;     // Failures allowed before a lockout
+  baseLockoutMs: number;   // Length of the first lockout
+  maxLockoutMs: number;
+  resetAfterMs: number;    // Failure history is forgotten after this long without failures
+}
+
+export interface LockoutStatus {
+  locked: boolean;
+  lockedUntil?: number;    // Epoch milliseconds
+  remainingAttempts: number;
+}
+
+interface LockoutState {
+  failures: number;
+  lockouts: number;
+  lockedUntil: number;
+  lastFailureAt: number;
+}
+
+const DEFAULT_LOCKOUT_OPTIONS: LockoutOptions = {
+  maxFailures: 5,
+  baseLockoutMs: 30 * 1000,
+  maxLockoutMs: 60 * 60 * 1000,
+  resetAfterMs: 24 * 60 * 60 * 1000
+};
+
+// Lockouts are persisted so that reloading the page does not reset them
+const LOCKOUT_STORAGE_KEY = 'rate_limit_lockouts';
+
 // Enhanced limiter wrapper with blocking capability
 class EnhancedRateLimiter {
   private limiter: RateLimiter;
@@ -315,6 +346,87 @@ export class RateLimiterService {
     this.concurrencyLimiters.clear();
   }
 
+  private static readLockouts(): Record<string, LockoutState> {
+    try {
+      const stored = localStorage.getItem(LOCKOUT_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Error reading lockouts:', error);
+      return {};
+    }
+  }
+
+  private static writeLockouts(lockouts: Record<string, LockoutState>): void {
+    try {
+      localStorage.setItem(LOCKOUT_STORAGE_KEY, JSON.stringify(lockouts));
+    } catch (error) {
+      console.error('Error saving lockouts:', error);
+    }
+  }
+
+  private static getLockoutState(key: string, options: LockoutOptions, now: number): LockoutState {
+    const state = this.readLockouts()[key];
+    if (!state || (state.lockedUntil <= now && now - state.lastFailureAt > options.resetAfterMs)) {
+      return { failures: 0, lockouts: 0, lockedUntil: 0, lastFailureAt: 0 };
+    }
+    return state;
+  }
+
+  private static toLockoutStatus(state: LockoutState, options: LockoutOptions, now: number): LockoutStatus {
+    return state.lockedUntil > now
+      ? { locked: true, lockedUntil: state.lockedUntil, remainingAttempts: 0 }
+      : { locked: false, remainingAttempts: options.maxFailures - state.failures };
+  }
+
+  /**
+   * Whether a key is locked out after repeated failures, without recording anything
+   */
+  static getLockoutStatus(key: string, options: Partial<LockoutOptions> = {}): LockoutStatus {
+    validateKey(key);
+    const opts = { ...DEFAULT_LOCKOUT_OPTIONS, ...options };
+    const now = Date.now();
+    return this.toLockoutStatus(this.getLockoutState(key, opts, now), opts, now);
+  }
+
+  /**
+   * Record a failed attempt; reaching maxFailures locks the key out,
+   * for twice as long as its previous lockout
+   */
+  static recordFailure(key: string, options: Partial<LockoutOptions> = {}): LockoutStatus {
+    validateKey(key);
+    const opts = { ...DEFAULT_LOCKOUT_OPTIONS, ...options };
+    const now = Date.now();
+    const state = this.getLockoutState(key, opts, now);
+
+    if (state.lockedUntil <= now) {
+      state.failures++;
+      state.lastFailureAt = now;
+      if (state.failures >= opts.maxFailures) {
+        state.lockedUntil = now + Math.min(opts.baseLockoutMs * 2 ** state.lockouts, opts.maxLockoutMs);
+        state.lockouts++;
+        state.failures = 0;
+      }
+      // Expired entries are dropped so the stored history stays small
+      const active = Object.entries(this.readLockouts())
+        .filter(([, entry]) => entry.lockedUntil > now || now - entry.lastFailureAt <= opts.resetAfterMs);
+      this.writeLockouts({ ...Object.fromEntries(active), [key]: state });
+    }
+
+    return this.toLockoutStatus(state, opts, now);
+  }
+
+  /**
+   * Forget a key's failures, e.g. after a successful attempt
+   */
+  static clearFailures(key: string): void {
+    validateKey(key);
+    const lockouts = this.readLockouts();
+    if (key in lockouts) {
+      delete lockouts[key];
+      this.writeLockouts(lockouts);
+    }
+  }
+
   /**
    * Execute multiple actions with rate limiting and validation
    */
@@ -342,7 +454,7 @@ export class RateLimiterService {
     for (const action of actions) {
       const result = await this.checkLimit(key, action, { ...options, showToast: false });
       
-      if (result.allowed) {
+      if (result.allowed && !result.error) {
         results.push({ success: true, result: result.result });
       } else {
         results.push({ success: false, error: result.error || 'Rate limit exceeded' });
@@ -0,0 +1,316 @@
+/**
+ * RedirectPolicyService - editable safety policy for short link destinations
+ * Checked when a link is created and again when it redirects. Combines an allowlist,
+ * a denylist, an imported offline blocklist, lookalike (IDN homograph) domain detection
+ * and detection of destinations that pass visitors on to another site.
+ */
+import { get, set } from 'idb-keyval';
+import { RedirectPolicy, RedirectPolicyCheck, RedirectVerdict } from '@/types/shorten.ts';
+import { URLSanitizerService } from './URLSanitizerService.ts';
+
+const POLICY_KEY = 'redirect_policy';
+const MAX_LIST_ENTRIES = 500;
+const MAX_BLOCKLIST_ENTRIES = 200000;
+const MAX_NESTED_DEPTH = 2;
+
+export const DEFAULT_REDIRECT_POLICY: RedirectPolicy = {
+  allowlist: [
+    '*.google.com', '*.github.com', '*.microsoft.com', '*.apple.com', '*.amazon.com',
+    '*.mozilla.org', '*.wikipedia.org', '*.linkedin.com', '*.twitter.com', '*.facebook.com',
+    '*.instagram.com', '*.youtube.com', '*.reddit.com', '*.medium.com', '*.dev.to'
+  ],
+  // Free TLDs that are widely abused for phishing
+  denylist: ['*.tk', '*.ml', '*.ga', '*.cf'],
+  blocklist: [],
+  blockHomographs: false,
+  blockShortenerChains: true
+};
+
+// Other link shorteners; chaining through them hides the real destination
+const KNOWN_SHORTENERS = [
+  'bit.ly', 'tinyurl.com', 'shorturl.at', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'v.gd', 'buff.ly',
+  'rebrand.ly', 'cutt.ly', 'tiny.cc', 'rb.gy', 'lnkd.in', 's.id', 'shorte.st', 'adf.ly'
+];
+
+const VERDICT_ORDER: RedirectVerdict[] = ['neutral', 'trusted', 'suspicious', 'blocked'];
+
+const DOMAIN_PATTERN = /^(\*\.)?([a-z0-9-]+\.)*[a-z0-9-]+$/;
+
+// Cyrillic and Greek letters that are hard to tell apart from Latin ones
+const LATIN_LOOKALIKES = new Set('аеорсухіјѕԁӏԛԝһкмнтвɡαορνικτυεχ');
+
+// Punycode (RFC 3492), used to read internationalized domain labels ("xn--...")
+const PUNYCODE = { base: 36, tMin: 1, tMax: 26, skew: 38, damp: 700, initialBias: 72, initialN: 128 };
+
+const adaptBias = (delta: number, points: number, firstTime: boolean): number => {
+  const { base, tMin, tMax, skew, damp } = PUNYCODE;
+  let scaled = firstTime ? Math.floor(delta / damp) : delta >> 1;
+  scaled += Math.floor(scaled / points);
+  let k = 0;
+  while (scaled > ((base - tMin) * tMax) >> 1) {
+    scaled = Math.floor(scaled / (base - tMin));
+    k += base;
+  }
+  return k + Math.floor(((base - tMin + 1) * scaled) / (scaled + skew));
+};
+
+const decodePunycode = (input: string): string => {
+  const { base, tMin, tMax, initialBias, initialN } = PUNYCODE;
+  const separator = input.lastIndexOf('-');
+  const output = Array.from(input.slice(0, Math.max(separator, 0)), char => char.charCodeAt(0));
+  let n = initialN;
+  let bias = initialBias;
+  let i = 0;
+
+  for (let index = separator > 0 ? separator + 1 : 0; index < input.length;) {
+    const previous = i;
+    let weight = 1;
+    for (let k = base; ; k += base) {
+      if (index >= input.length) throw new Error('Invalid punycode');
+      const code = input.charCodeAt(index++);
+      const digit = code >= 48 && code <= 57 ? code - 22
+        : code >= 65 && code <= 90 ? code - 65
+          : code >= 97 && code <= 122 ? code - 97
+            : base;
+      if (digit >= base) throw new Error('Invalid punycode');
+      i += digit * weight;
+      const threshold = k <= bias ? tMin : k >= bias + tMax ? tMax : k - bias;
+      if (digit < threshold) break;
+      weight *= base - threshold;
+    }
+    const length = output.length + 1;
+    bias = adaptBias(i - previous, length, previous === 0);
+    n += Math.floor(i / length);
+    i %= length;
+    output.splice(i++, 0, n);
+  }
+  return String.fromCodePoint(...output);
+};
+
+/**
+ * Reasons a domain label looks like it imitates a Latin one
+ */
+const homographReason = (label: string): string | null => {
+  const letters = Array.from(label).filter(char => /\p{L}/u.test(char));
+  const latin = letters.filter(char => /\p{Script=Latin}/u.test(char));
+  const confusable = letters.filter(char => /[\p{Script=Cyrillic}\p{Script=Greek}\p{Script=Armenian}]/u.test(char));
+
+  if (latin.length > 0 && confusable.length > 0) {
+    return `"${label}" mixes Latin letters with letters from another alphabet`;
+  }
+  if (confusable.length > 0 && confusable.length === letters.length && confusable.every(char => LATIN_LOOKALIKES.has(char))) {
+    return `"${label}" is made of letters that look like Latin ones`;
+  }
+  return null;
+};
+
+const matchesPattern = (hostname: string, pattern: string): boolean => {
+  if (pattern.startsWith('*.')) {
+    const domain = pattern.slice(2);
+    return hostname === domain || hostname.endsWith(`.${domain}`);
+  }
+  return hostname === pattern;
+};
+
+const worstVerdict = (verdicts: RedirectVerdict[]): RedirectVerdict =>
+  verdicts.reduce((worst, verdict) => (VERDICT_ORDER.indexOf(verdict) > VERDICT_ORDER.indexOf(worst) ? verdict : worst), 'neutral');
+
+export class RedirectPolicyService {
+  private static policy: RedirectPolicy = DEFAULT_REDIRECT_POLICY;
+  private static blocklist = new Set<string>();
+  private static loading: Promise<RedirectPolicy> | null = null;
+
+  /**
+   * Load the stored policy once; checks use the defaults until it has loaded
+   */
+  static load(): Promise<RedirectPolicy> {
+    if (!this.loading) {
+      this.loading = get<RedirectPolicy>(POLICY_KEY)
+        .then(stored => {
+          this.applyPolicy({ ...DEFAULT_REDIRECT_POLICY, ...stored });
+          return this.policy;
+        })
+        .catch(error => {
+          console.error('Error loading redirect policy:', error);
+          return this.policy;
+        });
+    }
+    return this.loading;
+  }
+
+  static getPolicy(): RedirectPolicy {
+    return this.policy;
+  }
+
+  private static applyPolicy(policy: RedirectPolicy): void {
+    this.policy = policy;
+    this.blocklist = new Set(policy.blocklist);
+  }
+
+  /**
+   * Normalize an allowlist or denylist entry: "example.com" matches that host only,
+   * "*.example.com" matches the domain and all of its subdomains. Pasted URLs are reduced to their host.
+   * Returns null for entries that are not domains.
+   */
+  static normalizePattern(entry: string): string | null {
+    let pattern = entry.trim().toLowerCase();
+    if (!pattern) return null;
+
+    const wildcard = pattern.startsWith('*.');
+    if (wildcard) pattern = pattern.slice(2);
+    try {
+      // new URL() converts internationalized domains to punycode
+      pattern = new URL(/^[a-z]+:\/\//.test(pattern) ? pattern : `http://${pattern}`).hostname.replace(/\.$/, '');
+    } catch {
+      return null;
+    }
+
+    const normalized = wildcard ? `*.${pattern}` : pattern;
+    return DOMAIN_PATTERN.test(normalized) ? normalized : null;
+  }
+
+  private static normalizeList(entries: string[], label: string): string[] {
+    const invalid = entries.filter(entry => entry.trim() && !this.normalizePattern(entry));
+    if (invalid.length > 0) {
+      throw new Error(`${label} entries must be domains like example.com or *.example.com (check "${invalid[0]}")`);
+    }
+    const patterns = Array.from(new Set(entries.map(entry => this.normalizePattern(entry)).filter((entry): entry is string => !!entry)));
+    if (patterns.length > MAX_LIST_ENTRIES) {
+      throw new Error(`${label} can have at most ${MAX_LIST_ENTRIES} entries`);
+    }
+    return patterns;
+  }
+
+  static async savePolicy(updates: Partial<RedirectPolicy>): Promise<RedirectPolicy> {
+    await this.load();
+    const policy: RedirectPolicy = {
+      ...this.policy,
+      ...updates,
+      allowlist: updates.allowlist ? this.normalizeList(updates.allowlist, 'The allowlist') : this.policy.allowlist,
+      denylist: updates.denylist ? this.normalizeList(updates.denylist, 'The denylist') : this.policy.denylist
+    };
+    await set(POLICY_KEY, policy);
+    this.applyPolicy(policy);
+    return policy;
+  }
+
+  /**
+   * Domains in a blocklist file: plain lists, hosts files ("0.0.0.0 example.com")
+   * and adblock-style rules ("||example.com^"); comments are skipped
+   */
+  static parseBlocklist(text: string): string[] {
+    const domains = new Set<string>();
+    text.split(/\r?\n/).forEach(rawLine => {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      if (!line || line.startsWith('!') || line.startsWith('[')) return;
+
+      const parts = line.split(/\s+/);
+      // Hosts files put an address before the domain
+      const entry = (/^(\d{1,3}(\.\d{1,3}){3}|::1?)$/.test(parts[0]) ? parts[1] : parts[0]) || '';
+      const domain = this.normalizePattern(entry.replace(/^\|\|/, '').replace(/\^.*$/, ''));
+      if (domain && !domain.startsWith('*.') && domain.includes('.') && domain !== 'localhost') {
+        domains.add(domain);
+      }
+    });
+    return Array.from(domains);
+  }
+
+  /**
+   * Replace the offline blocklist with the domains in a file; returns how many were imported
+   */
+  static async importBlocklist(text: string, source: string): Promise<number> {
+    const domains = this.parseBlocklist(text);
+    if (domains.length === 0) {
+      throw new Error('No domains found in the blocklist file');
+    }
+    if (domains.length > MAX_BLOCKLIST_ENTRIES) {
+      throw new Error(`Blocklists can have at most ${MAX_BLOCKLIST_ENTRIES.toLocaleString()} domains`);
+    }
+
+    await this.savePolicy({ blocklist: domains, blocklistSource: source, blocklistImportedAt: new Date().toISOString() });
+    return domains.length;
+  }
+
+  static async clearBlocklist(): Promise<void> {
+    await this.savePolicy({ blocklist: [], blocklistSource: undefined, blocklistImportedAt: undefined });
+  }
+
+  private static isBlocklisted(hostname: string): boolean {
+    // A listed domain also covers its subdomains
+    const labels = hostname.split('.');
+    return labels.some((_, index) => this.blocklist.has(labels.slice(index).join('.')));
+  }
+
+  /**
+   * Check a destination against the policy
+   * The most severe finding wins: blocked > suspicious > trusted > neutral.
+   */
+  static check(url: string, depth = 0): RedirectPolicyCheck {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return { verdict: 'blocked', reasons: ['The destination is not a valid URL'], hostname: '' };
+    }
+
+    const hostname = parsed.hostname.toLowerCase().replace(/\.$/, '');
+    const findings: Array<{ verdict: RedirectVerdict; reason: string }> = [];
+    const flag = (verdict: RedirectVerdict, reason: string) => findings.push({ verdict, reason });
+
+    if (!['http:', 'https:'].includes(parsed.protocol)) {
+      flag('blocked', 'Only HTTP and HTTPS destinations are allowed');
+    } else if (URLSanitizerService.isPotentiallyDangerous(url)) {
+      flag('blocked', 'The URL contains script or data patterns used in attacks');
+    }
+
+    if (this.policy.denylist.some(pattern => matchesPattern(hostname, pattern))) {
+      flag('blocked', `${hostname} is on the denylist`);
+    }
+    if (this.isBlocklisted(hostname)) {
+      flag('blocked', `${hostname} is on the imported blocklist`);
+    }
+
+    if (parsed.username || parsed.password) {
+      flag('suspicious', 'The URL hides its real domain behind login details');
+    }
+
+    hostname.split('.').filter(label => label.startsWith('xn--')).forEach(label => {
+      try {
+        const reason = homographReason(decodePunycode(label.slice(4)));
+        if (reason) flag(this.policy.blockHomographs ? 'blocked' : 'suspicious', `Lookalike domain: ${reason}`);
+      } catch {
+        flag('suspicious', `"${label}" is not a valid internationalized domain label`);
+      }
+    });
+
+    if (KNOWN_SHORTENERS.some(shortener => matchesPattern(hostname, `*.${shortener}`))) {
+      flag(this.policy.blockShortenerChains ? 'blocked' : 'suspicious', `${hostname} is another link shortener, which hides the real destination`);
+    }
+
+    // Query parameters carrying another site's URL pass visitors on to it (open redirects)
+    if (depth < MAX_NESTED_DEPTH) {
+      parsed.searchParams.forEach(value => {
+        if (!/^https?:\/\//i.test(value)) return;
+        const nested = this.check(value, depth + 1);
+        if (!nested.hostname || nested.hostname === hostname) return;
+        flag(
+          nested.verdict === 'blocked' ? 'blocked' : 'suspicious',
+          nested.verdict === 'blocked'
+            ? `Passes visitors on to a blocked site (${nested.hostname}: ${nested.reasons[0]})`
+            : `Passes visitors on to ${nested.hostname}`
+        );
+      });
+    }
+
+    // The allowlist only vouches for destinations with no other findings
+    if (findings.length === 0 && this.policy.allowlist.some(pattern => matchesPattern(hostname, pattern))) {
+      flag('trusted', `${hostname} is on the allowlist`);
+    }
+
+    return {
+      verdict: worstVerdict(findings.map(finding => finding.verdict)),
+      reasons: findings.map(finding => finding.reason),
+      hostname
+    };
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * URLLibraryService - search, sort and export for the link library
+ * Queries combine free text with field filters, e.g.
+ *   tag:promo folder:campaigns status:active clicks:>100 created:last-30d -tag:internal
+ */
+import { ShortenedURL, URLLinkStatus, URLSortOption } from '@/types/shorten.ts';
+import { URLShortenerService } from './URLShortenerService.ts';
+import { toCSV } from '@/utils/csv';
+
+type URLMatcher = (url: ShortenedURL) => boolean;
+
+export interface URLSearchQuery {
+  matchers: URLMatcher[];
+  errors: string[];        // Filters that could not be understood; they are ignored
+}
+
+export const URL_SORT_OPTIONS: Array<{ value: URLSortOption; label: string }> = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'most-clicks', label: 'Most clicks' },
+  { value: 'least-clicks', label: 'Fewest clicks' },
+  { value: 'expiring-soon', label: 'Expiring soon' },
+  { value: 'alias', label: 'Short code A–Z' }
+];
+
+const LINK_STATUSES: URLLinkStatus[] = ['active', 'scheduled', 'expired', 'exhausted'];
+
+// An optional leading "-" negates a term; values with spaces can be quoted
+const TOKEN_PATTERN = /(-?)(?:([a-z]+):)?("[^"]*"|\S+)/gi;
+const COMPARISON_PATTERN = /^(>=|<=|>|<|=)?(.+)$/;
+const RELATIVE_DATE_PATTERN = /^last-(\d+)([hdwmy])$/i;
+
+const UNIT_MS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+  m: 30 * 24 * 60 * 60 * 1000,
+  y: 365 * 24 * 60 * 60 * 1000
+};
+
+const compare = (value: number, operator: string, target: number): boolean => {
+  switch (operator) {
+    case '>': return value > target;
+    case '>=': return value >= target;
+    case '<': return value < target;
+    case '<=': return value <= target;
+    default: return value === target;
+  }
+};
+
+const searchableText = (url: ShortenedURL): string => [
+  url.originalURL,
+  url.shortURL,
+  url.customAlias,
+  url.folder,
+  ...(url.tags || []),
+  ...Object.values(url.utmParameters || {}).filter(value => typeof value === 'string')
+].filter(Boolean).join(' ').toLowerCase();
+
+const textMatcher = (text: string): URLMatcher => url => searchableText(url).includes(text);
+
+export class URLLibraryService {
+  /**
+   * Parse a search query into matchers; every matcher must match for a link to be shown
+   */
+  static parseQuery(query: string, now: Date = new Date()): URLSearchQuery {
+    const matchers: URLMatcher[] = [];
+    const errors: string[] = [];
+
+    for (const [token, negation, rawField, rawValue] of query.matchAll(TOKEN_PATTERN)) {
+      const value = rawValue.replace(/^"|"$/g, '').trim().toLowerCase();
+      if (!value) continue;
+
+      let match: URLMatcher | null = null;
+      if (rawField) {
+        const field = rawField.toLowerCase();
+        const fieldMatch = this.fieldMatcher(field, value, now);
+        if (typeof fieldMatch === 'string') {
+          errors.push(`${token.trim()}: ${fieldMatch}`);
+          continue;
+        }
+        // Unknown fields (e.g. a pasted "https://...") are searched as plain text
+        match = fieldMatch || textMatcher(`${field}:${value}`);
+      }
+
+      const matcher = match || textMatcher(value);
+      matchers.push(negation ? url => !matcher(url) : matcher);
+    }
+
+    return { matchers, errors };
+  }
+
+  /**
+   * Matcher for a field filter, an error message for an invalid value,
+   * or null when the field is not a known filter
+   */
+  private static fieldMatcher(field: string, value: string, now: Date): URLMatcher | string | null {
+    switch (field) {
+      case 'tag': {
+        const tag = value.replace(/\s+/g, '-');
+        return url => (url.tags || []).includes(tag);
+      }
+
+      case 'folder':
+        // A folder also matches the links in its subfolders
+        return url => {
+          const folder = url.folder?.toLowerCase();
+          return !!folder && (folder === value || folder.startsWith(`${value}/`));
+        };
+
+      case 'campaign':
+        return url => String(url.utmParameters?.campaign || '').toLowerCase().includes(value);
+
+      case 'status':
+        if (!LINK_STATUSES.includes(value as URLLinkStatus)) {
+          return `status must be one of ${LINK_STATUSES.join(', ')}`;
+        }
+        return url => URLShortenerService.getLinkStatus(url, now) === value;
+
+      case 'clicks': {
+        const [, operator = '=', number] = value.match(COMPARISON_PATTERN) || [];
+        const target = Number(number);
+        if (!number || !Number.isFinite(target)) {
+          return 'use a number, e.g. clicks:>100';
+        }
+        return url => compare(url.clicks, operator, target);
+      }
+
+      case 'created': {
+        const relative = value.match(RELATIVE_DATE_PATTERN);
+        if (relative) {
+          const since = now.getTime() - Number(relative[1]) * UNIT_MS[relative[2].toLowerCase()];
+          return url => new Date(url.createdAt).getTime() >= since;
+        }
+
+        const [, operator = '=', date] = value.match(COMPARISON_PATTERN) || [];
+        const target = new Date(date);
+        if (!date || Number.isNaN(target.getTime())) {
+          return 'use last-30d (h, d, w, m or y) or a date, e.g. created:>2024-01-01';
+        }
+        // "=" matches the whole day of the given date
+        if (operator === '=') {
+          return url => url.createdAt.slice(0, 10) === target.toISOString().slice(0, 10);
+        }
+        return url => compare(new Date(url.createdAt).getTime(), operator, target.getTime());
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  static search(urls: ShortenedURL[], query: string, sort: URLSortOption = 'newest', now: Date = new Date()): {
+    results: ShortenedURL[];
+    errors: string[];
+  } {
+    const { matchers, errors } = this.parseQuery(query, now);
+    const results = urls.filter(url => matchers.every(match => match(url)));
+    return { results: this.sortURLs(results, sort), errors };
+  }
+
+  static sortURLs(urls: ShortenedURL[], sort: URLSortOption): ShortenedURL[] {
+    const createdAt = (url: ShortenedURL) => new Date(url.createdAt).getTime() || 0;
+    // Links that never expire sort last
+    const expiresAt = (url: ShortenedURL) => (url.expiresAt ? new Date(url.expiresAt).getTime() : Infinity);
+
+    return urls.slice().sort((a, b) => {
+      switch (sort) {
+        case 'oldest': return createdAt(a) - createdAt(b);
+        case 'most-clicks': return b.clicks - a.clicks || createdAt(b) - createdAt(a);
+        case 'least-clicks': return a.clicks - b.clicks || createdAt(b) - createdAt(a);
+        case 'expiring-soon': return expiresAt(a) - expiresAt(b) || createdAt(b) - createdAt(a);
+        case 'alias': return a.shortCode.localeCompare(b.shortCode);
+        default: return createdAt(b) - createdAt(a);
+      }
+    });
+  }
+
+  /**
+   * Every tag and folder used in the library, for suggestions
+   */
+  static getFacets(urls: ShortenedURL[]): { tags: string[]; folders: string[] } {
+    const tags = new Set<string>();
+    const folders = new Set<string>();
+    urls.forEach(url => {
+      url.tags?.forEach(tag => tags.add(tag));
+      if (url.folder) folders.add(url.folder);
+    });
+    return { tags: [...tags].sort(), folders: [...folders].sort() };
+  }
+
+  static toCSV(urls: ShortenedURL[]): string {
+    return toCSV(
+      ['short_url', 'short_code', 'original_url', 'folder', 'tags', 'status', 'clicks', 'created_at', 'expires_at',
+        'utm_source', 'utm_medium', 'utm_campaign'],
+      urls.map(url => [
+        url.shortURL,
+        url.shortCode,
+        url.originalURL,
+        url.folder,
+        url.tags?.join(' '),
+        URLShortenerService.getLinkStatus(url),
+        url.clicks,
+        url.createdAt,
+        url.expiresAt,
+        url.utmParameters?.source,
+        url.utmParameters?.medium,
+        url.utmParameters?.campaign
+      ])
+    );
+  }
+}
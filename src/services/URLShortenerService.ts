@@ -3,46 +3,166 @@
  * Lightweight implementation with minimal dependencies
  */
 import { nanoid, customAlphabet } from 'nanoid';
-import { get, set, del, clear, keys } from 'idb-keyval';
+import { get, set, del, clear, keys, update } from 'idb-keyval';
 import { SHA256, PBKDF2 } from 'crypto-js';
 import validator from 'validator';
 import { LRUCache } from 'lru-cache';
 import { UAParser } from 'ua-parser-js';
-import { groupBy, countBy, sortBy, take, orderBy } from '@/lib/native-utils';
+import { Bots } from 'ua-parser-js/extensions';
 import { format, parseISO, isValid } from 'date-fns';
-import { ShortenedURL, URLClickData, URLOptions, URLAnalytics, GeoLocation } from '@/types/shorten.ts';
-import { RateLimiterService } from './RateLimiterService.ts';
+import { z } from '@/lib/zod-init';
+import { buildShortURL, getShortLinkBase, getShortLinkBaseURL, isReservedShortCode } from '@/lib/short-links';
+import {
+  ShortenedURL,
+  URLClickData,
+  URLOptions,
+  URLAnalytics,
+  GeoLocation,
+  URLStorageSettings,
+  URLStorageStats,
+  URLExportData,
+  URLBackup,
+  URLImportOptions,
+  URLImportResult,
+  ConversionGoal,
+  ConversionGoalInput,
+  ConversionOptions,
+  URLVariant,
+  URLLinkStatus,
+  URLRollupDimension,
+  RedirectRule,
+  RedirectSchedule,
+  RedirectVisitor,
+  URLRetagOptions,
+  URLSavedSearch,
+  URLSortOption,
+  URLRevision,
+  URLRevisionChange,
+  URLRevisionField,
+  QRPayload,
+  QRPayloadType,
+  URLPasswordCheck,
+  URLImportMode,
+  RedirectPolicy
+} from '@/types/shorten.ts';
+import { RateLimiterService, LockoutStatus } from './RateLimiterService.ts';
+import { CampaignTemplateService } from './CampaignTemplateService.ts';
+import { ClickStorageService } from './ClickStorageService.ts';
+import { QRPayloadService } from './QRPayloadService.ts';
+import { RedirectPolicyService } from './RedirectPolicyService.ts';
+import { QRCodeService } from './QRCodeService.ts';
 
 // Optimized constants
 const DEFAULT_CODE_LENGTH = 6;
-const BASE_URL = typeof window !== 'undefined' ? window.location.origin : 'http://localhost:8080';
 const CACHE_EXPIRY = 5 * 60 * 1000; // 5 minutes
 const DEFAULT_EXPIRATION_DAYS = 365;
 const MAX_EXPIRATION_DAYS = 3650;
+const MIN_ALIAS_LENGTH = 3;
+const MAX_ALIAS_LENGTH = 50;
+const MAX_CLICK_LIMIT = 1000000;
+const MAX_LANDING_MESSAGE_LENGTH = 280;
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 32;
+const MAX_FOLDER_LENGTH = 100;
+const MAX_SAVED_SEARCHES = 20;
+const MAX_REVISIONS_PER_URL = 50;
+const REVISION_FIELDS: URLRevisionField[] = ['originalURL', 'utmParameters', 'password', 'expiresAt'];
 
 // Storage keys
 const STORAGE_KEYS = {
   URLS: 'shortened_urls',
-  CLICKS: 'url_clicks', 
   ANALYTICS: 'url_analytics_cache',
   SETTINGS: 'url_storage_settings',
-  PERMANENT: 'permanent_urls'
+  PERMANENT: 'permanent_urls',
+  BACKUPS: 'url_backups',
+  SHORT_LINK_BASE: 'url_short_link_base',
+  CONVERSION_GOALS: 'url_conversion_goals',
+  SAVED_SEARCHES: 'url_saved_searches',
+  REVISIONS: 'url_revisions'
 } as const;
 
+const CONVERSION_GOAL_TYPES: ConversionGoal['type'][] = ['pageview', 'event', 'purchase', 'signup', 'custom'];
+
+// A/B rotation: visitor state lives in the visitor's own browser so variant assignment is sticky
+const MAX_VARIANTS = 5;
+const VISITOR_ID_KEY = 'url_visitor_id';
+const VARIANT_ASSIGNMENTS_KEY = 'url_variant_assignments';
+
+// FNV-1a hash mapped to [0, 1), used to pick a variant deterministically per visitor
+const hashToUnitInterval = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+};
+
+// Redirect rules
+const MAX_REDIRECT_RULES = 10;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const LANGUAGE_TAG_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Export/backup constants
+const EXPORT_VERSION = 2; // 2: goals, revisions, saved searches, QR presets, redirect policy and UTM rules
+const MAX_BACKUPS = 5;
+const BACKUP_MIN_INTERVAL = 60 * 60 * 1000; // 1 hour between automatic backups
+// Left out of rolling backups, which are taken often and kept several times over
+const BLOCKLIST_FIELDS: Array<keyof RedirectPolicy> = ['blocklist', 'blocklistSource', 'blocklistImportedAt'];
+
+// Bring an older export file up to the current layout before it is validated
+const migrateExportData = (raw: unknown): unknown => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return raw;
+  const data = raw as Record<string, unknown>;
+  // Version 1 predates the stores added in version 2; leaving them absent keeps them as they are
+  return data.version === 1 ? { ...data, version: 2 } : data;
+};
+
+// Password hashes: "pbkdf2-sha256$<iterations>$<base64 salt>$<base64 hash>"
+const PASSWORD_HASH_SCHEME = 'pbkdf2-sha256';
+const PASSWORD_ITERATIONS = 600000;
+const PASSWORD_SALT_BYTES = 16;
+const PASSWORD_HASH_BITS = 256;
+const LEGACY_PASSWORD_ITERATIONS = 100000;
+
+const passwordLockoutKey = (shortCode: string): string => `link-password:${shortCode}`;
+
+const toFailedPasswordCheck = (status: LockoutStatus): URLPasswordCheck => ({
+  verified: false,
+  lockedUntil: status.lockedUntil ? new Date(status.lockedUntil).toISOString() : undefined,
+  remainingAttempts: status.remainingAttempts
+});
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+// Takes the same time wherever the inputs differ
+const timingSafeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  let difference = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    difference |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  }
+  return difference === 0;
+};
+
+const derivePasswordHash = async (password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, PASSWORD_HASH_BITS);
+  return new Uint8Array(bits);
+};
+
 // Optimized ID generation using nanoid
 const generateId = (): string => nanoid();
 const generateShortCode = customAlphabet('ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789', DEFAULT_CODE_LENGTH);
 
-// Storage settings interface
-interface StorageSettings {
-  defaultExpirationDays: number;
-  autoCleanup: boolean;
-  enableBackup: boolean;
-  maxStorageSize: number;
-  compressionEnabled: boolean;
-}
-
-const DEFAULT_SETTINGS: StorageSettings = {
+export const DEFAULT_STORAGE_SETTINGS: URLStorageSettings = {
   defaultExpirationDays: DEFAULT_EXPIRATION_DAYS,
   autoCleanup: true,
   enableBackup: true,
@@ -50,6 +170,118 @@ const DEFAULT_SETTINGS: StorageSettings = {
   compressionEnabled: true
 };
 
+// Schemas for validating imported data
+const storageSettingsSchema = z.object({
+  defaultExpirationDays: z.number().int().min(0).max(MAX_EXPIRATION_DAYS),
+  autoCleanup: z.boolean(),
+  enableBackup: z.boolean(),
+  maxStorageSize: z.number().min(1),
+  compressionEnabled: z.boolean()
+});
+
+const utmParamsSchema = z.record(z.union([z.string(), z.record(z.string())]).optional());
+
+const shortenedURLSchema = z.object({
+  id: z.string().min(1),
+  originalURL: z.string().url(),
+  shortCode: z.string().min(1),
+  shortURL: z.string(),
+  createdAt: z.string(),
+  expiresAt: z.string().optional(),
+  password: z.string().optional(),
+  customAlias: z.string().optional(),
+  utmParameters: utmParamsSchema.optional(),
+  clicks: z.number().int().min(0),
+  isSuspicious: z.boolean().optional(),
+  tags: z.array(z.string()).optional(),
+  folder: z.string().optional(),
+  payloadType: z.enum(['vcard', 'wifi', 'email', 'sms', 'event']).optional(),
+  skipInterstitial: z.boolean().optional()
+}).passthrough();
+
+const clickDataSchema = z.object({
+  id: z.string().min(1),
+  urlId: z.string().min(1),
+  timestamp: z.string()
+}).passthrough();
+
+const campaignTemplateSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  category: z.string(),
+  utmParameters: utmParamsSchema,
+  createdAt: z.string(),
+  updatedAt: z.string()
+}).passthrough();
+
+const utmParamNameSchema = z.enum(['source', 'medium', 'campaign', 'term', 'content']);
+
+const conversionGoalSchema = z.object({
+  id: z.string().min(1),
+  urlId: z.string().min(1),
+  name: z.string(),
+  type: z.enum(['pageview', 'event', 'purchase', 'signup', 'custom']),
+  createdAt: z.string(),
+  updatedAt: z.string()
+}).passthrough();
+
+const revisionSchema = z.object({
+  id: z.string().min(1),
+  urlId: z.string().min(1),
+  timestamp: z.string(),
+  changes: z.array(z.object({ field: z.enum(['originalURL', 'utmParameters', 'password', 'expiresAt']) }).passthrough())
+}).passthrough();
+
+const savedSearchSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  query: z.string(),
+  sort: z.enum(['newest', 'oldest', 'most-clicks', 'least-clicks', 'expiring-soon', 'alias']),
+  createdAt: z.string()
+}).passthrough();
+
+const qrPresetSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  style: z.object({
+    size: z.number().positive(),
+    fgColor: z.string(),
+    bgColor: z.string(),
+    level: z.enum(['L', 'M', 'Q', 'H']),
+    moduleStyle: z.enum(['square', 'rounded', 'dots']),
+    logoScale: z.number()
+  }).passthrough(),
+  createdAt: z.string()
+}).passthrough();
+
+const exportDataSchema = z.object({
+  version: z.number().int().min(1).max(EXPORT_VERSION),
+  exportedAt: z.string(),
+  urls: z.array(shortenedURLSchema),
+  clicks: z.array(clickDataSchema).default([]),
+  permanentUrls: z.array(z.string()).default([]),
+  settings: storageSettingsSchema.optional(),
+  campaignTemplates: z.array(campaignTemplateSchema).optional(),
+  conversionGoals: z.array(conversionGoalSchema).optional(),
+  revisions: z.record(z.array(revisionSchema)).optional(),
+  savedSearches: z.array(savedSearchSchema).optional(),
+  qrPresets: z.array(qrPresetSchema).optional(),
+  redirectPolicy: z.object({
+    allowlist: z.array(z.string()).optional(),
+    denylist: z.array(z.string()).optional(),
+    blocklist: z.array(z.string()).optional()
+  }).passthrough().optional(),
+  utmRuleset: z.object({
+    enforceLowercase: z.boolean(),
+    allowedValues: z.record(z.array(z.string())),
+    aliases: z.record(z.string()),
+    requiredParams: z.array(utmParamNameSchema),
+    requiredByCategory: z.record(z.array(utmParamNameSchema)),
+    campaignPattern: z.string().optional(),
+    blockViolations: z.boolean()
+  }).optional()
+});
+
 /**
  * Optimized URLShortenerService using established libraries
  */
@@ -69,15 +301,15 @@ export class URLShortenerService {
   // Initialize UAParser for device/browser detection
   private static uaParser = new UAParser();
 
-  // Optimized password hashing using crypto-js
+  /**
+   * Hash a password with WebCrypto PBKDF2 and a random salt
+   * The scheme and iteration count are stored with the hash so they can be raised later.
+   */
   static async hashPassword(password: string): Promise<string> {
     try {
-      const salt = nanoid(16);
-      const hash = PBKDF2(password, salt, { 
-        keySize: 256/32, 
-        iterations: 100000 
-      }).toString();
-      return `${salt}:${hash}`;
+      const salt = crypto.getRandomValues(new Uint8Array(PASSWORD_SALT_BYTES));
+      const hash = await derivePasswordHash(password, salt, PASSWORD_ITERATIONS);
+      return [PASSWORD_HASH_SCHEME, PASSWORD_ITERATIONS, toBase64(salt), toBase64(hash)].join('$');
     } catch (error) {
       console.error('Error hashing password:', error);
       throw new Error('Failed to hash password');
@@ -86,18 +318,82 @@ export class URLShortenerService {
 
   static async verifyPassword(password: string, storedHash: string): Promise<boolean> {
     try {
-      const [salt, hash] = storedHash.split(':');
-      const testHash = PBKDF2(password, salt, { 
-        keySize: 256/32, 
-        iterations: 100000 
+      const [scheme, iterations, salt, hash] = storedHash.split('$');
+      if (scheme === PASSWORD_HASH_SCHEME) {
+        const iterationCount = Number(iterations);
+        if (!Number.isInteger(iterationCount) || iterationCount <= 0 || !salt || !hash) return false;
+        return timingSafeEqual(await derivePasswordHash(password, fromBase64(salt), iterationCount), fromBase64(hash));
+      }
+
+      // Hashes created with crypto-js before the move to WebCrypto: "salt:hexHash"
+      const [legacySalt, legacyHash] = storedHash.split(':');
+      if (!legacySalt || !legacyHash) return false;
+      const testHash = PBKDF2(password, legacySalt, {
+        keySize: 256/32,
+        iterations: LEGACY_PASSWORD_ITERATIONS
       }).toString();
-      return hash === testHash;
+      const encoder = new TextEncoder();
+      return timingSafeEqual(encoder.encode(testHash), encoder.encode(legacyHash));
     } catch (error) {
       console.error('Error verifying password:', error);
       return false;
     }
   }
 
+  /**
+   * Whether a stored hash uses an older scheme or fewer iterations than new hashes
+   */
+  static needsRehash(storedHash: string): boolean {
+    const [scheme, iterations] = storedHash.split('$');
+    return scheme !== PASSWORD_HASH_SCHEME || Number(iterations) < PASSWORD_ITERATIONS;
+  }
+
+  static getPasswordLockout(shortCode: string): URLPasswordCheck {
+    return toFailedPasswordCheck(RateLimiterService.getLockoutStatus(passwordLockoutKey(shortCode)));
+  }
+
+  /**
+   * Check the password of a protected link
+   * Failures count towards a progressive lockout per short code; a successful check
+   * clears them and upgrades an outdated hash.
+   */
+  static async verifyLinkPassword(shortCode: string, password: string): Promise<URLPasswordCheck> {
+    const lockout = this.getPasswordLockout(shortCode);
+    if (lockout.lockedUntil) return lockout;
+
+    const url = await this.getURLByShortCode(shortCode, true);
+    if (!url?.password) {
+      throw new Error('This URL is not password protected');
+    }
+
+    const key = passwordLockoutKey(shortCode);
+    if (!(await this.verifyPassword(password, url.password))) {
+      return toFailedPasswordCheck(RateLimiterService.recordFailure(key));
+    }
+
+    RateLimiterService.clearFailures(key);
+    if (this.needsRehash(url.password)) {
+      await this.upgradePasswordHash(url.id, url.password, password);
+    }
+    return { verified: true, remainingAttempts: 0 };
+  }
+
+  /**
+   * Replace an outdated hash of an unchanged password; not recorded as a revision
+   */
+  private static async upgradePasswordHash(urlId: string, previousHash: string, password: string): Promise<void> {
+    try {
+      const hash = await this.hashPassword(password);
+      await update<ShortenedURL[]>(STORAGE_KEYS.URLS, stored => {
+        const urls = Array.isArray(stored) ? stored : [];
+        // Leave the link alone if the password was changed in the meantime
+        return urls.map(url => (url.id === urlId && url.password === previousHash ? { ...url, password: hash } : url));
+      });
+    } catch (error) {
+      console.error('Error upgrading password hash:', error);
+    }
+  }
+
   // Optimized URL validation using validator library
   static isValidURL(url: string): { valid: boolean; reason?: string; suspicious?: boolean } {
     if (!url) return { valid: false, reason: 'URL is required' };
@@ -115,12 +411,13 @@ export class URLShortenerService {
         return { valid: false, reason: 'Invalid URL format' };
       }
 
-      const urlObj = new URL(url);
-      
-      // Security checks
-      const suspicious = this.checkSuspiciousURL(urlObj);
-      if (suspicious.isSuspicious) {
-        return { valid: false, reason: suspicious.reason, suspicious: true };
+      // Redirect safety policy; checked again when the link redirects
+      const policy = RedirectPolicyService.check(url);
+      if (policy.verdict === 'blocked') {
+        return { valid: false, reason: policy.reasons[0] || 'Blocked by the redirect safety policy', suspicious: true };
+      }
+      if (policy.verdict === 'suspicious') {
+        return { valid: true, reason: policy.reasons[0], suspicious: true };
       }
 
       return { valid: true };
@@ -129,19 +426,23 @@ export class URLShortenerService {
     }
   }
 
-  private static checkSuspiciousURL(urlObj: URL): { isSuspicious: boolean; reason?: string } {
-    const suspiciousTLDs = ['tk', 'ml', 'ga', 'cf'];
-    const suspiciousPatterns = ['bit.ly', 'tinyurl.com', 'shorturl.at'];
-    
-    if (suspiciousTLDs.some(tld => urlObj.hostname.endsWith(`.${tld}`))) {
-      return { isSuspicious: true, reason: 'Suspicious domain' };
+  /**
+   * Check the format of a custom alias (availability is checked when shortening)
+   */
+  static validateAlias(alias: string): { valid: boolean; reason?: string } {
+    if (!alias || typeof alias !== 'string') {
+      return { valid: false, reason: 'Custom alias is required' };
     }
-    
-    if (suspiciousPatterns.some(pattern => urlObj.hostname.includes(pattern))) {
-      return { isSuspicious: true, reason: 'URL shortener detected' };
+    if (alias.length < MIN_ALIAS_LENGTH || alias.length > MAX_ALIAS_LENGTH) {
+      return { valid: false, reason: `Custom alias must be between ${MIN_ALIAS_LENGTH} and ${MAX_ALIAS_LENGTH} characters long` };
     }
-    
-    return { isSuspicious: false };
+    if (!/^[a-zA-Z0-9_-]+$/.test(alias)) {
+      return { valid: false, reason: 'Custom alias can only contain letters, numbers, hyphens and underscores' };
+    }
+    if (isReservedShortCode(alias)) {
+      return { valid: false, reason: `"${alias}" is reserved and cannot be used as an alias` };
+    }
+    return { valid: true };
   }
 
   // Optimized storage operations using idb-keyval
@@ -183,9 +484,15 @@ export class URLShortenerService {
     try {
       // Ensure storage is properly initialized
       await this.ensureStorageIntegrity();
+      await this.migrateShortURLs();
+      await RedirectPolicyService.load();
+      await ClickStorageService.migrateLegacyClicks(await this.getFromStorage<ShortenedURL[]>(STORAGE_KEYS.URLS) || []);
 
       // Initialize storage and cleanup
-      await this.performCleanup();
+      const settings = await this.getStorageSettings();
+      if (settings.autoCleanup) {
+        await this.performCleanup();
+      }
       this.startCacheCleanup();
       this.isInitialized = true;
     } catch (error) {
@@ -205,15 +512,6 @@ export class URLShortenerService {
         await this.setToStorage(STORAGE_KEYS.URLS, []);
       }
 
-      // Check if clicks storage exists and is valid
-      const clicks = await this.getFromStorage<unknown>(STORAGE_KEYS.CLICKS);
-      if (clicks !== null && !Array.isArray(clicks)) {
-        console.warn('Clicks storage is corrupted, resetting to empty array');
-        await this.setToStorage(STORAGE_KEYS.CLICKS, []);
-      } else if (clicks === null) {
-        await this.setToStorage(STORAGE_KEYS.CLICKS, []);
-      }
-
       // Check if permanent storage exists and is valid
       const permanent = await this.getFromStorage<unknown>(STORAGE_KEYS.PERMANENT);
       if (permanent !== null && !Array.isArray(permanent)) {
@@ -227,11 +525,56 @@ export class URLShortenerService {
       // If there's an error, clear all storage and start fresh
       await this.clearAllData();
       await this.setToStorage(STORAGE_KEYS.URLS, []);
-      await this.setToStorage(STORAGE_KEYS.CLICKS, []);
       await this.setToStorage(STORAGE_KEYS.PERMANENT, []);
     }
   }
 
+  /**
+   * Rewrite stored shortURL values when the short link base (domain or path prefix) has changed
+   * since they were generated. Pass force to rewrite regardless, e.g. after restoring a backup.
+   * Links served at the root path whose code matches an app route are renamed, since the page
+   * would otherwise always win.
+   */
+  static async migrateShortURLs(force = false): Promise<number> {
+    try {
+      const baseURL = getShortLinkBaseURL();
+      const previousBaseURL = await this.getFromStorage<string>(STORAGE_KEYS.SHORT_LINK_BASE);
+      const urls = await this.getFromStorage<ShortenedURL[]>(STORAGE_KEYS.URLS) || [];
+      const shadowed = (url: ShortenedURL) => !getShortLinkBase().pathPrefix && isReservedShortCode(url.shortCode);
+      if (!force && previousBaseURL === baseURL && !urls.some(shadowed)) return 0;
+
+      const takenCodes = new Set(urls.map(url => url.shortCode.toLowerCase()));
+      let migrated = 0;
+      const updatedUrls = urls.map(url => {
+        let shortCode = url.shortCode;
+        if (shadowed(url)) {
+          let suffix = 2;
+          while (takenCodes.has(`${url.shortCode}-${suffix}`.toLowerCase())) suffix++;
+          shortCode = `${url.shortCode}-${suffix}`;
+          takenCodes.add(shortCode.toLowerCase());
+        }
+
+        const shortURL = buildShortURL(shortCode);
+        if (shortCode === url.shortCode && url.shortURL === shortURL) return url;
+        migrated++;
+        // The old code keeps resolving under /s/, where links shared before the rename point
+        return shortCode === url.shortCode
+          ? { ...url, shortURL }
+          : { ...url, shortCode, shortURL, renamedFrom: url.shortCode, ...(url.customAlias && { customAlias: shortCode }) };
+      });
+
+      if (migrated > 0) {
+        await this.setToStorage(STORAGE_KEYS.URLS, updatedUrls);
+        this.clearCache();
+      }
+      await this.setToStorage(STORAGE_KEYS.SHORT_LINK_BASE, baseURL);
+      return migrated;
+    } catch (error) {
+      console.error('Error migrating short URLs:', error);
+      return 0;
+    }
+  }
+
   // Enhanced cache management using LRU cache
   private static startCacheCleanup(): void {
     // Periodic cleanup every 10 minutes (LRU cache handles most cleanup automatically)
@@ -280,7 +623,10 @@ export class URLShortenerService {
     this.isInitialized = false;
   }
 
-  static async getURLs(): Promise<ShortenedURL[]> {
+  /**
+   * Stored links; expired ones are left out unless includeExpired is set
+   */
+  static async getURLs(includeExpired = false): Promise<ShortenedURL[]> {
     try {
       const urls = await this.getFromStorage<ShortenedURL[]>(STORAGE_KEYS.URLS);
 
@@ -295,7 +641,7 @@ export class URLShortenerService {
           return url &&
                  typeof url === 'object' &&
                  typeof url.id === 'string' &&
-                 !this.isExpired(url);
+                 (includeExpired || !this.isExpired(url));
         } catch (error) {
           console.warn('Error checking URL validity:', error, url);
           return false;
@@ -318,10 +664,37 @@ export class URLShortenerService {
     return await this.performURLShortening(originalURL, options);
   }
 
-  private static async performURLShortening(originalURL: string, options: URLOptions = {}): Promise<ShortenedURL> {
+  /**
+   * Wrap a non-URL QR payload behind a short link so its scans are counted
+   * The redirect page then opens the email or SMS, or downloads the contact or event file.
+   */
+  static async shortenPayload(payload: QRPayload, options: URLOptions = {}): Promise<ShortenedURL> {
+    const errors = QRPayloadService.validate(payload);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+    if (!QRPayloadService.canWrap(payload.type)) {
+      throw new Error('Wi-Fi codes must be scanned directly to join the network');
+    }
+
+    // Payload links have a single destination
+    return await this.performURLShortening(
+      QRPayloadService.toURI(payload),
+      { ...options, variants: undefined, redirectRules: undefined },
+      payload.type
+    );
+  }
+
+  private static async performURLShortening(
+    originalURL: string,
+    options: URLOptions = {},
+    payloadType?: QRPayloadType
+  ): Promise<ShortenedURL> {
     try {
+      await RedirectPolicyService.load();
 
-      const validation = this.isValidURL(originalURL);
+      // Payload destinations are built by QRPayloadService rather than entered as web URLs
+      const validation = payloadType ? { valid: true, suspicious: false } : this.isValidURL(originalURL);
       if (!validation.valid) {
         throw new Error(validation.reason || 'Invalid URL');
       }
@@ -329,8 +702,9 @@ export class URLShortenerService {
       // Check custom alias availability
       let shortCode: string;
       if (options.customAlias) {
-        if (typeof options.customAlias !== 'string' || options.customAlias.length < 3) {
-          throw new Error('Custom alias must be at least 3 characters long');
+        const aliasValidation = this.validateAlias(options.customAlias);
+        if (!aliasValidation.valid) {
+          throw new Error(aliasValidation.reason);
         }
         
         const aliasAvailable = await this.isAliasAvailable(options.customAlias);
@@ -368,26 +742,72 @@ export class URLShortenerService {
         }
         expiresAt = expDate.toISOString();
       } else {
-        expiresAt = new Date(Date.now() + DEFAULT_EXPIRATION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+        const { defaultExpirationDays } = await this.getStorageSettings();
+        expiresAt = defaultExpirationDays > 0
+          ? new Date(Date.now() + defaultExpirationDays * 24 * 60 * 60 * 1000).toISOString()
+          : undefined;
+      }
+
+      // Validate activation date
+      let activatesAt: string | undefined;
+      if (options.activatesAt) {
+        const activationDate = new Date(options.activatesAt);
+        if (Number.isNaN(activationDate.getTime())) {
+          throw new Error('Invalid activation date');
+        }
+        if (expiresAt && activationDate >= new Date(expiresAt)) {
+          throw new Error('Activation date must be before the expiration date');
+        }
+        activatesAt = activationDate.toISOString();
+      }
+
+      // Validate click limit
+      if (options.maxClicks !== undefined &&
+          (!Number.isInteger(options.maxClicks) || options.maxClicks < 1 || options.maxClicks > MAX_CLICK_LIMIT)) {
+        throw new Error(`Click limit must be a whole number between 1 and ${MAX_CLICK_LIMIT}`);
+      }
+
+      if (options.utmParameters) {
+        CampaignTemplateService.assertFollowsRules(options.utmParameters);
       }
 
+      const landingMessage = (message?: string) => {
+        const trimmed = message?.trim();
+        if (trimmed && trimmed.length > MAX_LANDING_MESSAGE_LENGTH) {
+          throw new Error(`Landing messages can be at most ${MAX_LANDING_MESSAGE_LENGTH} characters long`);
+        }
+        return trimmed || undefined;
+      };
+
+      const variants = options.variants?.length ? this.prepareVariants(originalURL, options.variants) : undefined;
+      const redirectRules = options.redirectRules?.length ? this.prepareRedirectRules(options.redirectRules) : undefined;
+
       const url: ShortenedURL = {
         id: generateId(),
         originalURL,
         shortCode,
-        shortURL: `${BASE_URL}/${shortCode}`,
+        shortURL: buildShortURL(shortCode),
         createdAt: new Date().toISOString(),
         expiresAt,
+        activatesAt,
+        maxClicks: options.maxClicks,
+        expiredMessage: landingMessage(options.expiredMessage),
+        inactiveMessage: landingMessage(options.inactiveMessage),
         clicks: 0,
         password: options.password ? await this.hashPassword(options.password) : undefined,
         utmParameters: options.utmParameters,
-        isSuspicious: validation.suspicious
+        isSuspicious: this.isSuspiciousLink({ originalURL, variants, redirectRules, payloadType }),
+        variants,
+        redirectRules,
+        tags: options.tags?.length ? this.normalizeTags(options.tags) : undefined,
+        folder: this.normalizeFolder(options.folder),
+        payloadType,
+        skipInterstitial: options.skipInterstitial || undefined
       };
 
-      // Save to storage
-      const urls = await this.getURLs();
-      urls.push(url);
-      await this.setToStorage(STORAGE_KEYS.URLS, urls);
+      // Append in one transaction; expired links stay stored (with their landing message) until cleanup
+      await this.createBackup();
+      await update<ShortenedURL[]>(STORAGE_KEYS.URLS, stored => [...(Array.isArray(stored) ? stored : []), url]);
 
       return url;
     } catch (error) {
@@ -396,27 +816,291 @@ export class URLShortenerService {
     }
   }
 
-  static async getURLByShortCode(shortCode: string): Promise<ShortenedURL | null> {
-    const urls = await this.getURLs();
-    return urls.find(url => url.shortCode === shortCode) || null;
+  /**
+   * Whether any destination of a link is flagged by the redirect safety policy
+   */
+  private static isSuspiciousLink(link: Pick<ShortenedURL, 'originalURL' | 'variants' | 'redirectRules' | 'payloadType'>): boolean {
+    return (!link.payloadType && !!this.isValidURL(link.originalURL).suspicious)
+      || !!link.variants?.some(variant => this.isValidURL(variant.url).suspicious)
+      || !!link.redirectRules?.some(rule => this.isValidURL(rule.destination).suspicious);
   }
 
-  static async recordClick(shortCode: string, clickData: Partial<URLClickData> = {}): Promise<void> {
+  /**
+   * Check an edited link the way a new link is checked, and refresh its suspicious flag
+   */
+  private static validateEdit(url: ShortenedURL, next: ShortenedURL): ShortenedURL {
+    if (next.originalURL !== url.originalURL) {
+      if (url.payloadType) {
+        throw new Error('Links that wrap a QR payload cannot change their destination');
+      }
+      const validation = this.isValidURL(next.originalURL);
+      if (!validation.valid) {
+        throw new Error(validation.reason || 'Invalid URL');
+      }
+    }
+
+    if (next.expiresAt && next.expiresAt !== url.expiresAt) {
+      const expDate = new Date(next.expiresAt);
+      const maxDate = new Date(Date.now() + MAX_EXPIRATION_DAYS * 24 * 60 * 60 * 1000);
+      if (Number.isNaN(expDate.getTime()) || expDate <= new Date()) {
+        throw new Error('Expiration date must be in the future');
+      }
+      if (expDate > maxDate) {
+        throw new Error(`Expiration date cannot be more than ${MAX_EXPIRATION_DAYS} days in the future`);
+      }
+    }
+
+    return { ...next, isSuspicious: this.isSuspiciousLink(next) };
+  }
+
+  /**
+   * Validate A/B destinations and assign IDs; the first destination must be the link's original URL
+   */
+  private static prepareVariants(originalURL: string, variants: Array<Omit<URLVariant, 'id'>>): URLVariant[] {
+    if (variants.length < 2 || variants.length > MAX_VARIANTS) {
+      throw new Error(`A/B tests need between 2 and ${MAX_VARIANTS} destinations`);
+    }
+    if (variants[0].url !== originalURL) {
+      throw new Error('The first A/B destination must be the original URL');
+    }
+
+    return variants.map((variant, index) => {
+      const validation = this.isValidURL(variant.url);
+      if (!validation.valid) {
+        throw new Error(`Variant ${index + 1}: ${validation.reason || 'Invalid URL'}`);
+      }
+      if (!Number.isInteger(variant.weight) || variant.weight < 1 || variant.weight > 100) {
+        throw new Error(`Variant ${index + 1}: weight must be a whole number between 1 and 100`);
+      }
+
+      return {
+        id: generateId(),
+        label: variant.label?.trim() || String.fromCharCode(65 + index),
+        url: variant.url,
+        weight: variant.weight
+      };
+    });
+  }
+
+  private static getVisitorId(): string {
     try {
-      // Input validation
-      if (!shortCode || typeof shortCode !== 'string') {
-        throw new Error('Short code is required and must be a string');
+      let visitorId = localStorage.getItem(VISITOR_ID_KEY);
+      if (!visitorId) {
+        visitorId = generateId();
+        localStorage.setItem(VISITOR_ID_KEY, visitorId);
       }
+      return visitorId;
+    } catch (error) {
+      // Storage unavailable (e.g. privacy mode): fall back to a per-page-load visitor
+      return generateId();
+    }
+  }
 
-      // Get the URL to get its ID
-      const url = await this.getURLByShortCode(shortCode);
-      if (!url) {
-        throw new Error(`URL not found for short code: ${shortCode}`);
+  /**
+   * Pick the destination to serve to the current visitor
+   * A visitor keeps the variant they were first assigned as long as it exists;
+   * new visitors are split by weight using a hash of their visitor ID.
+   */
+  static selectVariant(url: ShortenedURL): URLVariant | null {
+    if (!url.variants?.length) return null;
+
+    let assignments: Record<string, string> = {};
+    try {
+      assignments = JSON.parse(localStorage.getItem(VARIANT_ASSIGNMENTS_KEY) || '{}');
+    } catch (error) {
+      assignments = {};
+    }
+
+    const assigned = url.variants.find(variant => variant.id === assignments[url.id]);
+    if (assigned) return assigned;
+
+    const totalWeight = url.variants.reduce((sum, variant) => sum + variant.weight, 0);
+    let point = hashToUnitInterval(`${this.getVisitorId()}:${url.id}`) * totalWeight;
+    const selected = url.variants.find(variant => (point -= variant.weight) < 0) || url.variants[url.variants.length - 1];
+
+    try {
+      localStorage.setItem(VARIANT_ASSIGNMENTS_KEY, JSON.stringify({ ...assignments, [url.id]: selected.id }));
+    } catch (error) {
+      console.warn('Could not persist A/B variant assignment:', error);
+    }
+    return selected;
+  }
+
+  /**
+   * Validate and normalize redirect rules and assign IDs
+   */
+  private static prepareRedirectRules(rules: Array<Omit<RedirectRule, 'id'>>): RedirectRule[] {
+    if (rules.length > MAX_REDIRECT_RULES) {
+      throw new Error(`A link can have at most ${MAX_REDIRECT_RULES} redirect rules`);
+    }
+
+    return rules.map((rule, index) => {
+      const label = rule.label?.trim() || `Rule ${index + 1}`;
+      const validation = this.isValidURL(rule.destination);
+      if (!validation.valid) {
+        throw new Error(`${label}: ${validation.reason || 'Invalid destination URL'}`);
+      }
+
+      const clean = (values?: string[]) => values?.map(value => value.trim()).filter(Boolean) ?? [];
+      const os = clean(rule.conditions.os);
+      const devices = clean(rule.conditions.devices);
+      const languages = clean(rule.conditions.languages).map(language => language.toLowerCase());
+      const schedule = rule.conditions.schedule;
+
+      const invalidLanguage = languages.find(language => !LANGUAGE_TAG_PATTERN.test(language));
+      if (invalidLanguage) {
+        throw new Error(`${label}: "${invalidLanguage}" is not a valid language code`);
       }
 
-      // Check if URL is expired
-      if (this.isExpired(url)) {
-        throw new Error('URL has expired');
+      if (schedule) {
+        if (schedule.days.length === 0 || schedule.days.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+          throw new Error(`${label}: select at least one day for the schedule`);
+        }
+        if (!TIME_PATTERN.test(schedule.startTime) || !TIME_PATTERN.test(schedule.endTime)) {
+          throw new Error(`${label}: schedule times must use the HH:mm format`);
+        }
+        if (schedule.startTime === schedule.endTime) {
+          throw new Error(`${label}: schedule start and end times must differ`);
+        }
+        if (schedule.timezone) {
+          try {
+            new Intl.DateTimeFormat('en-US', { timeZone: schedule.timezone });
+          } catch (error) {
+            throw new Error(`${label}: unknown time zone "${schedule.timezone}"`);
+          }
+        }
+      }
+
+      if (os.length === 0 && devices.length === 0 && languages.length === 0 && !schedule) {
+        throw new Error(`${label}: add at least one condition`);
+      }
+
+      return {
+        id: generateId(),
+        label,
+        destination: rule.destination,
+        conditions: {
+          os: os.length ? os : undefined,
+          devices: devices.length ? devices : undefined,
+          languages: languages.length ? languages : undefined,
+          schedule: schedule
+            ? { ...schedule, days: [...new Set(schedule.days)].sort((a, b) => a - b), timezone: schedule.timezone?.trim() || undefined }
+            : undefined
+        }
+      };
+    });
+  }
+
+  static getCurrentVisitor(): RedirectVisitor {
+    return {
+      userAgent: navigator.userAgent,
+      language: navigator.languages?.[0] || navigator.language || '',
+      date: new Date()
+    };
+  }
+
+  /**
+   * Describe a user agent the way redirect rules see it
+   */
+  static describeUserAgent(userAgent: string): { os: string; device: string; browser: string } {
+    return {
+      os: this.getDetailedUserAgent(userAgent).os.name || 'Unknown',
+      device: this.detectDevice(userAgent),
+      browser: this.detectBrowser(userAgent)
+    };
+  }
+
+  /**
+   * Find the first rule whose conditions all match the visitor (the current one by default)
+   * Conditions that are not set match everyone.
+   */
+  static evaluateRedirectRules<T extends Omit<RedirectRule, 'id'>>(
+    rules: T[] | undefined,
+    visitor: RedirectVisitor = this.getCurrentVisitor()
+  ): T | null {
+    if (!rules?.length) return null;
+
+    const { os, device } = this.describeUserAgent(visitor.userAgent);
+    const language = visitor.language.trim().toLowerCase();
+
+    return rules.find(({ conditions }) => {
+      const osNames = conditions.os?.map(name => name.trim().toLowerCase()).filter(Boolean);
+      if (osNames?.length && !osNames.includes(os.toLowerCase())) return false;
+
+      const devices = conditions.devices?.map(name => name.trim().toLowerCase()).filter(Boolean);
+      if (devices?.length && !devices.includes(device.toLowerCase())) return false;
+
+      const languages = conditions.languages?.map(tag => tag.trim().toLowerCase()).filter(Boolean);
+      if (languages?.length && !languages.some(tag => language === tag || language.startsWith(`${tag}-`))) return false;
+
+      if (conditions.schedule && !this.matchesSchedule(conditions.schedule, visitor.date)) return false;
+
+      return true;
+    }) || null;
+  }
+
+  private static matchesSchedule(schedule: RedirectSchedule, date: Date): boolean {
+    try {
+      const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: schedule.timezone || undefined,
+        weekday: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23'
+      }).formatToParts(date);
+      const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+
+      const day = WEEKDAYS.indexOf(part('weekday'));
+      const minutes = Number(part('hour')) * 60 + Number(part('minute'));
+      const start = toMinutes(schedule.startTime);
+      const end = toMinutes(schedule.endTime);
+
+      // A window that wraps past midnight belongs to the day it starts on
+      const inWindow = start < end
+        ? schedule.days.includes(day) && minutes >= start && minutes < end
+        : (schedule.days.includes(day) && minutes >= start) || (schedule.days.includes((day + 6) % 7) && minutes < end);
+
+      return schedule.outside ? !inWindow : inWindow;
+    } catch (error) {
+      console.warn('Error evaluating redirect schedule:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Look up a link by short code; expired links are only returned with includeExpired
+   * so their landing message can be shown until they are cleaned up
+   */
+  static async getURLByShortCode(shortCode: string, includeExpired = false): Promise<ShortenedURL | null> {
+    const urls = includeExpired
+      ? await this.getFromStorage<ShortenedURL[]>(STORAGE_KEYS.URLS) || []
+      : await this.getURLs();
+    return urls.find(url => url.shortCode === shortCode)
+      || urls.find(url => url.renamedFrom === shortCode)
+      || null;
+  }
+
+  /**
+   * Whether a link currently redirects: scheduled links are not active yet,
+   * exhausted links have used up their click limit
+   */
+  static getLinkStatus(url: ShortenedURL, now: Date = new Date()): URLLinkStatus {
+    if (url.expiresAt && new Date(url.expiresAt) < now) return 'expired';
+    if (url.maxClicks !== undefined && url.clicks >= url.maxClicks) return 'exhausted';
+    if (url.activatesAt && new Date(url.activatesAt) > now) return 'scheduled';
+    return 'active';
+  }
+
+  /**
+   * Record a click on a link
+   * Returns false when the click was not recorded, e.g. because the link is not
+   * active yet or has used up its click limit; such clicks must not be redirected.
+   */
+  static async recordClick(shortCode: string, clickData: Partial<URLClickData> = {}): Promise<boolean> {
+    try {
+      // Input validation
+      if (!shortCode || typeof shortCode !== 'string') {
+        throw new Error('Short code is required and must be a string');
       }
 
       // Validate click data
@@ -428,10 +1112,40 @@ export class URLShortenerService {
         throw new Error('Session duration must be a non-negative number');
       }
 
+      // Classify first: bot clicks are stored but must not use up a click limit
+      const botReason = this.classifyBot(navigator.userAgent);
+
+      // Check the link's status and count the click in one transaction, so concurrent
+      // tabs cannot both pass a click limit (expired links are included; getLinkStatus rejects them)
+      const claim: { url?: ShortenedURL; status?: URLLinkStatus } = {};
+      await update<ShortenedURL[]>(STORAGE_KEYS.URLS, stored => {
+        const urls = Array.isArray(stored) ? stored : [];
+        const index = urls.findIndex(url => url.shortCode === shortCode);
+        if (index === -1) return urls;
+
+        claim.status = this.getLinkStatus(urls[index]);
+        if (claim.status === 'active' && !botReason) {
+          urls[index] = { ...urls[index], clicks: urls[index].clicks + 1 };
+        }
+        claim.url = urls[index];
+        return urls;
+      });
+
+      const { url, status } = claim;
+      if (!url) {
+        throw new Error(`URL not found for short code: ${shortCode}`);
+      }
+      if (status !== 'active') {
+        throw new Error(`URL is ${status === 'scheduled' ? 'not active yet' : status}`);
+      }
+
       const click: URLClickData = {
         id: generateId(),
         urlId: url.id,
         timestamp: new Date().toISOString(),
+        visitorId: clickData.visitorId || this.getVisitorId(),
+        isBot: !!botReason,
+        botReason: botReason || undefined,
         referrer: clickData.referrer || document.referrer || undefined,
         device: clickData.device || this.detectDevice(),
         browser: clickData.browser || this.detectBrowser(),
@@ -441,32 +1155,31 @@ export class URLShortenerService {
         conversionType: clickData.conversionType,
         conversionValue: clickData.conversionValue,
         sessionDuration: clickData.sessionDuration,
-        exitPage: clickData.exitPage
+        exitPage: clickData.exitPage,
+        variantId: clickData.variantId,
+        ruleId: clickData.ruleId
       };
 
-      // Save click data
-      const clicks = await this.getFromStorage<URLClickData[]>(STORAGE_KEYS.CLICKS) || [];
-      clicks.push(click);
-      await this.setToStorage(STORAGE_KEYS.CLICKS, clicks);
-
-      // Update URL click count
-      const urls = await this.getURLs();
-      const urlIndex = urls.findIndex(url => url.shortCode === shortCode);
-      if (urlIndex !== -1) {
-        urls[urlIndex].clicks++;
-        await this.setToStorage(STORAGE_KEYS.URLS, urls);
-      }
+      await ClickStorageService.addClick(click, url.utmParameters);
+      return true;
     } catch (error) {
       console.error('Error recording click:', error);
       // Don't re-throw to avoid breaking user experience, but log the error
       if (error instanceof Error && error.message.includes('expired')) {
         console.warn(`Attempted to record click on expired URL: ${shortCode}`);
       }
+      return false;
     }
   }
 
-  static async getURLAnalytics(urlId: string): Promise<URLAnalytics> {
-    const cacheKey = `analytics_${urlId}`;
+  /**
+   * Analytics for a link, built from its daily rollups
+   * Bot and duplicate clicks always stay stored; with excludeFiltered the click
+   * figures only count human clicks. Conversions are never filtered.
+   */
+  static async getURLAnalytics(urlId: string, options: { excludeFiltered?: boolean } = {}): Promise<URLAnalytics> {
+    const { excludeFiltered = false } = options;
+    const cacheKey = `analytics_${urlId}${excludeFiltered ? '_human' : ''}`;
     const cached = this.cache.get(cacheKey);
     
     if (cached && (Date.now() - cached.timestamp) < CACHE_EXPIRY) {
@@ -474,40 +1187,88 @@ export class URLShortenerService {
     }
 
     try {
-      const clicks = await this.getFromStorage<URLClickData[]>(STORAGE_KEYS.CLICKS) || [];
-      const url = (await this.getURLs()).find(u => u.id === urlId);
+      // Expired links keep their analytics until the cleanup pass removes them
+      const url = (await this.getURLs(true)).find(u => u.id === urlId);
       
       if (!url) {
         throw new Error('URL not found');
       }
 
-      const urlClicks = clicks.filter(click => click.urlId === urlId);
+      const rollups = await ClickStorageService.getRollups(urlId);
+      const clicksBy = (dimension: URLRollupDimension) =>
+        ClickStorageService.sumRollups(rollups, excludeFiltered ? 'humanClicksBy' : 'clicksBy', dimension);
+      const conversionsBy = (dimension: URLRollupDimension) => ClickStorageService.sumRollups(rollups, 'conversionsBy', dimension);
+      const valueBy = (dimension: URLRollupDimension) => ClickStorageService.sumRollups(rollups, 'conversionValueBy', dimension);
+
+      const clicksByDate: Record<string, number> = {};
+      const conversionsByDate: Record<string, number> = {};
+      const clicksByDayOfWeek: Record<string, number> = {};
+      const humanVisitors = new Set<string>();
+      let rawClicks = 0;
+      let humanClicks = 0;
+      let botClicks = 0;
+      let duplicateClicks = 0;
+      let totalConversions = 0;
+      let conversionValue = 0;
+      rollups.forEach(rollup => {
+        const clicks = excludeFiltered ? rollup.humanClicks || 0 : rollup.clicks;
+        rawClicks += rollup.clicks;
+        humanClicks += rollup.humanClicks || 0;
+        botClicks += rollup.botClicks || 0;
+        duplicateClicks += rollup.duplicateClicks || 0;
+        rollup.humanVisitors?.forEach(visitorId => humanVisitors.add(visitorId));
+        totalConversions += rollup.conversions;
+        conversionValue += rollup.conversionValue;
+        if (clicks > 0) clicksByDate[rollup.date] = clicks;
+        if (rollup.conversions > 0) conversionsByDate[rollup.date] = rollup.conversions;
+
+        const dayOfWeek = isValid(parseISO(rollup.date)) ? format(parseISO(rollup.date), 'EEEE') : 'Unknown';
+        clicksByDayOfWeek[dayOfWeek] = (clicksByDayOfWeek[dayOfWeek] || 0) + clicks;
+      });
+      const totalClicks = excludeFiltered ? humanClicks : rawClicks;
       
       const analytics: URLAnalytics = {
         urlId,
-        totalClicks: urlClicks.length,
-        clicksByDate: this.groupByDate(urlClicks),
-        clicksByReferrer: this.groupByField(urlClicks, 'referrer'),
-        clicksByDevice: this.groupByField(urlClicks, 'device'),
-        clicksByBrowser: this.groupByField(urlClicks, 'browser'),
-        clicksByCountry: this.groupByLocationField(urlClicks, 'country'),
-        clicksByRegion: this.groupByLocationField(urlClicks, 'region'),
-        clicksByCity: this.groupByLocationField(urlClicks, 'city'),
-        clicksByHour: this.groupByHour(urlClicks),
-        clicksByDayOfWeek: this.groupByDayOfWeek(urlClicks),
-        clicksByUtmSource: this.groupByUtmField(urlClicks, 'source'),
-        clicksByUtmMedium: this.groupByUtmField(urlClicks, 'medium'),
-        clicksByUtmCampaign: this.groupByUtmField(urlClicks, 'campaign'),
-        clicksByUtmTerm: this.groupByUtmField(urlClicks, 'term'),
-        clicksByUtmContent: this.groupByUtmField(urlClicks, 'content'),
-        clicksTimeline: this.getClicksTimeline(urlClicks),
-        totalConversions: urlClicks.filter(c => c.isConversion).length,
-        conversionRate: urlClicks.length > 0 ? (urlClicks.filter(c => c.isConversion).length / urlClicks.length) * 100 : 0,
-        conversionsByType: this.groupByField(urlClicks.filter(c => c.isConversion), 'conversionType'),
-        conversionsByDate: this.groupByDate(urlClicks.filter(c => c.isConversion)),
-        conversionValue: urlClicks.reduce((sum, click) => sum + (click.conversionValue || 0), 0)
+        totalClicks,
+        rawClicks,
+        humanClicks,
+        uniqueVisitors: humanVisitors.size,
+        botClicks,
+        duplicateClicks,
+        excludesFilteredClicks: excludeFiltered,
+        clicksByDate,
+        clicksByReferrer: clicksBy('referrer'),
+        clicksByDevice: clicksBy('device'),
+        clicksByBrowser: clicksBy('browser'),
+        clicksByCountry: clicksBy('country'),
+        clicksByRegion: clicksBy('region'),
+        clicksByCity: clicksBy('city'),
+        clicksByHour: clicksBy('hour'),
+        clicksByDayOfWeek,
+        clicksByUtmSource: clicksBy('utmSource'),
+        clicksByUtmMedium: clicksBy('utmMedium'),
+        clicksByUtmCampaign: clicksBy('utmCampaign'),
+        clicksByUtmTerm: clicksBy('utmTerm'),
+        clicksByUtmContent: clicksBy('utmContent'),
+        clicksTimeline: Object.entries(clicksByDate).map(([date, clicks]) => ({ date, clicks })),
+        totalConversions,
+        conversionRate: totalClicks > 0 ? (totalConversions / totalClicks) * 100 : 0,
+        conversionsByType: conversionsBy('conversionType'),
+        conversionsByDate,
+        conversionsByUtmSource: conversionsBy('utmSource'),
+        conversionsByUtmMedium: conversionsBy('utmMedium'),
+        conversionsByUtmCampaign: conversionsBy('utmCampaign'),
+        conversionValue,
+        conversionValueByUtmSource: valueBy('utmSource'),
+        conversionValueByUtmCampaign: valueBy('utmCampaign')
       };
 
+      if (url.variants?.length) {
+        analytics.clicksByVariant = clicksBy('variant');
+        analytics.conversionsByVariant = conversionsBy('variant');
+        analytics.conversionValueByVariant = valueBy('variant');
+      }
+
       this.addToCache(cacheKey, analytics);
       return analytics;
     } catch (error) {
@@ -516,20 +1277,158 @@ export class URLShortenerService {
     }
   }
 
+  // Conversion goals
+  private static async getAllConversionGoals(): Promise<ConversionGoal[]> {
+    return await this.getFromStorage<ConversionGoal[]>(STORAGE_KEYS.CONVERSION_GOALS) || [];
+  }
+
+  private static validateConversionGoal(goal: Partial<ConversionGoalInput>): void {
+    if (!goal.name || typeof goal.name !== 'string' || goal.name.trim().length === 0) {
+      throw new Error('Goal name is required');
+    }
+    if (!goal.type || !CONVERSION_GOAL_TYPES.includes(goal.type)) {
+      throw new Error(`Goal type must be one of: ${CONVERSION_GOAL_TYPES.join(', ')}`);
+    }
+    if (goal.targetValue !== undefined && (typeof goal.targetValue !== 'number' || !(goal.targetValue > 0))) {
+      throw new Error('Goal target must be a positive number');
+    }
+  }
+
+  // Conversion type recorded for conversions attributed to a goal
+  private static getGoalConversionType(goal: ConversionGoal): string {
+    return goal.type === 'custom' ? goal.name : goal.type;
+  }
+
+  /**
+   * Goals for a URL, with currentValue and isCompleted computed from its recorded conversions
+   */
+  static async getConversionGoals(urlId: string): Promise<ConversionGoal[]> {
+    try {
+      const goals = (await this.getAllConversionGoals()).filter(goal => goal.urlId === urlId);
+      if (goals.length === 0) return [];
+
+      const rollups = await ClickStorageService.getRollups(urlId);
+      const conversionsByType = ClickStorageService.sumRollups(rollups, 'conversionsBy', 'conversionType');
+      const valueByType = ClickStorageService.sumRollups(rollups, 'conversionValueBy', 'conversionType');
+
+      return goals.map(goal => {
+        const conversionType = this.getGoalConversionType(goal);
+        const currentValue = goal.type === 'purchase'
+          ? valueByType[conversionType] || 0
+          : conversionsByType[conversionType] || 0;
+
+        return {
+          ...goal,
+          currentValue,
+          isCompleted: goal.targetValue !== undefined && currentValue >= goal.targetValue
+        };
+      });
+    } catch (error) {
+      console.error('Error getting conversion goals:', error);
+      return [];
+    }
+  }
+
+  static async createConversionGoal(urlId: string, goal: ConversionGoalInput): Promise<ConversionGoal> {
+    this.validateConversionGoal(goal);
+
+    const url = (await this.getURLs(true)).find(u => u.id === urlId);
+    if (!url) {
+      throw new Error('URL not found');
+    }
+
+    const now = new Date().toISOString();
+    const newGoal: ConversionGoal = {
+      id: generateId(),
+      urlId,
+      name: goal.name.trim(),
+      type: goal.type,
+      targetValue: goal.targetValue,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const goals = await this.getAllConversionGoals();
+    await this.setToStorage(STORAGE_KEYS.CONVERSION_GOALS, [...goals, newGoal]);
+    return newGoal;
+  }
+
+  static async updateConversionGoal(id: string, updates: Partial<ConversionGoalInput>): Promise<ConversionGoal | null> {
+    const goals = await this.getAllConversionGoals();
+    const index = goals.findIndex(goal => goal.id === id);
+    if (index === -1) return null;
+
+    const updatedGoal: ConversionGoal = { ...goals[index], ...updates, updatedAt: new Date().toISOString() };
+    this.validateConversionGoal(updatedGoal);
+
+    goals[index] = updatedGoal;
+    await this.setToStorage(STORAGE_KEYS.CONVERSION_GOALS, goals);
+    return updatedGoal;
+  }
+
+  static async deleteConversionGoal(id: string): Promise<boolean> {
+    const goals = await this.getAllConversionGoals();
+    const filteredGoals = goals.filter(goal => goal.id !== id);
+    if (filteredGoals.length === goals.length) return false;
+
+    await this.setToStorage(STORAGE_KEYS.CONVERSION_GOALS, filteredGoals);
+    return true;
+  }
+
+  /**
+   * Record a conversion for a short link, credited to the converting visitor's most recent click
+   */
+  static async recordConversion(shortCode: string, options: ConversionOptions = {}): Promise<URLClickData> {
+    if (!shortCode || typeof shortCode !== 'string') {
+      throw new Error('Short code is required and must be a string');
+    }
+    if (options.value !== undefined && (typeof options.value !== 'number' || !Number.isFinite(options.value) || options.value < 0)) {
+      throw new Error('Conversion value must be a non-negative number');
+    }
+
+    // Conversions can arrive after a link expired, so look it up without the expiry filter
+    const url = await this.getURLByShortCode(shortCode, true);
+    if (!url) {
+      throw new Error(`URL not found for short code: ${shortCode}`);
+    }
+
+    let conversionType = options.type?.trim();
+    if (options.goalId) {
+      const goal = (await this.getAllConversionGoals()).find(g => g.id === options.goalId && g.urlId === url.id);
+      if (!goal) {
+        throw new Error('Conversion goal not found for this link');
+      }
+      conversionType = conversionType || this.getGoalConversionType(goal);
+    }
+
+    const click = await ClickStorageService.recordConversion(url, {
+      type: conversionType || 'custom',
+      value: options.value
+    }, options.visitorId || this.getVisitorId());
+    if (!click) {
+      throw new Error('No click from this visitor found to attribute the conversion to');
+    }
+
+    this.removeFromCache(`analytics_${url.id}`);
+    return click;
+  }
+
   // Utility methods
   private static isExpired(url: ShortenedURL): boolean {
     return url.expiresAt ? new Date(url.expiresAt) < new Date() : false;
   }
 
   private static async isAliasAvailable(alias: string): Promise<boolean> {
-    const urls = await this.getURLs();
+    if (isReservedShortCode(alias)) return false;
+    // An expired link keeps its code until the cleanup pass removes it
+    const urls = await this.getURLs(true);
     return !urls.some(url => url.shortCode === alias);
   }
 
   // Enhanced device/browser detection using UAParser
-  private static detectDevice(): string {
+  private static detectDevice(userAgent = navigator.userAgent): string {
     try {
-      this.uaParser.setUA(navigator.userAgent);
+      this.uaParser.setUA(userAgent);
       const result = this.uaParser.getResult();
       
       const deviceType = result.device.type;
@@ -546,9 +1445,9 @@ export class URLShortenerService {
     }
   }
 
-  private static detectBrowser(): string {
+  private static detectBrowser(userAgent = navigator.userAgent): string {
     try {
-      this.uaParser.setUA(navigator.userAgent);
+      this.uaParser.setUA(userAgent);
       const result = this.uaParser.getResult();
       
       const browserName = result.browser.name;
@@ -563,13 +1462,13 @@ export class URLShortenerService {
     }
   }
 
-  private static getDetailedUserAgent(): {
+  private static getDetailedUserAgent(userAgent = navigator.userAgent): {
     browser: { name?: string; version?: string };
     os: { name?: string; version?: string };
     device: { vendor?: string; model?: string; type?: string };
   } {
     try {
-      this.uaParser.setUA(navigator.userAgent);
+      this.uaParser.setUA(userAgent);
       const result = this.uaParser.getResult();
       
       return {
@@ -597,56 +1496,31 @@ export class URLShortenerService {
     }
   }
 
-  // Enhanced grouping functions using lodash-es for better performance
-  private static groupByField(clicks: URLClickData[], field: keyof URLClickData): Record<string, number> {
-    return countBy(clicks, click => String(click[field] || 'Unknown'));
-  }
-
-  private static groupByLocationField(clicks: URLClickData[], field: keyof GeoLocation): Record<string, number> {
-    return countBy(clicks, click => String(click.location?.[field] || 'Unknown'));
-  }
+  /**
+   * Heuristic bot check for a user agent
+   * Returns why the visitor looks automated, or null for a likely human visitor.
+   */
+  private static classifyBot(userAgent: string): string | null {
+    if (!userAgent.trim()) return 'Missing user agent';
 
-  private static groupByUtmField(clicks: URLClickData[], field: string): Record<string, number> {
-    return countBy(clicks, click => String(click.utmParameters?.[field] || 'Unknown'));
-  }
-
-  private static groupByDate(clicks: URLClickData[]): Record<string, number> {
-    return countBy(clicks, click => {
-      try {
-        return format(parseISO(click.timestamp), 'yyyy-MM-dd');
-      } catch (error) {
-        return 'Invalid Date';
-      }
-    });
-  }
-
-  private static groupByHour(clicks: URLClickData[]): Record<string, number> {
-    return countBy(clicks, click => {
-      try {
-        return format(parseISO(click.timestamp), 'HH');
-      } catch (error) {
-        return 'Unknown';
-      }
-    });
-  }
+    try {
+      if (navigator.webdriver) return 'Automated browser';
+    } catch (error) {
+      // navigator is unavailable outside the browser
+    }
 
-  private static groupByDayOfWeek(clicks: URLClickData[]): Record<string, number> {
-    return countBy(clicks, click => {
-      try {
-        return format(parseISO(click.timestamp), 'EEEE');
-      } catch (error) {
-        return 'Unknown';
+    try {
+      const { browser } = new UAParser(userAgent, Bots).getResult();
+      if (browser.type && ['crawler', 'fetcher', 'cli', 'library'].includes(browser.type)) {
+        return `${browser.name || 'Unknown'} (${browser.type})`;
       }
-    });
-  }
+    } catch (error) {
+      console.warn('Error classifying user agent:', error);
+    }
 
-  private static getClicksTimeline(clicks: URLClickData[]): Array<{date: string, clicks: number}> {
-    const timeline = this.groupByDate(clicks);
-    return orderBy(
-      Object.entries(timeline).map(([date, clicks]) => ({ date, clicks })),
-      ['date'],
-      ['asc']
-    );
+    if (/headless/i.test(userAgent)) return 'Headless browser';
+    if (/bot|crawl|spider|slurp|preview/i.test(userAgent)) return 'Bot-like user agent';
+    return null;
   }
 
   private static async performCleanup(): Promise<void> {
@@ -656,20 +1530,34 @@ export class URLShortenerService {
       
       if (activeUrls.length !== urls.length) {
         await this.setToStorage(STORAGE_KEYS.URLS, activeUrls);
+        await this.deleteLinkData(urls.filter(url => this.isExpired(url)).map(url => url.id));
       }
     } catch (error) {
       console.error('Error during cleanup:', error);
     }
   }
 
+  /**
+   * Remove what is stored alongside deleted links: their goals, clicks, rollups and revisions
+   */
+  private static async deleteLinkData(urlIds: string[]): Promise<void> {
+    const deleted = new Set(urlIds);
+    const goals = await this.getAllConversionGoals();
+    await this.setToStorage(STORAGE_KEYS.CONVERSION_GOALS, goals.filter(goal => !deleted.has(goal.urlId)));
+    await Promise.all(urlIds.map(id => ClickStorageService.deleteClicks(id)));
+    await this.deleteRevisions(urlIds);
+  }
+
   // Additional utility methods
   static async deleteURL(id: string): Promise<boolean> {
     try {
-      const urls = await this.getURLs();
+      const urls = await this.getURLs(true);
       const filteredUrls = urls.filter(url => url.id !== id);
       
       if (filteredUrls.length !== urls.length) {
+        await this.createBackup();
         await this.setToStorage(STORAGE_KEYS.URLS, filteredUrls);
+        await this.deleteLinkData([id]);
         return true;
       }
       return false;
@@ -679,23 +1567,264 @@ export class URLShortenerService {
     }
   }
 
+  /**
+   * Update a link in place; the destination and expiry are validated as when shortening,
+   * and changes to its destination, UTM parameters, password or expiry are recorded as a revision
+   */
   static async updateURL(id: string, updates: Partial<ShortenedURL>): Promise<ShortenedURL | null> {
     try {
-      const urls = await this.getURLs();
-      const urlIndex = urls.findIndex(url => url.id === id);
-      
-      if (urlIndex !== -1) {
-        urls[urlIndex] = { ...urls[urlIndex], ...updates };
-        await this.setToStorage(STORAGE_KEYS.URLS, urls);
-        return urls[urlIndex];
-      }
-      return null;
+      await RedirectPolicyService.load();
+      const [updated] = await this.updateURLs([id], url => {
+        const next = { ...url, ...updates };
+        // The first A/B destination is always the link's own URL
+        if (updates.originalURL && next.variants?.length && !updates.variants) {
+          next.variants = [{ ...next.variants[0], url: updates.originalURL }, ...next.variants.slice(1)];
+        }
+        return this.validateEdit(url, next);
+      });
+      return updated || null;
     } catch (error) {
       console.error('Error updating URL:', error);
       return null;
     }
   }
 
+  // Revisions
+  private static diffRevisionFields(before: ShortenedURL, after: ShortenedURL): URLRevisionChange[] {
+    return REVISION_FIELDS
+      .filter(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+      .map(field => ({ field, before: before[field], after: after[field] }));
+  }
+
+  private static async recordRevisions(revisions: URLRevision[]): Promise<void> {
+    if (revisions.length === 0) return;
+    try {
+      await update<Record<string, URLRevision[]>>(STORAGE_KEYS.REVISIONS, stored => {
+        const byUrl = stored || {};
+        revisions.forEach(revision => {
+          byUrl[revision.urlId] = [revision, ...(byUrl[revision.urlId] || [])].slice(0, MAX_REVISIONS_PER_URL);
+        });
+        return byUrl;
+      });
+    } catch (error) {
+      console.error('Error recording URL revisions:', error);
+    }
+  }
+
+  private static async deleteRevisions(urlIds: string[]): Promise<void> {
+    await update<Record<string, URLRevision[]>>(STORAGE_KEYS.REVISIONS, stored => {
+      const byUrl = stored || {};
+      urlIds.forEach(urlId => delete byUrl[urlId]);
+      return byUrl;
+    });
+  }
+
+  /**
+   * Recorded edits of a link, newest first
+   */
+  static async getRevisions(urlId: string): Promise<URLRevision[]> {
+    const byUrl = await this.getFromStorage<Record<string, URLRevision[]>>(STORAGE_KEYS.REVISIONS);
+    return byUrl?.[urlId] || [];
+  }
+
+  /**
+   * Restore the values a revision replaced; the rollback is itself recorded as a revision
+   */
+  static async rollbackRevision(urlId: string, revisionId: string): Promise<ShortenedURL> {
+    const revision = (await this.getRevisions(urlId)).find(item => item.id === revisionId);
+    if (!revision) {
+      throw new Error('Revision not found');
+    }
+
+    const restored = Object.fromEntries(
+      revision.changes.map(change => [change.field, change.before])
+    ) as Partial<ShortenedURL>;
+    if (restored.expiresAt && new Date(restored.expiresAt) <= new Date()) {
+      throw new Error('This change cannot be rolled back: the earlier expiration date has already passed');
+    }
+
+    await RedirectPolicyService.load();
+    const [updated] = await this.updateURLs([urlId], url => {
+      const next = { ...url, ...restored };
+      if (restored.originalURL && next.variants?.length) {
+        next.variants = [{ ...next.variants[0], url: restored.originalURL }, ...next.variants.slice(1)];
+      }
+      return this.validateEdit(url, next);
+    }, revisionId);
+
+    if (!updated) {
+      throw new Error('URL not found');
+    }
+    return updated;
+  }
+
+  /**
+   * Lowercase, hyphenate and de-duplicate tags
+   */
+  static normalizeTags(tags: string[]): string[] {
+    const normalized = [...new Set(tags
+      .map(tag => tag.trim().toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9_-]/g, ''))
+      .filter(Boolean))];
+
+    if (normalized.some(tag => tag.length > MAX_TAG_LENGTH)) {
+      throw new Error(`Tags can be at most ${MAX_TAG_LENGTH} characters long`);
+    }
+    if (normalized.length > MAX_TAGS) {
+      throw new Error(`A link can have at most ${MAX_TAGS} tags`);
+    }
+    return normalized;
+  }
+
+  /**
+   * Trim each segment of a folder path; returns undefined for no folder
+   */
+  static normalizeFolder(folder?: string): string | undefined {
+    const normalized = (folder || '').split('/').map(segment => segment.trim()).filter(Boolean).join('/');
+    if (normalized.length > MAX_FOLDER_LENGTH) {
+      throw new Error(`Folder names can be at most ${MAX_FOLDER_LENGTH} characters long`);
+    }
+    return normalized || undefined;
+  }
+
+  /**
+   * Apply the same kind of change to several links with a single backup and write
+   * Returns the updated links.
+   */
+  private static async updateURLs(
+    ids: string[],
+    change: (url: ShortenedURL) => ShortenedURL,
+    rollbackOf?: string
+  ): Promise<ShortenedURL[]> {
+    const selected = new Set(ids);
+    const urls = await this.getURLs(true);
+    const updated: ShortenedURL[] = [];
+    const revisions: URLRevision[] = [];
+    const timestamp = new Date().toISOString();
+    const nextUrls = urls.map(url => {
+      if (!selected.has(url.id)) return url;
+      const next = change(url);
+      updated.push(next);
+
+      const changes = this.diffRevisionFields(url, next);
+      if (changes.length > 0) {
+        revisions.push({ id: generateId(), urlId: url.id, timestamp, changes, rollbackOf });
+      }
+      return next;
+    });
+
+    if (updated.length > 0) {
+      await this.createBackup();
+      await this.setToStorage(STORAGE_KEYS.URLS, nextUrls);
+      await this.recordRevisions(revisions);
+    }
+    return updated;
+  }
+
+  /**
+   * Delete several links, with their clicks and goals; returns the number deleted
+   */
+  static async deleteURLs(ids: string[]): Promise<number> {
+    try {
+      const selected = new Set(ids);
+      const urls = await this.getURLs(true);
+      const remaining = urls.filter(url => !selected.has(url.id));
+      const deletedIds = urls.filter(url => selected.has(url.id)).map(url => url.id);
+      if (deletedIds.length === 0) return 0;
+
+      await this.createBackup();
+      await this.setToStorage(STORAGE_KEYS.URLS, remaining);
+      await this.deleteLinkData(deletedIds);
+      return deletedIds.length;
+    } catch (error) {
+      console.error('Error deleting URLs:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Push back the expiration of several links by a number of days
+   * Already expired links are extended from now; links without an expiration are left alone.
+   */
+  static async extendExpiration(ids: string[], days: number): Promise<ShortenedURL[]> {
+    if (!Number.isInteger(days) || days < 1 || days > MAX_EXPIRATION_DAYS) {
+      throw new Error(`Extend by a whole number of days between 1 and ${MAX_EXPIRATION_DAYS}`);
+    }
+
+    const now = Date.now();
+    const maxExpiry = now + MAX_EXPIRATION_DAYS * 24 * 60 * 60 * 1000;
+    return this.updateURLs(ids, url => {
+      if (!url.expiresAt) return url;
+      const from = Math.max(new Date(url.expiresAt).getTime() || now, now);
+      const expiresAt = Math.min(from + days * 24 * 60 * 60 * 1000, maxExpiry);
+      return { ...url, expiresAt: new Date(expiresAt).toISOString() };
+    });
+  }
+
+  /**
+   * Add or remove tags and optionally move several links to a folder
+   */
+  static async retagURLs(ids: string[], options: URLRetagOptions): Promise<ShortenedURL[]> {
+    const addTags = this.normalizeTags(options.addTags || []);
+    const removeTags = new Set(this.normalizeTags(options.removeTags || []));
+    const folder = options.folder !== undefined ? this.normalizeFolder(options.folder) : undefined;
+
+    // normalizeTags throws before anything is written if a link would get too many tags
+    return this.updateURLs(ids, url => {
+      const tags = this.normalizeTags([...(url.tags || []), ...addTags]).filter(tag => !removeTags.has(tag));
+      return {
+        ...url,
+        tags: tags.length > 0 ? tags : undefined,
+        folder: options.folder !== undefined ? folder : url.folder
+      };
+    });
+  }
+
+  // Saved searches
+  static async getSavedSearches(): Promise<URLSavedSearch[]> {
+    return await this.getFromStorage<URLSavedSearch[]>(STORAGE_KEYS.SAVED_SEARCHES) || [];
+  }
+
+  /**
+   * Save a search under a name; saving an existing name replaces that search
+   */
+  static async saveSearch(name: string, query: string, sort: URLSortOption): Promise<URLSavedSearch> {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      throw new Error('Saved searches need a name');
+    }
+    if (!query.trim()) {
+      throw new Error('Enter a search to save');
+    }
+
+    const searches = await this.getSavedSearches();
+    const existing = searches.find(search => search.name.toLowerCase() === trimmedName.toLowerCase());
+    if (!existing && searches.length >= MAX_SAVED_SEARCHES) {
+      throw new Error(`You can save at most ${MAX_SAVED_SEARCHES} searches`);
+    }
+
+    const saved: URLSavedSearch = {
+      id: existing?.id || generateId(),
+      name: trimmedName,
+      query: query.trim(),
+      sort,
+      createdAt: existing?.createdAt || new Date().toISOString()
+    };
+    await this.setToStorage(
+      STORAGE_KEYS.SAVED_SEARCHES,
+      existing ? searches.map(search => (search.id === existing.id ? saved : search)) : [...searches, saved]
+    );
+    return saved;
+  }
+
+  static async deleteSavedSearch(id: string): Promise<boolean> {
+    const searches = await this.getSavedSearches();
+    const remaining = searches.filter(search => search.id !== id);
+    if (remaining.length === searches.length) return false;
+
+    await this.setToStorage(STORAGE_KEYS.SAVED_SEARCHES, remaining);
+    return true;
+  }
+
   static async clearAllData(): Promise<void> {
     try {
       await clear();
@@ -705,26 +1834,353 @@ export class URLShortenerService {
     }
   }
 
-  static async getStorageStats(): Promise<{
-    totalUrls: number;
-    totalClicks: number;
-    activeUrls: number;
-    expiredUrls: number;
-  }> {
+  static async getStorageStats(): Promise<URLStorageStats> {
     try {
       const allUrls = await this.getFromStorage<ShortenedURL[]>(STORAGE_KEYS.URLS) || [];
-      const clicks = await this.getFromStorage<URLClickData[]>(STORAGE_KEYS.CLICKS) || [];
+      const clicks = await ClickStorageService.getAllClicks();
+      const permanentUrls = await this.getFromStorage<string[]>(STORAGE_KEYS.PERMANENT) || [];
+      const backups = await this.getFromStorage<URLBackup[]>(STORAGE_KEYS.BACKUPS) || [];
+      const settings = await this.getFromStorage<URLStorageSettings>(STORAGE_KEYS.SETTINGS);
       const activeUrls = allUrls.filter(url => !this.isExpired(url));
 
+      // Approximate the footprint by the serialized size of everything this service stores
+      const storageSize = new Blob([JSON.stringify([allUrls, clicks, permanentUrls, backups, settings])]).size;
+
       return {
         totalUrls: allUrls.length,
         totalClicks: clicks.length,
         activeUrls: activeUrls.length,
-        expiredUrls: allUrls.length - activeUrls.length
+        expiredUrls: allUrls.length - activeUrls.length,
+        permanentUrls: permanentUrls.length,
+        storageSizeMB: storageSize / (1024 * 1024),
+        backupCount: backups.length,
+        lastBackupAt: backups[0]?.createdAt
       };
     } catch (error) {
       console.error('Error getting storage stats:', error);
-      return { totalUrls: 0, totalClicks: 0, activeUrls: 0, expiredUrls: 0 };
+      return {
+        totalUrls: 0,
+        totalClicks: 0,
+        activeUrls: 0,
+        expiredUrls: 0,
+        permanentUrls: 0,
+        storageSizeMB: 0,
+        backupCount: 0
+      };
+    }
+  }
+
+  static async cleanupExpiredURLs(): Promise<void> {
+    await this.createBackup(true, true);
+    await this.performCleanup();
+    this.clearCache();
+  }
+
+  // Storage settings
+  static async getStorageSettings(): Promise<URLStorageSettings> {
+    const stored = await this.getFromStorage<Partial<URLStorageSettings>>(STORAGE_KEYS.SETTINGS);
+    return { ...DEFAULT_STORAGE_SETTINGS, ...stored };
+  }
+
+  static async updateStorageSettings(updates: Partial<URLStorageSettings>): Promise<URLStorageSettings> {
+    const current = await this.getStorageSettings();
+    const result = storageSettingsSchema.safeParse({ ...current, ...updates });
+
+    if (!result.success) {
+      throw new Error(`Invalid storage settings: ${result.error.issues.map(issue => issue.path.join('.')).join(', ')}`);
+    }
+
+    await this.setToStorage(STORAGE_KEYS.SETTINGS, result.data);
+    return result.data as URLStorageSettings;
+  }
+
+  // Export, import and backups
+  private static async buildExportData(includeClicks = true, includeBlocklist = true): Promise<URLExportData> {
+    await RedirectPolicyService.load();
+    const policy = RedirectPolicyService.getPolicy();
+    return {
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      urls: await this.getFromStorage<ShortenedURL[]>(STORAGE_KEYS.URLS) || [],
+      clicks: includeClicks ? await ClickStorageService.getAllClicks() : [],
+      permanentUrls: await this.getFromStorage<string[]>(STORAGE_KEYS.PERMANENT) || [],
+      settings: await this.getStorageSettings(),
+      campaignTemplates: CampaignTemplateService.getTemplates(),
+      conversionGoals: await this.getAllConversionGoals(),
+      revisions: await this.getFromStorage<Record<string, URLRevision[]>>(STORAGE_KEYS.REVISIONS) || {},
+      savedSearches: await this.getSavedSearches(),
+      qrPresets: await QRCodeService.getPresets(),
+      redirectPolicy: includeBlocklist
+        ? policy
+        : Object.fromEntries(Object.entries(policy).filter(([field]) => !BLOCKLIST_FIELDS.includes(field as keyof RedirectPolicy))),
+      utmRuleset: CampaignTemplateService.getRuleset()
+    };
+  }
+
+  /**
+   * Import the stores that do not belong to a particular link; settings-like ones
+   * (the redirect policy and UTM rules) only with includeSettings
+   */
+  private static async importSharedStores(data: URLExportData, mode: URLImportMode, includeSettings: boolean): Promise<void> {
+    if (data.savedSearches) {
+      const existing = mode === 'replace' ? [] : await this.getSavedSearches();
+      const takenNames = new Set(existing.map(search => search.name.toLowerCase()));
+      const takenIds = new Set(existing.map(search => search.id));
+      const added = data.savedSearches
+        .filter(search => !takenNames.has(search.name.toLowerCase()))
+        .map(search => (takenIds.has(search.id) ? { ...search, id: generateId() } : search));
+      await this.setToStorage(STORAGE_KEYS.SAVED_SEARCHES, [...existing, ...added].slice(0, MAX_SAVED_SEARCHES));
+    }
+
+    if (data.qrPresets) {
+      await QRCodeService.importPresets(data.qrPresets, mode);
+    }
+
+    if (includeSettings && data.redirectPolicy) {
+      await RedirectPolicyService.savePolicy(data.redirectPolicy);
+    }
+    if (includeSettings && data.utmRuleset) {
+      CampaignTemplateService.saveRuleset({ ...CampaignTemplateService.getRuleset(), ...data.utmRuleset });
+    }
+  }
+
+  static async exportURLs(includeClicks = true): Promise<string> {
+    const data = await this.buildExportData(includeClicks);
+    return JSON.stringify(data, null, 2);
+  }
+
+  /**
+   * Validate an export, throwing a readable error describing the first problems found
+   */
+  static parseExportData(json: string): URLExportData {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch (error) {
+      throw new Error('Import file is not valid JSON');
+    }
+
+    const result = exportDataSchema.safeParse(migrateExportData(raw));
+    if (!result.success) {
+      const issues = result.error.issues
+        .slice(0, 3)
+        .map(issue => `${issue.path.join('.') || 'root'}: ${issue.message}`)
+        .join('; ');
+      throw new Error(`Invalid export file (${issues})`);
+    }
+
+    return result.data as URLExportData;
+  }
+
+  static async importURLs(json: string, options: URLImportOptions = {}): Promise<URLImportResult> {
+    const {
+      mode = 'merge',
+      onConflict = 'skip',
+      includeSettings = mode === 'replace',
+      includeTemplates = true
+    } = options;
+    const data = this.parseExportData(json);
+    const result: URLImportResult = {
+      imported: 0, skipped: 0, overwritten: 0, renamed: 0, rejected: 0, clicksImported: 0, templatesImported: 0
+    };
+
+    await this.createBackup(true, true);
+    // Shared stores first, so links are checked against an imported redirect policy
+    await RedirectPolicyService.load();
+    await this.importSharedStores(data, mode, includeSettings);
+
+    const existingUrls = mode === 'replace' ? [] : await this.getFromStorage<ShortenedURL[]>(STORAGE_KEYS.URLS) || [];
+    const existingClicks = mode === 'replace' ? [] : await ClickStorageService.getAllClicks();
+    const existingPermanent = mode === 'replace' ? [] : await this.getFromStorage<string[]>(STORAGE_KEYS.PERMANENT) || [];
+
+    const urls = [...existingUrls];
+    const takenCodes = new Set(urls.map(url => url.shortCode));
+    const takenIds = new Set(urls.map(url => url.id));
+    // Maps IDs in the import file to the IDs they end up with locally (absent = skipped)
+    const idMap = new Map<string, string>();
+    // Local links replaced by an imported one; their goals and revisions are replaced too
+    const overwrittenIds = new Set<string>();
+
+    for (const link of data.urls) {
+      // Imported links are checked like new ones: blocked destinations are rejected, reserved codes renamed
+      const destinations = [
+        ...(link.payloadType ? [] : [link.originalURL]),
+        ...(link.variants || []).map(variant => variant.url),
+        ...(link.redirectRules || []).map(rule => rule.destination)
+      ];
+      if (destinations.some(destination => !this.isValidURL(destination).valid)) {
+        result.rejected++;
+        continue;
+      }
+      const incoming = { ...link, isSuspicious: this.isSuspiciousLink(link) };
+      const reserved = isReservedShortCode(incoming.shortCode);
+
+      if (!reserved && !takenCodes.has(incoming.shortCode)) {
+        const id = takenIds.has(incoming.id) ? generateId() : incoming.id;
+        urls.push({ ...incoming, id, shortURL: buildShortURL(incoming.shortCode) });
+        takenCodes.add(incoming.shortCode);
+        takenIds.add(id);
+        idMap.set(incoming.id, id);
+        result.imported++;
+        continue;
+      }
+
+      if (onConflict === 'overwrite' && !reserved) {
+        const index = urls.findIndex(url => url.shortCode === incoming.shortCode);
+        const id = urls[index].id;
+        urls[index] = { ...incoming, id, shortURL: buildShortURL(incoming.shortCode) };
+        idMap.set(incoming.id, id);
+        overwrittenIds.add(id);
+        result.overwritten++;
+      } else if (reserved || onConflict === 'rename') {
+        let shortCode = generateShortCode();
+        while (takenCodes.has(shortCode) || isReservedShortCode(shortCode)) {
+          shortCode = generateShortCode();
+        }
+        const id = takenIds.has(incoming.id) ? generateId() : incoming.id;
+        urls.push({ ...incoming, id, shortCode, shortURL: buildShortURL(shortCode), customAlias: undefined });
+        takenCodes.add(shortCode);
+        takenIds.add(id);
+        idMap.set(incoming.id, id);
+        result.renamed++;
+      } else {
+        result.skipped++;
+      }
+    }
+
+    // Clicks of overwritten links are replaced by the file's, like their goals and revisions
+    const clicks = existingClicks.filter(click => !overwrittenIds.has(click.urlId));
+    const clickIds = new Set(clicks.map(click => click.id));
+    for (const click of data.clicks) {
+      const urlId = idMap.get(click.urlId);
+      if (!urlId || clickIds.has(click.id)) continue;
+      clicks.push({ ...click, urlId });
+      clickIds.add(click.id);
+      result.clicksImported++;
+    }
+
+    const permanent = new Set(existingPermanent);
+    data.permanentUrls.forEach(id => {
+      const mappedId = idMap.get(id);
+      if (mappedId) permanent.add(mappedId);
+    });
+
+    // Goals and revisions of links that stay are kept; the file's are added for the links it brought in
+    const keptIds = new Set(existingUrls.map(url => url.id).filter(id => !overwrittenIds.has(id)));
+    const goals = mode === 'replace' ? [] : (await this.getAllConversionGoals()).filter(goal => keptIds.has(goal.urlId));
+    const goalIds = new Set(goals.map(goal => goal.id));
+    (data.conversionGoals || []).forEach(goal => {
+      const urlId = idMap.get(goal.urlId);
+      if (!urlId) return;
+      const id = goalIds.has(goal.id) ? generateId() : goal.id;
+      goals.push({ ...goal, id, urlId });
+      goalIds.add(id);
+    });
+
+    const storedRevisions = mode === 'replace' ? {} : await this.getFromStorage<Record<string, URLRevision[]>>(STORAGE_KEYS.REVISIONS) || {};
+    const revisions = Object.fromEntries(Object.entries(storedRevisions).filter(([urlId]) => keptIds.has(urlId)));
+    Object.entries(data.revisions || {}).forEach(([urlId, urlRevisions]) => {
+      const mappedId = idMap.get(urlId);
+      if (mappedId) {
+        revisions[mappedId] = urlRevisions.map(revision => ({ ...revision, urlId: mappedId })).slice(0, MAX_REVISIONS_PER_URL);
+      }
+    });
+
+    await this.setToStorage(STORAGE_KEYS.URLS, urls);
+    await ClickStorageService.replaceAllClicks(clicks, urls);
+    await this.setToStorage(STORAGE_KEYS.PERMANENT, Array.from(permanent));
+    await this.setToStorage(STORAGE_KEYS.CONVERSION_GOALS, goals);
+    await this.setToStorage(STORAGE_KEYS.REVISIONS, revisions);
+
+    if (includeSettings && data.settings) {
+      await this.setToStorage(STORAGE_KEYS.SETTINGS, data.settings);
+    }
+
+    if (includeTemplates && data.campaignTemplates) {
+      result.templatesImported = CampaignTemplateService.importTemplates(data.campaignTemplates, mode);
+    }
+
+    this.clearCache();
+    return result;
+  }
+
+  /**
+   * Snapshot the current data into the rolling backup list
+   * Automatic backups are throttled; forced backups are taken before destructive operations.
+   * Clicks and the imported blocklist are left out, as both can be large; clicks are only
+   * included before operations that can remove them.
+   */
+  private static async createBackup(force = false, includeClicks = false): Promise<void> {
+    try {
+      const settings = await this.getStorageSettings();
+      if (!settings.enableBackup) return;
+
+      const backups = await this.getFromStorage<URLBackup[]>(STORAGE_KEYS.BACKUPS) || [];
+      const lastBackup = backups[0];
+      if (!force && lastBackup && Date.now() - new Date(lastBackup.createdAt).getTime() < BACKUP_MIN_INTERVAL) {
+        return;
+      }
+
+      const data = await this.buildExportData(includeClicks, false);
+      if (data.urls.length === 0) return;
+
+      const backup: URLBackup = { id: generateId(), createdAt: data.exportedAt, data, includesClicks: includeClicks || undefined };
+      await this.setToStorage(STORAGE_KEYS.BACKUPS, [backup, ...backups].slice(0, MAX_BACKUPS));
+    } catch (error) {
+      console.error('Error creating backup:', error);
+    }
+  }
+
+  static async getBackups(): Promise<Array<Omit<URLBackup, 'data'> & { urlCount: number }>> {
+    const backups = await this.getFromStorage<URLBackup[]>(STORAGE_KEYS.BACKUPS) || [];
+    return backups.map(({ id, createdAt, data }) => ({ id, createdAt, urlCount: data.urls.length }));
+  }
+
+  /**
+   * Replace current data with a backup (the most recent one by default)
+   * The current data, clicks included, is backed up first, so a restore can itself be undone.
+   * Backups without clicks keep the stored clicks of the links they have.
+   */
+  static async restoreFromBackup(backupId?: string): Promise<boolean> {
+    try {
+      const backups = await this.getFromStorage<URLBackup[]>(STORAGE_KEYS.BACKUPS) || [];
+      const backup = backupId ? backups.find(b => b.id === backupId) : backups[0];
+      if (!backup) return false;
+
+      await this.createBackup(true, true);
+
+      const { data } = backup;
+      const restoredIds = new Set(data.urls.map(url => url.id));
+      const currentUrls = await this.getFromStorage<ShortenedURL[]>(STORAGE_KEYS.URLS) || [];
+      await this.deleteLinkData(currentUrls.filter(url => !restoredIds.has(url.id)).map(url => url.id));
+
+      await this.setToStorage(STORAGE_KEYS.URLS, data.urls);
+      // Version 1 backups always carried clicks
+      if (backup.includesClicks || data.version < 2) {
+        await ClickStorageService.replaceAllClicks(data.clicks, data.urls);
+      }
+      await this.setToStorage(STORAGE_KEYS.PERMANENT, data.permanentUrls);
+      if (data.settings) {
+        await this.setToStorage(STORAGE_KEYS.SETTINGS, data.settings);
+      }
+      if (data.campaignTemplates) {
+        CampaignTemplateService.importTemplates(data.campaignTemplates, 'replace');
+      }
+      if (data.conversionGoals) {
+        await this.setToStorage(STORAGE_KEYS.CONVERSION_GOALS, data.conversionGoals);
+      }
+      if (data.revisions) {
+        await this.setToStorage(STORAGE_KEYS.REVISIONS, data.revisions);
+      }
+      await this.importSharedStores(data, 'replace', true);
+
+      // Backups may predate a change of the short link base
+      await this.migrateShortURLs(true);
+      this.clearCache();
+      return true;
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      return false;
     }
   }
 
@@ -5,12 +5,96 @@ export interface ShortenedURL {
   shortURL: string;        // Complete shortened URL
   createdAt: string;       // ISO date string
   expiresAt?: string;      // Optional expiration date
+  activatesAt?: string;    // Optional activation date; the link does not redirect before it
+  maxClicks?: number;      // Stop redirecting after this many human clicks (1 = one-time link)
+  expiredMessage?: string; // Landing message once the link has expired or used up its clicks
+  inactiveMessage?: string; // Landing message before activatesAt
   password?: string;       // Optional password protection
   customAlias?: string;    // Optional custom alias
+  renamedFrom?: string;    // Code before it was renamed for colliding with an app page; still resolves under /s/
   utmParameters?: UTMParams; // Optional UTM parameters
-  clicks: number;          // Number of clicks
+  clicks: number;          // Number of clicks, not counting bots
   isSuspicious?: boolean;  // Flag for potentially suspicious URLs
   analytics?: URLAnalytics; // Optional analytics data
+  variants?: URLVariant[]; // Weighted A/B destinations; the first one is originalURL
+  redirectRules?: RedirectRule[]; // Targeting rules, checked in order before the A/B split
+  tags?: string[];         // Lowercase labels for organizing the link library
+  folder?: string;         // Folder path, e.g. "campaigns/spring"
+  payloadType?: QRPayloadType; // Set when originalURL is a wrapped QR payload (mailto:, sms: or a data: file)
+  skipInterstitial?: boolean; // Redirect without the warning page; only honored for trusted destinations
+}
+
+// Link fields whose edits are recorded as revisions
+export type URLRevisionField = 'originalURL' | 'utmParameters' | 'password' | 'expiresAt';
+
+export interface URLRevisionChange {
+  field: URLRevisionField;
+  before?: string | UTMParams; // Passwords are stored as their hashes
+  after?: string | UTMParams;
+}
+
+// One recorded edit of a link
+export interface URLRevision {
+  id: string;
+  urlId: string;
+  timestamp: string;
+  changes: URLRevisionChange[];
+  rollbackOf?: string;     // Revision that this edit undid
+}
+
+// Result of checking a protected link's password
+export interface URLPasswordCheck {
+  verified: boolean;
+  lockedUntil?: string;    // Set while failed attempts have locked the link out
+  remainingAttempts: number; // Failures left before the next lockout
+}
+
+// Whether a link currently redirects
+export type URLLinkStatus = 'active' | 'scheduled' | 'expired' | 'exhausted';
+
+// One destination of an A/B split, served to a share of visitors proportional to its weight
+export interface URLVariant {
+  id: string;
+  label: string;
+  url: string;
+  weight: number;
+}
+
+// Sends visitors matching every set condition to another destination
+export interface RedirectRule {
+  id: string;
+  label: string;
+  destination: string;
+  conditions: RedirectRuleConditions;
+}
+
+export interface RedirectRuleConditions {
+  os?: string[];           // OS names as reported by UAParser, e.g. "iOS", "Android"
+  devices?: string[];      // Device types, e.g. "Mobile", "Tablet", "Desktop"
+  languages?: string[];    // Language tags matched against the browser's preferred language; "de" also matches "de-AT"
+  schedule?: RedirectSchedule;
+}
+
+export interface RedirectSchedule {
+  days: number[];          // Days of the week, 0 = Sunday
+  startTime: string;       // "HH:mm", inclusive
+  endTime: string;         // "HH:mm", exclusive; an earlier end time wraps past midnight
+  timezone?: string;       // IANA time zone; the visitor's local time when omitted
+  outside?: boolean;       // Match visitors outside the window instead
+}
+
+// The visitor a redirect rule is evaluated against
+export interface RedirectVisitor {
+  userAgent: string;
+  language: string;
+  date: Date;
+}
+
+// One conversion (e.g. a purchase) credited to the click that led to it
+export interface URLClickConversion {
+  type?: string;
+  value?: number;
+  timestamp: string;
 }
 
 export interface URLClickData {
@@ -23,10 +107,41 @@ export interface URLClickData {
   location?: GeoLocation;  // Geographic location
   utmParameters?: UTMParams; // UTM parameters
   isConversion?: boolean;  // Whether this click resulted in a conversion
-  conversionType?: string; // Type of conversion (e.g., "signup", "purchase")
-  conversionValue?: number; // Value of the conversion (if applicable)
+  conversionType?: string; // Type of the first conversion (e.g., "signup", "purchase")
+  conversionValue?: number; // Value of the first conversion (if applicable)
+  conversions?: URLClickConversion[]; // Every conversion attributed to this click, including repeats
   sessionDuration?: number; // Duration of the session in seconds
   exitPage?: string;       // Last page visited before leaving
+  variantId?: string;      // A/B variant that was served
+  ruleId?: string;         // Redirect rule that chose the destination
+  visitorId?: string;      // Anonymous visitor token from the visitor's browser
+  isBot?: boolean;         // Crawler, link preview fetcher, headless or automated browser
+  botReason?: string;      // Why the click was classified as a bot
+  isDuplicate?: boolean;   // Repeat click by the same visitor within the dedup window
+}
+
+// Dimensions that clicks and conversions are pre-aggregated by
+export type URLRollupDimension =
+  | 'referrer' | 'device' | 'browser' | 'country' | 'region' | 'city' | 'hour'
+  | 'utmSource' | 'utmMedium' | 'utmCampaign' | 'utmTerm' | 'utmContent'
+  | 'variant' | 'conversionType';
+
+export type URLRollupCounts = Partial<Record<URLRollupDimension, Record<string, number>>>;
+
+// Pre-aggregated clicks of one link on one day, updated as clicks and conversions are recorded
+export interface URLClickRollup {
+  date: string;              // Local calendar day, yyyy-MM-dd
+  clicks: number;
+  conversions: number;
+  conversionValue: number;
+  humanClicks: number;       // Clicks that are neither bots nor duplicates
+  botClicks: number;
+  duplicateClicks: number;
+  humanVisitors: string[];   // Visitor tokens with a human click that day
+  clicksBy: URLRollupCounts;
+  humanClicksBy: URLRollupCounts;
+  conversionsBy: URLRollupCounts;
+  conversionValueBy: URLRollupCounts;
 }
 
 export interface GeoLocation {
@@ -57,16 +172,106 @@ export interface CampaignTemplate {
   updatedAt: string;
 }
 
+// File format for sharing a set of templates
+export interface CampaignTemplateCollection {
+  version: number;
+  exportedAt: string;
+  templates: CampaignTemplate[];
+}
+
+// What to do when an imported template has the same name as an existing one
+export type CampaignTemplateConflictStrategy = 'skip' | 'overwrite' | 'rename';
+
+export interface CampaignTemplateImportResult {
+  imported: number;
+  renamed: number;
+  overwritten: number;
+  skipped: number;
+  invalid: number;
+}
+
+export type CampaignTemplateInput = Omit<CampaignTemplate, 'id' | 'createdAt' | 'updatedAt'>;
+
+export type UTMGovernedParam = 'source' | 'medium' | 'campaign' | 'term' | 'content';
+
+// Naming conventions that UTM values of links and templates are checked against
+export interface UTMRuleset {
+  enforceLowercase: boolean;
+  allowedValues: Partial<Record<UTMGovernedParam, string[]>>; // No list means any value is allowed
+  aliases: Record<string, string>;   // Common misspellings and their allowed value, e.g. fb -> facebook
+  requiredParams: UTMGovernedParam[]; // Required on every link and template
+  requiredByCategory: Record<string, UTMGovernedParam[]>; // Also required on templates in a category
+  campaignPattern?: string;          // Regular expression utm_campaign must match
+  blockViolations: boolean;          // Refuse to save links and templates that break the rules
+}
+
+export interface UTMViolation {
+  param: UTMGovernedParam;
+  message: string;
+  suggestion?: string;     // Value that fixes the violation, when one can be inferred
+}
+
+export interface UTMAuditResult {
+  url: ShortenedURL;
+  violations: UTMViolation[];
+}
+
+// A utm_campaign value and the links and templates that use it
+export interface CampaignSummary {
+  campaign: string;
+  linkCount: number;
+  templateNames: string[];
+}
+
+// Totals for one value of a campaign breakdown: a link, a source, a medium or a day
+export interface CampaignBreakdownRow {
+  key: string;
+  clicks: number;
+  conversions: number;
+  conversionValue: number;
+}
+
+// Clicks and conversions of every link that shares a utm_campaign value
+export interface CampaignRollup {
+  campaign: string;
+  linkCount: number;
+  totalClicks: number;     // Raw clicks, or human clicks when filtered clicks are excluded
+  uniqueVisitors: number;  // Distinct visitors with a human click on any of the links
+  totalConversions: number;
+  conversionRate: number;
+  conversionValue: number;
+  excludesFilteredClicks: boolean;
+  links: CampaignBreakdownRow[];   // Keyed by short code
+  sources: CampaignBreakdownRow[];
+  mediums: CampaignBreakdownRow[];
+  timeline: CampaignBreakdownRow[]; // Keyed by yyyy-MM-dd, oldest first
+}
+
 export interface URLOptions {
   customAlias?: string;
   expiresAt?: string;
+  activatesAt?: string;
+  maxClicks?: number;
+  expiredMessage?: string;
+  inactiveMessage?: string;
   password?: string;
   utmParameters?: UTMParams;
+  variants?: Array<Omit<URLVariant, 'id'>>; // Full list of destinations, starting with the original URL
+  redirectRules?: Array<Omit<RedirectRule, 'id'>>;
+  tags?: string[];
+  folder?: string;
+  skipInterstitial?: boolean;
 }
 
 export interface URLAnalytics {
   urlId: string;
-  totalClicks: number;
+  totalClicks: number;     // Raw clicks, or human clicks when filtered clicks are excluded
+  rawClicks?: number;
+  humanClicks?: number;
+  uniqueVisitors?: number; // Distinct visitors with at least one human click
+  botClicks?: number;
+  duplicateClicks?: number;
+  excludesFilteredClicks?: boolean;
   clicksByDate: Record<string, number>;
   clicksByReferrer: Record<string, number>;
   clicksByDevice: Record<string, number>;
@@ -95,6 +300,12 @@ export interface URLAnalytics {
   conversionsByUtmMedium?: Record<string, number>;
   conversionsByUtmCampaign?: Record<string, number>;
   conversionValue?: number;
+  conversionValueByUtmSource?: Record<string, number>;
+  conversionValueByUtmCampaign?: Record<string, number>;
+  // A/B variant metrics, keyed by variant ID
+  clicksByVariant?: Record<string, number>;
+  conversionsByVariant?: Record<string, number>;
+  conversionValueByVariant?: Record<string, number>;
 }
 
 export interface ConversionGoal {
@@ -108,3 +319,208 @@ export interface ConversionGoal {
   updatedAt: string;
   isCompleted?: boolean;
 }
+
+// A goal counts conversions of its type (custom goals match on their name);
+// purchase goals track the summed conversion value instead of the count
+export type ConversionGoalInput = Pick<ConversionGoal, 'name' | 'type' | 'targetValue'>;
+
+export interface ConversionOptions {
+  type?: string;    // Conversion type, e.g. "signup" (defaults to "custom")
+  value?: number;   // Monetary value of the conversion
+  goalId?: string;  // Attribute to a goal; its type is used when no type is given
+  visitorId?: string; // Visitor whose click converted; defaults to the current browser's visitor
+}
+
+export interface URLStorageSettings {
+  defaultExpirationDays: number; // 0 disables expiration for new links
+  autoCleanup: boolean;          // Remove expired URLs on startup
+  enableBackup: boolean;         // Keep rolling backups before changes
+  maxStorageSize: number;        // Soft storage limit in MB
+  compressionEnabled: boolean;
+}
+
+export interface URLStorageStats {
+  totalUrls: number;
+  totalClicks: number;
+  activeUrls: number;
+  expiredUrls: number;
+  permanentUrls: number;
+  storageSizeMB: number;
+  backupCount: number;
+  lastBackupAt?: string;
+}
+
+// Versioned export format shared by file exports and rolling backups
+// Stores added after version 1 are optional: a file without one leaves that store as it is.
+export interface URLExportData {
+  version: number;
+  exportedAt: string;
+  urls: ShortenedURL[];
+  clicks: URLClickData[];      // Empty in rolling backups
+  permanentUrls: string[];
+  settings?: URLStorageSettings;
+  campaignTemplates?: CampaignTemplate[];
+  conversionGoals?: ConversionGoal[];
+  revisions?: Record<string, URLRevision[]>; // By link ID
+  savedSearches?: URLSavedSearch[];
+  qrPresets?: QRStylePreset[];
+  redirectPolicy?: Partial<RedirectPolicy>; // Rolling backups leave out the imported blocklist
+  utmRuleset?: UTMRuleset;
+}
+
+export interface URLBackup {
+  id: string;
+  createdAt: string;
+  data: URLExportData;
+  includesClicks?: boolean; // Taken before an import, restore or cleanup, which can remove clicks
+}
+
+export type URLImportMode = 'merge' | 'replace';
+
+// How a merge import handles a short code that is already taken
+export type URLImportConflictStrategy = 'skip' | 'overwrite' | 'rename';
+
+export interface URLImportOptions {
+  mode?: URLImportMode;
+  onConflict?: URLImportConflictStrategy;
+  includeSettings?: boolean;
+  includeTemplates?: boolean;
+}
+
+export interface URLImportResult {
+  imported: number;
+  skipped: number;
+  overwritten: number;
+  renamed: number;
+  rejected: number;        // Links whose destination the redirect safety policy blocks
+  clicksImported: number;
+  templatesImported: number;
+}
+
+// A row of a bulk shortening CSV after parsing and validation
+export interface BulkURLRow {
+  rowNumber: number;       // Line number in the source file
+  url: string;             // Sanitized URL (raw input when invalid)
+  options: URLOptions;
+  errors: string[];        // Blocking problems; the row is not shortened
+  warnings: string[];      // Non-blocking problems, e.g. a suspicious destination
+  suspicious?: boolean;
+}
+
+export interface BulkURLResult {
+  rowNumber: number;
+  originalURL: string;
+  shortenedURL?: ShortenedURL;
+  error?: string;
+}
+
+// Link library ordering
+export type URLSortOption = 'newest' | 'oldest' | 'most-clicks' | 'least-clicks' | 'expiring-soon' | 'alias';
+
+// A named link library query, e.g. "tag:promo status:active"
+export interface URLSavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  sort: URLSortOption;
+  createdAt: string;
+}
+
+// Tag and folder changes applied to several links at once
+export interface URLRetagOptions {
+  addTags?: string[];
+  removeTags?: string[];
+  folder?: string;         // Empty string moves the links out of their folder
+}
+
+// QR code styling
+export type QRErrorLevel = 'L' | 'M' | 'Q' | 'H';
+export type QRModuleStyle = 'square' | 'rounded' | 'dots';
+
+export interface QRCodeStyle {
+  size: number;            // Width in pixels
+  fgColor: string;
+  bgColor: string;
+  level: QRErrorLevel;     // Raised automatically when a logo is added
+  moduleStyle: QRModuleStyle;
+  logo?: string;           // Image data URL drawn in the center
+  logoScale: number;       // Logo width as a share of the code width
+  caption?: string;        // Text in a frame below the code, e.g. "Scan me"
+}
+
+// A named QR style that can be reused across links
+export interface QRStylePreset {
+  id: string;
+  name: string;
+  style: QRCodeStyle;
+  createdAt: string;
+}
+
+// Non-URL QR code content
+export type QRPayloadType = 'vcard' | 'wifi' | 'email' | 'sms' | 'event';
+
+export interface VCardPayload {
+  version: '3.0' | '4.0';
+  firstName: string;
+  lastName: string;
+  organization?: string;
+  title?: string;
+  phone?: string;
+  email?: string;
+  website?: string;
+  address?: string;
+  note?: string;
+}
+
+export interface WifiPayload {
+  ssid: string;
+  password?: string;
+  encryption: 'WPA' | 'WEP' | 'nopass';
+  hidden?: boolean;
+}
+
+export interface EmailPayload {
+  to: string;              // One or more addresses, separated by commas
+  subject?: string;
+  body?: string;
+}
+
+export interface SMSPayload {
+  phone: string;
+  message?: string;
+}
+
+export interface EventPayload {
+  title: string;
+  start: string;           // datetime-local value, or a date for all-day events
+  end?: string;
+  allDay?: boolean;
+  location?: string;
+  description?: string;
+}
+
+export type QRPayload =
+  | { type: 'vcard'; data: VCardPayload }
+  | { type: 'wifi'; data: WifiPayload }
+  | { type: 'email'; data: EmailPayload }
+  | { type: 'sms'; data: SMSPayload }
+  | { type: 'event'; data: EventPayload };
+
+// Redirect safety policy, checked when shortening and again when redirecting
+export interface RedirectPolicy {
+  allowlist: string[];     // "example.com" or "*.example.com" (the domain and its subdomains)
+  denylist: string[];
+  blocklist: string[];     // Domains from an imported offline blocklist; subdomains are blocked too
+  blocklistSource?: string; // File name the blocklist was imported from
+  blocklistImportedAt?: string;
+  blockHomographs: boolean; // Block lookalike internationalized domains instead of warning
+  blockShortenerChains: boolean; // Block links to other URL shorteners instead of warning
+}
+
+export type RedirectVerdict = 'trusted' | 'neutral' | 'suspicious' | 'blocked';
+
+export interface RedirectPolicyCheck {
+  verdict: RedirectVerdict;
+  reasons: string[];
+  hostname: string;
+}
@@ -0,0 +1,117 @@
+/**
+ * AI model catalogue: provider, context size and pricing per model
+ * Kept out of AIConfigContext so the context module only exports components and hooks.
+ */
+export interface AIModel {
+  id: string;
+  name: string;
+  provider: 'openai' | 'anthropic' | 'google' | 'local' | 'custom';
+  description: string;
+  maxTokens: number;
+  costPer1k: number;
+  capabilities: string[];
+  recommended?: boolean;
+}
+
+export const availableModels: AIModel[] = [
+  {
+    id: 'gpt-4o',
+    name: 'GPT-4o',
+    provider: 'openai',
+    description: 'Most advanced GPT-4 model with optimized performance',
+    maxTokens: 128000,
+    costPer1k: 0.03,
+    capabilities: ['code-analysis', 'test-generation', 'bug-detection', 'documentation'],
+    recommended: true
+  },
+  {
+    id: 'gpt-4-turbo',
+    name: 'GPT-4 Turbo',
+    provider: 'openai',
+    description: 'Fast and capable GPT-4 variant',
+    maxTokens: 128000,
+    costPer1k: 0.01,
+    capabilities: ['code-analysis', 'test-generation', 'bug-detection', 'documentation']
+  },
+  {
+    id: 'gpt-3.5-turbo',
+    name: 'GPT-3.5 Turbo',
+    provider: 'openai',
+    description: 'Fast and cost-effective for basic tasks',
+    maxTokens: 16385,
+    costPer1k: 0.002,
+    capabilities: ['test-generation', 'bug-detection', 'basic-analysis']
+  },
+  {
+    id: 'claude-3-opus',
+    name: 'Claude 3 Opus',
+    provider: 'anthropic',
+    description: 'Anthropic\'s most powerful model for complex reasoning',
+    maxTokens: 200000,
+    costPer1k: 0.015,
+    capabilities: ['code-analysis', 'test-generation', 'bug-detection', 'documentation', 'security-analysis']
+  },
+  {
+    id: 'claude-3-sonnet',
+    name: 'Claude 3 Sonnet',
+    provider: 'anthropic',
+    description: 'Balanced performance and cost',
+    maxTokens: 200000,
+    costPer1k: 0.003,
+    capabilities: ['code-analysis', 'test-generation', 'bug-detection', 'documentation']
+  },
+  {
+    id: 'claude-3-haiku',
+    name: 'Claude 3 Haiku',
+    provider: 'anthropic',
+    description: 'Fast and lightweight for simple tasks',
+    maxTokens: 200000,
+    costPer1k: 0.00025,
+    capabilities: ['test-generation', 'basic-analysis']
+  },
+  {
+    id: 'gemini-pro',
+    name: 'Gemini Pro',
+    provider: 'google',
+    description: 'Google\'s advanced multimodal AI model',
+    maxTokens: 32768,
+    costPer1k: 0.0005,
+    capabilities: ['code-analysis', 'test-generation', 'bug-detection']
+  },
+  {
+    id: 'gemini-1.5-pro',
+    name: 'Gemini 1.5 Pro',
+    provider: 'google',
+    description: 'Long-context Gemini model for complex analysis',
+    maxTokens: 8192,
+    costPer1k: 0.00125,
+    capabilities: ['code-analysis', 'test-generation', 'bug-detection', 'documentation']
+  },
+  {
+    id: 'gemini-1.5-flash',
+    name: 'Gemini 1.5 Flash',
+    provider: 'google',
+    description: 'Fast and inexpensive Gemini model',
+    maxTokens: 8192,
+    costPer1k: 0.000075,
+    capabilities: ['test-generation', 'bug-detection', 'basic-analysis']
+  },
+  {
+    id: 'llama3.1',
+    name: 'Llama 3.1 (local)',
+    provider: 'local',
+    description: 'Runs offline on an OpenAI-compatible server such as Ollama or llama.cpp',
+    maxTokens: 8192,
+    costPer1k: 0,
+    capabilities: ['test-generation', 'bug-detection', 'basic-analysis']
+  },
+  {
+    id: 'qwen2.5-coder',
+    name: 'Qwen 2.5 Coder (local)',
+    provider: 'local',
+    description: 'Local code-focused model for offline code review',
+    maxTokens: 8192,
+    costPer1k: 0,
+    capabilities: ['code-analysis', 'test-generation', 'basic-analysis']
+  }
+];
@@ -0,0 +1,361 @@
+/**
+ * AI provider adapters
+ * Each adapter owns the wire format of one API family: request shaping, auth headers,
+ * response and stream extraction, token usage and error messages.
+ */
+import type { AIConfiguration } from '@/contexts/AIConfigContext';
+import { AIModel } from './aiModels';
+
+export type AIProviderId = AIModel['provider'];
+
+export interface AITokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface AIProviderRequest {
+  config: AIConfiguration;
+  prompt: string;
+  systemPrompt: string;
+  stream: boolean;
+}
+
+export interface AIProviderHTTPRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+export interface AIProviderAdapter {
+  id: AIProviderId;
+  name: string;
+  defaultEndpoint: string;
+  requiresApiKey: boolean;
+  buildRequest(request: AIProviderRequest): AIProviderHTTPRequest;
+  extractContent(data: Record<string, unknown>): string;
+  // Text delta of a single server-sent event; throws on provider error events
+  extractStreamDelta(event: Record<string, unknown>): string;
+  // Usage reported by a response or stream event; stream usage may arrive in parts
+  extractUsage(data: Record<string, unknown>): Partial<AITokenUsage> | undefined;
+  mapError(status: number, body: unknown): string;
+  mapNetworkError?(error: Error, config: AIConfiguration): string | undefined;
+}
+
+/**
+ * Error with a message that is already fit to show to the user
+ */
+export class AIProviderError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'AIProviderError';
+  }
+}
+
+type JSONRecord = Record<string, unknown>;
+
+const asRecord = (value: unknown): JSONRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? value as JSONRecord : {};
+
+const asText = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const asCount = (value: unknown): number | undefined => (typeof value === 'number' ? value : undefined);
+
+const withoutUndefined = (usage: Partial<AITokenUsage>): Partial<AITokenUsage> | undefined => {
+  const entries = Object.entries(usage).filter(([, value]) => value !== undefined);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+/**
+ * Shared status-code messages, with the provider's own error detail appended when present
+ */
+const describeHTTPError = (status: number, detail?: string): string => {
+  let message: string;
+  if (status === 401) message = 'Invalid API key or authentication failed';
+  else if (status === 403) message = 'Access forbidden - check your API permissions';
+  else if (status === 404) message = 'Endpoint or model not found - check the API endpoint and model name';
+  else if (status === 429) message = 'Rate limit exceeded - please try again later';
+  else if (status >= 500) message = 'AI service temporarily unavailable';
+  else message = `Request failed with status ${status}`;
+
+  return detail ? `${message} (${detail})` : message;
+};
+
+// Most providers nest the message under error.message
+const errorDetail = (body: unknown): string => {
+  const error = asRecord(body).error;
+  return typeof error === 'string' ? error : asText(asRecord(error).message);
+};
+
+const chatMessages = ({ prompt, systemPrompt }: AIProviderRequest) => [
+  { role: 'system', content: systemPrompt },
+  { role: 'user', content: prompt }
+];
+
+const openAIContent = (data: JSONRecord): string => {
+  const choice = asRecord(Array.isArray(data.choices) ? data.choices[0] : undefined);
+  return asText(asRecord(choice.message).content) || asText(choice.text);
+};
+
+const openAIStreamDelta = (event: JSONRecord): string => {
+  if (event.error) {
+    throw new AIProviderError(errorDetail(event) || 'AI stream returned an error');
+  }
+  const choice = asRecord(Array.isArray(event.choices) ? event.choices[0] : undefined);
+  return asText(asRecord(choice.delta).content) || asText(choice.text);
+};
+
+const openAIUsage = (data: JSONRecord): Partial<AITokenUsage> | undefined => {
+  const usage = asRecord(data.usage);
+  return withoutUndefined({
+    inputTokens: asCount(usage.prompt_tokens),
+    outputTokens: asCount(usage.completion_tokens),
+    totalTokens: asCount(usage.total_tokens)
+  });
+};
+
+const openAIAdapter: AIProviderAdapter = {
+  id: 'openai',
+  name: 'OpenAI',
+  defaultEndpoint: 'https://api.openai.com/v1/chat/completions',
+  requiresApiKey: true,
+  buildRequest(request) {
+    const { config, stream } = request;
+    return {
+      url: config.apiEndpoint,
+      headers: {
+        'Authorization': `Bearer ${config.apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: {
+        model: config.selectedModel,
+        max_tokens: config.maxTokens || 4000,
+        temperature: config.temperature ?? 0.7,
+        messages: chatMessages(request),
+        ...(stream && { stream: true, stream_options: { include_usage: true } })
+      }
+    };
+  },
+  extractContent: openAIContent,
+  extractStreamDelta: openAIStreamDelta,
+  extractUsage: openAIUsage,
+  mapError: (status, body) => describeHTTPError(status, errorDetail(body))
+};
+
+const anthropicAdapter: AIProviderAdapter = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  defaultEndpoint: 'https://api.anthropic.com/v1/messages',
+  requiresApiKey: true,
+  buildRequest({ config, prompt, systemPrompt, stream }) {
+    return {
+      url: config.apiEndpoint,
+      headers: {
+        'x-api-key': config.apiKey,
+        'anthropic-version': '2023-06-01',
+        // Required for calling the API straight from the browser
+        'anthropic-dangerous-direct-browser-access': 'true',
+        'Content-Type': 'application/json'
+      },
+      body: {
+        model: config.selectedModel,
+        max_tokens: config.maxTokens || 4000,
+        temperature: config.temperature ?? 0.7,
+        system: systemPrompt,
+        messages: [{ role: 'user', content: prompt }],
+        ...(stream && { stream: true })
+      }
+    };
+  },
+  extractContent(data) {
+    const blocks = Array.isArray(data.content) ? data.content : [];
+    return blocks
+      .map(block => asRecord(block))
+      .filter(block => block.type === 'text' || block.type === undefined)
+      .map(block => asText(block.text))
+      .join('');
+  },
+  extractStreamDelta(event) {
+    if (event.type === 'error') {
+      throw new AIProviderError(errorDetail(event) || 'AI stream returned an error');
+    }
+    const delta = asRecord(event.delta);
+    return event.type === 'content_block_delta' && delta.type === 'text_delta' ? asText(delta.text) : '';
+  },
+  extractUsage(data) {
+    // Input tokens arrive with message_start, output tokens with message_delta
+    // Anthropic reports no total; it is derived from the parts
+    const usage = asRecord(data.type === 'message_start' ? asRecord(data.message).usage : data.usage);
+    return withoutUndefined({
+      inputTokens: asCount(usage.input_tokens),
+      outputTokens: asCount(usage.output_tokens)
+    });
+  },
+  mapError(status, body) {
+    if (status === 529) {
+      return describeHTTPError(503, errorDetail(body) || 'overloaded');
+    }
+    return describeHTTPError(status, errorDetail(body));
+  }
+};
+
+const googleAdapter: AIProviderAdapter = {
+  id: 'google',
+  name: 'Google Gemini',
+  defaultEndpoint: 'https://generativelanguage.googleapis.com/v1beta',
+  requiresApiKey: true,
+  buildRequest({ config, prompt, systemPrompt, stream }) {
+    // Accept either the API base URL or a full :generateContent URL
+    const method = stream ? 'streamGenerateContent?alt=sse' : 'generateContent';
+    const endpoint = config.apiEndpoint.replace(/\/+$/, '');
+    const url = /:(stream)?[gG]enerateContent/.test(endpoint)
+      ? endpoint.replace(/:(stream)?[gG]enerateContent.*$/, `:${method}`)
+      : `${endpoint}/models/${encodeURIComponent(config.selectedModel)}:${method}`;
+
+    return {
+      url,
+      headers: {
+        'x-goog-api-key': config.apiKey,
+        'Content-Type': 'application/json'
+      },
+      body: {
+        systemInstruction: { parts: [{ text: systemPrompt }] },
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+        generationConfig: {
+          maxOutputTokens: config.maxTokens || 4000,
+          temperature: config.temperature ?? 0.7
+        }
+      }
+    };
+  },
+  extractContent(data) {
+    const candidate = asRecord(Array.isArray(data.candidates) ? data.candidates[0] : undefined);
+    const parts = asRecord(candidate.content).parts;
+    return Array.isArray(parts) ? parts.map(part => asText(asRecord(part).text)).join('') : '';
+  },
+  extractStreamDelta(event) {
+    if (event.error) {
+      throw new AIProviderError(errorDetail(event) || 'AI stream returned an error');
+    }
+    // Streamed chunks have the same shape as a full response
+    return googleAdapter.extractContent(event);
+  },
+  extractUsage(data) {
+    const usage = asRecord(data.usageMetadata);
+    return withoutUndefined({
+      inputTokens: asCount(usage.promptTokenCount),
+      outputTokens: asCount(usage.candidatesTokenCount),
+      totalTokens: asCount(usage.totalTokenCount)
+    });
+  },
+  mapError: (status, body) => describeHTTPError(status, errorDetail(body))
+};
+
+/**
+ * OpenAI-compatible servers running on the user's machine (Ollama, llama.cpp, LM Studio, vLLM)
+ */
+const localAdapter: AIProviderAdapter = {
+  id: 'local',
+  name: 'Local (OpenAI-compatible)',
+  defaultEndpoint: 'http://localhost:11434/v1/chat/completions',
+  requiresApiKey: false,
+  buildRequest(request) {
+    const { config, stream } = request;
+    return {
+      url: config.apiEndpoint,
+      headers: {
+        ...(config.apiKey && { 'Authorization': `Bearer ${config.apiKey}` }),
+        'Content-Type': 'application/json'
+      },
+      body: {
+        model: config.selectedModel,
+        max_tokens: config.maxTokens || 4000,
+        temperature: config.temperature ?? 0.7,
+        messages: chatMessages(request),
+        ...(stream && { stream: true })
+      }
+    };
+  },
+  extractContent: openAIContent,
+  extractStreamDelta: openAIStreamDelta,
+  extractUsage: openAIUsage,
+  mapError: (status, body) => describeHTTPError(status, errorDetail(body)),
+  mapNetworkError(error, config) {
+    return error instanceof TypeError
+      ? `Could not reach the local AI server at ${config.apiEndpoint} - make sure it is running and allows requests from this site (CORS)`
+      : undefined;
+  }
+};
+
+/**
+ * Plain completion endpoints that take a single prompt string
+ */
+const customAdapter: AIProviderAdapter = {
+  id: 'custom',
+  name: 'Custom',
+  defaultEndpoint: '',
+  requiresApiKey: false,
+  buildRequest({ config, prompt, systemPrompt, stream }) {
+    return {
+      url: config.apiEndpoint,
+      headers: {
+        ...(config.apiKey && { 'Authorization': `Bearer ${config.apiKey}` }),
+        'Content-Type': 'application/json'
+      },
+      body: {
+        model: config.selectedModel,
+        max_tokens: config.maxTokens || 4000,
+        temperature: config.temperature ?? 0.7,
+        prompt: `${systemPrompt}\n\nUser: ${prompt}\nAssistant:`,
+        ...(stream && { stream: true })
+      }
+    };
+  },
+  extractContent(data) {
+    const content = asText(data.text) || openAIContent(data);
+    if (content) return content;
+
+    // Don't pass error or unrelated JSON bodies on as if they were the answer
+    const detail = errorDetail(data);
+    throw new AIProviderError(detail
+      ? `Custom AI endpoint returned an error: ${detail}`
+      : `Custom AI endpoint response has no "text" or "choices" field (keys: ${Object.keys(data).join(', ') || 'none'})`);
+  },
+  extractStreamDelta(event) {
+    return asText(event.text) || openAIStreamDelta(event);
+  },
+  extractUsage: openAIUsage,
+  mapError: (status, body) => describeHTTPError(status, errorDetail(body))
+};
+
+const providers = new Map<AIProviderId, AIProviderAdapter>(
+  [openAIAdapter, anthropicAdapter, googleAdapter, localAdapter, customAdapter].map(adapter => [adapter.id, adapter])
+);
+
+/**
+ * Register or replace a provider adapter
+ */
+export const registerAIProvider = (adapter: AIProviderAdapter): void => {
+  providers.set(adapter.id, adapter);
+};
+
+export const getAIProviders = (): AIProviderAdapter[] => Array.from(providers.values());
+
+/**
+ * Provider for a configuration: the explicit provider when set, otherwise inferred
+ * from the model name and endpoint (configurations saved before providers existed)
+ */
+export const getAIProvider = (config: Pick<AIConfiguration, 'provider' | 'selectedModel' | 'apiEndpoint'>): AIProviderAdapter => {
+  if (config.provider && providers.has(config.provider)) {
+    return providers.get(config.provider);
+  }
+
+  const model = config.selectedModel.toLowerCase();
+  let id: AIProviderId = 'custom';
+  if (model.startsWith('gpt') || /^o\d/.test(model)) id = 'openai';
+  else if (model.startsWith('claude')) id = 'anthropic';
+  else if (model.startsWith('gemini')) id = 'google';
+  else if (/\/\/(localhost|127\.0\.0\.1|\[::1\])[:/]/.test(config.apiEndpoint)) id = 'local';
+
+  return providers.get(id) || customAdapter;
+};
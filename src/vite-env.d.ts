@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SHORT_LINK_DOMAIN?: string;
+  readonly VITE_SHORT_LINK_PREFIX?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}